@@ -1,4 +1,4 @@
-import { type FormEvent, useMemo, useState } from 'react';
+import { type FormEvent, useCallback, useMemo, useState } from 'react';
 import type { ChannelCode, Nickname } from '@walkie/shared';
 import { ChannelScreen } from './screens/ChannelScreen';
 import { SocketService } from './services/socketService';
@@ -9,13 +9,15 @@ const SERVER_URL =
 
 type ScreenState =
   | { screen: 'join' }
-  | { screen: 'channel'; channelCode: ChannelCode; nickname: Nickname };
+  | { screen: 'channel'; channelCode: ChannelCode; nickname: Nickname; passphrase?: string };
 
 export default function App() {
   const socketService = useMemo(() => new SocketService(SERVER_URL), []);
   const [screen, setScreen] = useState<ScreenState>({ screen: 'join' });
   const [channelCode, setChannelCode] = useState('');
   const [nickname, setNickname] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseRequired, setPassphraseRequired] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -32,9 +34,24 @@ export default function App() {
       setError('Enter a nickname.');
       return;
     }
-    setScreen({ screen: 'channel', channelCode: code, nickname: name });
+    if (passphraseRequired && passphrase.length === 0) {
+      setError('Enter the channel passphrase.');
+      return;
+    }
+    setScreen({ screen: 'channel', channelCode: code, nickname: name, passphrase });
   };
 
+  const handlePassphraseRequired = useCallback((message: string) => {
+    setPassphraseRequired(true);
+    setError(message);
+    setScreen({ screen: 'join' });
+  }, []);
+
+  const handleRemoved = useCallback((message: string) => {
+    setError(message);
+    setScreen({ screen: 'join' });
+  }, []);
+
   const handleCreate = async () => {
     setError(null);
     const name = nickname.trim();
@@ -42,10 +59,14 @@ export default function App() {
       setError('Enter a nickname.');
       return;
     }
+    if (passphrase.length > 0 && passphrase.length < 4) {
+      setError('Passphrase must be at least 4 characters.');
+      return;
+    }
     setIsSubmitting(true);
     try {
       socketService.connect();
-      const response = await socketService.createChannel({ nickname: name });
+      const response = await socketService.createChannel({ nickname: name, passphrase });
       if (!response.ok) {
         setError(response.error);
         return;
@@ -54,6 +75,7 @@ export default function App() {
         screen: 'channel',
         channelCode: response.data.channel.code,
         nickname: response.data.user.nickname,
+        passphrase,
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unable to create channel.';
@@ -69,6 +91,9 @@ export default function App() {
         socketService={socketService}
         channelCode={screen.channelCode}
         nickname={screen.nickname}
+        passphrase={screen.passphrase}
+        onPassphraseRequired={handlePassphraseRequired}
+        onRemoved={handleRemoved}
       />
     );
   }
@@ -104,13 +129,32 @@ export default function App() {
               inputMode="numeric"
               pattern="\\d{4}"
               value={channelCode}
-              onChange={(event) => setChannelCode(event.target.value)}
+              onChange={(event) => {
+                setChannelCode(event.target.value);
+                setPassphraseRequired(false);
+              }}
               maxLength={4}
               className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-base text-white"
               placeholder="1234"
             />
           </label>
 
+          <label className="flex flex-col gap-2 text-sm text-slate-200">
+            {passphraseRequired ? 'Channel Passphrase' : 'Passphrase (optional)'}
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              maxLength={128}
+              autoFocus={passphraseRequired}
+              className={`rounded-lg border bg-slate-900/60 px-3 py-2 text-base text-white ${
+                passphraseRequired ? 'border-amber-500' : 'border-slate-800'
+              }`}
+              placeholder={passphraseRequired ? 'Required to join this channel' : 'Protect a new channel'}
+              required={passphraseRequired}
+            />
+          </label>
+
           {error ? <div className="text-sm text-red-300">{error}</div> : null}
 
           <div className="flex flex-col gap-3">
@@ -0,0 +1,108 @@
+import type { AudioHistoryItem } from '../hooks/useAudioHistory';
+
+export const PLAYBACK_RATES = [1, 1.5, 2] as const;
+
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+type AudioHistoryPanelProps = {
+  items: AudioHistoryItem[];
+  playingId: string | null;
+  playbackRate: PlaybackRate;
+  onPlaybackRateChange: (rate: PlaybackRate) => void;
+  onPlay: (item: AudioHistoryItem) => void;
+  onSkip: () => void;
+};
+
+const priorityBadges = {
+  routine: null,
+  important: 'bg-amber-500/80 text-slate-950',
+  urgent: 'bg-red-600 text-white',
+};
+
+const formatDuration = (durationMs: number | null) =>
+  durationMs === null ? '--' : `${(durationMs / 1000).toFixed(1)}s`;
+
+const Waveform = ({ peaks, active }: { peaks: number[] | null; active: boolean }) => (
+  <div className="flex h-6 flex-1 items-center gap-px" aria-hidden>
+    {(peaks ?? []).map((peak, index) => (
+      <div
+        key={`peak-${index}`}
+        className={`flex-1 rounded-sm ${active ? 'bg-emerald-400' : 'bg-slate-500'}`}
+        style={{ height: `${Math.max(8, Math.round(peak * 100))}%` }}
+      />
+    ))}
+    {peaks ? null : <div className="h-px flex-1 bg-slate-600" />}
+  </div>
+);
+
+export const AudioHistoryPanel = ({
+  items,
+  playingId,
+  playbackRate,
+  onPlaybackRateChange,
+  onPlay,
+  onSkip,
+}: AudioHistoryPanelProps) => (
+  <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-3 text-sm text-slate-100">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-slate-300">History</span>
+      <div className="flex items-center gap-1 text-xs">
+        {PLAYBACK_RATES.map((rate) => (
+          <button
+            key={rate}
+            type="button"
+            aria-pressed={playbackRate === rate}
+            onClick={() => onPlaybackRateChange(rate)}
+            className={`rounded px-2 py-1 ${playbackRate === rate ? 'bg-slate-600 text-white' : 'text-slate-300'}`}
+          >
+            {rate}x
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onSkip}
+          disabled={playingId === null}
+          className={`rounded bg-slate-700 px-2 py-1 ${playingId === null ? 'opacity-60' : ''}`}
+        >
+          Skip
+        </button>
+      </div>
+    </div>
+    <ul className="mt-2 flex max-h-64 flex-col gap-2 overflow-y-auto">
+      {items.length === 0 ? <li className="text-xs text-slate-400">No voice messages yet.</li> : null}
+      {[...items].reverse().map((item) => {
+        const isActive = playingId === item.id;
+        const badge = priorityBadges[item.priority];
+        return (
+          <li key={item.id} className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => onPlay(item)}
+              disabled={!item.blob}
+              aria-label={isActive ? 'Replay' : 'Play'}
+              className={`h-8 w-8 shrink-0 rounded-full ${isActive ? 'bg-emerald-600' : 'bg-slate-700'} ${
+                item.blob ? '' : 'opacity-40'
+              }`}
+            >
+              {isActive ? '↻' : '▶'}
+            </button>
+            <div className="flex min-w-0 flex-1 flex-col gap-1">
+              <div className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                <span className="truncate">
+                  {item.isSelf ? 'You' : item.senderNickname}
+                  {badge ? (
+                    <span className={`ml-2 rounded px-1 text-[10px] uppercase ${badge}`}>{item.priority}</span>
+                  ) : null}
+                </span>
+                <span className="shrink-0">
+                  {new Date(item.timestamp).toLocaleTimeString()} • {formatDuration(item.durationMs)}
+                </span>
+              </div>
+              <Waveform peaks={item.waveform} active={isActive} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
@@ -0,0 +1,76 @@
+import type { CatchUpWindowOption } from '../hooks/useCatchUp';
+
+type CatchUpPanelProps = {
+  missedCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isCatchingUp: boolean;
+  windowOption: CatchUpWindowOption;
+  error?: string | null;
+  onSelectWindow: (option: CatchUpWindowOption) => void;
+  onCatchUp: () => void;
+  onDismiss: () => void;
+};
+
+const windowLabels: Record<CatchUpWindowOption, string> = {
+  since: 'Since last heard',
+  minutes: 'Last 15 minutes',
+  count: 'Last 10 messages',
+};
+
+export const CatchUpPanel = ({
+  missedCount,
+  hasMore,
+  isLoading,
+  isCatchingUp,
+  windowOption,
+  error,
+  onSelectWindow,
+  onCatchUp,
+  onDismiss,
+}: CatchUpPanelProps) => {
+  const countLabel = `${missedCount}${hasMore ? '+' : ''}`;
+  const canCatchUp = missedCount > 0 && !isCatchingUp;
+
+  return (
+    <div className="w-full rounded-xl border border-sky-700/60 bg-sky-950/40 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-300">Missed messages</span>
+        <span className="text-slate-200">{isLoading && missedCount === 0 ? '…' : countLabel}</span>
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <select
+          value={windowOption}
+          onChange={(event) => onSelectWindow(event.target.value as CatchUpWindowOption)}
+          disabled={isCatchingUp}
+          className="rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-sm text-white"
+        >
+          {(Object.keys(windowLabels) as CatchUpWindowOption[]).map((option) => (
+            <option key={option} value={option}>
+              {windowLabels[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onCatchUp}
+          disabled={!canCatchUp}
+          className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${
+            canCatchUp ? 'active:scale-[0.98]' : 'opacity-60'
+          }`}
+        >
+          {isCatchingUp ? 'Catching up…' : 'Catch up'}
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          disabled={missedCount === 0 || isCatchingUp}
+          className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 disabled:opacity-60"
+        >
+          Skip
+        </button>
+      </div>
+      {error ? <p className="mt-2 text-red-300">{error}</p> : null}
+    </div>
+  );
+};
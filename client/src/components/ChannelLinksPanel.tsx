@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import type { ChannelLink } from '../services/socketService';
+
+type ChannelLinksPanelProps = {
+  links: ChannelLink[];
+  error?: string | null;
+  onSetLinked: (channelCode: string, linked: boolean) => void;
+};
+
+const CHANNEL_CODE_REGEX = /^\d{4}$/;
+
+const describeLink = (link: ChannelLink) => {
+  if (link.mutual) {
+    return 'Linked';
+  }
+  return link.outgoing ? 'Waiting for their owner' : 'Wants to link';
+};
+
+export const ChannelLinksPanel = ({ links, error, onSetLinked }: ChannelLinksPanelProps) => {
+  const [code, setCode] = useState('');
+  const canLink = CHANNEL_CODE_REGEX.test(code);
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">Linked channels</span>
+        <span className="text-slate-200">{links.filter((link) => link.mutual).length}</span>
+      </div>
+      <div className="mt-2 flex flex-col gap-1">
+        {links.map((link) => (
+          <div key={link.channelCode} className="flex items-center justify-between gap-2">
+            <span>
+              {link.channelCode}
+              <span className="ml-2 text-xs text-slate-400">{describeLink(link)}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => onSetLinked(link.channelCode, !link.outgoing)}
+              className="rounded bg-slate-700 px-2 py-1 text-xs"
+            >
+              {link.outgoing ? 'Unlink' : 'Accept'}
+            </button>
+          </div>
+        ))}
+      </div>
+      <form
+        className="mt-2 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!canLink) {
+            return;
+          }
+          onSetLinked(code, true);
+          setCode('');
+        }}
+      >
+        <input
+          value={code}
+          onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 4))}
+          inputMode="numeric"
+          placeholder="Channel code"
+          className="w-28 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+        />
+        <button
+          type="submit"
+          disabled={!canLink}
+          className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${canLink ? '' : 'opacity-60'}`}
+        >
+          Link
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import type { ChannelPolicy, ChannelRole } from '@walkie/shared/types';
+
+type ChannelPolicyPanelProps = {
+  policy: ChannelPolicy;
+  roles: ChannelRole[];
+  error?: string | null;
+  disabled?: boolean;
+  onChange: (policy: ChannelPolicy) => void;
+};
+
+const roleLabels: Record<ChannelRole, string> = {
+  member: 'Everyone',
+  moderator: 'Moderators',
+  owner: 'Owner only',
+};
+
+export const ChannelPolicyPanel = ({ policy, roles, error, disabled = false, onChange }: ChannelPolicyPanelProps) => (
+  <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-slate-300">Urgent messages</span>
+      <select
+        value={policy.urgentMinRole}
+        disabled={disabled}
+        onChange={(event) => onChange({ ...policy, urgentMinRole: event.target.value as ChannelRole })}
+        className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-white"
+      >
+        {roles.map((role) => (
+          <option key={role} value={role}>
+            {roleLabels[role]}
+          </option>
+        ))}
+      </select>
+    </label>
+    {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+  </div>
+);
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TimelineEntry } from '../hooks/useChannelTimeline';
+import type { AudioReceipts } from '../services/socketService';
+import { MAX_TEXT_LENGTH } from '../services/socketService';
+
+type ChannelTimelineProps = {
+  entries: TimelineEntry[];
+  receipts?: Record<string, AudioReceipts>;
+  onSendText: (body: string) => Promise<boolean>;
+  isSending?: boolean;
+  disabled?: boolean;
+  error?: string | null;
+};
+
+const priorityStyles = {
+  routine: '',
+  important: 'ring-1 ring-amber-400/70',
+  urgent: 'ring-2 ring-red-500',
+};
+
+const formatDuration = (durationMs: number | null) =>
+  durationMs === null ? 'Voice' : `Voice • ${Math.max(1, Math.round(durationMs / 1000))}s`;
+
+const describeReceipts = (receipts: AudioReceipts | undefined) =>
+  receipts ? `Delivered to ${receipts.deliveredCount}, heard by ${receipts.playedCount}` : 'Not delivered yet';
+
+export const ChannelTimeline = ({
+  entries,
+  receipts = {},
+  onSendText,
+  isSending = false,
+  disabled = false,
+  error,
+}: ChannelTimelineProps) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const canSend = !disabled && !isSending && draft.trim().length > 0;
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [entries.length]);
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 text-sm text-slate-100">
+      <div ref={listRef} className="flex max-h-72 flex-col gap-2 overflow-y-auto px-3 py-3">
+        {entries.length === 0 ? <p className="text-center text-xs text-slate-400">No messages yet.</p> : null}
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className={`max-w-[85%] rounded-2xl px-3 py-2 ${priorityStyles[entry.priority]} ${
+              entry.isSelf ? 'self-end bg-sky-700 text-white' : 'self-start bg-slate-800'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-3 text-[11px] text-white/70">
+              <span>{entry.isSelf ? 'You' : entry.senderNickname}</span>
+              <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </div>
+            {entry.kind === 'text' ? (
+              <p className="whitespace-pre-wrap break-words">{entry.body}</p>
+            ) : (
+              <p className="text-white/80">
+                🎙 {formatDuration(entry.durationMs)}
+                {entry.isPrivate ? <span className="ml-2 text-xs text-violet-200">Private</span> : null}
+                {entry.isSelf ? (
+                  <span
+                    className="block text-[11px] text-white/70"
+                    title={receipts[entry.id]?.playedBy.map((member) => member.nickname).join(', ')}
+                  >
+                    {describeReceipts(receipts[entry.id])}
+                  </span>
+                ) : null}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+      <form
+        className="flex gap-2 border-t border-slate-700 px-3 py-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!canSend) {
+            return;
+          }
+          void onSendText(draft).then((sent) => {
+            if (sent) {
+              setDraft('');
+            }
+          });
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value.slice(0, MAX_TEXT_LENGTH))}
+          disabled={disabled}
+          placeholder="Type a message"
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+        />
+        <button
+          type="submit"
+          disabled={!canSend}
+          className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${canSend ? '' : 'opacity-60'}`}
+        >
+          Send
+        </button>
+      </form>
+      {error ? <p className="px-3 pb-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
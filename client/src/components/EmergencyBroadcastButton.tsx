@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { EmergencyScope } from '@walkie/shared/types';
 
 type EmergencyBroadcastButtonProps = {
   onConfirm: () => void;
@@ -7,10 +8,19 @@ type EmergencyBroadcastButtonProps = {
   disabled?: boolean;
   error?: string | null;
   confirmWindowMs?: number;
+  scope?: EmergencyScope;
+  scopes?: EmergencyScope[];
+  onScopeChange?: (scope: EmergencyScope) => void;
 };
 
 const DEFAULT_CONFIRM_WINDOW_MS = 4_000;
 
+const scopeLabels: Record<EmergencyScope, { option: string; hint: string }> = {
+  channel: { option: 'This channel', hint: 'Press twice to alert this channel' },
+  linked: { option: 'Linked', hint: 'Press twice to alert this and linked channels' },
+  global: { option: 'All channels', hint: 'Press twice to alert every channel on the server' },
+};
+
 const formatSeconds = (value: number) => {
   const seconds = Math.max(0, Math.ceil(value / 1000));
   return `${seconds}s`;
@@ -29,6 +39,9 @@ export const EmergencyBroadcastButton = ({
   disabled = false,
   error,
   confirmWindowMs = DEFAULT_CONFIRM_WINDOW_MS,
+  scope = 'channel',
+  scopes = ['channel'],
+  onScopeChange,
 }: EmergencyBroadcastButtonProps) => {
   const [isConfirming, setIsConfirming] = useState(false);
   const [confirmRemaining, setConfirmRemaining] = useState(confirmWindowMs);
@@ -76,6 +89,10 @@ export const EmergencyBroadcastButton = ({
     }
   }, [isConfirming, isInteractive, resetConfirm]);
 
+  useEffect(() => {
+    resetConfirm();
+  }, [resetConfirm, scope]);
+
   const handlePress = useCallback(() => {
     if (!isInteractive) {
       return;
@@ -106,6 +123,25 @@ export const EmergencyBroadcastButton = ({
 
   return (
     <div className="flex w-full flex-col items-center gap-3">
+      {scopes.length > 1 ? (
+        <div className="flex w-full max-w-xs gap-1 rounded-xl bg-slate-900/60 p-1 text-xs" role="radiogroup">
+          {scopes.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={scope === option}
+              disabled={isSending}
+              onClick={() => onScopeChange?.(option)}
+              className={`flex-1 rounded-lg px-2 py-1 ${
+                scope === option ? 'bg-red-700 text-white' : 'text-slate-300'
+              }`}
+            >
+              {scopeLabels[option].option}
+            </button>
+          ))}
+        </div>
+      ) : null}
       <button
         type="button"
         aria-pressed={isConfirming}
@@ -126,7 +162,7 @@ export const EmergencyBroadcastButton = ({
             </span>
           </div>
           <span className="text-xs font-medium text-white/80">
-            Press twice to send a global alert
+            {scopeLabels[scope].hint}
           </span>
         </div>
       </button>
@@ -0,0 +1,47 @@
+import type { EmergencyBroadcast } from '@walkie/shared/types';
+import type { EmergencyStatusUpdate } from '../services/socketService';
+
+type EmergencyStatusPanelProps = {
+  broadcast: EmergencyBroadcast;
+  status?: EmergencyStatusUpdate;
+  onResolve: () => void;
+  onDismiss: () => void;
+};
+
+export const EmergencyStatusPanel = ({ broadcast, status, onResolve, onDismiss }: EmergencyStatusPanelProps) => {
+  const isResolved = status?.status === 'resolved';
+  const acknowledgedCount = status?.acknowledgedCount ?? 0;
+  const recipientCount = status?.recipientCount ?? 0;
+  const names = status?.acknowledgedBy.map((entry) => entry.nickname).join(', ');
+
+  return (
+    <div className="w-full rounded-xl border border-red-500/60 bg-red-950/50 px-4 py-3 text-sm text-red-50">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold uppercase tracking-wide">
+          {isResolved ? 'SOS resolved' : 'SOS sent'}
+        </span>
+        <span className="text-red-200">{new Date(broadcast.createdAt).toLocaleTimeString()}</span>
+      </div>
+      <div className="mt-1 text-base">
+        {recipientCount === 0
+          ? 'Nobody else was on the channel.'
+          : `${acknowledgedCount} of ${recipientCount} acknowledged`}
+      </div>
+      {names ? <div className="mt-1 text-xs text-red-200">{names}</div> : null}
+      {isResolved && status?.resolvedBy ? (
+        <div className="mt-1 text-xs text-red-200">Resolved by {status.resolvedBy.nickname}</div>
+      ) : null}
+      <div className="mt-2 flex gap-2">
+        {isResolved ? (
+          <button type="button" onClick={onDismiss} className="rounded-lg bg-slate-700 px-3 py-1 text-white">
+            Dismiss
+          </button>
+        ) : (
+          <button type="button" onClick={onResolve} className="rounded-lg bg-emerald-600 px-3 py-1 font-semibold text-white">
+            Mark resolved
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import type { GeofenceShape } from '@walkie/shared/types';
+import type { GeofenceSummary, MemberLocation } from '../services/socketService';
+import { formatDistance } from '../utils/geo';
+
+type GeofencePanelProps = {
+  geofences: GeofenceSummary[];
+  canManage: boolean;
+  position: MemberLocation | null;
+  error?: string | null;
+  onCreate: (name: string, shape: GeofenceShape, alertAfterMs: number | null) => Promise<boolean>;
+  onDelete: (geofenceId: string) => void;
+};
+
+type ShapeType = GeofenceShape['type'];
+
+const ALERT_OPTIONS = [
+  { label: 'No alert', value: 0 },
+  { label: 'Alert after 1 min', value: 60_000 },
+  { label: 'Alert after 5 min', value: 5 * 60_000 },
+  { label: 'Alert after 15 min', value: 15 * 60_000 },
+  { label: 'Alert after 30 min', value: 30 * 60_000 },
+];
+
+const parsePoint = (value: string) => {
+  const [lat, lng] = value.split(',').map((part) => Number(part.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+};
+
+const formatPoint = (position: MemberLocation) => `${position.lat.toFixed(6)}, ${position.lng.toFixed(6)}`;
+
+const describeShape = (shape: GeofenceShape) =>
+  shape.type === 'circle' ? `${formatDistance(shape.radiusMeters)} radius` : `${shape.points.length}-point area`;
+
+export const GeofencePanel = ({ geofences, canManage, position, error, onCreate, onDelete }: GeofencePanelProps) => {
+  const [name, setName] = useState('');
+  const [shapeType, setShapeType] = useState<ShapeType>('circle');
+  const [center, setCenter] = useState('');
+  const [radius, setRadius] = useState('200');
+  const [points, setPoints] = useState('');
+  const [alertAfterMs, setAlertAfterMs] = useState(0);
+
+  if (!canManage && geofences.length === 0) {
+    return null;
+  }
+
+  const buildShape = (): GeofenceShape | null => {
+    if (shapeType === 'circle') {
+      const parsed = parsePoint(center);
+      const radiusMeters = Number(radius);
+      return parsed && Number.isFinite(radiusMeters) && radiusMeters > 0
+        ? { type: 'circle', center: parsed, radiusMeters }
+        : null;
+    }
+    const parsed = points
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map(parsePoint);
+    if (parsed.length < 3 || parsed.some((point) => point === null)) {
+      return null;
+    }
+    return { type: 'polygon', points: parsed as { lat: number; lng: number }[] };
+  };
+
+  const shape = buildShape();
+  const canCreate = name.trim().length > 0 && shape !== null;
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">Geofences</span>
+        <span className="text-slate-200">{geofences.length}</span>
+      </div>
+      <div className="mt-2 flex flex-col gap-1">
+        {geofences.map((geofence) => (
+          <div key={geofence.id} className="flex items-center justify-between gap-2">
+            <span>
+              {geofence.name}
+              <span className="ml-2 text-xs text-slate-400">
+                {describeShape(geofence.shape)}
+                {geofence.alertAfterMs ? `, alert after ${Math.round(geofence.alertAfterMs / 60_000)} min` : ''}
+              </span>
+            </span>
+            {canManage ? (
+              <button
+                type="button"
+                onClick={() => onDelete(geofence.id)}
+                className="rounded bg-slate-700 px-2 py-1 text-xs"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+      {canManage ? (
+        <form
+          className="mt-3 flex flex-col gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!canCreate || !shape) {
+              return;
+            }
+            void onCreate(name.trim(), shape, alertAfterMs || null).then((created) => {
+              if (created) {
+                setName('');
+                setPoints('');
+              }
+            });
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value.slice(0, 40))}
+              placeholder="Name"
+              className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+            />
+            <select
+              value={shapeType}
+              onChange={(event) => setShapeType(event.target.value as ShapeType)}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-white"
+            >
+              <option value="circle">Circle</option>
+              <option value="polygon">Polygon</option>
+            </select>
+          </div>
+          {shapeType === 'circle' ? (
+            <div className="flex gap-2">
+              <input
+                value={center}
+                onChange={(event) => setCenter(event.target.value)}
+                placeholder="Center lat, lng"
+                className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+              />
+              <input
+                value={radius}
+                onChange={(event) => setRadius(event.target.value.replace(/\D/g, '').slice(0, 5))}
+                inputMode="numeric"
+                aria-label="Radius in metres"
+                className="w-20 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+              />
+              <button
+                type="button"
+                disabled={!position}
+                onClick={() => position && setCenter(formatPoint(position))}
+                className={`rounded-lg bg-slate-700 px-2 py-1 text-xs ${position ? '' : 'opacity-60'}`}
+              >
+                Here
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <textarea
+                value={points}
+                onChange={(event) => setPoints(event.target.value)}
+                rows={4}
+                placeholder="One lat, lng per line (at least 3)"
+                className="rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+              />
+              <button
+                type="button"
+                disabled={!position}
+                onClick={() =>
+                  position && setPoints((prev) => `${prev.trimEnd()}${prev.trim() ? '\n' : ''}${formatPoint(position)}`)
+                }
+                className={`self-start rounded-lg bg-slate-700 px-2 py-1 text-xs ${position ? '' : 'opacity-60'}`}
+              >
+                Add my position
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <select
+              value={alertAfterMs}
+              onChange={(event) => setAlertAfterMs(Number(event.target.value))}
+              className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-white"
+            >
+              {ALERT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!canCreate}
+              className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${canCreate ? '' : 'opacity-60'}`}
+            >
+              Add
+            </button>
+          </div>
+        </form>
+      ) : null}
+      {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { MessagePriority } from '@walkie/shared/types';
 
 type PushToTalkButtonProps = {
   isRecording: boolean;
@@ -9,10 +10,24 @@ type PushToTalkButtonProps = {
   onStopRecording: () => void;
   maxDurationMs?: number;
   disabled?: boolean;
+  busyNickname?: string | null;
+  priority?: MessagePriority;
+  priorities?: MessagePriority[];
+  onPriorityChange?: (priority: MessagePriority) => void;
+  onEscalate?: () => void;
 };
 
 const LEVEL_SEGMENTS = 10;
 const DEFAULT_MAX_DURATION_MS = 30_000;
+// Holding the button silently this long escalates the transmission to urgent.
+const URGENT_HOLD_MS = 1_200;
+const SPEECH_LEVEL = 15;
+
+const priorityLabels: Record<MessagePriority, string> = {
+  routine: 'Routine',
+  important: 'Important',
+  urgent: 'Urgent',
+};
 
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
@@ -31,20 +46,38 @@ export const PushToTalkButton = ({
   onStopRecording,
   maxDurationMs = DEFAULT_MAX_DURATION_MS,
   disabled = false,
+  busyNickname = null,
+  priority = 'routine',
+  priorities = ['routine'],
+  onPriorityChange,
+  onEscalate,
 }: PushToTalkButtonProps) => {
   const [pressedAt, setPressedAt] = useState<number | null>(null);
   const [remainingSeconds, setRemainingSeconds] = useState(Math.ceil(maxDurationMs / 1000));
+  const [escalation, setEscalation] = useState<'pending' | 'escalated' | null>(null);
   const pressedRef = useRef(false);
+  const escalateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const canEscalate = Boolean(onEscalate) && priority !== 'urgent' && priorities.includes('urgent');
 
-  const isBusy = isSending || isReceiving;
+  const clearEscalateTimer = () => {
+    if (escalateTimerRef.current) {
+      clearTimeout(escalateTimerRef.current);
+      escalateTimerRef.current = null;
+    }
+  };
+
+  const isChannelBusy = busyNickname !== null && !isRecording;
+  const isBusy = isSending || isReceiving || isChannelBusy;
   const isInteractive = !disabled && !isBusy;
 
   const status = useMemo(() => {
     if (isRecording) return 'recording';
     if (isSending) return 'sending';
+    if (isChannelBusy) return 'busy';
     if (isReceiving) return 'receiving';
     return 'idle';
-  }, [isRecording, isSending, isReceiving]);
+  }, [isChannelBusy, isRecording, isSending, isReceiving]);
 
   useEffect(() => {
     if (!isRecording) {
@@ -71,6 +104,15 @@ export const PushToTalkButton = ({
     };
   }, [isRecording, maxDurationMs, pressedAt]);
 
+  useEffect(() => {
+    if (escalation === 'pending' && audioLevel >= SPEECH_LEVEL) {
+      clearEscalateTimer();
+      setEscalation(null);
+    }
+  }, [audioLevel, escalation]);
+
+  useEffect(() => clearEscalateTimer, []);
+
   const handleStart = useCallback(
     (event: React.PointerEvent<HTMLButtonElement>) => {
       if (!isInteractive || pressedRef.current) {
@@ -80,8 +122,17 @@ export const PushToTalkButton = ({
       pressedRef.current = true;
       vibrate(10);
       onStartRecording();
+      if (canEscalate) {
+        setEscalation('pending');
+        escalateTimerRef.current = setTimeout(() => {
+          escalateTimerRef.current = null;
+          setEscalation('escalated');
+          vibrate([30, 30, 30]);
+          onEscalate?.();
+        }, URGENT_HOLD_MS);
+      }
     },
-    [isInteractive, onStartRecording],
+    [canEscalate, isInteractive, onEscalate, onStartRecording],
   );
 
   const handleStop = useCallback(() => {
@@ -89,6 +140,8 @@ export const PushToTalkButton = ({
       return;
     }
     pressedRef.current = false;
+    clearEscalateTimer();
+    setEscalation(null);
     vibrate([8, 16, 8]);
     onStopRecording();
   }, [onStopRecording]);
@@ -104,6 +157,7 @@ export const PushToTalkButton = ({
     recording: 'bg-red-600 text-white shadow-red-900/40',
     sending: 'bg-sky-600 text-white shadow-sky-900/40',
     receiving: 'bg-amber-500 text-slate-950 shadow-amber-900/40',
+    busy: 'bg-slate-700 text-white shadow-slate-900/40',
   };
 
   const statusLabel = {
@@ -111,10 +165,38 @@ export const PushToTalkButton = ({
     recording: 'Recording...',
     sending: 'Sending...',
     receiving: 'Receiving...',
+    busy: 'Channel Busy',
   };
 
+  const subLabel = (() => {
+    if (escalation === 'escalated') return `Urgent • Max ${remainingSeconds}s`;
+    if (escalation === 'pending' && isRecording) return 'Keep holding silently for urgent';
+    if (isRecording) return `Max ${remainingSeconds}s`;
+    if (isChannelBusy) return `${busyNickname} is talking`;
+    return canEscalate ? 'Press and hold • hold silently for urgent' : 'Press and hold';
+  })();
+
   return (
     <div className="flex w-full flex-col items-center gap-4">
+      {priorities.length > 1 ? (
+        <div className="flex w-full max-w-xs gap-1 rounded-xl bg-slate-900/60 p-1 text-xs" role="radiogroup">
+          {priorities.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={priority === option}
+              disabled={isRecording}
+              onClick={() => onPriorityChange?.(option)}
+              className={`flex-1 rounded-lg px-2 py-1 ${
+                priority === option ? 'bg-slate-600 text-white' : 'text-slate-300'
+              }`}
+            >
+              {priorityLabels[option]}
+            </button>
+          ))}
+        </div>
+      ) : null}
       <button
         type="button"
         aria-pressed={isRecording}
@@ -129,7 +211,7 @@ export const PushToTalkButton = ({
         <div className="flex flex-col items-center gap-2">
           <span>{statusLabel[status]}</span>
           <span className="text-sm font-medium tracking-wide text-white/80">
-            {isRecording ? `Max ${remainingSeconds}s` : 'Press and hold'}
+            {subLabel}
           </span>
         </div>
       </button>
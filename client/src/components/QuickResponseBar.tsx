@@ -0,0 +1,49 @@
+import type { QuickResponseEvent, QuickResponseKind } from '../services/socketService';
+
+type QuickResponseBarProps = {
+  recent: QuickResponseEvent[];
+  onSend: (kind: QuickResponseKind) => void;
+  disabled?: boolean;
+  error?: string | null;
+};
+
+const QUICK_RESPONSES: { kind: QuickResponseKind; label: string }[] = [
+  { kind: 'ack', label: 'Copy' },
+  { kind: 'enroute', label: 'En route' },
+  { kind: 'standby', label: 'Standby' },
+  { kind: 'clear', label: 'Clear' },
+  { kind: 'assist', label: 'Assist' },
+];
+
+export const QuickResponseBar = ({ recent, onSend, disabled = false, error }: QuickResponseBarProps) => (
+  <div className="flex w-full flex-col items-center gap-2">
+    <div className="flex w-full max-w-xs gap-1">
+      {QUICK_RESPONSES.map(({ kind, label }) => (
+        <button
+          key={kind}
+          type="button"
+          disabled={disabled}
+          onClick={() => onSend(kind)}
+          className={`flex-1 rounded-lg px-1 py-2 text-xs font-semibold ${
+            kind === 'assist' ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-100'
+          } ${disabled ? 'opacity-60' : 'active:scale-[0.97]'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+    {recent.length > 0 ? (
+      <ul className="w-full max-w-xs text-xs text-slate-400">
+        {recent.map((response) => (
+          <li key={response.id} className="flex justify-between gap-2">
+            <span>
+              {response.fromNickname} • {response.message}
+            </span>
+            <span>{new Date(response.timestamp).toLocaleTimeString()}</span>
+          </li>
+        ))}
+      </ul>
+    ) : null}
+    {error ? <p className="max-w-xs text-center text-xs text-red-300">{error}</p> : null}
+  </div>
+);
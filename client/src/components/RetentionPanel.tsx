@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import type { ChannelRetention } from '@walkie/shared/types';
+import type { ChannelRetentionSettings } from '../services/socketService';
+
+type RetentionPanelProps = {
+  settings: ChannelRetentionSettings | null;
+  error?: string | null;
+  onSave: (retention: ChannelRetention) => void;
+};
+
+type RetentionDraft = {
+  maxMessages: string;
+  maxAgeDays: string;
+  maxMegabytes: string;
+};
+
+const BYTES_PER_MEGABYTE = 1_000_000;
+
+const toDraft = (retention: ChannelRetention | undefined): RetentionDraft => ({
+  maxMessages: retention?.maxMessages?.toString() ?? '',
+  maxAgeDays: retention?.maxAgeDays?.toString() ?? '',
+  maxMegabytes: retention?.maxBytes ? String(Math.round(retention.maxBytes / BYTES_PER_MEGABYTE)) : '',
+});
+
+// An empty field means "use the server default".
+const parseLimit = (value: string) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const RetentionPanel = ({ settings, error, onSave }: RetentionPanelProps) => {
+  const [draft, setDraft] = useState<RetentionDraft>(() => toDraft(settings?.retention));
+
+  useEffect(() => {
+    setDraft(toDraft(settings?.retention));
+  }, [settings]);
+
+  const defaults = settings?.defaults;
+  const fields: { key: keyof RetentionDraft; label: string; placeholder?: number }[] = [
+    { key: 'maxMessages', label: 'Messages', placeholder: defaults?.maxMessages },
+    { key: 'maxAgeDays', label: 'Days', placeholder: defaults?.maxAgeDays },
+    {
+      key: 'maxMegabytes',
+      label: 'MB',
+      placeholder: defaults ? Math.round(defaults.maxBytes / BYTES_PER_MEGABYTE) : undefined,
+    },
+  ];
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">Message retention</span>
+        <span className="text-xs text-slate-400">Blank uses the server default</span>
+      </div>
+      <form
+        className="mt-2 flex flex-wrap items-end gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          const maxMegabytes = parseLimit(draft.maxMegabytes);
+          onSave({
+            maxMessages: parseLimit(draft.maxMessages),
+            maxAgeDays: parseLimit(draft.maxAgeDays),
+            maxBytes: maxMegabytes === null ? null : maxMegabytes * BYTES_PER_MEGABYTE,
+          });
+        }}
+      >
+        {fields.map((field) => (
+          <label key={field.key} className="flex flex-col text-xs text-slate-400">
+            {field.label}
+            <input
+              value={draft[field.key]}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, [field.key]: event.target.value.replace(/\D/g, '') }))
+              }
+              inputMode="numeric"
+              placeholder={field.placeholder?.toString()}
+              className="w-20 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-sm text-white"
+            />
+          </label>
+        ))}
+        <button
+          type="submit"
+          disabled={!settings}
+          className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${settings ? '' : 'opacity-60'}`}
+        >
+          Save
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import type { ScanMode } from '@walkie/shared/types';
+import type { ScanChannel } from '../hooks/useScanList';
+
+type ScanListPanelProps = {
+  channelCode: string;
+  channels: ScanChannel[];
+  priorityChannel: string | null;
+  error?: string | null;
+  onAdd: (channelCode: string, mode: ScanMode, passphrase?: string) => Promise<boolean>;
+  onRemove: (channelCode: string) => void;
+  onSetMode: (channelCode: string, mode: ScanMode) => void;
+  onSetMuted: (channelCode: string, muted: boolean) => void;
+  onSetPriority: (channelCode: string | null) => void;
+};
+
+const CHANNEL_CODE_REGEX = /^\d{4}$/;
+
+const describeStatus = (channel: ScanChannel) => {
+  if (channel.status === 'error') {
+    return channel.error ?? 'Unavailable';
+  }
+  if (channel.status === 'joining') {
+    return 'Joining…';
+  }
+  return channel.mode === 'listen' ? 'Listening' : 'Full member';
+};
+
+export const ScanListPanel = ({
+  channelCode,
+  channels,
+  priorityChannel,
+  error,
+  onAdd,
+  onRemove,
+  onSetMode,
+  onSetMuted,
+  onSetPriority,
+}: ScanListPanelProps) => {
+  const [code, setCode] = useState('');
+  const [mode, setMode] = useState<ScanMode>('listen');
+  const [passphrase, setPassphrase] = useState('');
+  const canAdd = CHANNEL_CODE_REGEX.test(code) && code !== channelCode;
+
+  const renderPriority = (targetCode: string) => (
+    <button
+      type="button"
+      onClick={() => onSetPriority(priorityChannel === targetCode ? null : targetCode)}
+      aria-pressed={priorityChannel === targetCode}
+      title="Audio on the priority channel interrupts the others"
+      className={`rounded px-2 py-1 text-xs ${priorityChannel === targetCode ? 'bg-amber-600 text-white' : 'bg-slate-700'}`}
+    >
+      Priority
+    </button>
+  );
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">Scan list</span>
+        <span className="text-slate-200">{channels.filter((channel) => channel.status === 'active').length}</span>
+      </div>
+      <div className="mt-2 flex flex-col gap-1">
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            {channelCode}
+            <span className="ml-2 text-xs text-slate-400">Transmit</span>
+          </span>
+          {renderPriority(channelCode)}
+        </div>
+        {channels.map((channel) => (
+          <div key={channel.channelCode} className="flex items-center justify-between gap-2">
+            <span className={channel.muted ? 'text-slate-500' : undefined}>
+              {channel.channelCode}
+              <span className={`ml-2 text-xs ${channel.status === 'error' ? 'text-red-300' : 'text-slate-400'}`}>
+                {describeStatus(channel)}
+              </span>
+            </span>
+            <div className="flex items-center gap-1">
+              {renderPriority(channel.channelCode)}
+              <button
+                type="button"
+                onClick={() => onSetMuted(channel.channelCode, !channel.muted)}
+                aria-pressed={channel.muted}
+                className="rounded bg-slate-700 px-2 py-1 text-xs"
+              >
+                {channel.muted ? 'Unmute' : 'Mute'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onSetMode(channel.channelCode, channel.mode === 'listen' ? 'full' : 'listen')}
+                className="rounded bg-slate-700 px-2 py-1 text-xs"
+              >
+                {channel.mode === 'listen' ? 'Join fully' : 'Listen only'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(channel.channelCode)}
+                className="rounded bg-slate-700 px-2 py-1 text-xs"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <form
+        className="mt-2 flex flex-wrap gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!canAdd) {
+            return;
+          }
+          void onAdd(code, mode, passphrase || undefined).then((added) => {
+            if (added) {
+              setCode('');
+              setPassphrase('');
+            }
+          });
+        }}
+      >
+        <input
+          value={code}
+          onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 4))}
+          inputMode="numeric"
+          placeholder="Channel code"
+          className="w-28 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+        />
+        <input
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          type="password"
+          placeholder="Passphrase"
+          className="w-28 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1 text-white"
+        />
+        <select
+          value={mode}
+          onChange={(event) => setMode(event.target.value as ScanMode)}
+          className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-white"
+        >
+          <option value="listen">Listen only</option>
+          <option value="full">Full</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!canAdd}
+          className={`rounded-lg bg-sky-600 px-3 py-1 font-semibold text-white ${canAdd ? '' : 'opacity-60'}`}
+        >
+          Scan
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
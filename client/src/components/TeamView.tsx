@@ -0,0 +1,87 @@
+import type { UserSummary } from './UserList';
+import type { MemberLocation } from '../services/socketService';
+import { bearingDegrees, compassPoint, distanceMeters, formatDistance } from '../utils/geo';
+
+type TeamViewProps = {
+  users: UserSummary[];
+  self: MemberLocation | null;
+  sharing: boolean;
+  supported: boolean;
+  error?: string | null;
+  onSharingChange: (sharing: boolean) => void;
+};
+
+const STALE_AFTER_MS = 2 * 60_000;
+
+const describeAge = (updatedAt: string | Date) => {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(updatedAt).getTime()) / 1000));
+  if (seconds < 60) {
+    return `${seconds}s ago`;
+  }
+  return `${Math.round(seconds / 60)}m ago`;
+};
+
+export const TeamView = ({ users, self, sharing, supported, error, onSharingChange }: TeamViewProps) => {
+  const located = users
+    .filter((user) => !user.isSelf && user.location)
+    .map((user) => {
+      const location = user.location!;
+      const distance = self ? distanceMeters(self, location) : null;
+      const bearing = self ? bearingDegrees(self, location) : null;
+      // Rotate the arrow relative to our own heading when the device reports one.
+      const relative = bearing !== null && self?.heading != null ? (bearing - self.heading + 360) % 360 : bearing;
+      return { user, location, distance, bearing, relative };
+    })
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+
+  return (
+    <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">Team positions</span>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={sharing}
+            disabled={!supported}
+            onChange={(event) => onSharingChange(event.target.checked)}
+          />
+          Share my location
+        </label>
+      </div>
+      {!supported ? <p className="mt-2 text-xs text-slate-400">Location is not available on this device.</p> : null}
+      {sharing && !self && !error ? <p className="mt-2 text-xs text-slate-400">Waiting for a position fix…</p> : null}
+      <div className="mt-2 flex flex-col gap-1">
+        {located.length === 0 ? (
+          <span className="text-slate-400">Nobody else is sharing a position.</span>
+        ) : (
+          located.map(({ user, location, distance, bearing, relative }) => {
+            const stale = Date.now() - new Date(location.updatedAt).getTime() > STALE_AFTER_MS;
+            return (
+              <div key={user.id} className="flex items-center justify-between gap-2">
+                <span className={stale ? 'text-slate-500' : undefined}>{user.nickname}</span>
+                {distance !== null && bearing !== null && relative !== null ? (
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="inline-block text-sky-300"
+                      style={{ transform: `rotate(${relative}deg)` }}
+                      aria-hidden="true"
+                    >
+                      ↑
+                    </span>
+                    <span>
+                      {formatDistance(distance)} {compassPoint(bearing)} ({Math.round(bearing)}°)
+                    </span>
+                    <span className="text-xs text-slate-400">{describeAge(location.updatedAt)}</span>
+                  </span>
+                ) : (
+                  <span className="text-xs text-slate-400">Share yours to see bearing</span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+      {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+type ToastProps = {
+  message: string;
+  onDismiss: () => void;
+};
+
+export const Toast = ({ message, onDismiss }: ToastProps) => (
+  <div className="pointer-events-none fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+    <button
+      type="button"
+      role="status"
+      onClick={onDismiss}
+      className="pointer-events-auto rounded-full bg-slate-800/95 px-4 py-2 text-sm text-white shadow-lg"
+    >
+      {message}
+    </button>
+  </div>
+);
@@ -1,20 +1,129 @@
+import { useState } from 'react';
+import type { ChannelRole, ConnectionQuality, ConnectionStatus, PresenceStatus } from '@walkie/shared/types';
+import type { MemberLocation, MemberPresence } from '../services/socketService';
+
 export type UserSummary = {
   id: string;
   nickname: string;
   isSelf?: boolean;
+  connectionStatus?: ConnectionStatus;
+  role?: ChannelRole;
+  mutedUntil?: string | Date | null;
+  joinedAt?: string | Date;
+  lastActivityAt?: string | Date;
+  presence?: MemberPresence | null;
+  location?: MemberLocation | null;
+  listenOnly?: boolean;
 };
 
+export type ModerationAction =
+  | { type: 'mute'; durationMs: number }
+  | { type: 'kick' }
+  | { type: 'ban' }
+  | { type: 'role'; role: Exclude<ChannelRole, 'owner'> };
+
 type UserListProps = {
   users: UserSummary[];
+  selfRole?: ChannelRole;
+  onModerate?: (user: UserSummary, action: ModerationAction) => void;
+  privateUserId?: string | null;
+  onSelectPrivate?: (user: UserSummary | null) => void;
+};
+
+const roleRank: Record<ChannelRole, number> = {
+  member: 0,
+  moderator: 1,
+  owner: 2,
+};
+
+const roleBadges: Partial<Record<ChannelRole, { label: string; className: string }>> = {
+  owner: { label: 'Owner', className: 'bg-amber-700/80 text-amber-100' },
+  moderator: { label: 'Mod', className: 'bg-sky-800/80 text-sky-100' },
+};
+
+const presenceDots: Record<PresenceStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-emerald-400' },
+  idle: { label: 'Idle', className: 'bg-amber-400' },
+  away: { label: 'Away', className: 'bg-slate-500' },
+};
+
+const signalStrength: Record<ConnectionQuality, number> = {
+  good: 3,
+  ok: 2,
+  poor: 1,
+  offline: 0,
+};
+
+const SIGNAL_BAR_HEIGHTS = ['h-1', 'h-2', 'h-3'];
+
+const getPresenceDot = (user: UserSummary) => {
+  if (user.connectionStatus === 'disconnected') {
+    return { label: 'Offline', className: 'bg-red-500' };
+  }
+  return user.presence ? presenceDots[user.presence.status] : { label: 'Unknown', className: 'bg-slate-700' };
+};
+
+const describeBattery = (presence: MemberPresence) => {
+  if (presence.batteryLevel === null) {
+    return null;
+  }
+  const percent = Math.round(presence.batteryLevel * 100);
+  return `${presence.charging ? '⚡' : ''}${percent}%`;
+};
+
+const SignalBars = ({ quality }: { quality: ConnectionQuality }) => {
+  const strength = signalStrength[quality];
+  return (
+    <span className="flex items-end gap-px" title={`Signal: ${quality}`} aria-label={`Signal ${quality}`}>
+      {SIGNAL_BAR_HEIGHTS.map((height, index) => (
+        <span
+          key={height}
+          className={`w-1 rounded-sm ${height} ${index < strength ? 'bg-slate-200' : 'bg-slate-600'}`}
+        />
+      ))}
+    </span>
+  );
+};
+
+const isMuted = (user: UserSummary) =>
+  Boolean(user.mutedUntil && new Date(user.mutedUntil).getTime() > Date.now());
+
+const describeActivity = (user: UserSummary) => {
+  const parts: string[] = [];
+  if (user.joinedAt) {
+    parts.push(`Joined ${new Date(user.joinedAt).toLocaleTimeString()}`);
+  }
+  if (user.lastActivityAt) {
+    parts.push(`last active ${new Date(user.lastActivityAt).toLocaleTimeString()}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : undefined;
 };
 
-export const UserList = ({ users }: UserListProps) => {
+export const UserList = ({
+  users,
+  selfRole = 'member',
+  onModerate,
+  privateUserId = null,
+  onSelectPrivate,
+}: UserListProps) => {
+  const [menuUserId, setMenuUserId] = useState<string | null>(null);
   const sorted = [...users].sort((a, b) => {
     if (a.isSelf && !b.isSelf) return -1;
     if (!a.isSelf && b.isSelf) return 1;
     return a.nickname.localeCompare(b.nickname);
   });
 
+  const canModerate = (user: UserSummary) =>
+    Boolean(onModerate) &&
+    !user.isSelf &&
+    roleRank[selfRole] >= roleRank.moderator &&
+    roleRank[selfRole] > roleRank[user.role ?? 'member'];
+
+  const runAction = (user: UserSummary, action: ModerationAction) => {
+    setMenuUserId(null);
+    onModerate?.(user, action);
+  };
+
   return (
     <div className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100">
       <div className="flex items-center justify-between">
@@ -25,16 +134,148 @@ export const UserList = ({ users }: UserListProps) => {
         {sorted.length === 0 ? (
           <span className="text-slate-400">No users tracked yet.</span>
         ) : (
-          sorted.map((user) => (
-            <div key={user.id} className="flex items-center justify-between">
-              <span>{user.nickname}</span>
-              {user.isSelf ? (
-                <span className="rounded-full bg-slate-700/80 px-2 py-0.5 text-xs text-slate-200">
-                  You
-                </span>
-              ) : null}
-            </div>
-          ))
+          sorted.map((user) => {
+            const badge = user.role ? roleBadges[user.role] : undefined;
+            const muted = isMuted(user);
+            const dot = getPresenceDot(user);
+            const presence = user.connectionStatus === 'disconnected' ? null : user.presence;
+            const battery = presence ? describeBattery(presence) : null;
+            return (
+              <div key={user.id} className="flex flex-col gap-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className={`h-2 w-2 shrink-0 rounded-full ${dot.className}`}
+                      title={dot.label}
+                      aria-label={dot.label}
+                    />
+                    {onSelectPrivate && !user.isSelf && user.connectionStatus !== 'disconnected' ? (
+                      <button
+                        type="button"
+                        onClick={() => onSelectPrivate(privateUserId === user.id ? null : user)}
+                        aria-pressed={privateUserId === user.id}
+                        title={privateUserId === user.id ? 'Back to channel' : `Talk privately to ${user.nickname}`}
+                        className={`rounded px-1 text-left ${
+                          privateUserId === user.id ? 'bg-violet-700 text-white' : 'underline decoration-dotted'
+                        }`}
+                      >
+                        {user.nickname}
+                      </button>
+                    ) : (
+                      <span
+                        className={user.connectionStatus === 'disconnected' ? 'text-slate-500' : undefined}
+                        title={describeActivity(user)}
+                      >
+                        {user.nickname}
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {battery ? (
+                      <span
+                        className={`text-xs ${presence?.lowPowerMode ? 'text-red-300' : 'text-slate-400'}`}
+                        title={presence?.lowPowerMode ? 'Low battery' : 'Battery'}
+                      >
+                        {battery}
+                      </span>
+                    ) : null}
+                    {presence ? <SignalBars quality={presence.connectionQuality} /> : null}
+                    {badge ? (
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${badge.className}`}>{badge.label}</span>
+                    ) : null}
+                    {muted ? (
+                      <span className="rounded-full bg-red-900/60 px-2 py-0.5 text-xs text-red-200">Muted</span>
+                    ) : null}
+                    {user.listenOnly ? (
+                      <span
+                        className="rounded-full bg-slate-700/80 px-2 py-0.5 text-xs text-slate-300"
+                        title="Scanning this channel in listen-only mode"
+                      >
+                        Listening
+                      </span>
+                    ) : null}
+                    {user.isSelf ? (
+                      <span className="rounded-full bg-slate-700/80 px-2 py-0.5 text-xs text-slate-200">
+                        You
+                      </span>
+                    ) : user.connectionStatus === 'disconnected' ? (
+                      <span className="rounded-full bg-amber-900/60 px-2 py-0.5 text-xs text-amber-200">
+                        Reconnecting…
+                      </span>
+                    ) : null}
+                    {canModerate(user) ? (
+                      <button
+                        type="button"
+                        onClick={() => setMenuUserId((prev) => (prev === user.id ? null : user.id))}
+                        className="rounded-full px-2 text-slate-300"
+                        aria-label={`Moderate ${user.nickname}`}
+                      >
+                        ⋯
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+                {menuUserId === user.id && canModerate(user) ? (
+                  <div className="flex flex-wrap gap-1 rounded-lg bg-slate-800/80 p-2 text-xs">
+                    {muted ? (
+                      <button
+                        type="button"
+                        onClick={() => runAction(user, { type: 'mute', durationMs: 0 })}
+                        className="rounded bg-slate-700 px-2 py-1"
+                      >
+                        Unmute
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => runAction(user, { type: 'mute', durationMs: 60_000 })}
+                          className="rounded bg-slate-700 px-2 py-1"
+                        >
+                          Mute 1m
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => runAction(user, { type: 'mute', durationMs: 10 * 60_000 })}
+                          className="rounded bg-slate-700 px-2 py-1"
+                        >
+                          Mute 10m
+                        </button>
+                      </>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => runAction(user, { type: 'kick' })}
+                      className="rounded bg-slate-700 px-2 py-1"
+                    >
+                      Kick
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => runAction(user, { type: 'ban' })}
+                      className="rounded bg-red-800 px-2 py-1"
+                    >
+                      Ban
+                    </button>
+                    {selfRole === 'owner' ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(user, {
+                            type: 'role',
+                            role: user.role === 'moderator' ? 'member' : 'moderator',
+                          })
+                        }
+                        className="rounded bg-sky-800 px-2 py-1"
+                      >
+                        {user.role === 'moderator' ? 'Remove mod' : 'Make mod'}
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })
         )}
       </div>
     </div>
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MessagePriority } from '@walkie/shared/types';
+import type {
+  AudioHistoryPage,
+  AudioMessageEvent,
+  AudioStreamAbort,
+  AudioStreamChunk,
+  AudioStreamEnd,
+  AudioStreamStart,
+  SocketService,
+} from '../services/socketService';
+import { computeWaveform } from '../utils/waveform';
+
+export type AudioHistoryItem = {
+  id: string;
+  senderNickname: string;
+  priority: MessagePriority;
+  timestamp: string;
+  durationMs: number | null;
+  waveform: number[] | null;
+  // Null once the clip has been evicted from the cache.
+  blob: Blob | null;
+  isSelf: boolean;
+};
+
+type UseAudioHistoryOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  maxBytes?: number;
+};
+
+type LocalClip = {
+  id: string;
+  blob: Blob;
+  senderNickname: string;
+  priority: MessagePriority;
+  timestamp: string;
+  durationMs: number;
+};
+
+type UseAudioHistoryState = {
+  items: AudioHistoryItem[];
+  cachedBytes: number;
+  addLocal: (clip: LocalClip) => void;
+};
+
+type PendingStream = {
+  start: AudioStreamStart;
+  chunks: ArrayBuffer[];
+};
+
+const DEFAULT_MAX_BYTES = 8 * 1024 * 1024;
+const MAX_ITEMS = 100;
+const WAVEFORM_BARS = 32;
+
+export const useAudioHistory = ({
+  socketService,
+  channelCode,
+  maxBytes = DEFAULT_MAX_BYTES,
+}: UseAudioHistoryOptions): UseAudioHistoryState => {
+  const [items, setItems] = useState<AudioHistoryItem[]>([]);
+  const [cachedBytes, setCachedBytes] = useState(0);
+  const itemsRef = useRef(new Map<string, AudioHistoryItem>());
+  const streamsRef = useRef(new Map<string, PendingStream>());
+
+  const publish = useCallback(() => {
+    const map = itemsRef.current;
+    const sorted = Array.from(map.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    sorted.slice(0, Math.max(0, sorted.length - MAX_ITEMS)).forEach((item) => map.delete(item.id));
+    const kept = sorted.slice(-MAX_ITEMS);
+
+    // Evict the oldest clips first but keep their rows so the list stays complete.
+    let total = kept.reduce((sum, item) => sum + (item.blob?.size ?? 0), 0);
+    for (const item of kept) {
+      if (total <= maxBytes) {
+        break;
+      }
+      if (item.blob) {
+        total -= item.blob.size;
+        map.set(item.id, { ...item, blob: null });
+      }
+    }
+    setItems(kept.map((item) => map.get(item.id) ?? item));
+    setCachedBytes(total);
+  }, [maxBytes]);
+
+  const addClip = useCallback(
+    (item: AudioHistoryItem) => {
+      const map = itemsRef.current;
+      if (map.has(item.id) || !item.blob) {
+        return;
+      }
+      map.set(item.id, item);
+      publish();
+      void computeWaveform(item.blob, WAVEFORM_BARS).then((summary) => {
+        const current = map.get(item.id);
+        if (!summary || !current) {
+          return;
+        }
+        map.set(item.id, {
+          ...current,
+          waveform: summary.peaks,
+          durationMs: current.durationMs ?? summary.durationMs,
+        });
+        publish();
+      });
+    },
+    [publish],
+  );
+
+  const addMessage = useCallback(
+    (message: AudioMessageEvent) => {
+      if (!message.id || !message.audio || !message.mimeType) {
+        return;
+      }
+      addClip({
+        id: message.id,
+        senderNickname: message.senderNickname,
+        priority: message.priority,
+        timestamp: message.timestamp,
+        durationMs: null,
+        waveform: null,
+        blob: new Blob([message.audio], { type: message.mimeType }),
+        isSelf: false,
+      });
+    },
+    [addClip],
+  );
+
+  const addLocal = useCallback(
+    (clip: LocalClip) => {
+      addClip({ ...clip, waveform: null, isSelf: true });
+    },
+    [addClip],
+  );
+
+  useEffect(() => {
+    itemsRef.current.clear();
+    streamsRef.current.clear();
+    setItems([]);
+    setCachedBytes(0);
+    const streams = streamsRef.current;
+
+    const unsubscribeMessage = socketService.on<[AudioMessageEvent]>('audio-message', (payload) => {
+      if (payload?.channelCode === channelCode) {
+        addMessage(payload);
+      }
+    });
+    const unsubscribeHistory = socketService.on<[AudioHistoryPage]>('audio-history', (payload) => {
+      if (payload?.channelCode === channelCode && Array.isArray(payload.messages)) {
+        payload.messages.forEach(addMessage);
+      }
+    });
+    const unsubscribeStart = socketService.on<[AudioStreamStart]>('audio:stream:start', (payload) => {
+      if (payload?.channelCode === channelCode && payload.transmissionId) {
+        streams.set(payload.transmissionId, { start: payload, chunks: [] });
+      }
+    });
+    const unsubscribeChunk = socketService.on<[AudioStreamChunk]>('audio:stream:chunk', (payload) => {
+      const stream = payload?.transmissionId ? streams.get(payload.transmissionId) : undefined;
+      if (stream && payload.chunk) {
+        stream.chunks.push(payload.chunk);
+      }
+    });
+    const unsubscribeEnd = socketService.on<[AudioStreamEnd]>('audio:stream:end', (payload) => {
+      const stream = payload?.transmissionId ? streams.get(payload.transmissionId) : undefined;
+      if (!stream) {
+        return;
+      }
+      streams.delete(payload.transmissionId);
+      addClip({
+        id: payload.messageId,
+        senderNickname: stream.start.senderNickname,
+        priority: stream.start.priority,
+        timestamp: payload.timestamp,
+        durationMs: payload.durationMs,
+        waveform: null,
+        blob: new Blob(stream.chunks, { type: stream.start.mimeType }),
+        isSelf: false,
+      });
+    });
+    const unsubscribeAbort = socketService.on<[AudioStreamAbort]>('audio:stream:abort', (payload) => {
+      if (payload?.transmissionId) {
+        streams.delete(payload.transmissionId);
+      }
+    });
+    return () => {
+      unsubscribeMessage();
+      unsubscribeHistory();
+      unsubscribeStart();
+      unsubscribeChunk();
+      unsubscribeEnd();
+      unsubscribeAbort();
+    };
+  }, [addClip, addMessage, channelCode, socketService]);
+
+  return { items, cachedBytes, addLocal };
+};
@@ -6,20 +6,45 @@ export type AudioPriority = MessagePriority;
 type QueueItem = {
   id: string;
   priority: AudioPriority;
-  kind: 'blob' | 'sos';
+  kind: 'blob' | 'sos' | 'stream';
   blob?: Blob;
+  playbackRate?: number;
+  preempt?: boolean;
+};
+
+type StreamEntry = {
+  mimeType: string;
+  chunks: ArrayBuffer[];
+  ended: boolean;
+  onUpdate: (() => void) | null;
 };
 
 type EnqueueOptions = {
   allowInterrupt?: boolean;
   respectPriority?: boolean;
+  playbackRate?: number;
+  // Audio from the priority scan channel cuts off anything else short of an urgent message.
+  preempt?: boolean;
+};
+
+type AudioPlayerOptions = {
+  // Called once a message or stream has played through to the end, not when it is skipped or fails.
+  onPlayed?: (id: string) => void;
 };
 
 type UseAudioPlayer = {
   enqueueAudio: (blob: Blob, priority?: AudioPriority, id?: string, options?: EnqueueOptions) => void;
   playEmergencyTone: () => void;
+  playQuickCue: () => void;
+  startStream: (id: string, mimeType: string, priority?: AudioPriority, options?: EnqueueOptions) => void;
+  appendStreamChunk: (id: string, chunk: ArrayBuffer) => void;
+  endStream: (id: string) => void;
+  abortStream: (id: string) => void;
+  escalateStream: (id: string, priority: AudioPriority) => void;
+  skip: () => void;
   stopAll: () => void;
   isPlaying: boolean;
+  playingId: string | null;
   volume: number;
   setVolume: (value: number) => void;
 };
@@ -50,6 +75,15 @@ const saveVolume = (value: number) => {
   window.localStorage.setItem(VOLUME_STORAGE_KEY, String(value));
 };
 
+const toMediaSourceType = (mimeType: string) => {
+  if (mimeType === 'audio/webm') return 'audio/webm;codecs=opus';
+  if (mimeType === 'audio/mp4') return 'audio/mp4;codecs=mp4a.40.2';
+  return mimeType;
+};
+
+const canStreamMimeType = (mimeType: string) =>
+  typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(toMediaSourceType(mimeType));
+
 const decodeAudio = async (context: AudioContext, data: ArrayBuffer) => {
   const copy = data.slice(0);
   const result = context.decodeAudioData(copy);
@@ -61,6 +95,47 @@ const decodeAudio = async (context: AudioContext, data: ArrayBuffer) => {
   });
 };
 
+const CUE_BEEP_SECONDS = 0.08;
+const CUE_GAP_SECONDS = 0.06;
+const CUE_LEVEL = 0.25;
+
+const PRIORITY_CUES: Record<AudioPriority, number[]> = {
+  routine: [880],
+  important: [880, 880],
+  urgent: [660, 880, 1100],
+};
+
+// Schedules the receive cue for a message and returns how long it lasts.
+const scheduleReceiveCue = (
+  context: AudioContext,
+  destination: AudioNode,
+  priority: AudioPriority,
+  at: number,
+) => {
+  const frequencies = PRIORITY_CUES[priority];
+  frequencies.forEach((frequency, index) => {
+    const start = at + index * (CUE_BEEP_SECONDS + CUE_GAP_SECONDS);
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(CUE_LEVEL, start + 0.01);
+    gain.gain.setValueAtTime(CUE_LEVEL, start + CUE_BEEP_SECONDS - 0.01);
+    gain.gain.linearRampToValueAtTime(0, start + CUE_BEEP_SECONDS);
+    oscillator.connect(gain);
+    gain.connect(destination);
+    oscillator.start(start);
+    oscillator.stop(start + CUE_BEEP_SECONDS);
+    oscillator.onended = () => {
+      gain.disconnect();
+    };
+  });
+  return frequencies.length * (CUE_BEEP_SECONDS + CUE_GAP_SECONDS);
+};
+
+const QUICK_CUE_FREQUENCIES = [1320, 990];
+
 const renderSOSTone = async (sampleRate: number) => {
   const dot = 0.12;
   const dash = dot * 3;
@@ -121,21 +196,31 @@ const renderSOSTone = async (sampleRate: number) => {
   return offlineContext.startRendering();
 };
 
-export const useAudioPlayer = (): UseAudioPlayer => {
+export const useAudioPlayer = (options: AudioPlayerOptions = {}): UseAudioPlayer => {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
   const [volume, setVolumeState] = useState(loadVolume);
 
   const queueRef = useRef<QueueItem[]>([]);
   const currentRef = useRef<{
     token: number;
+    id: string;
     priority: AudioPriority;
-    source: AudioBufferSourceNode;
+    preempt: boolean;
+    stop: (when?: number) => void;
     gain: GainNode;
   } | null>(null);
+  const streamsRef = useRef(new Map<string, StreamEntry>());
   const contextRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
   const playbackTokenRef = useRef(0);
   const isUnmountedRef = useRef(false);
+  const playNextRef = useRef<() => Promise<void> | void>(() => undefined);
+  const onPlayedRef = useRef(options.onPlayed);
+
+  useEffect(() => {
+    onPlayedRef.current = options.onPlayed;
+  }, [options.onPlayed]);
 
   const ensureContext = useCallback(() => {
     if (contextRef.current) {
@@ -183,28 +268,125 @@ export const useAudioPlayer = (): UseAudioPlayer => {
       current.gain.gain.cancelScheduledValues(now);
       current.gain.gain.setValueAtTime(current.gain.gain.value, now);
       current.gain.gain.linearRampToValueAtTime(0, now + FADE_OUT_MS / 1000);
-      try {
-        current.source.stop(now + FADE_OUT_MS / 1000 + 0.02);
-      } catch {
-        // ignore
-      }
+      current.stop(now + FADE_OUT_MS / 1000 + 0.02);
     } else {
-      try {
-        current.source.stop();
-      } catch {
-        // ignore
-      }
+      current.stop();
     }
     currentRef.current = null;
     setIsPlaying(false);
+    setPlayingId(null);
   }, []);
 
+  const playStream = useCallback(
+    (item: QueueItem, stream: StreamEntry, context: AudioContext, token: number) => {
+      const master = masterGainRef.current;
+      if (!master) {
+        return false;
+      }
+      const element = new Audio();
+      const mediaSource = new MediaSource();
+      const objectUrl = URL.createObjectURL(mediaSource);
+      element.src = objectUrl;
+      const source = context.createMediaElementSource(element);
+      const gain = context.createGain();
+      gain.gain.value = 0;
+      source.connect(gain);
+      gain.connect(master);
+
+      let appended = 0;
+      let stopTimer: ReturnType<typeof setTimeout> | null = null;
+      const cleanup = () => {
+        stream.onUpdate = null;
+        if (stopTimer) {
+          clearTimeout(stopTimer);
+        }
+        element.pause();
+        element.removeAttribute('src');
+        URL.revokeObjectURL(objectUrl);
+        source.disconnect();
+        streamsRef.current.delete(item.id);
+      };
+
+      mediaSource.addEventListener(
+        'sourceopen',
+        () => {
+          let sourceBuffer: SourceBuffer;
+          try {
+            sourceBuffer = mediaSource.addSourceBuffer(toMediaSourceType(stream.mimeType));
+          } catch {
+            return;
+          }
+          const pump = () => {
+            if (sourceBuffer.updating || mediaSource.readyState !== 'open') {
+              return;
+            }
+            if (appended < stream.chunks.length) {
+              sourceBuffer.appendBuffer(stream.chunks[appended]);
+              appended += 1;
+              return;
+            }
+            if (stream.ended) {
+              mediaSource.endOfStream();
+            }
+          };
+          sourceBuffer.addEventListener('updateend', pump);
+          stream.onUpdate = pump;
+          pump();
+        },
+        { once: true },
+      );
+
+      currentRef.current = {
+        token,
+        id: item.id,
+        priority: item.priority,
+        preempt: Boolean(item.preempt),
+        gain,
+        stop: (when) => {
+          const delayMs = when === undefined ? 0 : Math.max(0, (when - context.currentTime) * 1000);
+          stopTimer = setTimeout(cleanup, delayMs);
+        },
+      };
+      setIsPlaying(true);
+      setPlayingId(item.id);
+
+      const cueSeconds = scheduleReceiveCue(context, master, item.priority, context.currentTime + 0.01);
+      const startAt = context.currentTime + 0.01 + cueSeconds;
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.linearRampToValueAtTime(1, startAt + FADE_IN_MS / 1000);
+
+      const finish = (played: boolean) => {
+        if (currentRef.current?.token !== token) {
+          return;
+        }
+        if (played) {
+          onPlayedRef.current?.(item.id);
+        }
+        cleanup();
+        currentRef.current = null;
+        setIsPlaying(false);
+        setPlayingId(null);
+        playNextRef.current();
+      };
+      element.onended = () => finish(true);
+      element.onerror = () => finish(false);
+      setTimeout(() => {
+        if (currentRef.current?.token !== token) {
+          return;
+        }
+        element.play().catch(() => finish(false));
+      }, cueSeconds * 1000);
+      return true;
+    },
+    [],
+  );
+
   const playNext = useCallback(async () => {
     if (currentRef.current || queueRef.current.length === 0 || isUnmountedRef.current) {
       return;
     }
 
-    const next = queueRef.current.shift();
+    let next = queueRef.current.shift();
     if (!next) {
       return;
     }
@@ -221,6 +403,35 @@ export const useAudioPlayer = (): UseAudioPlayer => {
       return;
     }
 
+    if (next.kind === 'stream') {
+      const stream = streamsRef.current.get(next.id);
+      if (!stream) {
+        playNext();
+        return;
+      }
+      if (canStreamMimeType(stream.mimeType)) {
+        if (!playStream(next, stream, context, token)) {
+          playNext();
+        }
+        return;
+      }
+      if (!stream.ended) {
+        const waiting = next;
+        stream.onUpdate = () => {
+          if (!stream.ended) {
+            return;
+          }
+          stream.onUpdate = null;
+          queueRef.current.unshift(waiting);
+          void playNextRef.current();
+        };
+        playNext();
+        return;
+      }
+      streamsRef.current.delete(next.id);
+      next = { ...next, kind: 'blob', blob: new Blob(stream.chunks, { type: stream.mimeType }) };
+    }
+
     let buffer: AudioBuffer;
     try {
       if (next.kind === 'sos') {
@@ -242,6 +453,7 @@ export const useAudioPlayer = (): UseAudioPlayer => {
 
     const source = context.createBufferSource();
     source.buffer = buffer;
+    source.playbackRate.value = next.playbackRate ?? 1;
     const gain = context.createGain();
     gain.gain.value = 0;
     const master = masterGainRef.current;
@@ -253,26 +465,46 @@ export const useAudioPlayer = (): UseAudioPlayer => {
 
     currentRef.current = {
       token,
+      id: next.id,
       priority: next.priority,
-      source,
+      preempt: Boolean(next.preempt),
       gain,
+      stop: (when) => {
+        try {
+          source.stop(when);
+        } catch {
+          // ignore
+        }
+      },
     };
     setIsPlaying(true);
+    setPlayingId(next.id);
 
-    const startAt = context.currentTime + 0.01;
+    const cueSeconds =
+      next.kind === 'sos' ? 0 : scheduleReceiveCue(context, master, next.priority, context.currentTime + 0.01);
+    const startAt = context.currentTime + 0.01 + cueSeconds;
     gain.gain.setValueAtTime(0, startAt);
     gain.gain.linearRampToValueAtTime(1, startAt + FADE_IN_MS / 1000);
     source.start(startAt);
 
+    const item = next;
     source.onended = () => {
       if (currentRef.current?.token !== token) {
         return;
       }
+      if (item.kind !== 'sos') {
+        onPlayedRef.current?.(item.id);
+      }
       currentRef.current = null;
       setIsPlaying(false);
+      setPlayingId(null);
       playNext();
     };
-  }, [ensureContext]);
+  }, [ensureContext, playStream]);
+
+  useEffect(() => {
+    playNextRef.current = playNext;
+  }, [playNext]);
 
   const enqueueItem = useCallback(
     (item: QueueItem, options?: EnqueueOptions) => {
@@ -280,7 +512,8 @@ export const useAudioPlayer = (): UseAudioPlayer => {
       const respectPriority = options?.respectPriority ?? true;
       const current = currentRef.current;
       if (current) {
-        const shouldInterrupt = allowInterrupt && item.priority === 'urgent';
+        const preempts = Boolean(item.preempt) && !current.preempt && current.priority !== 'urgent';
+        const shouldInterrupt = allowInterrupt && (item.priority === 'urgent' || preempts);
         if (shouldInterrupt) {
           void stopCurrent().then(() => {
             queueRef.current.unshift(item);
@@ -296,6 +529,13 @@ export const useAudioPlayer = (): UseAudioPlayer => {
       }
       if (item.priority === 'urgent') {
         queueRef.current.unshift(item);
+      } else if (item.preempt) {
+        const index = queueRef.current.findIndex((queued) => !queued.preempt && queued.priority !== 'urgent');
+        if (index === -1) {
+          queueRef.current.push(item);
+        } else {
+          queueRef.current.splice(index, 0, item);
+        }
       } else if (item.priority === 'important') {
         const index = queueRef.current.findIndex((queued) => queued.priority === 'routine');
         if (index === -1) {
@@ -318,7 +558,10 @@ export const useAudioPlayer = (): UseAudioPlayer => {
       id: string = crypto.randomUUID(),
       options?: EnqueueOptions,
     ) => {
-      enqueueItem({ id, priority, kind: 'blob', blob }, options);
+      enqueueItem(
+        { id, priority, kind: 'blob', blob, playbackRate: options?.playbackRate, preempt: options?.preempt },
+        options,
+      );
     },
     [enqueueItem],
   );
@@ -327,8 +570,107 @@ export const useAudioPlayer = (): UseAudioPlayer => {
     enqueueItem({ id: crypto.randomUUID(), priority: 'urgent', kind: 'sos' });
   }, [enqueueItem]);
 
+  // Plays over whatever is currently playing rather than joining the queue.
+  const playQuickCue = useCallback(() => {
+    let context: AudioContext;
+    try {
+      context = ensureContext();
+    } catch {
+      return;
+    }
+    const master = masterGainRef.current;
+    if (!master) {
+      return;
+    }
+    if (context.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+    QUICK_CUE_FREQUENCIES.forEach((frequency, index) => {
+      const start = context.currentTime + 0.01 + index * CUE_BEEP_SECONDS;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'triangle';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(CUE_LEVEL, start + 0.01);
+      gain.gain.linearRampToValueAtTime(0, start + CUE_BEEP_SECONDS);
+      oscillator.connect(gain);
+      gain.connect(master);
+      oscillator.start(start);
+      oscillator.stop(start + CUE_BEEP_SECONDS);
+      oscillator.onended = () => {
+        gain.disconnect();
+      };
+    });
+  }, [ensureContext]);
+
+  const startStream = useCallback(
+    (id: string, mimeType: string, priority: AudioPriority = 'routine', options?: EnqueueOptions) => {
+      streamsRef.current.set(id, { mimeType, chunks: [], ended: false, onUpdate: null });
+      enqueueItem({ id, priority, kind: 'stream', preempt: options?.preempt }, options);
+    },
+    [enqueueItem],
+  );
+
+  const appendStreamChunk = useCallback((id: string, chunk: ArrayBuffer) => {
+    const stream = streamsRef.current.get(id);
+    if (!stream || stream.ended) {
+      return;
+    }
+    stream.chunks.push(chunk);
+    stream.onUpdate?.();
+  }, []);
+
+  const endStream = useCallback((id: string) => {
+    const stream = streamsRef.current.get(id);
+    if (!stream) {
+      return;
+    }
+    stream.ended = true;
+    stream.onUpdate?.();
+  }, []);
+
+  const abortStream = useCallback(
+    (id: string) => {
+      streamsRef.current.delete(id);
+      queueRef.current = queueRef.current.filter((item) => item.id !== id);
+      if (currentRef.current?.id === id) {
+        void stopCurrent().then(() => {
+          playNext();
+        });
+      }
+    },
+    [playNext, stopCurrent],
+  );
+
+  const escalateStream = useCallback(
+    (id: string, priority: AudioPriority) => {
+      if (currentRef.current?.id === id) {
+        currentRef.current.priority = priority;
+        return;
+      }
+      const queued = queueRef.current.find((item) => item.id === id);
+      if (!queued) {
+        return;
+      }
+      queueRef.current = queueRef.current.filter((item) => item !== queued);
+      enqueueItem({ ...queued, priority });
+    },
+    [enqueueItem],
+  );
+
+  const skip = useCallback(() => {
+    if (!currentRef.current) {
+      return;
+    }
+    void stopCurrent().then(() => {
+      playNext();
+    });
+  }, [playNext, stopCurrent]);
+
   const stopAll = useCallback(() => {
     queueRef.current = [];
+    streamsRef.current.clear();
     void stopCurrent();
   }, [stopCurrent]);
 
@@ -411,11 +753,34 @@ export const useAudioPlayer = (): UseAudioPlayer => {
     () => ({
       enqueueAudio,
       playEmergencyTone,
+      playQuickCue,
+      startStream,
+      appendStreamChunk,
+      endStream,
+      abortStream,
+      escalateStream,
+      skip,
       stopAll,
       isPlaying,
+      playingId,
       volume,
       setVolume: updateMasterVolume,
     }),
-    [enqueueAudio, playEmergencyTone, stopAll, isPlaying, updateMasterVolume, volume],
+    [
+      abortStream,
+      appendStreamChunk,
+      endStream,
+      enqueueAudio,
+      escalateStream,
+      isPlaying,
+      playEmergencyTone,
+      playQuickCue,
+      playingId,
+      skip,
+      startStream,
+      stopAll,
+      updateMasterVolume,
+      volume,
+    ],
   );
 };
@@ -1,7 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+export type RecordingOptions = {
+  timesliceMs?: number;
+  onChunk?: (chunk: Blob, mimeType: string) => void;
+};
+
 type AudioRecorderState = {
-  startRecording: () => Promise<void>;
+  startRecording: (options?: RecordingOptions) => Promise<boolean>;
   stopRecording: () => Promise<Blob | null>;
   isRecording: boolean;
   audioLevel: number;
@@ -138,35 +143,35 @@ export const useAudioRecorder = (): AudioRecorderState => {
     return stopPromiseRef.current;
   }, []);
 
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (options?: RecordingOptions) => {
     if (isRecordingRef.current) {
-      return;
+      return false;
     }
     setError(null);
 
     if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
       setError('Recording is unavailable while the app is in the background.');
-      return;
+      return false;
     }
 
     if (Date.now() - lastGestureRef.current > USER_GESTURE_WINDOW_MS) {
       setError('Tap and hold to start recording.');
-      return;
+      return false;
     }
 
     if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
       setError('Microphone access is not supported on this device.');
-      return;
+      return false;
     }
 
     if (typeof MediaRecorder === 'undefined') {
       setError('MediaRecorder is not supported in this browser.');
-      return;
+      return false;
     }
 
     if (!AudioContextClass) {
       setError('AudioContext is not supported in this browser.');
-      return;
+      return false;
     }
 
     try {
@@ -187,7 +192,7 @@ export const useAudioRecorder = (): AudioRecorderState => {
       } catch {
         setError('Audio cannot start until you tap the screen.');
         cleanupMedia();
-        return;
+        return false;
       }
       const sourceNode = audioContext.createMediaStreamSource(stream);
       const analyser = audioContext.createAnalyser();
@@ -198,9 +203,11 @@ export const useAudioRecorder = (): AudioRecorderState => {
       const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
 
       chunksRef.current = [];
+      const onChunk = options?.onChunk;
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
+          onChunk?.(event.data, recorder.mimeType || mimeType || 'audio/webm');
         }
       };
 
@@ -222,7 +229,7 @@ export const useAudioRecorder = (): AudioRecorderState => {
       audioContextRef.current = audioContext;
       analyserRef.current = analyser;
 
-      recorder.start();
+      recorder.start(options?.timesliceMs);
       isRecordingRef.current = true;
       setIsRecording(true);
       startLevelMeter(analyser);
@@ -230,6 +237,7 @@ export const useAudioRecorder = (): AudioRecorderState => {
       maxTimerRef.current = setTimeout(() => {
         void stopRecording();
       }, MAX_RECORDING_MS);
+      return true;
     } catch (err) {
       const message = (() => {
         if (err instanceof DOMException) {
@@ -242,6 +250,7 @@ export const useAudioRecorder = (): AudioRecorderState => {
       })();
       setError(message);
       cleanupMedia();
+      return false;
     }
   }, [AudioContextClass, stopRecording]);
 
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { MessagePriority } from '@walkie/shared/types';
+import type { AudioLocation, SocketService } from '../services/socketService';
+
+type UseAudioStreamSenderOptions = {
+  socketService: SocketService;
+  channelCode: string;
+};
+
+type Transmission = {
+  id: string;
+  priority: MessagePriority;
+  location?: AudioLocation;
+  recipientUserIds?: string[];
+  seq: number;
+  started: boolean;
+  failed: boolean;
+  error: string | null;
+  disconnected: boolean;
+  pipeline: Promise<void>;
+};
+
+export type StreamFinishResult =
+  | { status: 'streamed'; id: string; timestamp: string }
+  | { status: 'fallback' }
+  | { status: 'failed'; error: string };
+
+type TransmissionOptions = {
+  location?: AudioLocation;
+  recipientUserIds?: string[];
+};
+
+type UseAudioStreamSenderState = {
+  begin: (priority: MessagePriority, options?: TransmissionOptions) => void;
+  escalate: (priority: MessagePriority) => Promise<string | null>;
+  handleChunk: (chunk: Blob, mimeType: string) => void;
+  finish: (durationMs: number) => Promise<StreamFinishResult>;
+  abort: () => void;
+};
+
+export const STREAM_TIMESLICE_MS = 250;
+
+export const useAudioStreamSender = ({
+  socketService,
+  channelCode,
+}: UseAudioStreamSenderOptions): UseAudioStreamSenderState => {
+  const transmissionRef = useRef<Transmission | null>(null);
+
+  const begin = useCallback((priority: MessagePriority, options: TransmissionOptions = {}) => {
+    transmissionRef.current = {
+      id: crypto.randomUUID(),
+      priority,
+      location: options.location,
+      recipientUserIds: options.recipientUserIds,
+      seq: 0,
+      started: false,
+      failed: false,
+      error: null,
+      disconnected: false,
+      pipeline: Promise.resolve(),
+    };
+  }, []);
+
+  const handleChunk = useCallback(
+    (chunk: Blob, mimeType: string) => {
+      const transmission = transmissionRef.current;
+      if (!transmission || transmission.failed) {
+        return;
+      }
+      transmission.pipeline = transmission.pipeline.then(async () => {
+        if (transmission.failed) {
+          return;
+        }
+        if (!transmission.started) {
+          try {
+            const response = await socketService.startAudioStream({
+              channelCode,
+              transmissionId: transmission.id,
+              mimeType,
+              priority: transmission.priority,
+              location: transmission.location,
+              recipientUserIds: transmission.recipientUserIds,
+            });
+            if (!response.ok) {
+              transmission.failed = true;
+              transmission.error = response.error;
+              return;
+            }
+            transmission.started = true;
+          } catch (err) {
+            transmission.failed = true;
+            transmission.error = err instanceof Error ? err.message : 'Unable to start stream.';
+            return;
+          }
+        }
+        const buffer = await chunk.arrayBuffer();
+        if (!socketService.sendAudioChunk(transmission.id, transmission.seq, buffer)) {
+          transmission.failed = true;
+          transmission.disconnected = true;
+          return;
+        }
+        transmission.seq += 1;
+      });
+    },
+    [channelCode, socketService],
+  );
+
+  // Resolves with an error message when the server refuses the new priority.
+  const escalate = useCallback(
+    async (priority: MessagePriority) => {
+      const transmission = transmissionRef.current;
+      if (!transmission || transmission.failed) {
+        return null;
+      }
+      transmission.priority = priority;
+      await transmission.pipeline;
+      if (!transmission.started || transmission.failed) {
+        return null;
+      }
+      try {
+        const response = await socketService.escalateAudioStream(transmission.id, priority);
+        return response.ok ? null : response.error;
+      } catch (err) {
+        return err instanceof Error ? err.message : 'Unable to escalate.';
+      }
+    },
+    [socketService],
+  );
+
+  const finish = useCallback(
+    async (durationMs: number): Promise<StreamFinishResult> => {
+      const transmission = transmissionRef.current;
+      transmissionRef.current = null;
+      if (!transmission) {
+        return { status: 'fallback' };
+      }
+      await transmission.pipeline;
+      if (!transmission.started || transmission.disconnected) {
+        return { status: 'fallback' };
+      }
+      if (transmission.failed) {
+        socketService.abortAudioStream(transmission.id);
+        return { status: 'failed', error: transmission.error ?? 'Stream interrupted.' };
+      }
+      try {
+        const response = await socketService.endAudioStream(transmission.id, durationMs);
+        if (!response.ok) {
+          return { status: 'failed', error: response.error };
+        }
+        return { status: 'streamed', ...response.data };
+      } catch (err) {
+        return {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Unable to finish stream.',
+        };
+      }
+    },
+    [socketService],
+  );
+
+  const abort = useCallback(() => {
+    const transmission = transmissionRef.current;
+    transmissionRef.current = null;
+    if (!transmission) {
+      return;
+    }
+    transmission.failed = true;
+    void transmission.pipeline.then(() => {
+      if (transmission.started) {
+        socketService.abortAudioStream(transmission.id);
+      }
+    });
+  }, [socketService]);
+
+  useEffect(() => {
+    const unsubscribe = socketService.on<[{ transmissionId: string; reason: string }]>(
+      'audio:stream:error',
+      (payload) => {
+        const transmission = transmissionRef.current;
+        if (!transmission || transmission.id !== payload?.transmissionId) {
+          return;
+        }
+        transmission.failed = true;
+        transmission.error = `Stream stopped (${payload.reason.replace(/_/g, ' ')}).`;
+      },
+    );
+    return () => {
+      unsubscribe();
+    };
+  }, [socketService]);
+
+  return useMemo(
+    () => ({
+      begin,
+      escalate,
+      handleChunk,
+      finish,
+      abort,
+    }),
+    [abort, begin, escalate, finish, handleChunk],
+  );
+};
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  AudioHistoryPage,
+  AudioMessageEvent,
+  HistoryWindow,
+  SocketService,
+} from '../services/socketService';
+
+export type CatchUpWindowOption = 'since' | 'minutes' | 'count';
+
+type UseCatchUpOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  playMessage: (message: AudioMessageEvent) => void;
+};
+
+type UseCatchUpState = {
+  missed: AudioMessageEvent[];
+  hasMore: boolean;
+  isLoading: boolean;
+  isCatchingUp: boolean;
+  windowOption: CatchUpWindowOption;
+  error: string | null;
+  getJoinWindow: () => HistoryWindow;
+  selectWindow: (option: CatchUpWindowOption) => Promise<void>;
+  startCatchUp: () => Promise<void>;
+  dismiss: () => void;
+  markSeen: (messageId: string) => void;
+};
+
+const LAST_SEEN_STORAGE_PREFIX = 'walkie:lastSeen:';
+const DEFAULT_MINUTES = 15;
+const DEFAULT_COUNT = 10;
+
+const loadLastSeen = (channelCode: string) => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return window.localStorage.getItem(`${LAST_SEEN_STORAGE_PREFIX}${channelCode}`);
+};
+
+const saveLastSeen = (channelCode: string, messageId: string) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(`${LAST_SEEN_STORAGE_PREFIX}${channelCode}`, messageId);
+};
+
+const buildWindow = (option: CatchUpWindowOption, lastSeenId: string | null): HistoryWindow => {
+  if (option === 'since' && lastSeenId) {
+    return { mode: 'since', messageId: lastSeenId };
+  }
+  if (option === 'minutes') {
+    return { mode: 'minutes', minutes: DEFAULT_MINUTES };
+  }
+  return { mode: 'count', count: DEFAULT_COUNT };
+};
+
+export const useCatchUp = ({
+  socketService,
+  channelCode,
+  playMessage,
+}: UseCatchUpOptions): UseCatchUpState => {
+  const [missed, setMissed] = useState<AudioMessageEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCatchingUp, setIsCatchingUp] = useState(false);
+  const [windowOption, setWindowOption] = useState<CatchUpWindowOption>('since');
+  const [error, setError] = useState<string | null>(null);
+  const seenIdsRef = useRef(new Set<string>());
+  const missedRef = useRef<AudioMessageEvent[]>([]);
+  const cursorRef = useRef<string | null>(null);
+  const windowOptionRef = useRef<CatchUpWindowOption>('since');
+
+  const applyPage = useCallback((page: AudioHistoryPage, replace: boolean) => {
+    const fresh = page.messages.filter((message) => !seenIdsRef.current.has(message.id));
+    const base = replace ? [] : missedRef.current;
+    const known = new Set(base.map((message) => message.id));
+    const merged = [...base, ...fresh.filter((message) => !known.has(message.id))];
+    missedRef.current = merged;
+    cursorRef.current = page.nextCursor;
+    setMissed(merged);
+    setNextCursor(page.nextCursor);
+  }, []);
+
+  const markSeen = useCallback(
+    (messageId: string) => {
+      seenIdsRef.current.add(messageId);
+      saveLastSeen(channelCode, messageId);
+    },
+    [channelCode],
+  );
+
+  const getJoinWindow = useCallback(
+    () => buildWindow(windowOptionRef.current, loadLastSeen(channelCode)),
+    [channelCode],
+  );
+
+  const selectWindow = useCallback(
+    async (option: CatchUpWindowOption) => {
+      windowOptionRef.current = option;
+      setWindowOption(option);
+      setError(null);
+      setIsLoading(true);
+      try {
+        const response = await socketService.fetchHistory({
+          channelCode,
+          window: buildWindow(option, loadLastSeen(channelCode)),
+        });
+        if (!response.ok) {
+          setError(response.error);
+          return;
+        }
+        applyPage(response.data, true);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to load history.');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [applyPage, channelCode, socketService],
+  );
+
+  const startCatchUp = useCallback(async () => {
+    if (isCatchingUp) {
+      return;
+    }
+    setError(null);
+    setIsCatchingUp(true);
+    try {
+      for (;;) {
+        const batch = missedRef.current;
+        missedRef.current = [];
+        setMissed([]);
+        batch.forEach((message) => {
+          if (seenIdsRef.current.has(message.id)) {
+            return;
+          }
+          playMessage(message);
+          markSeen(message.id);
+        });
+
+        const cursor = cursorRef.current;
+        if (!cursor) {
+          break;
+        }
+        setIsLoading(true);
+        const response = await socketService.fetchHistory({ channelCode, cursor });
+        setIsLoading(false);
+        if (!response.ok) {
+          setError(response.error);
+          break;
+        }
+        applyPage(response.data, false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load history.');
+    } finally {
+      setIsLoading(false);
+      setIsCatchingUp(false);
+    }
+  }, [applyPage, channelCode, isCatchingUp, markSeen, playMessage, socketService]);
+
+  const dismiss = useCallback(() => {
+    missedRef.current.forEach((message) => markSeen(message.id));
+    missedRef.current = [];
+    cursorRef.current = null;
+    setMissed([]);
+    setNextCursor(null);
+  }, [markSeen]);
+
+  useEffect(() => {
+    const unsubscribe = socketService.on<[AudioHistoryPage]>('audio-history', (payload) => {
+      if (!payload?.messages || payload.channelCode !== channelCode) {
+        return;
+      }
+      applyPage(payload, true);
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [applyPage, channelCode, socketService]);
+
+  return useMemo(
+    () => ({
+      missed,
+      hasMore: nextCursor !== null,
+      isLoading,
+      isCatchingUp,
+      windowOption,
+      error,
+      getJoinWindow,
+      selectWindow,
+      startCatchUp,
+      dismiss,
+      markSeen,
+    }),
+    [
+      dismiss,
+      error,
+      getJoinWindow,
+      isCatchingUp,
+      isLoading,
+      markSeen,
+      missed,
+      nextCursor,
+      selectWindow,
+      startCatchUp,
+      windowOption,
+    ],
+  );
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ChannelLink, SocketService } from '../services/socketService';
+
+type UseChannelLinksOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  enabled: boolean;
+};
+
+type UseChannelLinksState = {
+  links: ChannelLink[];
+  error: string | null;
+  setLinked: (linkedCode: string, linked: boolean) => Promise<void>;
+};
+
+export const useChannelLinks = ({
+  socketService,
+  channelCode,
+  enabled,
+}: UseChannelLinksOptions): UseChannelLinksState => {
+  const [links, setLinks] = useState<ChannelLink[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLinks([]);
+      return;
+    }
+    let cancelled = false;
+    socketService
+      .fetchChannelLinks(channelCode)
+      .then((response) => {
+        if (cancelled) {
+          return;
+        }
+        if (response.ok) {
+          setLinks(response.data.links);
+        } else {
+          setError(response.error);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError('Unable to load linked channels.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelCode, enabled, socketService]);
+
+  const setLinked = useCallback(
+    async (linkedCode: string, linked: boolean) => {
+      setError(null);
+      try {
+        const response = await socketService.setChannelLink(channelCode, linkedCode, linked);
+        if (!response.ok) {
+          setError(response.error);
+          return;
+        }
+        setLinks(response.data.links);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to update link.');
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  return { links, error, setLinked };
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ChannelRetention } from '@walkie/shared/types';
+import type { ChannelRetentionSettings, SocketService } from '../services/socketService';
+
+type UseChannelRetentionOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  enabled: boolean;
+};
+
+type UseChannelRetentionState = {
+  settings: ChannelRetentionSettings | null;
+  error: string | null;
+  save: (retention: ChannelRetention) => Promise<void>;
+};
+
+export const useChannelRetention = ({
+  socketService,
+  channelCode,
+  enabled,
+}: UseChannelRetentionOptions): UseChannelRetentionState => {
+  const [settings, setSettings] = useState<ChannelRetentionSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSettings(null);
+      return;
+    }
+    let cancelled = false;
+    socketService
+      .fetchChannelRetention(channelCode)
+      .then((response) => {
+        if (cancelled) {
+          return;
+        }
+        if (response.ok) {
+          setSettings(response.data);
+        } else {
+          setError(response.error);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError('Unable to load retention settings.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelCode, enabled, socketService]);
+
+  const save = useCallback(
+    async (retention: ChannelRetention) => {
+      setError(null);
+      try {
+        const response = await socketService.setChannelRetention(channelCode, retention);
+        if (!response.ok) {
+          setError(response.error);
+          return;
+        }
+        setSettings(response.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to update retention.');
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  return { settings, error, save };
+};
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { UserSummary } from '../components/UserList';
+import type {
+  ChannelMember,
+  ChannelRoster,
+  LocationUpdate,
+  MemberLocation,
+  MemberPresence,
+  PresenceUpdate,
+  SocketService,
+} from '../services/socketService';
+
+type UseChannelRosterOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  userId: string | null;
+};
+
+type UseChannelRosterState = {
+  users: UserSummary[];
+  applyRoster: (roster: ChannelRoster) => void;
+};
+
+type RosterEvent = {
+  user?: ChannelMember;
+  rosterVersion?: number;
+};
+
+const toSummary = (
+  member: ChannelMember & {
+    lastActivityAt?: string | Date;
+    presence?: MemberPresence | null;
+    location?: MemberLocation | null;
+  },
+): UserSummary => ({
+  id: member.id,
+  nickname: member.nickname,
+  connectionStatus: member.connectionStatus,
+  role: member.role,
+  mutedUntil: member.mutedUntil,
+  joinedAt: member.joinedAt,
+  lastActivityAt: member.lastActivityAt,
+  listenOnly: Boolean(member.listenOnly),
+  ...(member.presence !== undefined ? { presence: member.presence } : {}),
+  ...(member.location !== undefined ? { location: member.location } : {}),
+});
+
+export const useChannelRoster = ({
+  socketService,
+  channelCode,
+  userId,
+}: UseChannelRosterOptions): UseChannelRosterState => {
+  const [members, setMembers] = useState<UserSummary[]>([]);
+  const versionRef = useRef<number | null>(null);
+  const resyncingRef = useRef(false);
+
+  const applyRoster = useCallback(
+    (roster: ChannelRoster) => {
+      if (roster.channelCode !== channelCode) {
+        return;
+      }
+      if (versionRef.current !== null && roster.version < versionRef.current) {
+        return;
+      }
+      versionRef.current = roster.version;
+      setMembers(roster.members.map(toSummary));
+    },
+    [channelCode],
+  );
+
+  const resync = useCallback(async () => {
+    if (resyncingRef.current) {
+      return;
+    }
+    resyncingRef.current = true;
+    try {
+      const response = await socketService.fetchRoster(channelCode);
+      if (response.ok) {
+        applyRoster(response.data);
+      }
+    } catch {
+      versionRef.current = null;
+    } finally {
+      resyncingRef.current = false;
+    }
+  }, [applyRoster, channelCode, socketService]);
+
+  useEffect(() => {
+    versionRef.current = null;
+    setMembers([]);
+  }, [channelCode]);
+
+  useEffect(() => {
+    const applyEvent = (event: RosterEvent, update: (prev: UserSummary[]) => UserSummary[]) => {
+      if (typeof event.rosterVersion === 'number') {
+        const current = versionRef.current;
+        if (current === null || event.rosterVersion <= current) {
+          return;
+        }
+        if (event.rosterVersion !== current + 1) {
+          void resync();
+          return;
+        }
+        versionRef.current = event.rosterVersion;
+      }
+      setMembers(update);
+    };
+
+    const unsubscribeJoined = socketService.on<[RosterEvent]>('user:joined', (payload) => {
+      const user = payload?.user;
+      if (!user || user.channelCode !== channelCode) {
+        return;
+      }
+      applyEvent(payload, (prev) => [...prev.filter((member) => member.id !== user.id), toSummary(user)]);
+    });
+
+    const unsubscribeStatus = socketService.on<[RosterEvent]>('user:status', (payload) => {
+      const user = payload?.user;
+      if (!user || user.channelCode !== channelCode) {
+        return;
+      }
+      applyEvent(payload, (prev) =>
+        prev.map((member) => (member.id === user.id ? { ...member, ...toSummary(user) } : member)),
+      );
+    });
+
+    const unsubscribeLeft = socketService.on<[RosterEvent]>('user:left', (payload) => {
+      const user = payload?.user;
+      if (!user || user.channelCode !== channelCode) {
+        return;
+      }
+      applyEvent(payload, (prev) => prev.filter((member) => member.id !== user.id));
+    });
+
+    const unsubscribePresence = socketService.on<[PresenceUpdate]>('presence:update', (payload) => {
+      if (!payload || payload.channelCode !== channelCode) {
+        return;
+      }
+      setMembers((prev) =>
+        prev.map((member) =>
+          member.id === payload.userId ? { ...member, presence: payload.presence } : member,
+        ),
+      );
+    });
+
+    const unsubscribeLocation = socketService.on<[LocationUpdate]>('location:update', (payload) => {
+      if (!payload || payload.channelCode !== channelCode) {
+        return;
+      }
+      setMembers((prev) =>
+        prev.map((member) =>
+          member.id === payload.userId ? { ...member, location: payload.location } : member,
+        ),
+      );
+    });
+
+    const unsubscribeRoster = socketService.on<[ChannelRoster]>('channel:roster', (payload) => {
+      if (payload) {
+        applyRoster(payload);
+      }
+    });
+
+    const unsubscribeDisconnect = socketService.on('disconnect', () => {
+      versionRef.current = null;
+    });
+
+    return () => {
+      unsubscribeJoined();
+      unsubscribeStatus();
+      unsubscribeLeft();
+      unsubscribePresence();
+      unsubscribeLocation();
+      unsubscribeRoster();
+      unsubscribeDisconnect();
+    };
+  }, [applyRoster, channelCode, resync, socketService]);
+
+  const users = useMemo(
+    () => members.map((member) => ({ ...member, isSelf: member.id === userId })),
+    [members, userId],
+  );
+
+  return { users, applyRoster };
+};
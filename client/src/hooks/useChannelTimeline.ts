@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MessagePriority } from '@walkie/shared/types';
+import type {
+  AudioHistoryPage,
+  AudioMessageEvent,
+  AudioReceipts,
+  AudioStreamAbort,
+  AudioStreamEnd,
+  AudioStreamStart,
+  SocketService,
+  TextMessageEvent,
+} from '../services/socketService';
+
+export type TimelineEntry =
+  | {
+      kind: 'audio';
+      id: string;
+      senderNickname: string;
+      priority: MessagePriority;
+      timestamp: string;
+      durationMs: number | null;
+      isSelf: boolean;
+      isPrivate: boolean;
+    }
+  | {
+      kind: 'text';
+      id: string;
+      senderNickname: string;
+      priority: MessagePriority;
+      timestamp: string;
+      body: string;
+      isSelf: boolean;
+    };
+
+type UseChannelTimelineOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  nickname: string;
+  onTextReceived?: (message: TextMessageEvent) => void;
+};
+
+type UseChannelTimelineState = {
+  entries: TimelineEntry[];
+  receipts: Record<string, AudioReceipts>;
+  isSendingText: boolean;
+  textError: string | null;
+  sendText: (body: string, priority: MessagePriority) => Promise<boolean>;
+  addOwnAudio: (
+    id: string,
+    timestamp: string,
+    priority: MessagePriority,
+    durationMs: number,
+    isPrivate?: boolean,
+  ) => void;
+};
+
+const MAX_ENTRIES = 200;
+
+const mergeEntries = (current: TimelineEntry[], incoming: TimelineEntry[]) => {
+  const byId = new Map(current.map((entry) => [entry.id, entry]));
+  incoming.forEach((entry) => {
+    if (!byId.has(entry.id)) {
+      byId.set(entry.id, entry);
+    }
+  });
+  return Array.from(byId.values())
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id))
+    .slice(-MAX_ENTRIES);
+};
+
+const fromAudio = (message: AudioMessageEvent): TimelineEntry => ({
+  kind: 'audio',
+  id: message.id,
+  senderNickname: message.senderNickname,
+  priority: message.priority,
+  timestamp: message.timestamp,
+  durationMs: null,
+  isSelf: false,
+  isPrivate: Boolean(message.recipientUserIds),
+});
+
+const fromText = (message: TextMessageEvent, isSelf = false): TimelineEntry => ({
+  kind: 'text',
+  id: message.id,
+  senderNickname: message.senderNickname,
+  priority: message.priority,
+  timestamp: message.timestamp,
+  body: message.body,
+  isSelf,
+});
+
+export const useChannelTimeline = ({
+  socketService,
+  channelCode,
+  nickname,
+  onTextReceived,
+}: UseChannelTimelineOptions): UseChannelTimelineState => {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [receipts, setReceipts] = useState<Record<string, AudioReceipts>>({});
+  const [isSendingText, setIsSendingText] = useState(false);
+  const [textError, setTextError] = useState<string | null>(null);
+  const streamsRef = useRef(new Map<string, AudioStreamStart>());
+  const onTextReceivedRef = useRef(onTextReceived);
+
+  useEffect(() => {
+    onTextReceivedRef.current = onTextReceived;
+  }, [onTextReceived]);
+
+  const append = useCallback((incoming: TimelineEntry[]) => {
+    setEntries((prev) => mergeEntries(prev, incoming));
+  }, []);
+
+  useEffect(() => {
+    setEntries([]);
+    setReceipts({});
+    const streams = streamsRef.current;
+    streams.clear();
+    const isCurrent = (payload: { channelCode?: string } | undefined) => payload?.channelCode === channelCode;
+
+    const unsubscribeHistory = socketService.on<[AudioHistoryPage]>('audio-history', (payload) => {
+      if (!isCurrent(payload) || !payload.messages) {
+        return;
+      }
+      append([...payload.messages.map(fromAudio), ...(payload.textMessages ?? []).map((m) => fromText(m))]);
+    });
+    const unsubscribeAudio = socketService.on<[AudioMessageEvent]>('audio-message', (payload) => {
+      if (isCurrent(payload) && payload.id) {
+        append([fromAudio(payload)]);
+      }
+    });
+    const unsubscribeText = socketService.on<[TextMessageEvent]>('text:message', (payload) => {
+      if (!isCurrent(payload) || !payload.id || typeof payload.body !== 'string') {
+        return;
+      }
+      append([fromText(payload)]);
+      onTextReceivedRef.current?.(payload);
+    });
+    const unsubscribeStreamStart = socketService.on<[AudioStreamStart]>('audio:stream:start', (payload) => {
+      if (isCurrent(payload) && payload.transmissionId) {
+        streams.set(payload.transmissionId, payload);
+      }
+    });
+    const unsubscribeStreamEnd = socketService.on<[AudioStreamEnd]>('audio:stream:end', (payload) => {
+      const start = payload?.transmissionId ? streams.get(payload.transmissionId) : undefined;
+      if (!start || !isCurrent(payload)) {
+        return;
+      }
+      streams.delete(payload.transmissionId);
+      append([
+        {
+          kind: 'audio',
+          id: payload.messageId,
+          senderNickname: start.senderNickname,
+          priority: start.priority,
+          timestamp: payload.timestamp,
+          durationMs: payload.durationMs,
+          isSelf: false,
+          isPrivate: Boolean(start.recipientUserIds),
+        },
+      ]);
+    });
+    const unsubscribeStreamAbort = socketService.on<[AudioStreamAbort]>('audio:stream:abort', (payload) => {
+      if (payload?.transmissionId) {
+        streams.delete(payload.transmissionId);
+      }
+    });
+    const unsubscribeReceipts = socketService.on<[AudioReceipts]>('audio:receipts', (payload) => {
+      if (isCurrent(payload) && payload.messageId) {
+        setReceipts((prev) => ({ ...prev, [payload.messageId]: payload }));
+      }
+    });
+    return () => {
+      unsubscribeHistory();
+      unsubscribeAudio();
+      unsubscribeText();
+      unsubscribeStreamStart();
+      unsubscribeStreamEnd();
+      unsubscribeStreamAbort();
+      unsubscribeReceipts();
+    };
+  }, [append, channelCode, socketService]);
+
+  const sendText = useCallback(
+    async (body: string, priority: MessagePriority) => {
+      setTextError(null);
+      setIsSendingText(true);
+      try {
+        const response = await socketService.sendTextMessage(channelCode, body, priority);
+        if (!response.ok) {
+          setTextError(response.error);
+          return false;
+        }
+        append([
+          fromText(
+            {
+              id: response.data.id,
+              channelCode,
+              senderNickname: nickname,
+              priority,
+              body: body.trim(),
+              timestamp: response.data.timestamp,
+            },
+            true,
+          ),
+        ]);
+        return true;
+      } catch (err) {
+        setTextError(err instanceof Error ? err.message : 'Unable to send message.');
+        return false;
+      } finally {
+        setIsSendingText(false);
+      }
+    },
+    [append, channelCode, nickname, socketService],
+  );
+
+  const addOwnAudio = useCallback(
+    (id: string, timestamp: string, priority: MessagePriority, durationMs: number, isPrivate = false) => {
+      append([
+        { kind: 'audio', id, senderNickname: nickname, priority, timestamp, durationMs, isSelf: true, isPrivate },
+      ]);
+    },
+    [append, nickname],
+  );
+
+  return { entries, receipts, isSendingText, textError, sendText, addOwnAudio };
+};
@@ -1,9 +1,10 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { EmergencyBroadcast } from '@walkie/shared/types';
-import type { SocketService } from '../services/socketService';
+import type { EmergencyBroadcast, EmergencyScope } from '@walkie/shared/types';
+import type { EmergencyStatusUpdate, SocketService } from '../services/socketService';
 
 type EmergencyBroadcastPayload = {
   message: string;
+  scope: EmergencyScope;
 };
 
 type EmergencyAlertPayload = {
@@ -18,17 +19,22 @@ type EmergencyErrorPayload = {
 
 type UseEmergencyBroadcastOptions = {
   socketService: SocketService;
+  userId: string | null;
   playSosTone: () => void;
   interruptAudio: () => void;
   onBroadcastReceived?: (broadcast: EmergencyBroadcast) => void;
 };
 
 type UseEmergencyBroadcastState = {
-  sendEmergency: (message: string) => Promise<void>;
+  sendEmergency: (message: string, scope?: EmergencyScope) => Promise<void>;
   isSending: boolean;
   error: string | null;
   cooldownMs: number;
   lastBroadcastAt: Date | null;
+  outgoing: EmergencyBroadcast | null;
+  statuses: Record<string, EmergencyStatusUpdate>;
+  acknowledge: (emergencyId: string) => Promise<void>;
+  resolve: (emergencyId: string) => Promise<void>;
 };
 
 const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000;
@@ -45,6 +51,7 @@ const normalizeMessage = (value: string) => {
 
 export const useEmergencyBroadcast = ({
   socketService,
+  userId,
   playSosTone,
   interruptAudio,
   onBroadcastReceived,
@@ -53,7 +60,24 @@ export const useEmergencyBroadcast = ({
   const [error, setError] = useState<string | null>(null);
   const [cooldownMs, setCooldownMs] = useState(0);
   const [lastBroadcastAt, setLastBroadcastAt] = useState<Date | null>(null);
+  const [outgoing, setOutgoing] = useState<EmergencyBroadcast | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, EmergencyStatusUpdate>>({});
   const lastBroadcastRef = useRef<number | null>(null);
+  const userIdRef = useRef(userId);
+
+  useEffect(() => {
+    userIdRef.current = userId;
+  }, [userId]);
+
+  const applyStatus = useCallback((update: EmergencyStatusUpdate) => {
+    setStatuses((prev) => {
+      const current = prev[update.emergencyId];
+      if (current?.status === 'resolved' || (current && current.acknowledgedCount > update.acknowledgedCount)) {
+        return prev;
+      }
+      return { ...prev, [update.emergencyId]: update };
+    });
+  }, []);
 
   const updateCooldown = useCallback(() => {
     if (!lastBroadcastRef.current) {
@@ -73,7 +97,7 @@ export const useEmergencyBroadcast = ({
   }, [updateCooldown]);
 
   const sendEmergency = useCallback(
-    async (message: string) => {
+    async (message: string, scope: EmergencyScope = 'channel') => {
       setError(null);
       if (socketService.getStatus() !== 'connected') {
         setError('Offline. Connect to send emergency broadcast.');
@@ -101,7 +125,7 @@ export const useEmergencyBroadcast = ({
       try {
         const response = await socketService.request<{ broadcast: EmergencyBroadcast }>(
           'emergency:broadcast',
-          { message: normalized } satisfies EmergencyBroadcastPayload,
+          { message: normalized, scope } satisfies EmergencyBroadcastPayload,
         );
 
         if (!response.ok) {
@@ -118,6 +142,7 @@ export const useEmergencyBroadcast = ({
         }
 
         setLastSentNow();
+        setOutgoing(response.data.broadcast);
         console.warn('[emergency] broadcast sent', response.data.broadcast);
       } catch (err) {
         const messageText = err instanceof Error ? err.message : 'Unable to send emergency broadcast.';
@@ -137,11 +162,20 @@ export const useEmergencyBroadcast = ({
       }
       const broadcast = payload.broadcast;
       console.warn('[emergency] received', broadcast);
+      if (broadcast.fromUserId === userIdRef.current) {
+        return;
+      }
       interruptAudio();
       playSosTone();
       onBroadcastReceived?.(broadcast);
     });
 
+    const unsubscribeStatus = socketService.on<[EmergencyStatusUpdate]>('emergency:status', (payload) => {
+      if (payload?.emergencyId) {
+        applyStatus(payload);
+      }
+    });
+
     const unsubscribeError = socketService.on<[EmergencyErrorPayload]>('emergency:error', (payload) => {
       if (!payload?.error) {
         return;
@@ -151,9 +185,43 @@ export const useEmergencyBroadcast = ({
 
     return () => {
       unsubscribeAlert();
+      unsubscribeStatus();
       unsubscribeError();
     };
-  }, [interruptAudio, onBroadcastReceived, playSosTone, socketService]);
+  }, [applyStatus, interruptAudio, onBroadcastReceived, playSosTone, socketService]);
+
+  const acknowledge = useCallback(
+    async (emergencyId: string) => {
+      try {
+        const response = await socketService.acknowledgeEmergency(emergencyId);
+        if (response.ok) {
+          applyStatus(response.data);
+        } else {
+          console.warn('[emergency] acknowledge failed', response);
+        }
+      } catch (err) {
+        console.warn('[emergency] acknowledge error', err);
+      }
+    },
+    [applyStatus, socketService],
+  );
+
+  const resolve = useCallback(
+    async (emergencyId: string) => {
+      setError(null);
+      try {
+        const response = await socketService.resolveEmergency(emergencyId);
+        if (!response.ok) {
+          setError(response.error);
+          return;
+        }
+        applyStatus(response.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to resolve emergency.');
+      }
+    },
+    [applyStatus, socketService],
+  );
 
   useEffect(() => {
     if (cooldownMs <= 0) {
@@ -170,7 +238,11 @@ export const useEmergencyBroadcast = ({
       error,
       cooldownMs,
       lastBroadcastAt,
+      outgoing,
+      statuses,
+      acknowledge,
+      resolve,
     }),
-    [cooldownMs, error, isSending, lastBroadcastAt, sendEmergency],
+    [acknowledge, cooldownMs, error, isSending, lastBroadcastAt, outgoing, resolve, sendEmergency, statuses],
   );
 };
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { MessagePriority } from '@walkie/shared/types';
+import type {
+  FloorDenied,
+  FloorGrant,
+  FloorRelease,
+  SocketService,
+} from '../services/socketService';
+
+type UseFloorControlOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  userId: string | null;
+  onFloorLost?: (release: FloorRelease) => void;
+};
+
+type RequestFloorResult = { granted: true } | { granted: false; error: string };
+
+type UseFloorControlState = {
+  holder: FloorGrant | null;
+  busyHolder: FloorGrant | null;
+  hasFloor: boolean;
+  requestFloor: (priority: MessagePriority) => Promise<RequestFloorResult>;
+  releaseFloor: () => void;
+};
+
+export const useFloorControl = ({
+  socketService,
+  channelCode,
+  userId,
+  onFloorLost,
+}: UseFloorControlOptions): UseFloorControlState => {
+  const [holder, setHolder] = useState<FloorGrant | null>(null);
+  const userIdRef = useRef(userId);
+  const onFloorLostRef = useRef(onFloorLost);
+
+  useEffect(() => {
+    userIdRef.current = userId;
+  }, [userId]);
+
+  useEffect(() => {
+    onFloorLostRef.current = onFloorLost;
+  }, [onFloorLost]);
+
+  const requestFloor = useCallback(
+    async (priority: MessagePriority): Promise<RequestFloorResult> => {
+      try {
+        const response = await socketService.requestFloor(channelCode, priority);
+        if (!response.ok) {
+          return { granted: false, error: response.error };
+        }
+        setHolder(response.data);
+        return { granted: true };
+      } catch (err) {
+        return {
+          granted: false,
+          error: err instanceof Error ? err.message : 'Unable to take the channel.',
+        };
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  const releaseFloor = useCallback(() => {
+    socketService.releaseFloor(channelCode);
+  }, [channelCode, socketService]);
+
+  useEffect(() => {
+    const unsubscribeGrant = socketService.on<[FloorGrant]>('floor:grant', (payload) => {
+      if (payload?.channelCode !== channelCode) {
+        return;
+      }
+      setHolder(payload);
+    });
+
+    const unsubscribeRelease = socketService.on<[FloorRelease]>('floor:release', (payload) => {
+      if (payload?.channelCode !== channelCode) {
+        return;
+      }
+      setHolder((prev) => (prev?.userId === payload.userId ? null : prev));
+      if (
+        payload.userId === userIdRef.current &&
+        (payload.reason === 'preempted' || payload.reason === 'expired')
+      ) {
+        onFloorLostRef.current?.(payload);
+      }
+    });
+
+    const unsubscribeDenied = socketService.on<[FloorDenied]>('floor:denied', (payload) => {
+      if (payload?.channelCode !== channelCode || !payload.holder) {
+        return;
+      }
+      setHolder(payload.holder);
+    });
+
+    const unsubscribeDisconnect = socketService.on('disconnect', () => {
+      setHolder(null);
+    });
+
+    return () => {
+      unsubscribeGrant();
+      unsubscribeRelease();
+      unsubscribeDenied();
+      unsubscribeDisconnect();
+    };
+  }, [channelCode, socketService]);
+
+  return useMemo(() => {
+    const hasFloor = holder !== null && holder.userId === userId;
+    return {
+      holder,
+      busyHolder: holder && !hasFloor ? holder : null,
+      hasFloor,
+      requestFloor,
+      releaseFloor,
+    };
+  }, [holder, releaseFloor, requestFloor, userId]);
+};
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GeofenceShape } from '@walkie/shared/types';
+import type { GeofenceEvent, GeofenceList, GeofenceSummary, SocketService } from '../services/socketService';
+
+type UseGeofencesOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  enabled: boolean;
+};
+
+export type GeofenceNotice = GeofenceEvent & { kind: 'enter' | 'exit' };
+
+type UseGeofencesState = {
+  geofences: GeofenceSummary[];
+  notice: GeofenceNotice | null;
+  error: string | null;
+  create: (name: string, shape: GeofenceShape, alertAfterMs: number | null) => Promise<boolean>;
+  remove: (geofenceId: string) => Promise<void>;
+  dismissNotice: () => void;
+};
+
+const NOTICE_MS = 5_000;
+
+export const useGeofences = ({ socketService, channelCode, enabled }: UseGeofencesOptions): UseGeofencesState => {
+  const [geofences, setGeofences] = useState<GeofenceSummary[]>([]);
+  const [notice, setNotice] = useState<GeofenceNotice | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const dismissNotice = useCallback(() => {
+    if (noticeTimerRef.current) {
+      clearTimeout(noticeTimerRef.current);
+      noticeTimerRef.current = null;
+    }
+    setNotice(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setGeofences([]);
+      return;
+    }
+    let cancelled = false;
+    socketService
+      .fetchGeofences(channelCode)
+      .then((response) => {
+        if (cancelled) {
+          return;
+        }
+        if (response.ok) {
+          setGeofences(response.data.geofences);
+        } else {
+          setError(response.error);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError('Unable to load geofences.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelCode, enabled, socketService]);
+
+  useEffect(() => {
+    const showNotice = (kind: GeofenceNotice['kind']) => (payload: GeofenceEvent) => {
+      if (!payload || payload.channelCode !== channelCode) {
+        return;
+      }
+      if (noticeTimerRef.current) {
+        clearTimeout(noticeTimerRef.current);
+      }
+      setNotice({ ...payload, kind });
+      noticeTimerRef.current = setTimeout(() => {
+        noticeTimerRef.current = null;
+        setNotice(null);
+      }, NOTICE_MS);
+    };
+    const unsubscribeList = socketService.on<[GeofenceList]>('geofence:list', (payload) => {
+      if (payload?.channelCode === channelCode) {
+        setGeofences(payload.geofences);
+      }
+    });
+    const unsubscribeEnter = socketService.on<[GeofenceEvent]>('geofence:enter', showNotice('enter'));
+    const unsubscribeExit = socketService.on<[GeofenceEvent]>('geofence:exit', showNotice('exit'));
+    return () => {
+      unsubscribeList();
+      unsubscribeEnter();
+      unsubscribeExit();
+      if (noticeTimerRef.current) {
+        clearTimeout(noticeTimerRef.current);
+        noticeTimerRef.current = null;
+      }
+    };
+  }, [channelCode, socketService]);
+
+  const create = useCallback(
+    async (name: string, shape: GeofenceShape, alertAfterMs: number | null) => {
+      setError(null);
+      try {
+        const response = await socketService.createGeofence({ channelCode, name, shape, alertAfterMs });
+        if (!response.ok) {
+          setError(response.error);
+          return false;
+        }
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to save geofence.');
+        return false;
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  const remove = useCallback(
+    async (geofenceId: string) => {
+      setError(null);
+      try {
+        const response = await socketService.deleteGeofence(channelCode, geofenceId);
+        if (!response.ok) {
+          setError(response.error);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to delete geofence.');
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  return { geofences, notice, error, create, remove, dismissNotice };
+};
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AudioLocation, MemberLocation, SocketService } from '../services/socketService';
+
+type UseGeolocationOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  enabled: boolean;
+  publishIntervalMs?: number;
+};
+
+type UseGeolocationState = {
+  sharing: boolean;
+  supported: boolean;
+  position: MemberLocation | null;
+  error: string | null;
+  setSharing: (sharing: boolean) => void;
+  getAttachment: () => AudioLocation | undefined;
+};
+
+const SHARING_STORAGE_KEY = 'walkie:share-location';
+const DEFAULT_PUBLISH_INTERVAL_MS = 15_000;
+
+const isSupported = () => typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+const loadSharing = () => {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  return window.localStorage.getItem(SHARING_STORAGE_KEY) === 'on';
+};
+
+const saveSharing = (value: boolean) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(SHARING_STORAGE_KEY, value ? 'on' : 'off');
+};
+
+const describeError = (error: GeolocationPositionError) => {
+  if (error.code === error.PERMISSION_DENIED) {
+    return 'Location permission denied.';
+  }
+  if (error.code === error.POSITION_UNAVAILABLE) {
+    return 'Location unavailable.';
+  }
+  return 'Location timed out.';
+};
+
+export const useGeolocation = ({
+  socketService,
+  channelCode,
+  enabled,
+  publishIntervalMs = DEFAULT_PUBLISH_INTERVAL_MS,
+}: UseGeolocationOptions): UseGeolocationState => {
+  const [sharing, setSharingState] = useState(loadSharing);
+  const [position, setPosition] = useState<MemberLocation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const positionRef = useRef<MemberLocation | null>(null);
+  const lastPublishedAtRef = useRef(0);
+  const supported = isSupported();
+
+  const publish = useCallback(() => {
+    const current = positionRef.current;
+    if (!current) {
+      return;
+    }
+    lastPublishedAtRef.current = Date.now();
+    socketService.publishLocation({
+      channelCode,
+      lat: current.lat,
+      lng: current.lng,
+      accuracy: current.accuracy,
+      heading: current.heading,
+    });
+  }, [channelCode, socketService]);
+
+  useEffect(() => {
+    if (!sharing || !enabled || !supported) {
+      return;
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (next) => {
+        const heading = next.coords.heading;
+        positionRef.current = {
+          lat: next.coords.latitude,
+          lng: next.coords.longitude,
+          accuracy: Number.isFinite(next.coords.accuracy) ? next.coords.accuracy : null,
+          heading: heading !== null && Number.isFinite(heading) ? heading : null,
+          updatedAt: new Date(next.timestamp),
+        };
+        setPosition(positionRef.current);
+        setError(null);
+        if (Date.now() - lastPublishedAtRef.current >= publishIntervalMs) {
+          publish();
+        }
+      },
+      (err) => setError(describeError(err)),
+      { enableHighAccuracy: true, maximumAge: 10_000, timeout: 30_000 },
+    );
+    // watchPosition only fires on movement; republish so a stationary member's fix stays fresh.
+    const interval = setInterval(publish, publishIntervalMs);
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      clearInterval(interval);
+    };
+  }, [enabled, publish, publishIntervalMs, sharing, supported]);
+
+  const setSharing = useCallback(
+    (next: boolean) => {
+      saveSharing(next);
+      setSharingState(next);
+      if (!next) {
+        positionRef.current = null;
+        lastPublishedAtRef.current = 0;
+        setPosition(null);
+        setError(null);
+        socketService.stopLocationSharing(channelCode);
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  const getAttachment = useCallback((): AudioLocation | undefined => {
+    const current = positionRef.current;
+    if (!sharing || !current) {
+      return undefined;
+    }
+    return {
+      lat: current.lat,
+      lng: current.lng,
+      ...(current.accuracy !== null ? { accuracy: current.accuracy } : {}),
+    };
+  }, [sharing]);
+
+  return { sharing, supported, position, error, setSharing, getAttachment };
+};
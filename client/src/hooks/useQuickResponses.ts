@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  QuickResponseEvent,
+  QuickResponseHistory,
+  QuickResponseKind,
+  SocketService,
+} from '../services/socketService';
+
+type UseQuickResponsesOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  playCue: () => void;
+};
+
+type UseQuickResponsesState = {
+  responses: QuickResponseEvent[];
+  toast: QuickResponseEvent | null;
+  isSending: boolean;
+  error: string | null;
+  send: (kind: QuickResponseKind) => Promise<void>;
+  dismissToast: () => void;
+};
+
+const MAX_RESPONSES = 50;
+const TOAST_MS = 3_000;
+
+const mergeResponses = (current: QuickResponseEvent[], incoming: QuickResponseEvent[]) => {
+  const byId = new Map(current.map((response) => [response.id, response]));
+  incoming.forEach((response) => byId.set(response.id, response));
+  return Array.from(byId.values())
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .slice(-MAX_RESPONSES);
+};
+
+export const useQuickResponses = ({
+  socketService,
+  channelCode,
+  playCue,
+}: UseQuickResponsesOptions): UseQuickResponsesState => {
+  const [responses, setResponses] = useState<QuickResponseEvent[]>([]);
+  const [toast, setToast] = useState<QuickResponseEvent | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const playCueRef = useRef(playCue);
+
+  useEffect(() => {
+    playCueRef.current = playCue;
+  }, [playCue]);
+
+  const showToast = useCallback((response: QuickResponseEvent) => {
+    if (toastTimerRef.current) {
+      clearTimeout(toastTimerRef.current);
+    }
+    setToast(response);
+    toastTimerRef.current = setTimeout(() => {
+      toastTimerRef.current = null;
+      setToast(null);
+    }, TOAST_MS);
+  }, []);
+
+  const dismissToast = useCallback(() => {
+    if (toastTimerRef.current) {
+      clearTimeout(toastTimerRef.current);
+      toastTimerRef.current = null;
+    }
+    setToast(null);
+  }, []);
+
+  useEffect(() => {
+    setResponses([]);
+    const unsubscribeResponse = socketService.on<[QuickResponseEvent]>('quick:response', (payload) => {
+      if (!payload?.id || payload.channelCode !== channelCode) {
+        return;
+      }
+      setResponses((prev) => mergeResponses(prev, [payload]));
+      playCueRef.current();
+      showToast(payload);
+    });
+    const unsubscribeHistory = socketService.on<[QuickResponseHistory]>('quick:history', (payload) => {
+      if (payload?.channelCode !== channelCode || !Array.isArray(payload.responses)) {
+        return;
+      }
+      setResponses((prev) => mergeResponses(prev, payload.responses));
+    });
+    return () => {
+      unsubscribeResponse();
+      unsubscribeHistory();
+    };
+  }, [channelCode, showToast, socketService]);
+
+  useEffect(
+    () => () => {
+      if (toastTimerRef.current) {
+        clearTimeout(toastTimerRef.current);
+      }
+    },
+    [],
+  );
+
+  const send = useCallback(
+    async (kind: QuickResponseKind) => {
+      setError(null);
+      setIsSending(true);
+      try {
+        const response = await socketService.sendQuickResponse(channelCode, kind);
+        if (!response.ok) {
+          setError(response.error);
+          return;
+        }
+        setResponses((prev) => mergeResponses(prev, [response.data]));
+        playCueRef.current();
+        showToast(response.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to send quick response.');
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [channelCode, showToast, socketService],
+  );
+
+  return { responses, toast, isSending, error, send, dismissToast };
+};
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ScanMode } from '@walkie/shared/types';
+import type { SocketService } from '../services/socketService';
+
+type UseScanListOptions = {
+  socketService: SocketService;
+  channelCode: string;
+  nickname: string;
+  enabled: boolean;
+};
+
+type ScanEntry = {
+  channelCode: string;
+  mode: ScanMode;
+  muted: boolean;
+};
+
+type StoredScanList = {
+  entries: ScanEntry[];
+  priorityChannel: string | null;
+};
+
+export type ScanChannel = ScanEntry & {
+  status: 'joining' | 'active' | 'error';
+  error: string | null;
+};
+
+type UseScanListState = {
+  channels: ScanChannel[];
+  priorityChannel: string | null;
+  error: string | null;
+  add: (channelCode: string, mode: ScanMode, passphrase?: string) => Promise<boolean>;
+  remove: (channelCode: string) => void;
+  setMode: (channelCode: string, mode: ScanMode) => void;
+  setMuted: (channelCode: string, muted: boolean) => void;
+  setPriorityChannel: (channelCode: string | null) => void;
+  isAudible: (channelCode: string) => boolean;
+  isPriority: (channelCode: string) => boolean;
+};
+
+const SCAN_STORAGE_KEY = 'walkie:scan-list';
+const MAX_SCAN_CHANNELS = 8;
+
+const loadScanList = (): StoredScanList => {
+  if (typeof window === 'undefined') {
+    return { entries: [], priorityChannel: null };
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SCAN_STORAGE_KEY) ?? 'null') as StoredScanList | null;
+    if (!parsed || !Array.isArray(parsed.entries)) {
+      return { entries: [], priorityChannel: null };
+    }
+    return {
+      entries: parsed.entries.filter(
+        (entry) => typeof entry?.channelCode === 'string' && (entry.mode === 'full' || entry.mode === 'listen'),
+      ),
+      priorityChannel: typeof parsed.priorityChannel === 'string' ? parsed.priorityChannel : null,
+    };
+  } catch {
+    return { entries: [], priorityChannel: null };
+  }
+};
+
+const saveScanList = (value: StoredScanList) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(SCAN_STORAGE_KEY, JSON.stringify(value));
+};
+
+export const useScanList = ({
+  socketService,
+  channelCode,
+  nickname,
+  enabled,
+}: UseScanListOptions): UseScanListState => {
+  const [stored, setStored] = useState(loadScanList);
+  const [statuses, setStatuses] = useState<Record<string, { status: ScanChannel['status']; error: string | null }>>(
+    {},
+  );
+  const [error, setError] = useState<string | null>(null);
+  const storedRef = useRef(stored);
+  // Passphrases stay in memory so a reconnect can rejoin protected channels without asking again.
+  const passphrasesRef = useRef(new Map<string, string>());
+  const joinedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    storedRef.current = stored;
+  }, [stored]);
+
+  const update = useCallback((updater: (prev: StoredScanList) => StoredScanList) => {
+    setStored((prev) => {
+      const next = updater(prev);
+      saveScanList(next);
+      return next;
+    });
+  }, []);
+
+  const setStatus = useCallback((code: string, status: ScanChannel['status'], message: string | null = null) => {
+    setStatuses((prev) => ({ ...prev, [code]: { status, error: message } }));
+  }, []);
+
+  // Resolves to an error message, or null once the channel is being scanned.
+  const join = useCallback(
+    async (entry: ScanEntry): Promise<string | null> => {
+      setStatus(entry.channelCode, 'joining');
+      try {
+        const response = await socketService.joinScan({
+          channelCode: entry.channelCode,
+          nickname,
+          mode: entry.mode,
+          passphrase: passphrasesRef.current.get(entry.channelCode),
+        });
+        if (!response.ok) {
+          setStatus(entry.channelCode, 'error', response.error);
+          return response.error;
+        }
+        joinedRef.current.add(entry.channelCode);
+        setStatus(entry.channelCode, 'active');
+        return null;
+      } catch {
+        setStatus(entry.channelCode, 'error', 'Unable to join channel.');
+        return 'Unable to join channel.';
+      }
+    },
+    [nickname, setStatus, socketService],
+  );
+
+  const leave = useCallback(
+    (code: string) => {
+      if (!joinedRef.current.delete(code)) {
+        return;
+      }
+      socketService.leaveScan(code).catch(() => undefined);
+    },
+    [socketService],
+  );
+
+  // The server drops scanned channels on disconnect, so every reconnect rejoins the whole list.
+  useEffect(() => {
+    if (!enabled) {
+      joinedRef.current.clear();
+      setStatuses({});
+      return;
+    }
+    storedRef.current.entries
+      .filter((entry) => entry.channelCode !== channelCode && !joinedRef.current.has(entry.channelCode))
+      .forEach((entry) => {
+        void join(entry);
+      });
+  }, [channelCode, enabled, join]);
+
+  useEffect(() => {
+    const joined = joinedRef.current;
+    return () => {
+      joined.forEach((code) => {
+        socketService.leaveScan(code).catch(() => undefined);
+      });
+      joined.clear();
+    };
+  }, [socketService]);
+
+  const add = useCallback(
+    async (code: string, mode: ScanMode, passphrase?: string) => {
+      if (code === channelCode || stored.entries.some((entry) => entry.channelCode === code)) {
+        setError('Already on this channel.');
+        return false;
+      }
+      if (stored.entries.length >= MAX_SCAN_CHANNELS) {
+        setError(`Scan list is limited to ${MAX_SCAN_CHANNELS} channels.`);
+        return false;
+      }
+      if (passphrase) {
+        passphrasesRef.current.set(code, passphrase);
+      }
+      const entry: ScanEntry = { channelCode: code, mode, muted: false };
+      const failure = await join(entry);
+      setError(failure);
+      if (failure) {
+        passphrasesRef.current.delete(code);
+        return false;
+      }
+      update((prev) => ({ ...prev, entries: [...prev.entries, entry] }));
+      return true;
+    },
+    [channelCode, join, stored.entries, update],
+  );
+
+  const remove = useCallback(
+    (code: string) => {
+      leave(code);
+      passphrasesRef.current.delete(code);
+      setStatuses((prev) => {
+        const next = { ...prev };
+        delete next[code];
+        return next;
+      });
+      update((prev) => ({
+        entries: prev.entries.filter((entry) => entry.channelCode !== code),
+        priorityChannel: prev.priorityChannel === code ? null : prev.priorityChannel,
+      }));
+    },
+    [leave, update],
+  );
+
+  const setMode = useCallback(
+    (code: string, mode: ScanMode) => {
+      update((prev) => ({
+        ...prev,
+        entries: prev.entries.map((entry) => (entry.channelCode === code ? { ...entry, mode } : entry)),
+      }));
+      if (!joinedRef.current.has(code)) {
+        return;
+      }
+      socketService
+        .setScanMode(code, mode)
+        .then((response) => {
+          if (!response.ok) {
+            setStatus(code, 'error', response.error);
+          }
+        })
+        .catch(() => undefined);
+    },
+    [setStatus, socketService, update],
+  );
+
+  const setMuted = useCallback(
+    (code: string, muted: boolean) => {
+      update((prev) => ({
+        ...prev,
+        entries: prev.entries.map((entry) => (entry.channelCode === code ? { ...entry, muted } : entry)),
+      }));
+    },
+    [update],
+  );
+
+  const setPriorityChannel = useCallback(
+    (code: string | null) => {
+      update((prev) => ({ ...prev, priorityChannel: code }));
+    },
+    [update],
+  );
+
+  const channels = useMemo(
+    () =>
+      stored.entries
+        .filter((entry) => entry.channelCode !== channelCode)
+        .map((entry) => ({
+          ...entry,
+          status: statuses[entry.channelCode]?.status ?? 'joining',
+          error: statuses[entry.channelCode]?.error ?? null,
+        })),
+    [channelCode, statuses, stored.entries],
+  );
+
+  const isAudible = useCallback(
+    (code: string) =>
+      code === channelCode ||
+      channels.some((entry) => entry.channelCode === code && entry.status === 'active' && !entry.muted),
+    [channelCode, channels],
+  );
+
+  const isPriority = useCallback((code: string) => stored.priorityChannel === code, [stored.priorityChannel]);
+
+  return {
+    channels,
+    priorityChannel: stored.priorityChannel,
+    error,
+    add,
+    remove,
+    setMode,
+    setMuted,
+    setPriorityChannel,
+    isAudible,
+    isPriority,
+  };
+};
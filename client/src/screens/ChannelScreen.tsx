@@ -1,14 +1,50 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { EmergencyBroadcast } from '@walkie/shared/types';
+import type {
+  ChannelPolicy,
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyScope,
+  MessagePriority,
+} from '@walkie/shared/types';
+import { AudioHistoryPanel, type PlaybackRate } from '../components/AudioHistoryPanel';
+import { CatchUpPanel } from '../components/CatchUpPanel';
+import { ChannelLinksPanel } from '../components/ChannelLinksPanel';
+import { ChannelPolicyPanel } from '../components/ChannelPolicyPanel';
+import { ChannelTimeline } from '../components/ChannelTimeline';
+import { GeofencePanel } from '../components/GeofencePanel';
 import { PushToTalkButton } from '../components/PushToTalkButton';
+import { QuickResponseBar } from '../components/QuickResponseBar';
+import { RetentionPanel } from '../components/RetentionPanel';
+import { ScanListPanel } from '../components/ScanListPanel';
+import { TeamView } from '../components/TeamView';
+import { Toast } from '../components/Toast';
 import { EmergencyBroadcastButton } from '../components/EmergencyBroadcastButton';
+import { EmergencyStatusPanel } from '../components/EmergencyStatusPanel';
 import { StatusBar, type BatteryInfo } from '../components/StatusBar';
-import { UserList, type UserSummary } from '../components/UserList';
+import { UserList, type ModerationAction, type UserSummary } from '../components/UserList';
+import { useAudioHistory, type AudioHistoryItem } from '../hooks/useAudioHistory';
 import { useAudioPlayer } from '../hooks/useAudioPlayer';
 import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { STREAM_TIMESLICE_MS, useAudioStreamSender } from '../hooks/useAudioStreamSender';
+import { useCatchUp } from '../hooks/useCatchUp';
+import { useChannelLinks } from '../hooks/useChannelLinks';
+import { useChannelRetention } from '../hooks/useChannelRetention';
+import { useChannelRoster } from '../hooks/useChannelRoster';
+import { useChannelTimeline } from '../hooks/useChannelTimeline';
 import { useEmergencyBroadcast } from '../hooks/useEmergencyBroadcast';
+import { useFloorControl } from '../hooks/useFloorControl';
+import { useGeofences } from '../hooks/useGeofences';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useQuickResponses } from '../hooks/useQuickResponses';
+import { useScanList } from '../hooks/useScanList';
 import type {
   AudioMessageEvent,
+  AudioStreamAbort,
+  AudioStreamChunk,
+  AudioStreamEnd,
+  AudioStreamPriority,
+  AudioStreamStart,
+  FloorRelease,
   SendAudioMessagePayload,
   SocketService,
 } from '../services/socketService';
@@ -18,6 +54,9 @@ type ChannelScreenProps = {
   socketService: SocketService;
   channelCode: string;
   nickname: string;
+  passphrase?: string;
+  onPassphraseRequired?: (error: string) => void;
+  onRemoved?: (message: string) => void;
 };
 
 type ConnectionQuality = 'good' | 'ok' | 'poor' | 'offline';
@@ -38,34 +77,26 @@ type BatteryManagerLike = {
   removeEventListener: (type: 'chargingchange' | 'levelchange', listener: () => void) => void;
 };
 
-type AudioHistoryPayload = {
-  messages: AudioMessageEvent[];
-};
+const CHANNEL_ROLES: ChannelRole[] = ['member', 'moderator', 'owner'];
+const ROLE_RANK: Record<ChannelRole, number> = { member: 0, moderator: 1, owner: 2 };
+const DEFAULT_POLICY: ChannelPolicy = { urgentMinRole: 'member' };
 
 const MIN_TICK_MS = 10_000;
 const LOW_POWER_TICK_MS = 30_000;
 const IDLE_AFTER_MS = 60_000;
 const AWAY_AFTER_MS = 5 * 60_000;
+const SOS_REPEAT_MS = 4_000;
 
 const computeLowPower = (charging: boolean, level: number) => !charging && level <= 0.2;
 
-const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
-  const bytes = new Uint8Array(buffer);
-  const chunkSize = 0x8000;
-  let binary = '';
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+const describeEmergencyScope = (broadcast: EmergencyBroadcast) => {
+  if (broadcast.scope === 'global') {
+    return 'Server-wide alert';
   }
-  return btoa(binary);
-};
-
-const base64ToBlob = (base64: string, mimeType: string) => {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
+  if (broadcast.scope === 'linked') {
+    return `Linked channels ${broadcast.targetChannelCodes.join(', ')}`;
   }
-  return new Blob([bytes], { type: mimeType });
+  return `Channel ${broadcast.channelCode}`;
 };
 
 const useConnectionStatus = (socketService: SocketService): ConnectionState => {
@@ -304,16 +335,40 @@ const useUserActivity = (
   return status;
 };
 
-export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelScreenProps) => {
+export const ChannelScreen = ({
+  socketService,
+  channelCode,
+  nickname,
+  passphrase,
+  onPassphraseRequired,
+  onRemoved,
+}: ChannelScreenProps) => {
   const [joinError, setJoinError] = useState<string | null>(null);
   const [sendError, setSendError] = useState<string | null>(null);
   const [sendNotice, setSendNotice] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [isSendingAudio, setIsSendingAudio] = useState(false);
   const [activeEmergency, setActiveEmergency] = useState<EmergencyBroadcast | null>(null);
-  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [emergencyScope, setEmergencyScope] = useState<EmergencyScope>('channel');
+  const [priority, setPriority] = useState<MessagePriority>('routine');
+  const [policy, setPolicy] = useState<ChannelPolicy>(DEFAULT_POLICY);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const transmitPriorityRef = useRef<MessagePriority>('routine');
+  const transmitRecipientsRef = useRef<string[] | undefined>(undefined);
+  const [privateTarget, setPrivateTarget] = useState<UserSummary | null>(null);
+  const [dismissedOutgoingId, setDismissedOutgoingId] = useState<string | null>(null);
   const recordStartRef = useRef<number | null>(null);
   const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onPassphraseRequiredRef = useRef(onPassphraseRequired);
+  const onRemovedRef = useRef(onRemoved);
+
+  useEffect(() => {
+    onPassphraseRequiredRef.current = onPassphraseRequired;
+  }, [onPassphraseRequired]);
+
+  useEffect(() => {
+    onRemovedRef.current = onRemoved;
+  }, [onRemoved]);
 
   const connection = useConnectionStatus(socketService);
   const presence = useUserActivity(socketService, channelCode);
@@ -321,15 +376,156 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
 
   const { startRecording, stopRecording, isRecording, audioLevel, error: recorderError } =
     useAudioRecorder();
-  const { enqueueAudio, playEmergencyTone, stopAll, isPlaying } = useAudioPlayer();
+  // Streams play under their transmission id; receipts are reported against the stored message id.
+  const streamMessageIdsRef = useRef(new Map<string, string>());
+  const handlePlayed = useCallback(
+    (id: string) => {
+      const messageId = streamMessageIdsRef.current.get(id) ?? id;
+      streamMessageIdsRef.current.delete(id);
+      socketService.sendAudioReceipt('played', channelCode, messageId);
+    },
+    [channelCode, socketService],
+  );
+  const {
+    enqueueAudio,
+    playEmergencyTone,
+    playQuickCue,
+    startStream,
+    appendStreamChunk,
+    endStream,
+    abortStream,
+    escalateStream,
+    skip,
+    stopAll,
+    isPlaying,
+    playingId,
+  } = useAudioPlayer({ onPlayed: handlePlayed });
+  const streamSender = useAudioStreamSender({ socketService, channelCode });
+  const quickResponses = useQuickResponses({ socketService, channelCode, playCue: playQuickCue });
+  const audioHistory = useAudioHistory({ socketService, channelCode });
+  const { addLocal: addLocalClip } = audioHistory;
+  const [playbackRate, setPlaybackRate] = useState<PlaybackRate>(1);
+
+  const handleReplay = useCallback(
+    (item: AudioHistoryItem) => {
+      if (!item.blob) {
+        return;
+      }
+      enqueueAudio(item.blob, item.priority, item.id, {
+        allowInterrupt: false,
+        respectPriority: false,
+        playbackRate,
+      });
+      if (playingId === item.id) {
+        skip();
+      }
+    },
+    [enqueueAudio, playbackRate, playingId, skip],
+  );
+
+  const playHistoryMessage = useCallback(
+    (message: AudioMessageEvent) => {
+      if (!message.audio || !message.mimeType) {
+        return;
+      }
+      const blob = new Blob([message.audio], { type: message.mimeType });
+      enqueueAudio(blob, message.priority, message.id, {
+        allowInterrupt: false,
+        respectPriority: false,
+      });
+    },
+    [enqueueAudio],
+  );
+
+  const { users, applyRoster } = useChannelRoster({ socketService, channelCode, userId });
+
+  useEffect(() => {
+    const target = privateTarget ? users.find((user) => user.id === privateTarget.id) : undefined;
+    if (privateTarget && (!target || target.connectionStatus === 'disconnected')) {
+      setPrivateTarget(null);
+    }
+  }, [privateTarget, users]);
+  const geolocation = useGeolocation({
+    socketService,
+    channelCode,
+    enabled: Boolean(userId) && connection.status === 'connected',
+  });
+  const scan = useScanList({
+    socketService,
+    channelCode,
+    nickname,
+    enabled: Boolean(userId) && connection.status === 'connected',
+  });
+  const { isAudible, isPriority } = scan;
+
+  useEffect(() => {
+    if (!userId || connection.status !== 'connected') {
+      return;
+    }
+    const hasBattery = battery.supported && battery.level !== null && battery.charging !== null;
+    socketService.publishPresence({
+      channelCode,
+      status: presence,
+      batteryLevel: hasBattery ? battery.level : null,
+      charging: hasBattery ? battery.charging : null,
+      lowPowerMode: hasBattery ? computeLowPower(battery.charging!, battery.level!) : false,
+      connectionQuality: connection.quality,
+    });
+  }, [
+    battery.charging,
+    battery.level,
+    battery.supported,
+    channelCode,
+    connection.quality,
+    connection.status,
+    presence,
+    socketService,
+    userId,
+  ]);
+
+  const catchUp = useCatchUp({ socketService, channelCode, playMessage: playHistoryMessage });
+  const { getJoinWindow, markSeen } = catchUp;
+  const timeline = useChannelTimeline({
+    socketService,
+    channelCode,
+    nickname,
+    onTextReceived: (message) => markSeen(message.id),
+  });
+  const { addOwnAudio } = timeline;
+
+  const handleFloorLost = useCallback(
+    (release: FloorRelease) => {
+      setSendError(
+        release.reason === 'preempted'
+          ? 'A higher-priority transmission took the channel.'
+          : 'Transmission time limit reached.',
+      );
+      recordStartRef.current = null;
+      streamSender.abort();
+      void stopRecording();
+    },
+    [stopRecording, streamSender],
+  );
+
+  const { busyHolder, requestFloor, releaseFloor } = useFloorControl({
+    socketService,
+    channelCode,
+    userId,
+    onFloorLost: handleFloorLost,
+  });
 
   const {
     sendEmergency,
     isSending: isEmergencySending,
     error: emergencyError,
     cooldownMs,
+    outgoing: outgoingEmergency,
+    statuses: emergencyStatuses,
+    acknowledge: acknowledgeEmergency,
+    resolve: resolveEmergency,
   } = useEmergencyBroadcast({
     socketService,
+    userId,
     playSosTone: playEmergencyTone,
     interruptAudio: stopAll,
     onBroadcastReceived: (broadcast) => {
@@ -340,24 +536,27 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
   const joinChannel = useCallback(async () => {
     setJoinError(null);
     try {
-      const response = await socketService.joinChannel({ channelCode, nickname });
+      const response = await socketService.joinChannel({
+        channelCode,
+        nickname,
+        passphrase,
+        history: getJoinWindow(),
+      });
       if (!response.ok) {
         setJoinError(response.error);
+        if (response.code === 'passphrase_required') {
+          onPassphraseRequiredRef.current?.(response.error);
+        }
         return;
       }
       setUserId(response.data.user.id);
-      setUsers((prev) => {
-        const filtered = prev.filter((user) => user.id !== response.data.user.id);
-        return [
-          { id: response.data.user.id, nickname: response.data.user.nickname, isSelf: true },
-          ...filtered.map((user) => ({ ...user, isSelf: user.id === response.data.user.id })),
-        ];
-      });
+      setPolicy(response.data.policy ?? DEFAULT_POLICY);
+      applyRoster(response.data.roster);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unable to join channel.';
       setJoinError(message);
     }
-  }, [channelCode, nickname, socketService]);
+  }, [applyRoster, channelCode, getJoinWindow, nickname, passphrase, socketService]);
 
   useEffect(() => {
     let mounted = true;
@@ -409,53 +608,173 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
   }, [socketService]);
 
   useEffect(() => {
-    const unsubscribeJoined = socketService.on('user:joined', (payload: { user?: UserSummary }) => {
-      const user = payload?.user;
-      if (!user) {
-        return;
-      }
-      setUsers((prev) => {
-        const exists = prev.some((prevUser) => prevUser.id === user.id);
-        if (exists) {
-          return prev;
+    const unsubscribeRemoved = socketService.on(
+      'channel:removed',
+      (payload: { channelCode?: string; reason?: 'kicked' | 'banned' }) => {
+        if (payload?.channelCode !== channelCode) {
+          return;
         }
-        return [...prev, { id: user.id, nickname: user.nickname }];
-      });
-    });
+        onRemovedRef.current?.(
+          payload.reason === 'banned'
+            ? 'You were banned from this channel.'
+            : 'You were removed from this channel.',
+        );
+      },
+    );
 
-    const unsubscribeLeft = socketService.on('user:left', (payload: { user?: UserSummary }) => {
-      const user = payload?.user;
-      if (!user) {
-        return;
-      }
-      setUsers((prev) => prev.filter((prevUser) => prevUser.id !== user.id));
-    });
+    return () => {
+      unsubscribeRemoved();
+    };
+  }, [channelCode, socketService]);
 
+  useEffect(() => {
+    const unsubscribePolicy = socketService.on(
+      'channel:policy',
+      (payload: { channelCode?: string; policy?: ChannelPolicy }) => {
+        if (payload?.channelCode === channelCode && payload.policy) {
+          setPolicy(payload.policy);
+        }
+      },
+    );
     return () => {
-      unsubscribeJoined();
-      unsubscribeLeft();
+      unsubscribePolicy();
     };
-  }, [socketService]);
+  }, [channelCode, socketService]);
+
+  const selfRole = users.find((user) => user.isSelf)?.role;
+  const canEscalate = selfRole === 'owner' || selfRole === 'moderator';
+  const channelLinks = useChannelLinks({ socketService, channelCode, enabled: selfRole === 'owner' });
+  const retention = useChannelRetention({ socketService, channelCode, enabled: selfRole === 'owner' });
+  const geofences = useGeofences({ socketService, channelCode, enabled: Boolean(userId) });
+  const selfRank = selfRole ? ROLE_RANK[selfRole] : 0;
+  const urgentAllowed = selfRank >= ROLE_RANK[policy.urgentMinRole];
+  const priorities = useMemo<MessagePriority[]>(
+    () => (urgentAllowed ? ['routine', 'important', 'urgent'] : ['routine', 'important']),
+    [urgentAllowed],
+  );
+
+  useEffect(() => {
+    if (!canEscalate) {
+      setEmergencyScope('channel');
+    }
+  }, [canEscalate]);
+
+  useEffect(() => {
+    if (!urgentAllowed) {
+      setPriority((current) => (current === 'urgent' ? 'important' : current));
+    }
+  }, [urgentAllowed]);
+
+  const handlePolicyChange = useCallback(
+    async (next: ChannelPolicy) => {
+      setPolicyError(null);
+      try {
+        const response = await socketService.setChannelPolicy(channelCode, next);
+        if (!response.ok) {
+          setPolicyError(response.error);
+          return;
+        }
+        setPolicy(response.data.policy);
+      } catch (err) {
+        setPolicyError(err instanceof Error ? err.message : 'Unable to update policy.');
+      }
+    },
+    [channelCode, socketService],
+  );
+
+  const handleModerate = useCallback(
+    async (target: UserSummary, action: ModerationAction) => {
+      try {
+        const response =
+          action.type === 'mute'
+            ? await socketService.muteUser(channelCode, target.id, action.durationMs)
+            : action.type === 'kick'
+              ? await socketService.kickUser(channelCode, target.id)
+              : action.type === 'ban'
+                ? await socketService.banUser(channelCode, target.id)
+                : await socketService.setUserRole(channelCode, target.id, action.role);
+        if (!response.ok) {
+          setSendError(response.error);
+        }
+      } catch (err) {
+        setSendError(err instanceof Error ? err.message : 'Moderation request failed.');
+      }
+    },
+    [channelCode, socketService],
+  );
 
   const handleStartRecording = useCallback(async () => {
+    setSendError(null);
+    transmitPriorityRef.current = priority;
+    transmitRecipientsRef.current = privateTarget ? [privateTarget.id] : undefined;
+    const floor = await requestFloor(priority);
+    if (!floor.granted) {
+      setSendError(floor.error);
+      return;
+    }
     recordStartRef.current = Date.now();
-    await startRecording();
-  }, [startRecording]);
+    const streaming = socketService.canStream();
+    if (streaming) {
+      streamSender.begin(priority, {
+        location: geolocation.getAttachment(),
+        recipientUserIds: transmitRecipientsRef.current,
+      });
+    }
+    const started = await startRecording(
+      streaming ? { timesliceMs: STREAM_TIMESLICE_MS, onChunk: streamSender.handleChunk } : undefined,
+    );
+    if (!started) {
+      recordStartRef.current = null;
+      streamSender.abort();
+      releaseFloor();
+    }
+  }, [
+    geolocation.getAttachment,
+    priority,
+    privateTarget,
+    releaseFloor,
+    requestFloor,
+    socketService,
+    startRecording,
+    streamSender,
+  ]);
+
+  const handleEscalate = useCallback(async () => {
+    if (transmitPriorityRef.current === 'urgent' || recordStartRef.current === null) {
+      return;
+    }
+    const previous = transmitPriorityRef.current;
+    transmitPriorityRef.current = 'urgent';
+    const floor = await requestFloor('urgent');
+    const error = floor.granted ? await streamSender.escalate('urgent') : floor.error;
+    if (error) {
+      transmitPriorityRef.current = previous;
+      setSendError(error);
+    }
+  }, [requestFloor, streamSender]);
 
   const handleStopRecording = useCallback(async () => {
-    setSendError(null);
     const blob = await stopRecording();
-    if (!blob) {
+    if (!blob || recordStartRef.current === null) {
+      recordStartRef.current = null;
+      streamSender.abort();
+      releaseFloor();
       return;
     }
+    setSendError(null);
     if (!userId) {
       setSendError('Not connected to a channel.');
+      streamSender.abort();
+      releaseFloor();
       return;
     }
 
     const { maxBytes, maxDurationMs } = socketService.getAudioLimits();
     if (blob.size > maxBytes) {
       setSendError('Recording too large to send.');
+      recordStartRef.current = null;
+      streamSender.abort();
+      releaseFloor();
       return;
     }
 
@@ -464,25 +783,63 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
     recordStartRef.current = null;
     if (durationMs > maxDurationMs) {
       setSendError('Recording too long to send.');
+      streamSender.abort();
+      releaseFloor();
       return;
     }
 
     setIsSendingAudio(true);
     try {
+      const streamed = await streamSender.finish(durationMs);
+      if (streamed.status === 'streamed') {
+        addOwnAudio(
+          streamed.id,
+          streamed.timestamp,
+          transmitPriorityRef.current,
+          durationMs,
+          Boolean(transmitRecipientsRef.current),
+        );
+        addLocalClip({
+          id: streamed.id,
+          blob,
+          senderNickname: nickname,
+          priority: transmitPriorityRef.current,
+          timestamp: streamed.timestamp,
+          durationMs,
+        });
+        return;
+      }
+      if (streamed.status === 'failed') {
+        setSendError(streamed.error);
+        return;
+      }
+
       const buffer = await blob.arrayBuffer();
-      const payloadBase64 = arrayBufferToBase64(buffer);
       const mimeType = normalizeAudioMime(blob.type || 'audio/webm');
       const payload: SendAudioMessagePayload = {
         channelCode,
         senderId: userId,
         senderNickname: nickname,
-        audioBase64: payloadBase64,
+        audio: buffer,
         mimeType,
         durationMs,
-        priority: 'routine',
+        priority: transmitPriorityRef.current,
+        location: geolocation.getAttachment(),
+        recipientUserIds: transmitRecipientsRef.current,
       };
 
       const result = await socketService.sendAudioMessage(payload);
+      if (result.status === 'sent') {
+        addOwnAudio(result.id, result.timestamp, payload.priority, durationMs, Boolean(payload.recipientUserIds));
+        addLocalClip({
+          id: result.id,
+          blob,
+          senderNickname: nickname,
+          priority: payload.priority,
+          timestamp: result.timestamp,
+          durationMs,
+        });
+      }
       if (result.status === 'failed') {
         setSendError(result.error);
       }
@@ -494,50 +851,128 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
       setSendError(message);
     } finally {
       setIsSendingAudio(false);
+      releaseFloor();
     }
-  }, [channelCode, nickname, socketService, stopRecording, userId]);
+  }, [
+    addLocalClip,
+    addOwnAudio,
+    channelCode,
+    geolocation.getAttachment,
+    nickname,
+    releaseFloor,
+    socketService,
+    stopRecording,
+    streamSender,
+    userId,
+  ]);
 
   useEffect(() => {
     const unsubscribe = socketService.on<[AudioMessageEvent]>('audio-message', (payload) => {
-      if (!payload?.audioBase64 || !payload.mimeType) {
+      if (!payload?.audio || !payload.mimeType) {
         return;
       }
-      const blob = base64ToBlob(payload.audioBase64, payload.mimeType);
-      enqueueAudio(blob, payload.priority);
+      const blob = new Blob([payload.audio], { type: payload.mimeType });
+      socketService.sendAudioReceipt('delivered', payload.channelCode, payload.id);
+      if (isAudible(payload.channelCode)) {
+        enqueueAudio(blob, payload.priority, payload.id, { preempt: isPriority(payload.channelCode) });
+      }
+      if (payload.channelCode === channelCode) {
+        markSeen(payload.id);
+      }
     });
     return () => {
       unsubscribe();
     };
-  }, [enqueueAudio, socketService]);
+  }, [channelCode, enqueueAudio, isAudible, isPriority, markSeen, socketService]);
 
   useEffect(() => {
-    const unsubscribe = socketService.on<[AudioHistoryPayload]>('audio-history', (payload) => {
-      if (!payload?.messages || payload.messages.length === 0) {
+    const unsubscribeStart = socketService.on<[AudioStreamStart]>('audio:stream:start', (payload) => {
+      if (!payload?.transmissionId || !isAudible(payload.channelCode)) {
         return;
       }
-      payload.messages.forEach((message) => {
-        if (!message.audioBase64 || !message.mimeType) {
-          return;
-        }
-        const blob = base64ToBlob(message.audioBase64, message.mimeType);
-        enqueueAudio(blob, message.priority, message.id, {
-          allowInterrupt: false,
-          respectPriority: false,
-        });
+      startStream(payload.transmissionId, payload.mimeType, payload.priority, {
+        preempt: isPriority(payload.channelCode),
       });
     });
+    const unsubscribeChunk = socketService.on<[AudioStreamChunk]>('audio:stream:chunk', (payload) => {
+      if (!payload?.transmissionId || !payload.chunk) {
+        return;
+      }
+      appendStreamChunk(payload.transmissionId, payload.chunk);
+    });
+    const unsubscribeEnd = socketService.on<[AudioStreamEnd]>('audio:stream:end', (payload) => {
+      if (!payload?.transmissionId) {
+        return;
+      }
+      streamMessageIdsRef.current.set(payload.transmissionId, payload.messageId);
+      socketService.sendAudioReceipt('delivered', payload.channelCode, payload.messageId);
+      endStream(payload.transmissionId);
+      if (payload.channelCode === channelCode) {
+        markSeen(payload.messageId);
+      }
+    });
+    const unsubscribeAbort = socketService.on<[AudioStreamAbort]>('audio:stream:abort', (payload) => {
+      if (!payload?.transmissionId) {
+        return;
+      }
+      streamMessageIdsRef.current.delete(payload.transmissionId);
+      abortStream(payload.transmissionId);
+    });
+    const unsubscribePriority = socketService.on<[AudioStreamPriority]>(
+      'audio:stream:priority',
+      (payload) => {
+        if (!payload?.transmissionId || !isAudible(payload.channelCode)) {
+          return;
+        }
+        escalateStream(payload.transmissionId, payload.priority);
+      },
+    );
     return () => {
-      unsubscribe();
+      unsubscribeStart();
+      unsubscribeChunk();
+      unsubscribeEnd();
+      unsubscribeAbort();
+      unsubscribePriority();
     };
-  }, [enqueueAudio, socketService]);
+  }, [
+    abortStream,
+    appendStreamChunk,
+    channelCode,
+    endStream,
+    escalateStream,
+    isAudible,
+    isPriority,
+    markSeen,
+    socketService,
+    startStream,
+  ]);
 
   const handleEmergencyConfirm = useCallback(() => {
-    void sendEmergency('Emergency broadcast');
-  }, [sendEmergency]);
+    void sendEmergency('Emergency broadcast', emergencyScope);
+  }, [emergencyScope, sendEmergency]);
+
+  const activeEmergencyStatus = activeEmergency ? emergencyStatuses[activeEmergency.id] : undefined;
 
   const handleEmergencyAcknowledge = useCallback(() => {
+    if (activeEmergency) {
+      void acknowledgeEmergency(activeEmergency.id);
+    }
     setActiveEmergency(null);
-  }, []);
+  }, [acknowledgeEmergency, activeEmergency]);
+
+  useEffect(() => {
+    if (activeEmergencyStatus?.status === 'resolved') {
+      setActiveEmergency(null);
+    }
+  }, [activeEmergencyStatus?.status]);
+
+  useEffect(() => {
+    if (!activeEmergency) {
+      return;
+    }
+    const timer = setInterval(playEmergencyTone, SOS_REPEAT_MS);
+    return () => clearInterval(timer);
+  }, [activeEmergency, playEmergencyTone]);
 
   const canTalk = !joinError && !isEmergencySending;
   const isReceiving = isPlaying && !isRecording && !isSendingAudio;
@@ -565,7 +1000,115 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
       {sendError ? <p className="text-sm text-red-300">{sendError}</p> : null}
       {sendNotice ? <p className="text-sm text-emerald-300">{sendNotice}</p> : null}
 
-      <UserList users={users} />
+      <UserList
+        users={users}
+        selfRole={selfRole}
+        onModerate={handleModerate}
+        privateUserId={privateTarget?.id ?? null}
+        onSelectPrivate={setPrivateTarget}
+      />
+
+      <TeamView
+        users={users}
+        self={geolocation.position}
+        sharing={geolocation.sharing}
+        supported={geolocation.supported}
+        error={geolocation.error}
+        onSharingChange={geolocation.setSharing}
+      />
+
+      <GeofencePanel
+        geofences={geofences.geofences}
+        canManage={selfRole === 'owner'}
+        position={geolocation.position}
+        error={geofences.error}
+        onCreate={geofences.create}
+        onDelete={(geofenceId) => void geofences.remove(geofenceId)}
+      />
+
+      <ScanListPanel
+        channelCode={channelCode}
+        channels={scan.channels}
+        priorityChannel={scan.priorityChannel}
+        error={scan.error}
+        onAdd={scan.add}
+        onRemove={scan.remove}
+        onSetMode={scan.setMode}
+        onSetMuted={scan.setMuted}
+        onSetPriority={scan.setPriorityChannel}
+      />
+
+      {selfRole === 'owner' ? (
+        <ChannelLinksPanel
+          links={channelLinks.links}
+          error={channelLinks.error}
+          onSetLinked={(linkedCode, linked) => void channelLinks.setLinked(linkedCode, linked)}
+        />
+      ) : null}
+
+      {selfRole === 'owner' ? (
+        <RetentionPanel
+          settings={retention.settings}
+          error={retention.error}
+          onSave={(next) => void retention.save(next)}
+        />
+      ) : null}
+
+      {canEscalate ? (
+        <ChannelPolicyPanel
+          policy={policy}
+          roles={CHANNEL_ROLES.filter(
+            (role) => ROLE_RANK[role] <= selfRank || role === policy.urgentMinRole,
+          )}
+          disabled={ROLE_RANK[policy.urgentMinRole] > selfRank}
+          error={policyError}
+          onChange={(next) => void handlePolicyChange(next)}
+        />
+      ) : null}
+
+      <CatchUpPanel
+        missedCount={catchUp.missed.length}
+        hasMore={catchUp.hasMore}
+        isLoading={catchUp.isLoading}
+        isCatchingUp={catchUp.isCatchingUp}
+        windowOption={catchUp.windowOption}
+        error={catchUp.error}
+        onSelectWindow={(option) => void catchUp.selectWindow(option)}
+        onCatchUp={() => void catchUp.startCatchUp()}
+        onDismiss={catchUp.dismiss}
+      />
+
+      <ChannelTimeline
+        entries={timeline.entries}
+        receipts={timeline.receipts}
+        onSendText={(body) => timeline.sendText(body, priority)}
+        isSending={timeline.isSendingText}
+        disabled={!canTalk || connection.status !== 'connected'}
+        error={timeline.textError}
+      />
+
+      <AudioHistoryPanel
+        items={audioHistory.items}
+        playingId={playingId}
+        playbackRate={playbackRate}
+        onPlaybackRateChange={setPlaybackRate}
+        onPlay={handleReplay}
+        onSkip={skip}
+      />
+
+      {privateTarget ? (
+        <div className="flex w-full items-center justify-between rounded-xl border border-violet-500/60 bg-violet-950/50 px-4 py-2 text-sm text-violet-100">
+          <span>Private to {privateTarget.nickname}</span>
+          <button
+            type="button"
+            onClick={() => setPrivateTarget(null)}
+            disabled={isRecording}
+            className="rounded-lg bg-slate-700 px-3 py-1 text-xs text-white"
+          >
+            Back to channel
+          </button>
+        </div>
+      ) : null}
 
       <PushToTalkButton
         isRecording={isRecording}
@@ -575,6 +1118,18 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
         onStartRecording={handleStartRecording}
         onStopRecording={handleStopRecording}
         disabled={!canTalk}
+        busyNickname={busyHolder?.nickname ?? null}
+        priority={priority}
+        priorities={priorities}
+        onPriorityChange={setPriority}
+        onEscalate={() => void handleEscalate()}
+      />
+
+      <QuickResponseBar
+        recent={quickResponses.responses.slice(-3)}
+        onSend={(kind) => void quickResponses.send(kind)}
+        disabled={!canTalk || connection.status !== 'connected' || quickResponses.isSending}
+        error={quickResponses.error}
       />
 
       <EmergencyBroadcastButton
@@ -583,17 +1138,57 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
         cooldownMs={cooldownMs}
         error={emergencyError}
         disabled={!canSendEmergency}
+        scope={emergencyScope}
+        scopes={canEscalate ? ['channel', 'linked', 'global'] : ['channel']}
+        onScopeChange={setEmergencyScope}
       />
 
+      {outgoingEmergency && outgoingEmergency.id !== dismissedOutgoingId ? (
+        <EmergencyStatusPanel
+          broadcast={outgoingEmergency}
+          status={emergencyStatuses[outgoingEmergency.id]}
+          onResolve={() => void resolveEmergency(outgoingEmergency.id)}
+          onDismiss={() => setDismissedOutgoingId(outgoingEmergency.id)}
+        />
+      ) : null}
+
+      {quickResponses.toast ? (
+        <Toast
+          message={
+            quickResponses.toast.fromUserId === userId
+              ? `Sent: ${quickResponses.toast.message}`
+              : `${quickResponses.toast.fromNickname}: ${quickResponses.toast.message}`
+          }
+          onDismiss={quickResponses.dismissToast}
+        />
+      ) : geofences.notice ? (
+        <Toast
+          message={`${geofences.notice.nickname} ${geofences.notice.kind === 'exit' ? 'left' : 'entered'} ${
+            geofences.notice.name
+          }`}
+          onDismiss={geofences.dismissNotice}
+        />
+      ) : null}
+
       {activeEmergency ? (
         <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-red-900/95 px-6 text-center text-white">
           <div className="text-2xl font-semibold uppercase tracking-wide">
-            Emergency Broadcast
+            {activeEmergency.priority === 'urgent' ? 'Emergency Broadcast' : 'Alert'}
           </div>
           <div className="text-lg">
             {activeEmergency.fromNickname} • Channel {activeEmergency.channelCode}
           </div>
+          {activeEmergency.scope !== 'channel' ? (
+            <div className="rounded-full bg-white/15 px-3 py-1 text-xs font-semibold uppercase tracking-wide">
+              {describeEmergencyScope(activeEmergency)}
+            </div>
+          ) : null}
           <div className="max-w-md text-base text-white/90">{activeEmergency.message}</div>
+          {activeEmergencyStatus && activeEmergencyStatus.recipientCount > 0 ? (
+            <div className="text-sm text-white/80">
+              {activeEmergencyStatus.acknowledgedCount} of {activeEmergencyStatus.recipientCount} acknowledged
+            </div>
+          ) : null}
           <button
             type="button"
             onClick={handleEmergencyAcknowledge}
@@ -601,6 +1196,18 @@ export const ChannelScreen = ({ socketService, channelCode, nickname }: ChannelS
           >
             Acknowledge
           </button>
+          {canEscalate && activeEmergency.channelCode === channelCode ? (
+            <button
+              type="button"
+              onClick={() => {
+                void resolveEmergency(activeEmergency.id);
+                setActiveEmergency(null);
+              }}
+              className="text-sm font-semibold uppercase tracking-wide text-white/80 underline"
+            >
+              Mark resolved
+            </button>
+          ) : null}
         </div>
       ) : null}
     </div>
@@ -1,7 +1,18 @@
 import { io, type Socket } from 'socket.io-client';
-import type { ConnectionStatus, MessagePriority } from '@walkie/shared/types';
-
-type ConnectionQuality = 'good' | 'ok' | 'poor' | 'offline';
+import type {
+  ChannelPolicy,
+  ChannelRetention,
+  ChannelRole,
+  ConnectionQuality,
+  ConnectionStatus,
+  EmergencyStatus,
+  GeofenceShape,
+  MessagePriority,
+  PresenceStatus,
+  QuickResponse,
+  RetentionLimits,
+  ScanMode,
+} from '@walkie/shared/types';
 
 type ConnectionQualityUpdate = {
   quality: ConnectionQuality;
@@ -11,11 +22,149 @@ type ConnectionQualityUpdate = {
 
 type ChannelCreatePayload = {
   nickname: string;
+  passphrase?: string;
 };
 
+export type HistoryWindow =
+  | { mode: 'since'; messageId: string }
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'count'; count: number };
+
 type ChannelJoinPayload = {
   channelCode: string;
   nickname: string;
+  passphrase?: string;
+  history?: HistoryWindow;
+};
+
+export type ChannelMember = {
+  id: string;
+  nickname: string;
+  channelCode: string;
+  joinedAt: string | Date;
+  connectionStatus: ConnectionStatus;
+  role: ChannelRole;
+  mutedUntil: string | Date | null;
+  listenOnly?: boolean;
+};
+
+export type MemberPresence = {
+  status: PresenceStatus;
+  batteryLevel: number | null;
+  charging: boolean | null;
+  lowPowerMode: boolean;
+  connectionQuality: ConnectionQuality;
+  updatedAt: string | Date;
+};
+
+export type MemberLocation = {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  heading: number | null;
+  updatedAt: string | Date;
+};
+
+export type ChannelRoster = {
+  channelCode: string;
+  version: number;
+  members: (ChannelMember & {
+    lastActivityAt: string | Date;
+    presence?: MemberPresence | null;
+    location?: MemberLocation | null;
+  })[];
+};
+
+export type PresenceUpdate = {
+  channelCode: string;
+  userId: string;
+  presence: MemberPresence;
+};
+
+export type LocationUpdate = {
+  channelCode: string;
+  userId: string;
+  location: MemberLocation | null;
+};
+
+export type EmergencyStatusUpdate = {
+  emergencyId: string;
+  channelCode: string;
+  status: EmergencyStatus;
+  recipientCount: number;
+  acknowledgedCount: number;
+  acknowledgedBy: { userId: string; nickname: string; acknowledgedAt: string }[];
+  resolvedBy: { userId: string; nickname: string } | null;
+  resolvedAt: string | null;
+};
+
+export type QuickResponseKind = QuickResponse['kind'];
+
+export type QuickResponseEvent = Omit<QuickResponse, 'createdAt'> & {
+  timestamp: string;
+};
+
+export type QuickResponseHistory = {
+  channelCode: string;
+  responses: QuickResponseEvent[];
+};
+
+export type ChannelRetentionSettings = {
+  retention: ChannelRetention;
+  defaults: RetentionLimits;
+};
+
+export type ChannelLink = {
+  channelCode: string;
+  outgoing: boolean;
+  incoming: boolean;
+  mutual: boolean;
+  createdAt: string;
+};
+
+export type GeofenceSummary = {
+  id: string;
+  channelCode: string;
+  name: string;
+  shape: GeofenceShape;
+  alertAfterMs: number | null;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type GeofenceList = {
+  channelCode: string;
+  geofences: GeofenceSummary[];
+};
+
+export type GeofenceEvent = {
+  channelCode: string;
+  geofenceId: string;
+  name: string;
+  userId: string;
+  nickname: string;
+  at: string;
+};
+
+type GeofenceCreatePayload = {
+  channelCode: string;
+  name: string;
+  shape: GeofenceShape;
+  alertAfterMs: number | null;
+};
+
+type PresenceUpdatePayload = Omit<MemberPresence, 'updatedAt'> & {
+  channelCode: string;
+};
+
+type LocationUpdatePayload = Omit<MemberLocation, 'updatedAt'> & {
+  channelCode: string;
+};
+
+type ChannelHistoryRequest = {
+  channelCode: string;
+  cursor?: string;
+  window?: HistoryWindow;
 };
 
 type ChannelLeavePayload = {
@@ -28,13 +177,21 @@ type ChannelResponse = {
     displayName: string;
     createdAt: string | Date;
   };
-  user: {
-    id: string;
-    nickname: string;
-    channelCode: string;
-    joinedAt: string | Date;
-    connectionStatus: ConnectionStatus;
-  };
+  user: ChannelMember;
+  resumeToken: string;
+  roster: ChannelRoster;
+  policy: ChannelPolicy;
+};
+
+type ScanJoinPayload = {
+  channelCode: string;
+  nickname: string;
+  mode: ScanMode;
+  passphrase?: string;
+};
+
+export type ScanJoinResponse = ChannelResponse & {
+  mode: ScanMode;
 };
 
 type ChannelLeaveResponse = {
@@ -53,26 +210,122 @@ export type SendAudioMessagePayload = {
   channelCode: string;
   senderId: string;
   senderNickname: string;
-  audioBase64: string;
+  audio: ArrayBuffer;
   mimeType: string;
   durationMs: number;
   priority: MessagePriority;
   location?: AudioLocation;
+  recipientUserIds?: string[];
 };
 
 export type AudioMessageEvent = {
   id: string;
   channelCode: string;
   senderNickname: string;
-  audioBase64: string;
+  audio: ArrayBuffer;
+  mimeType: string;
+  priority: MessagePriority;
+  timestamp: string;
+  location?: AudioLocation;
+  recipientUserIds?: string[];
+};
+
+export type TextMessageEvent = {
+  id: string;
+  channelCode: string;
+  senderNickname: string;
+  priority: MessagePriority;
+  body: string;
+  timestamp: string;
+};
+
+export type AudioHistoryPage = {
+  channelCode: string;
+  messages: AudioMessageEvent[];
+  textMessages?: TextMessageEvent[];
+  nextCursor: string | null;
+};
+
+export type FloorGrant = {
+  channelCode: string;
+  userId: string;
+  nickname: string;
+  priority: MessagePriority;
+  grantedAt: string;
+  expiresAt: string;
+};
+
+export type FloorRelease = {
+  channelCode: string;
+  userId: string;
+  nickname: string;
+  reason: 'released' | 'sent' | 'expired' | 'preempted' | 'left';
+};
+
+export type FloorDenied = {
+  channelCode: string;
+  holder: FloorGrant;
+};
+
+export type AudioStreamStart = {
+  transmissionId: string;
+  channelCode: string;
+  senderNickname: string;
   mimeType: string;
   priority: MessagePriority;
   timestamp: string;
   location?: AudioLocation;
+  recipientUserIds?: string[];
+};
+
+export type AudioStreamChunk = {
+  transmissionId: string;
+  seq: number;
+  chunk: ArrayBuffer;
+};
+
+export type AudioStreamPriority = {
+  transmissionId: string;
+  channelCode: string;
+  priority: MessagePriority;
+};
+
+export type AudioStreamEnd = {
+  transmissionId: string;
+  channelCode: string;
+  messageId: string;
+  durationMs: number;
+  timestamp: string;
+};
+
+export type AudioReceiptKind = 'delivered' | 'played';
+
+export type AudioReceipts = {
+  messageId: string;
+  channelCode: string;
+  deliveredCount: number;
+  playedCount: number;
+  deliveredTo: { userId: string; nickname: string }[];
+  playedBy: { userId: string; nickname: string }[];
+};
+
+export type AudioStreamAbort = {
+  transmissionId: string;
+  channelCode: string;
+  reason: string;
+};
+
+type AudioStreamStartPayload = {
+  channelCode: string;
+  transmissionId: string;
+  mimeType: string;
+  priority: MessagePriority;
+  location?: AudioLocation;
+  recipientUserIds?: string[];
 };
 
 export type SendAudioResult =
-  | { status: 'sent' }
+  | { status: 'sent'; id: string; timestamp: string }
   | { status: 'queued'; error?: string }
   | { status: 'failed'; error: string };
 
@@ -88,7 +341,17 @@ type AckResponse<T> =
   | {
       ok: false;
       error: string;
-      code: 'invalid_payload' | 'channel_full' | 'not_found' | 'internal' | 'rate_limited';
+      code:
+        | 'invalid_payload'
+        | 'channel_full'
+        | 'not_found'
+        | 'internal'
+        | 'rate_limited'
+        | 'floor_busy'
+        | 'passphrase_required'
+        | 'banned'
+        | 'muted'
+        | 'forbidden';
       retryAfterMs?: number;
     };
 
@@ -104,6 +367,7 @@ type PendingEmit = {
 const CHANNEL_CODE_REGEX = /^\d{4}$/;
 const MIN_NICKNAME_LENGTH = 1;
 const MAX_NICKNAME_LENGTH = 24;
+export const MAX_TEXT_LENGTH = 500;
 const HEARTBEAT_INTERVAL_MS = 30_000;
 const HEARTBEAT_TIMEOUT_MS = 5_000;
 const MAX_QUEUE_SIZE = 10;
@@ -112,6 +376,8 @@ const RECONNECT_MAX_DELAY_MS = 30_000;
 const MAX_AUDIO_BYTES = 1_000_000;
 const MAX_AUDIO_DURATION_MS = 30_000;
 const MAX_AUDIO_RETRY_QUEUE = 10;
+const AUDIO_PROTOCOL_VERSION = 2;
+const IDENTITY_STORAGE_PREFIX = 'walkie:identity:';
 const ALLOWED_MIME_TYPES = new Set([
   'audio/webm;codecs=opus',
   'audio/webm',
@@ -126,6 +392,7 @@ export class SocketService {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private shouldReconnect = false;
+  private resumeToken: string | null = null;
   private readonly queue: PendingEmit[] = [];
   private readonly audioRetryQueue: SendAudioMessagePayload[] = [];
   private readonly qualityListeners = new Set<(update: ConnectionQualityUpdate) => void>();
@@ -176,6 +443,7 @@ export class SocketService {
 
   disconnect() {
     this.shouldReconnect = false;
+    this.resumeToken = null;
     this.clearReconnectTimer();
     this.stopHeartbeat();
     this.updateStatus('disconnected');
@@ -188,7 +456,12 @@ export class SocketService {
     if (!nickname) {
       throw new Error('Invalid nickname.');
     }
-    return this.emitWithAck<ChannelResponse>('channel:create', { nickname });
+    const response = await this.emitWithAck<ChannelResponse>('channel:create', {
+      nickname,
+      passphrase: payload.passphrase || undefined,
+    });
+    this.storeResumeToken(response);
+    return response;
   }
 
   async joinChannel(payload: ChannelJoinPayload) {
@@ -196,21 +469,252 @@ export class SocketService {
     if (!nickname || !this.isValidChannelCode(payload.channelCode)) {
       throw new Error('Invalid channel code or nickname.');
     }
-    return this.emitWithAck<ChannelResponse>('channel:join', {
+    const response = await this.emitWithAck<ChannelResponse>('channel:join', {
       channelCode: payload.channelCode,
       nickname,
+      passphrase: payload.passphrase || undefined,
+      resumeToken: this.loadIdentity(payload.channelCode) ?? undefined,
+      history: payload.history,
     });
+    this.storeResumeToken(response);
+    return response;
+  }
+
+  // Scanned channels keep their own identity but never replace the resume token of the transmit channel.
+  async joinScan(payload: ScanJoinPayload) {
+    const nickname = this.normalizeNickname(payload.nickname);
+    if (!nickname || !this.isValidChannelCode(payload.channelCode)) {
+      throw new Error('Invalid channel code or nickname.');
+    }
+    const response = await this.emitWithAckNow<ScanJoinResponse>(
+      'scan:join',
+      {
+        channelCode: payload.channelCode,
+        nickname,
+        mode: payload.mode,
+        passphrase: payload.passphrase || undefined,
+        resumeToken: this.loadIdentity(payload.channelCode) ?? undefined,
+      },
+      5_000,
+    );
+    if (response.ok && response.data.resumeToken) {
+      this.saveIdentity(response.data.channel.code, response.data.resumeToken);
+    }
+    return response;
+  }
+
+  async setScanMode(channelCode: string, mode: ScanMode) {
+    return this.emitWithAckNow<{ channelCode: string; mode: ScanMode }>('scan:mode', { channelCode, mode }, 3_000);
+  }
+
+  async leaveScan(channelCode: string) {
+    if (!this.isValidChannelCode(channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAckNow<ChannelLeaveResponse>('channel:leave', { channelCode }, 3_000);
+  }
+
+  async fetchHistory(payload: ChannelHistoryRequest) {
+    if (!this.isValidChannelCode(payload.channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAck<AudioHistoryPage>('channel:history', payload, 10_000);
+  }
+
+  async fetchRoster(channelCode: string) {
+    if (!this.isValidChannelCode(channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAckNow<ChannelRoster>('channel:roster', { channelCode }, 5_000);
   }
 
   async leaveChannel(payload: ChannelLeavePayload) {
     if (!this.isValidChannelCode(payload.channelCode)) {
       throw new Error('Invalid channel code.');
     }
+    this.resumeToken = null;
     return this.emitWithAck<ChannelLeaveResponse>('channel:leave', {
       channelCode: payload.channelCode,
     });
   }
 
+  async requestFloor(channelCode: string, priority: MessagePriority) {
+    if (!this.isValidChannelCode(channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAckNow<FloorGrant>('channel:floor:request', { channelCode, priority }, 3_000);
+  }
+
+  releaseFloor(channelCode: string) {
+    if (!this.socket?.connected) {
+      return;
+    }
+    this.socket.emit('channel:floor:release', { channelCode });
+  }
+
+  publishPresence(payload: PresenceUpdatePayload) {
+    if (!this.socket?.connected || !this.isValidChannelCode(payload.channelCode)) {
+      return;
+    }
+    this.socket.emit('presence:update', payload);
+  }
+
+  publishLocation(payload: LocationUpdatePayload) {
+    if (!this.socket?.connected || !this.isValidChannelCode(payload.channelCode)) {
+      return;
+    }
+    this.socket.emit('location:update', payload);
+  }
+
+  stopLocationSharing(channelCode: string) {
+    if (!this.socket?.connected || !this.isValidChannelCode(channelCode)) {
+      return;
+    }
+    this.socket.emit('location:stop', { channelCode });
+  }
+
+  sendAudioReceipt(kind: AudioReceiptKind, channelCode: string, messageId: string) {
+    if (!this.socket?.connected || !this.isValidChannelCode(channelCode)) {
+      return;
+    }
+    this.socket.emit(kind === 'delivered' ? 'audio:delivered' : 'audio:played', { channelCode, messageId });
+  }
+
+  async setUserRole(channelCode: string, userId: string, role: Exclude<ChannelRole, 'owner'>) {
+    return this.emitWithAckNow<{ user: ChannelMember }>('channel:role', { channelCode, userId, role }, 3_000);
+  }
+
+  async kickUser(channelCode: string, userId: string) {
+    return this.emitWithAckNow<{ user: ChannelMember }>('channel:kick', { channelCode, userId }, 3_000);
+  }
+
+  async muteUser(channelCode: string, userId: string, durationMs: number) {
+    return this.emitWithAckNow<{ user: ChannelMember }>(
+      'channel:mute',
+      { channelCode, userId, durationMs },
+      3_000,
+    );
+  }
+
+  async banUser(channelCode: string, userId: string) {
+    return this.emitWithAckNow<{ user: ChannelMember }>('channel:ban', { channelCode, userId }, 3_000);
+  }
+
+  async setChannelPolicy(channelCode: string, policy: ChannelPolicy) {
+    return this.emitWithAckNow<{ policy: ChannelPolicy }>('channel:policy', { channelCode, ...policy }, 3_000);
+  }
+
+  async sendTextMessage(channelCode: string, body: string, priority: MessagePriority) {
+    if (!this.isValidChannelCode(channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    const trimmed = body.trim();
+    if (trimmed.length === 0 || trimmed.length > MAX_TEXT_LENGTH) {
+      throw new Error(`Messages must be 1-${MAX_TEXT_LENGTH} characters.`);
+    }
+    return this.emitWithAckNow<{ id: string; timestamp: string }>(
+      'text:send',
+      { channelCode, body: trimmed, priority },
+      3_000,
+    );
+  }
+
+  async sendQuickResponse(channelCode: string, kind: QuickResponseKind) {
+    if (!this.isValidChannelCode(channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAckNow<QuickResponseEvent>('quick:send', { channelCode, kind }, 3_000);
+  }
+
+  async acknowledgeEmergency(emergencyId: string) {
+    return this.emitWithAckNow<EmergencyStatusUpdate>('emergency:ack', { emergencyId }, 3_000);
+  }
+
+  async resolveEmergency(emergencyId: string) {
+    return this.emitWithAckNow<EmergencyStatusUpdate>('emergency:resolve', { emergencyId }, 3_000);
+  }
+
+  async fetchChannelLinks(channelCode: string) {
+    return this.emitWithAckNow<{ links: ChannelLink[] }>('channel:links', { channelCode }, 3_000);
+  }
+
+  async fetchGeofences(channelCode: string) {
+    return this.emitWithAckNow<{ geofences: GeofenceSummary[] }>('geofence:list', { channelCode }, 3_000);
+  }
+
+  async createGeofence(payload: GeofenceCreatePayload) {
+    return this.emitWithAckNow<{ geofence: GeofenceSummary }>('geofence:create', payload, 3_000);
+  }
+
+  async deleteGeofence(channelCode: string, geofenceId: string) {
+    return this.emitWithAckNow<{ geofenceId: string }>('geofence:delete', { channelCode, geofenceId }, 3_000);
+  }
+
+  async setChannelLink(channelCode: string, linkedCode: string, linked: boolean) {
+    if (!this.isValidChannelCode(linkedCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    return this.emitWithAckNow<{ links: ChannelLink[] }>(
+      'channel:link',
+      { channelCode, linkedCode, linked },
+      3_000,
+    );
+  }
+
+  async fetchChannelRetention(channelCode: string) {
+    return this.emitWithAckNow<ChannelRetentionSettings>('channel:retention', { channelCode }, 3_000);
+  }
+
+  async setChannelRetention(channelCode: string, retention: ChannelRetention) {
+    return this.emitWithAckNow<ChannelRetentionSettings>(
+      'channel:retention:set',
+      { channelCode, retention },
+      3_000,
+    );
+  }
+
+  canStream() {
+    return Boolean(this.socket?.connected);
+  }
+
+  async startAudioStream(payload: AudioStreamStartPayload) {
+    if (!this.isValidChannelCode(payload.channelCode)) {
+      throw new Error('Invalid channel code.');
+    }
+    if (!ALLOWED_MIME_TYPES.has(payload.mimeType)) {
+      throw new Error('Unsupported mime type.');
+    }
+    return this.emitWithAckNow<{ transmissionId: string }>('audio:stream:start', payload, 3_000);
+  }
+
+  sendAudioChunk(transmissionId: string, seq: number, chunk: ArrayBuffer) {
+    if (!this.socket?.connected) {
+      return false;
+    }
+    this.socket.emit('audio:stream:chunk', { transmissionId, seq, chunk });
+    return true;
+  }
+
+  async escalateAudioStream(transmissionId: string, priority: MessagePriority) {
+    return this.emitWithAckNow<{ priority: MessagePriority }>(
+      'audio:stream:priority',
+      { transmissionId, priority },
+      3_000,
+    );
+  }
+
+  async endAudioStream(transmissionId: string, durationMs: number) {
+    return this.emitWithAckNow<{ id: string; timestamp: string }>(
+      'audio:stream:end',
+      { transmissionId, durationMs },
+      5_000,
+    );
+  }
+
+  abortAudioStream(transmissionId: string) {
+    this.socket?.emit('audio:stream:abort', { transmissionId });
+  }
+
   async sendAudioMessage(payload: SendAudioMessagePayload): Promise<SendAudioResult> {
     const validationError = this.validateAudioPayload(payload);
     if (validationError) {
@@ -236,7 +740,7 @@ export class SocketService {
       );
       if (response.ok) {
         this.emitAudioStatus({ status: 'sent', fromQueue: false });
-        return { status: 'sent' };
+        return { status: 'sent', ...response.data };
       }
       if (response.code === 'internal') {
         this.queueAudioMessage(payload);
@@ -333,12 +837,40 @@ export class SocketService {
         autoConnect: false,
         reconnection: false,
         transports: ['websocket'],
+        auth: (callback) => {
+          callback(
+            this.resumeToken
+              ? { audioProtocol: AUDIO_PROTOCOL_VERSION, resumeToken: this.resumeToken }
+              : { audioProtocol: AUDIO_PROTOCOL_VERSION },
+          );
+        },
       });
       this.attachSocketHandlers(this.socket);
     }
     return this.socket;
   }
 
+  private storeResumeToken(response: AckResponse<ChannelResponse>) {
+    if (response.ok && response.data.resumeToken) {
+      this.resumeToken = response.data.resumeToken;
+      this.saveIdentity(response.data.channel.code, response.data.resumeToken);
+    }
+  }
+
+  private loadIdentity(channelCode: string) {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    return window.localStorage.getItem(`${IDENTITY_STORAGE_PREFIX}${channelCode}`);
+  }
+
+  private saveIdentity(channelCode: string, token: string) {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    window.localStorage.setItem(`${IDENTITY_STORAGE_PREFIX}${channelCode}`, token);
+  }
+
   private enqueue(item: PendingEmit) {
     if (this.queue.length >= MAX_QUEUE_SIZE) {
       this.queue.shift();
@@ -433,6 +965,19 @@ export class SocketService {
       }
     });
 
+    socket.on('session:resumed', (payload: Partial<ChannelResponse>) => {
+      if (typeof payload?.resumeToken === 'string') {
+        this.resumeToken = payload.resumeToken;
+        if (payload.channel) {
+          this.saveIdentity(payload.channel.code, payload.resumeToken);
+        }
+      }
+    });
+
+    socket.on('session:expired', () => {
+      this.resumeToken = null;
+    });
+
     socket.on('connect_error', () => {
       this.updateStatus('disconnected');
       this.stopHeartbeat();
@@ -549,7 +1094,7 @@ export class SocketService {
     if (!this.normalizeNickname(payload.senderNickname)) {
       return 'Invalid sender nickname.';
     }
-    if (typeof payload.audioBase64 !== 'string' || payload.audioBase64.trim().length === 0) {
+    if (!(payload.audio instanceof ArrayBuffer) || payload.audio.byteLength === 0) {
       return 'Invalid audio payload.';
     }
     if (!ALLOWED_MIME_TYPES.has(payload.mimeType)) {
@@ -564,11 +1109,7 @@ export class SocketService {
     if (!this.isValidPriority(payload.priority)) {
       return 'Invalid priority.';
     }
-    const estimatedBytes = this.estimateBase64Bytes(payload.audioBase64);
-    if (estimatedBytes === null) {
-      return 'Invalid audio payload.';
-    }
-    if (estimatedBytes > MAX_AUDIO_BYTES) {
+    if (payload.audio.byteLength > MAX_AUDIO_BYTES) {
       return 'Audio payload too large.';
     }
     if (payload.location) {
@@ -580,19 +1121,14 @@ export class SocketService {
         return 'Invalid location.';
       }
     }
-    return null;
-  }
-
-  private estimateBase64Bytes(value: string) {
-    const trimmed = value.trim();
-    if (trimmed.length === 0 || trimmed.length % 4 !== 0) {
-      return null;
-    }
-    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) {
-      return null;
+    if (
+      payload.recipientUserIds &&
+      (payload.recipientUserIds.length === 0 ||
+        payload.recipientUserIds.some((userId) => typeof userId !== 'string' || userId === payload.senderId))
+    ) {
+      return 'Invalid recipients.';
     }
-    const padding = trimmed.endsWith('==') ? 2 : trimmed.endsWith('=') ? 1 : 0;
-    return Math.max(0, Math.floor((trimmed.length * 3) / 4) - padding);
+    return null;
   }
 
   private isValidPriority(value: unknown): value is MessagePriority {
@@ -0,0 +1,37 @@
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+type LatLng = { lat: number; lng: number };
+
+// Haversine great-circle distance in metres.
+export const distanceMeters = (from: LatLng, to: LatLng) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Initial bearing from `from` towards `to`, in degrees clockwise from true north.
+export const bearingDegrees = (from: LatLng, to: LatLng) => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const compassPoint = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+
+export const formatDistance = (meters: number) => {
+  if (meters < 1_000) {
+    return `${Math.round(meters)} m`;
+  }
+  return `${(meters / 1_000).toFixed(meters < 10_000 ? 1 : 0)} km`;
+};
@@ -0,0 +1,36 @@
+export type WaveformSummary = {
+  peaks: number[];
+  durationMs: number;
+};
+
+const DECODE_SAMPLE_RATE = 22_050;
+
+// Decodes a clip and reduces it to `bars` normalised peak values for a thumbnail.
+export const computeWaveform = async (blob: Blob, bars: number): Promise<WaveformSummary | null> => {
+  if (typeof OfflineAudioContext === 'undefined') {
+    return null;
+  }
+  try {
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+    const peaks: number[] = [];
+    let loudest = 0;
+    for (let bar = 0; bar < bars; bar += 1) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * bucketSize);
+      for (let index = bar * bucketSize; index < end; index += 1) {
+        peak = Math.max(peak, Math.abs(samples[index]));
+      }
+      peaks.push(peak);
+      loudest = Math.max(loudest, peak);
+    }
+    return {
+      peaks: peaks.map((peak) => (loudest > 0 ? peak / loudest : 0)),
+      durationMs: Math.round(buffer.duration * 1000),
+    };
+  } catch {
+    return null;
+  }
+};
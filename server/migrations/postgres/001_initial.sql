@@ -0,0 +1,138 @@
+-- Mirrors the SQLite schema at 002. Timestamps are epoch milliseconds and audio lives in the AudioStore.
+CREATE TABLE IF NOT EXISTS channels (
+  code TEXT PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  last_activity_at BIGINT NOT NULL,
+  passphrase_hash TEXT,
+  urgent_min_role TEXT NOT NULL DEFAULT 'member' CHECK (urgent_min_role IN ('owner', 'moderator', 'member')),
+  retention_max_messages INTEGER,
+  retention_max_age_days INTEGER,
+  retention_max_bytes BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('routine', 'important', 'urgent')),
+  mime_type TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  audio_key TEXT,
+  audio_checksum TEXT,
+  kind TEXT NOT NULL DEFAULT 'audio' CHECK (kind IN ('audio', 'text')),
+  body TEXT,
+  location_lat DOUBLE PRECISION,
+  location_lng DOUBLE PRECISION,
+  location_accuracy DOUBLE PRECISION,
+  visible_to TEXT,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_channel_created
+  ON messages(channel_code, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_audio_key
+  ON messages(audio_key);
+
+CREATE TABLE IF NOT EXISTS emergency_log (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('routine', 'important', 'urgent')),
+  message TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'channel' CHECK (scope IN ('channel', 'linked', 'global')),
+  target_channels TEXT NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  resolved_by TEXT,
+  resolved_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_created
+  ON emergency_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_channels_last_activity
+  ON channels(last_activity_at DESC);
+
+CREATE TABLE IF NOT EXISTS channel_roles (
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'moderator')),
+  granted_at BIGINT NOT NULL,
+  PRIMARY KEY (channel_code, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS channel_bans (
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  ip TEXT,
+  banned_by TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  PRIMARY KEY (channel_code, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS channel_links (
+  channel_code TEXT NOT NULL,
+  linked_code TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  PRIMARY KEY (channel_code, linked_code),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE,
+  FOREIGN KEY (linked_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS emergency_acks (
+  emergency_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  acknowledged_at BIGINT NOT NULL,
+  PRIMARY KEY (emergency_id, user_id),
+  FOREIGN KEY (emergency_id) REFERENCES emergency_log(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS quick_responses (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('ack', 'clear', 'assist', 'standby', 'enroute')),
+  message TEXT NOT NULL,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_quick_responses_channel_created
+  ON quick_responses(channel_code, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS geofences (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  shape TEXT NOT NULL,
+  alert_after_ms INTEGER,
+  created_by TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_channel
+  ON geofences(channel_code);
+
+CREATE TABLE IF NOT EXISTS message_receipts (
+  message_id TEXT NOT NULL,
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  delivered_at BIGINT NOT NULL,
+  played_at BIGINT,
+  PRIMARY KEY (message_id, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
@@ -0,0 +1,100 @@
+-- Columns and tables added by the features built on top of the original schema.
+ALTER TABLE channels ADD COLUMN passphrase_hash TEXT;
+ALTER TABLE channels ADD COLUMN urgent_min_role TEXT NOT NULL DEFAULT 'member'
+  CHECK (urgent_min_role IN ('owner', 'moderator', 'member'));
+ALTER TABLE channels ADD COLUMN retention_max_messages INTEGER;
+ALTER TABLE channels ADD COLUMN retention_max_age_days INTEGER;
+ALTER TABLE channels ADD COLUMN retention_max_bytes INTEGER;
+
+ALTER TABLE messages ADD COLUMN kind TEXT NOT NULL DEFAULT 'audio' CHECK (kind IN ('audio', 'text'));
+ALTER TABLE messages ADD COLUMN body TEXT;
+ALTER TABLE messages ADD COLUMN location_lat REAL;
+ALTER TABLE messages ADD COLUMN location_lng REAL;
+ALTER TABLE messages ADD COLUMN location_accuracy REAL;
+ALTER TABLE messages ADD COLUMN visible_to TEXT;
+
+ALTER TABLE emergency_log ADD COLUMN scope TEXT NOT NULL DEFAULT 'channel'
+  CHECK (scope IN ('channel', 'linked', 'global'));
+ALTER TABLE emergency_log ADD COLUMN target_channels TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE emergency_log ADD COLUMN status TEXT NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'acknowledged', 'resolved'));
+ALTER TABLE emergency_log ADD COLUMN resolved_by TEXT;
+ALTER TABLE emergency_log ADD COLUMN resolved_at INTEGER;
+
+CREATE TABLE IF NOT EXISTS channel_roles (
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'moderator')),
+  granted_at INTEGER NOT NULL,
+  PRIMARY KEY (channel_code, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS channel_bans (
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  ip TEXT,
+  banned_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (channel_code, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS channel_links (
+  channel_code TEXT NOT NULL,
+  linked_code TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (channel_code, linked_code),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE,
+  FOREIGN KEY (linked_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS emergency_acks (
+  emergency_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  acknowledged_at INTEGER NOT NULL,
+  PRIMARY KEY (emergency_id, user_id),
+  FOREIGN KEY (emergency_id) REFERENCES emergency_log(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS quick_responses (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('ack', 'clear', 'assist', 'standby', 'enroute')),
+  message TEXT NOT NULL,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_quick_responses_channel_created
+  ON quick_responses(channel_code, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS geofences (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  shape TEXT NOT NULL,
+  alert_after_ms INTEGER,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_channel
+  ON geofences(channel_code);
+
+CREATE TABLE IF NOT EXISTS message_receipts (
+  message_id TEXT NOT NULL,
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  delivered_at INTEGER NOT NULL,
+  played_at INTEGER,
+  PRIMARY KEY (message_id, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
@@ -0,0 +1,6 @@
+-- Audio payloads move to an AudioStore; `payload` stays empty for rows that reference a stored file.
+ALTER TABLE messages ADD COLUMN audio_key TEXT;
+ALTER TABLE messages ADD COLUMN audio_checksum TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_audio_key
+  ON messages(audio_key);
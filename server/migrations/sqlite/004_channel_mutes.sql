@@ -0,0 +1,8 @@
+-- Mutes outlive the in-memory channel so leaving and rejoining does not lift them.
+CREATE TABLE IF NOT EXISTS channel_mutes (
+  channel_code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  muted_until INTEGER NOT NULL,
+  PRIMARY KEY (channel_code, user_id),
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
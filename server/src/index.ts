@@ -4,15 +4,21 @@ import path from 'path';
 import express from 'express';
 import cors from 'cors';
 import { Server as SocketIOServer } from 'socket.io';
+import { createClusterBus } from './services/clusterBus';
+import { createSharedState } from './services/sharedState';
 import { createSocketService } from './services/socketService';
+import { createStorage } from './services/storage';
 
 const PORT = Number(process.env.PORT ?? 3001);
 const CLIENT_ORIGIN = process.env.CLIENT_ORIGIN ?? 'http://localhost:5173';
 const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60_000);
 const RATE_LIMIT_MAX = Number(process.env.RATE_LIMIT_MAX ?? 120);
+const SOCKET_MAX_BUFFER_BYTES = Number(process.env.SOCKET_MAX_BUFFER_BYTES ?? 1_500_000);
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS ?? 10_000);
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS ?? 1);
 
 const app = express();
-app.set('trust proxy', 1);
+app.set('trust proxy', TRUST_PROXY_HOPS);
 
 const allowedOrigins = new Set(
   CLIENT_ORIGIN.split(',')
@@ -88,6 +94,7 @@ if (process.env.NODE_ENV === 'production') {
 
 const httpServer = http.createServer(app);
 const io = new SocketIOServer(httpServer, {
+  maxHttpBufferSize: SOCKET_MAX_BUFFER_BYTES,
   cors: {
     origin: (origin, callback) => {
       if (isOriginAllowed(origin)) {
@@ -101,8 +108,33 @@ const io = new SocketIOServer(httpServer, {
   },
 });
 
-createSocketService(io);
+// Storage must be reachable before the server accepts connections; running without it would drop messages.
+const start = async () => {
+  const storage = await createStorage();
+  const sharedState = await createSharedState(io);
+  const socketService = createSocketService(io, { storage, sharedState, clusterBus: createClusterBus(io) });
 
-httpServer.listen(PORT, () => {
-  console.log(`server listening on http://localhost:${PORT}`);
+  httpServer.listen(PORT, () => {
+    console.log(`server listening on http://localhost:${PORT}`);
+  });
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    console.info(`${signal} received, shutting down`);
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+    io.close(() => {
+      // The socket service waits for a running cleanup pass, so storage is never closed under it.
+      socketService
+        .close()
+        .then(() => Promise.all([storage.close(), sharedState.close()]))
+        .finally(() => process.exit(0));
+    });
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+};
+
+start().catch((error) => {
+  console.error('[server] startup failed', error);
+  process.exit(1);
 });
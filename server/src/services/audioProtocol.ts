@@ -0,0 +1,28 @@
+import type { Socket } from 'socket.io';
+
+export const LEGACY_AUDIO_PROTOCOL = 1;
+export const BINARY_AUDIO_PROTOCOL = 2;
+
+export type AudioProtocolVersion = typeof LEGACY_AUDIO_PROTOCOL | typeof BINARY_AUDIO_PROTOCOL;
+
+export type AudioWirePayload = { audio: Buffer } | { audioBase64: string };
+
+export const resolveAudioProtocol = (socket: Socket): AudioProtocolVersion => {
+  const raw = (socket.handshake.auth as { audioProtocol?: unknown } | undefined)?.audioProtocol;
+  const version = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof version === 'number' && Number.isInteger(version) && version >= BINARY_AUDIO_PROTOCOL) {
+    return BINARY_AUDIO_PROTOCOL;
+  }
+  return LEGACY_AUDIO_PROTOCOL;
+};
+
+export const createAudioEncoder = (payload: Buffer) => {
+  let base64: string | null = null;
+  return (version: AudioProtocolVersion): AudioWirePayload => {
+    if (version === BINARY_AUDIO_PROTOCOL) {
+      return { audio: payload };
+    }
+    base64 ??= payload.toString('base64');
+    return { audioBase64: base64 };
+  };
+};
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checksumAudio, createFileAudioStore, deleteOrphanedAudio } from './audioStore';
+
+describe('audioStore', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'walkie-audio-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('stores payloads by content and reads them back', async () => {
+    const store = createFileAudioStore(root);
+    const payload = Buffer.from([1, 2, 3, 4]);
+
+    const first = await store.put(payload);
+    const second = await store.put(Buffer.from(payload));
+
+    expect(first).toEqual(second);
+    expect(first.checksum).toBe(await checksumAudio(payload));
+    expect(await store.get(first)).toEqual(payload);
+    expect(await store.keys()).toEqual([first.key]);
+  });
+
+  it('returns null for missing or corrupted payloads', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createFileAudioStore(root);
+    const ref = await store.put(Buffer.from([1, 2, 3]));
+    const file = path.join(root, ref.key.slice(0, 2), ref.key.slice(2, 4), ref.key);
+
+    fs.writeFileSync(file, Buffer.from([9, 9, 9]));
+    expect(await store.get(ref)).toBeNull();
+
+    await store.delete(ref.key);
+    expect(await store.get(ref)).toBeNull();
+  });
+
+  it('deletes unreferenced payloads past the grace period', async () => {
+    const store = createFileAudioStore(root);
+    const kept = await store.put(Buffer.from([1]));
+    const orphan = await store.put(Buffer.from([2]));
+    const fresh = await store.put(Buffer.from([3]));
+    const old = new Date(Date.now() - 60 * 60_000);
+    [kept, orphan].forEach(({ key }) => {
+      fs.utimesSync(path.join(root, key.slice(0, 2), key.slice(2, 4), key), old, old);
+    });
+
+    expect(await deleteOrphanedAudio(store, new Set([kept.key]))).toBe(1);
+    expect((await store.keys()).sort()).toEqual([kept.key, fresh.key].sort());
+  });
+
+  it('skips payloads deleted while the sweep is listing them', async () => {
+    const store = createFileAudioStore(root);
+    const gone = await store.put(Buffer.from([1]));
+    const orphan = await store.put(Buffer.from([2]));
+    const old = new Date(Date.now() - 60 * 60_000);
+    [gone, orphan].forEach(({ key }) => {
+      fs.utimesSync(path.join(root, key.slice(0, 2), key.slice(2, 4), key), old, old);
+    });
+    const stat = fs.promises.stat;
+    vi.spyOn(fs.promises, 'stat').mockImplementation(async (file, ...rest) => {
+      if (String(file).endsWith(gone.key)) {
+        throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+      }
+      return stat(file, ...rest);
+    });
+
+    expect(await deleteOrphanedAudio(store, new Set())).toBe(1);
+    expect(await store.keys()).toEqual([gone.key]);
+  });
+});
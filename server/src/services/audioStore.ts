@@ -0,0 +1,147 @@
+import { randomUUID, webcrypto } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type AudioRef = {
+  key: string;
+  checksum: string;
+};
+
+// Where audio payloads live. Keys are opaque to callers; checksums are SHA-256 hex digests.
+export type AudioStore = {
+  put: (payload: Buffer) => Promise<AudioRef>;
+  // Resolves null when the payload is missing or fails its checksum.
+  get: (ref: AudioRef) => Promise<Buffer | null>;
+  delete: (key: string) => Promise<void>;
+  // Keys last written before `olderThan`, when given.
+  keys: (olderThan?: Date) => Promise<string[]>;
+};
+
+const DIGEST_REGEX = /^[0-9a-f]{64}$/;
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+// WebCrypto digests run on the libuv pool, keeping large clips off the event loop.
+export const checksumAudio = async (payload: Buffer) =>
+  Buffer.from(await webcrypto.subtle.digest('SHA-256', payload)).toString('hex');
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+// Content-addressed files sharded by the first two byte pairs of the digest, e.g. `ab/cd/abcd…`.
+// Identical clips share one file, so a file may only be deleted once no message references it.
+export const createFileAudioStore = (root: string): AudioStore => {
+  const resolvePath = (key: string) => {
+    if (!DIGEST_REGEX.test(key)) {
+      throw new Error(`Invalid audio key ${key}`);
+    }
+    return path.join(root, key.slice(0, 2), key.slice(2, 4), key);
+  };
+
+  const put = async (payload: Buffer): Promise<AudioRef> => {
+    const checksum = await checksumAudio(payload);
+    const file = resolvePath(checksum);
+    const now = new Date();
+    try {
+      // Refresh the write time so a concurrent orphan sweep treats the file as new.
+      await fs.utimes(file, now, now);
+    } catch (error) {
+      if (!isMissing(error)) {
+        throw error;
+      }
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so a crash never leaves a truncated file under a valid key.
+      const temp = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, payload);
+      await fs.rename(temp, file);
+    }
+    return { key: checksum, checksum };
+  };
+
+  const get = async (ref: AudioRef) => {
+    let payload: Buffer;
+    try {
+      payload = await fs.readFile(resolvePath(ref.key));
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+    if ((await checksumAudio(payload)) !== ref.checksum) {
+      console.error('[audio-store] checksum mismatch', { key: ref.key });
+      return null;
+    }
+    return payload;
+  };
+
+  const remove = async (key: string) => {
+    await fs.rm(resolvePath(key), { force: true });
+  };
+
+  const listShards = async (dir: string) => {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((entry) => entry.isDirectory()).map((entry) => path.join(dir, entry.name));
+    } catch (error) {
+      if (isMissing(error)) {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  // Another sweep, or another instance sharing the directory, may delete a file after it was listed.
+  const statIfPresent = async (filePath: string) => {
+    try {
+      return await fs.stat(filePath);
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const listFiles = async (dir: string, olderThan?: Date) => {
+    const names = (await fs.readdir(dir, { withFileTypes: true }))
+      .filter((entry) => entry.isFile() && DIGEST_REGEX.test(entry.name))
+      .map((entry) => entry.name);
+    if (!olderThan) {
+      return names;
+    }
+    const stats = await Promise.all(names.map((name) => statIfPresent(path.join(dir, name))));
+    return names.filter((_name, index) => {
+      const stat = stats[index];
+      return stat !== null && stat.mtime < olderThan;
+    });
+  };
+
+  const keys = async (olderThan?: Date) => {
+    const dirs = (await Promise.all((await listShards(root)).map(listShards))).flat();
+    const found: string[] = [];
+    for (const dir of dirs) {
+      found.push(...(await listFiles(dir, olderThan)));
+    }
+    return found;
+  };
+
+  return {
+    put,
+    get,
+    delete: remove,
+    keys,
+  };
+};
+
+// Deletes stored audio that no message references. Files written within the grace period are kept,
+// since their message row may not be committed yet.
+export const deleteOrphanedAudio = async (
+  store: AudioStore,
+  referenced: Set<string>,
+  graceMs = ORPHAN_GRACE_MS,
+) => {
+  const orphans = (await store.keys(new Date(Date.now() - graceMs))).filter((key) => !referenced.has(key));
+  for (const key of orphans) {
+    await store.delete(key);
+  }
+  return orphans.length;
+};
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileAudioStore } from './audioStore';
+import { createCleanupService } from './cleanupService';
+import { createMemorySharedState } from './sharedState';
+import { SqliteStorage } from './sqliteStorage';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '..', '..', 'migrations', 'sqlite');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('cleanupService', () => {
+  let tempDir: string;
+  let storage: SqliteStorage;
+
+  const createChannel = (code: string) =>
+    storage.upsertChannel(
+      { code, displayName: `Channel ${code}`, createdAt: new Date(Date.now() - 10 * DAY_MS) },
+      new Date(Date.now() - 10 * DAY_MS),
+    );
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walkie-cleanup-'));
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    storage = await SqliteStorage.open({
+      filename: ':memory:',
+      migrationsDir: MIGRATIONS_DIR,
+      audioStore: createFileAudioStore(path.join(tempDir, 'audio')),
+      maxMessagesPerChannel: 100,
+    });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('keeps idle channels that still have connected members', async () => {
+    await createChannel('1111');
+    await createChannel('2222');
+    await storage.setChannelPassphraseHash('1111', 'scrypt$salt$hash');
+    const cleanup = createCleanupService({
+      storage,
+      getMemberContext: () => null,
+      listActiveChannels: () => ['1111'],
+      acquireLock: createMemorySharedState().acquireLock,
+    });
+
+    const report = await cleanup.runOnce();
+
+    expect(report?.idleChannels).toBe(1);
+    expect((await storage.getChannelByCode('1111'))?.passphraseHash).toBe('scrypt$salt$hash');
+    expect(await storage.getChannelByCode('2222')).toBeNull();
+  });
+
+  it('runs one pass per interval across instances sharing a lock', async () => {
+    const sharedState = createMemorySharedState();
+    const createInstance = () =>
+      createCleanupService(
+        { storage, getMemberContext: () => null, listActiveChannels: () => [], acquireLock: sharedState.acquireLock },
+        { intervalMs: 60_000 },
+      );
+
+    const reports = await Promise.all([createInstance().runOnce(), createInstance().runOnce()]);
+
+    expect(reports.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('waits for a running pass when stopped', async () => {
+    await createChannel('1111');
+    const cleanup = createCleanupService({
+      storage,
+      getMemberContext: () => null,
+      listActiveChannels: () => [],
+      acquireLock: createMemorySharedState().acquireLock,
+    });
+
+    cleanup.start();
+    await cleanup.stop();
+
+    expect(await storage.getChannelByCode('1111')).toBeNull();
+  });
+});
@@ -1,35 +1,244 @@
-import { DatabaseService } from './databaseService';
+import type { Socket } from 'socket.io';
+import type { ChannelRetention, RetentionLimits, User } from '@walkie/shared/types';
+import type { Storage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = Number(process.env.CLEANUP_INTERVAL_MS ?? 5 * 60 * 1000);
+const EMERGENCY_RETENTION_DAYS = Number(process.env.EMERGENCY_RETENTION_DAYS ?? 30);
+const RECEIPT_RETENTION_DAYS = Number(process.env.RECEIPT_RETENTION_DAYS ?? 30);
+const CHANNEL_IDLE_DAYS = Number(process.env.CHANNEL_IDLE_DAYS ?? 3);
+const CLEANUP_LOCK = 'cleanup';
+
+export const DEFAULT_RETENTION: RetentionLimits = {
+  maxMessages: Number(process.env.RETENTION_MAX_MESSAGES ?? 50),
+  maxAgeDays: Number(process.env.RETENTION_MAX_AGE_DAYS ?? 7),
+  maxBytes: Number(process.env.RETENTION_MAX_BYTES ?? 25_000_000),
+};
+
+// Owners may tighten or loosen retention, but only within these bounds.
+const RETENTION_BOUNDS: RetentionLimits = {
+  maxMessages: 1_000,
+  maxAgeDays: 90,
+  maxBytes: 250_000_000,
+};
 
 type CleanupOptions = {
   intervalMs?: number;
-  messageRetentionDays?: number;
+  defaults?: RetentionLimits;
   emergencyRetentionDays?: number;
+  receiptRetentionDays?: number;
   channelIdleDays?: number;
 };
 
-const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
-const DEFAULT_MESSAGE_RETENTION_DAYS = 7;
-const DEFAULT_EMERGENCY_RETENTION_DAYS = 30;
-const DEFAULT_CHANNEL_IDLE_DAYS = 3;
+type RetentionPayload = {
+  channelCode: string;
+  retention?: ChannelRetention;
+};
+
+type RetentionOutbound = {
+  retention: ChannelRetention;
+  defaults: RetentionLimits;
+};
+
+type RetentionAck =
+  | { ok: true; data: RetentionOutbound }
+  | { ok: false; error: string; code: 'invalid_payload' | 'not_found' | 'forbidden' | 'internal' };
 
-export const startCleanupJobs = (db: DatabaseService, options: CleanupOptions = {}) => {
-  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
-  const messageRetentionDays = options.messageRetentionDays ?? DEFAULT_MESSAGE_RETENTION_DAYS;
-  const emergencyRetentionDays = options.emergencyRetentionDays ?? DEFAULT_EMERGENCY_RETENTION_DAYS;
-  const channelIdleDays = options.channelIdleDays ?? DEFAULT_CHANNEL_IDLE_DAYS;
+type RetentionContext = {
+  user: User;
+  channelState: { channel: { code: string } };
+};
+
+type CleanupDeps = {
+  storage: Storage;
+  getMemberContext: (socketId: string, channelCode?: string) => RetentionContext | null;
+  listActiveChannels: () => string[];
+  acquireLock: (name: string, ttlMs: number) => Promise<boolean>;
+};
+
+export type CleanupReport = {
+  startedAt: Date;
+  durationMs: number;
+  channels: number;
+  messagesByCount: number;
+  messagesByAge: number;
+  messagesByBytes: number;
+  quickResponses: number;
+  receipts: number;
+  emergencyLogs: number;
+  idleChannels: number;
+  orphanedAudio: number;
+};
+
+const isValidLimit = (value: unknown, max: number): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max);
+
+const isValidRetention = (value: unknown): value is ChannelRetention => {
+  const retention = value as ChannelRetention | undefined;
+  return (
+    Boolean(retention) &&
+    isValidLimit(retention?.maxMessages, RETENTION_BOUNDS.maxMessages) &&
+    isValidLimit(retention?.maxAgeDays, RETENTION_BOUNDS.maxAgeDays) &&
+    isValidLimit(retention?.maxBytes, RETENTION_BOUNDS.maxBytes)
+  );
+};
 
-  const runCleanup = () => {
-    const now = Date.now();
-    db.pruneMessagesForAllChannels();
-    db.cleanupOldMessages(new Date(now - messageRetentionDays * 24 * 60 * 60 * 1000));
-    db.cleanupOldEmergencyLogs(new Date(now - emergencyRetentionDays * 24 * 60 * 60 * 1000));
-    db.cleanupIdleChannels(new Date(now - channelIdleDays * 24 * 60 * 60 * 1000));
+export const resolveRetention = (retention: ChannelRetention, defaults: RetentionLimits): RetentionLimits => ({
+  maxMessages: retention.maxMessages ?? defaults.maxMessages,
+  maxAgeDays: retention.maxAgeDays ?? defaults.maxAgeDays,
+  maxBytes: retention.maxBytes ?? defaults.maxBytes,
+});
+
+export const createCleanupService = (deps: CleanupDeps, options: CleanupOptions = {}) => {
+  const intervalMs = options.intervalMs ?? CLEANUP_INTERVAL_MS;
+  const defaults = options.defaults ?? DEFAULT_RETENTION;
+  const emergencyRetentionDays = options.emergencyRetentionDays ?? EMERGENCY_RETENTION_DAYS;
+  const receiptRetentionDays = options.receiptRetentionDays ?? RECEIPT_RETENTION_DAYS;
+  const channelIdleDays = options.channelIdleDays ?? CHANNEL_IDLE_DAYS;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<CleanupReport | null> | null = null;
+
+  const runCleanup = async (storage: Storage): Promise<CleanupReport> => {
+    const startedAt = new Date();
+    const now = startedAt.getTime();
+    const report: CleanupReport = {
+      startedAt,
+      durationMs: 0,
+      channels: 0,
+      messagesByCount: 0,
+      messagesByAge: 0,
+      messagesByBytes: 0,
+      quickResponses: 0,
+      receipts: 0,
+      emergencyLogs: 0,
+      idleChannels: 0,
+      orphanedAudio: 0,
+    };
+
+    for (const { channelCode, retention } of await storage.listChannelRetention()) {
+      const limits = resolveRetention(retention, defaults);
+      const pruned = await storage.pruneChannelMessages(channelCode, limits, startedAt);
+      report.channels += 1;
+      report.messagesByCount += pruned.byCount;
+      report.messagesByAge += pruned.byAge;
+      report.messagesByBytes += pruned.byBytes;
+    }
+    report.quickResponses = await storage.cleanupOldQuickResponses(new Date(now - defaults.maxAgeDays * DAY_MS));
+    report.receipts = await storage.cleanupOldReceipts(new Date(now - receiptRetentionDays * DAY_MS));
+    report.emergencyLogs = await storage.cleanupOldEmergencyLogs(
+      new Date(now - emergencyRetentionDays * DAY_MS),
+    );
+    report.idleChannels = await storage.cleanupIdleChannels(new Date(now - channelIdleDays * DAY_MS));
+    // Runs last so files freed by every pruning step above are collected in the same pass.
+    report.orphanedAudio = await storage.cleanupOrphanedAudio();
+    report.durationMs = Date.now() - now;
+    return report;
+  };
+
+  // Every instance refreshes its live channels each tick; only the lock holder prunes, once per interval.
+  const runPass = async () => {
+    try {
+      await deps.storage.touchChannels(deps.listActiveChannels(), new Date());
+      // Slightly shorter than the interval so the holder's next tick is not locked out by its own lock.
+      if (!(await deps.acquireLock(CLEANUP_LOCK, Math.floor(intervalMs * 0.9)))) {
+        return null;
+      }
+      const report = await runCleanup(deps.storage);
+      console.info('[cleanup] report', report);
+      return report;
+    } catch (error) {
+      console.error('[cleanup] pass failed', error);
+      return null;
+    }
+  };
+
+  // A slow pass is never overlapped by the next tick.
+  const runOnce = () => {
+    running ??= runPass().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  const start = () => {
+    if (timer) {
+      return;
+    }
+    runOnce();
+    timer = setInterval(runOnce, intervalMs);
+  };
+
+  // Resolves once a pass already in progress has finished, so storage can be closed after it.
+  const stop = async () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    await running;
+  };
+
+  const resolveOwner = (socket: Socket, payload: unknown, ack?: (response: RetentionAck) => void) => {
+    const data = payload as RetentionPayload;
+    if (!data || typeof data.channelCode !== 'string') {
+      ack?.({ ok: false, error: 'Invalid retention request.', code: 'invalid_payload' });
+      return null;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return null;
+    }
+    if (context.user.role !== 'owner') {
+      ack?.({ ok: false, error: 'Only the owner can change retention.', code: 'forbidden' });
+      return null;
+    }
+    return { data, context };
+  };
+
+  const handleGetRetention = async (socket: Socket, payload: unknown, ack?: (response: RetentionAck) => void) => {
+    const resolved = resolveOwner(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    try {
+      const record = await deps.storage.getChannelByCode(resolved.data.channelCode);
+      const retention = record?.retention ?? { maxMessages: null, maxAgeDays: null, maxBytes: null };
+      ack?.({ ok: true, data: { retention, defaults } });
+    } catch (error) {
+      console.error('[cleanup] retention load failed', error);
+      ack?.({ ok: false, error: 'Unable to load retention settings.', code: 'internal' });
+    }
   };
 
-  runCleanup();
-  const timer = setInterval(runCleanup, intervalMs);
+  const handleSetRetention = async (socket: Socket, payload: unknown, ack?: (response: RetentionAck) => void) => {
+    const resolved = resolveOwner(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const retention = resolved.data.retention;
+    if (!isValidRetention(retention)) {
+      ack?.({ ok: false, error: 'Invalid retention limits.', code: 'invalid_payload' });
+      return;
+    }
+    const { channelCode } = resolved.data;
+    try {
+      await deps.storage.setChannelRetention(channelCode, retention);
+      // Apply the new limits right away instead of waiting for the next pass.
+      await deps.storage.pruneChannelMessages(channelCode, resolveRetention(retention, defaults));
+    } catch (error) {
+      console.error('[cleanup] retention update failed', error);
+      ack?.({ ok: false, error: 'Unable to update retention.', code: 'internal' });
+      return;
+    }
+    console.info('[cleanup] retention', { channelCode, retention, by: resolved.context.user.id });
+    ack?.({ ok: true, data: { retention, defaults } });
+  };
 
-  return () => {
-    clearInterval(timer);
+  return {
+    start,
+    stop,
+    runOnce,
+    handleGetRetention,
+    handleSetRetention,
   };
 };
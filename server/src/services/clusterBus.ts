@@ -0,0 +1,21 @@
+import type { Server } from 'socket.io';
+
+const REDIS_URL = process.env.REDIS_URL;
+
+// Server-to-server events for state an instance keeps in memory. They reach every other instance, never the sender.
+export type ClusterBus = {
+  publish(event: string, payload: unknown): void;
+  subscribe<T>(event: string, handler: (payload: T) => void): void;
+};
+
+// A lone instance has no peers, and the in-memory adapter only warns on serverSideEmit, so nothing is sent.
+export const createClusterBus = (io: Server, clustered = Boolean(REDIS_URL)): ClusterBus => ({
+  publish: (event, payload) => {
+    if (clustered) {
+      io.serverSideEmit(event, payload);
+    }
+  },
+  subscribe: (event, handler) => {
+    io.on(event, handler);
+  },
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import type { EmergencyBroadcast, User } from '@walkie/shared/types';
+import { createEmergencyService, type EmergencyChange } from './emergencyService';
+import type { Storage } from './storage';
+
+const CHANNEL_CODE = '1234';
+
+const createUser = (id: string): User => ({
+  id,
+  nickname: `nick-${id}`,
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+});
+
+const setup = () => {
+  const log: string[] = [];
+  const io = {
+    to: () => ({
+      emit: (event: string) => {
+        log.push(event);
+      },
+    }),
+  } as unknown as Server;
+  const storage = {
+    recordEmergency: vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      log.push('recordEmergency');
+    }),
+    recordEmergencyAck: vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      log.push('recordEmergencyAck');
+    }),
+    setEmergencyStatus: vi.fn(async (_id: string, status: string) => {
+      log.push(`status:${status}`);
+    }),
+  };
+  const users = new Map(['sender', 'helper'].map((id) => [`socket-${id}`, createUser(id)]));
+  const published: EmergencyChange[] = [];
+  const service = createEmergencyService(io, {
+    storage: storage as unknown as Storage,
+    consumeRateLimit: async () => ({ allowed: true, retryAfterMs: 0 }),
+    getUserContext: (socketId) => {
+      const user = users.get(socketId);
+      return user ? { user, channelCode: CHANNEL_CODE } : null;
+    },
+    touchActivity: () => {},
+    listRecipients: async () => Array.from(users.values(), (user) => ({ userId: user.id, nickname: user.nickname })),
+    publishChange: (change) => {
+      published.push(change);
+    },
+  });
+  const socket = (id: string) => ({ id, emit: vi.fn() }) as unknown as Socket;
+  // Replays this instance's changes on another one, through JSON like the adapter.
+  const forwardTo = (other: { service: typeof service }) => {
+    published.splice(0).forEach((change) => other.service.handleRemoteChange(JSON.parse(JSON.stringify(change))));
+  };
+  return { service, storage, log, socket, forwardTo };
+};
+
+describe('emergencyService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('stores an alert before broadcasting it', async () => {
+    const { service, log, socket } = setup();
+    const ack = vi.fn();
+
+    const sending = service.handleBroadcast(socket('socket-sender'), { message: 'Help' }, ack);
+    await vi.advanceTimersByTimeAsync(10);
+    await sending;
+
+    expect(log.slice(0, 2)).toEqual(['recordEmergency', 'emergency:alert']);
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+  });
+
+  it('writes an ack before a resolve that follows it', async () => {
+    const { service, log, socket } = setup();
+    const ack = vi.fn();
+    const sending = service.handleBroadcast(socket('socket-sender'), { message: 'Help' }, ack);
+    await vi.advanceTimersByTimeAsync(10);
+    await sending;
+    const { broadcast } = ack.mock.calls[0][0].data as { broadcast: EmergencyBroadcast };
+    log.length = 0;
+
+    service.handleAcknowledge(socket('socket-helper'), { emergencyId: broadcast.id });
+    service.handleResolve(socket('socket-sender'), { emergencyId: broadcast.id });
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(log.filter((entry) => !entry.startsWith('emergency:'))).toEqual([
+      'recordEmergencyAck',
+      'status:acknowledged',
+      'status:resolved',
+    ]);
+  });
+
+  it('lets a recipient on another instance acknowledge and counts it where the alert was raised', async () => {
+    const first = setup();
+    const second = setup();
+    const ack = vi.fn();
+    const sending = first.service.handleBroadcast(first.socket('socket-sender'), { message: 'Help' }, ack);
+    await vi.advanceTimersByTimeAsync(10);
+    await sending;
+    const { broadcast } = ack.mock.calls[0][0].data as { broadcast: EmergencyBroadcast };
+    first.forwardTo(second);
+
+    const remoteAck = vi.fn();
+    second.service.handleAcknowledge(second.socket('socket-helper'), { emergencyId: broadcast.id }, remoteAck);
+    expect(remoteAck).toHaveBeenCalledWith({
+      ok: true,
+      data: expect.objectContaining({ status: 'acknowledged', recipientCount: 1, acknowledgedCount: 1 }),
+    });
+    second.forwardTo(first);
+
+    const localAck = vi.fn();
+    first.service.handleAcknowledge(first.socket('socket-helper'), { emergencyId: broadcast.id }, localAck);
+    expect(localAck).toHaveBeenCalledWith({
+      ok: true,
+      data: expect.objectContaining({
+        acknowledgedCount: 1,
+        acknowledgedBy: [expect.objectContaining({ userId: 'helper', acknowledgedAt: expect.any(String) })],
+      }),
+    });
+    expect(first.storage.recordEmergencyAck).not.toHaveBeenCalled();
+  });
+
+  it('stops tracking an alert resolved on another instance', async () => {
+    const first = setup();
+    const second = setup();
+    const ack = vi.fn();
+    const sending = first.service.handleBroadcast(first.socket('socket-sender'), { message: 'Help' }, ack);
+    await vi.advanceTimersByTimeAsync(10);
+    await sending;
+    const { broadcast } = ack.mock.calls[0][0].data as { broadcast: EmergencyBroadcast };
+    first.forwardTo(second);
+
+    first.service.handleResolve(first.socket('socket-sender'), { emergencyId: broadcast.id });
+    first.forwardTo(second);
+    const lateAck = vi.fn();
+    second.service.handleAcknowledge(second.socket('socket-helper'), { emergencyId: broadcast.id }, lateAck);
+
+    expect(lateAck).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'not_found' }));
+  });
+});
@@ -1,13 +1,92 @@
 import { randomUUID } from 'crypto';
 import type { Server, Socket } from 'socket.io';
-import type { EmergencyBroadcast, MessagePriority, User } from '@walkie/shared/types';
+import type {
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyScope,
+  EmergencyStatus,
+  MessagePriority,
+  User,
+} from '@walkie/shared/types';
+import type { RateLimitBucket, RateLimitResult } from './sharedState';
+import type { ChannelLinkRecord, Storage } from './storage';
 
 const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000;
 const MAX_MESSAGE_LENGTH = 200;
 const MIN_MESSAGE_LENGTH = 1;
+const MAX_CHANNEL_LINKS = 10;
+const EMERGENCY_TRACK_MS = Number(process.env.EMERGENCY_TRACK_MS ?? 6 * 60 * 60_000);
+const EMERGENCY_ESCALATION_ROLE = (process.env.EMERGENCY_ESCALATION_ROLE ?? 'moderator') as ChannelRole;
+const EMERGENCY_GLOBAL_CHANNELS = new Set(
+  (process.env.EMERGENCY_GLOBAL_CHANNELS ?? '')
+    .split(',')
+    .map((code) => code.trim())
+    .filter(Boolean),
+);
 
 type EmergencyPayload = {
   message: string;
+  scope?: EmergencyScope;
+};
+
+type EmergencyActionPayload = {
+  emergencyId: string;
+};
+
+type EmergencyRecipient = {
+  userId: string;
+  nickname: string;
+};
+
+type EmergencyAcknowledgement = {
+  userId: string;
+  nickname: string;
+  acknowledgedAt: Date;
+};
+
+// Every instance tracks every alert, so recipients can acknowledge wherever they are connected.
+export type EmergencyChange =
+  | { type: 'raised'; broadcast: EmergencyBroadcast; recipients: EmergencyRecipient[] }
+  | ({ type: 'acknowledged'; emergencyId: string } & EmergencyAcknowledgement)
+  | { type: 'resolved'; emergencyId: string; resolvedBy: EmergencyRecipient; resolvedAt: Date };
+
+type TrackedEmergency = {
+  broadcast: EmergencyBroadcast;
+  recipients: Map<string, string>;
+  acks: Map<string, EmergencyAcknowledgement>;
+  resolvedBy: EmergencyRecipient | null;
+  resolvedAt: Date | null;
+  expiryTimer: ReturnType<typeof setTimeout>;
+  writes: Promise<void>;
+};
+
+type EmergencyStatusOutbound = {
+  emergencyId: string;
+  channelCode: string;
+  status: EmergencyStatus;
+  recipientCount: number;
+  acknowledgedCount: number;
+  acknowledgedBy: { userId: string; nickname: string; acknowledgedAt: string }[];
+  resolvedBy: EmergencyRecipient | null;
+  resolvedAt: string | null;
+};
+
+type ChannelLinkPayload = {
+  channelCode: string;
+  linkedCode: string;
+  linked: boolean;
+};
+
+type ChannelLinksPayload = {
+  channelCode: string;
+};
+
+type ChannelLinkOutbound = {
+  channelCode: string;
+  outgoing: boolean;
+  incoming: boolean;
+  mutual: boolean;
+  createdAt: string;
 };
 
 type AckResponse<T> =
@@ -15,7 +94,7 @@ type AckResponse<T> =
   | {
       ok: false;
       error: string;
-      code: 'invalid_payload' | 'rate_limited' | 'not_found' | 'internal';
+      code: 'invalid_payload' | 'rate_limited' | 'not_found' | 'forbidden' | 'internal';
       retryAfterMs: number;
     };
 
@@ -25,12 +104,33 @@ type EmergencyContext = {
 };
 
 type EmergencyDeps = {
-  getUserContext: (socketId: string) => EmergencyContext | null;
+  storage: Storage;
+  consumeRateLimit: (userId: string, buckets: RateLimitBucket[]) => Promise<RateLimitResult>;
+  getUserContext: (socketId: string, channelCode?: string) => EmergencyContext | null;
   touchActivity: (socketId: string) => void;
+  listRecipients: (channelCodes: string[] | null) => Promise<EmergencyRecipient[]>;
+  publishChange: (change: EmergencyChange) => void;
+};
+
+const ROLE_RANK: Record<ChannelRole, number> = {
+  member: 0,
+  moderator: 1,
+  owner: 2,
 };
 
+const isValidScope = (value: unknown): value is EmergencyScope =>
+  value === 'channel' || value === 'linked' || value === 'global';
+
+const toLinkOutbound = (link: ChannelLinkRecord): ChannelLinkOutbound => ({
+  channelCode: link.linkedCode,
+  outgoing: link.outgoing,
+  incoming: link.incoming,
+  mutual: link.outgoing && link.incoming,
+  createdAt: link.createdAt.toISOString(),
+});
+
 export const createEmergencyService = (io: Server, deps: EmergencyDeps) => {
-  const lastBroadcastByUserId = new Map<string, number>();
+  const tracked = new Map<string, TrackedEmergency>();
 
   const normalizeMessage = (value: unknown) => {
     if (typeof value !== 'string') {
@@ -53,23 +153,219 @@ export const createEmergencyService = (io: Server, deps: EmergencyDeps) => {
     }
   };
 
-  const buildBroadcast = (context: EmergencyContext, message: string): EmergencyBroadcast => ({
+  const buildBroadcast = (
+    sender: EmergencyRecipient,
+    channelCode: string,
+    message: string,
+    scope: EmergencyScope,
+    targetChannelCodes: string[],
+    priority: MessagePriority = 'urgent',
+  ): EmergencyBroadcast => ({
     id: randomUUID(),
-    channelCode: context.channelCode,
-    fromUserId: context.user.id,
-    fromNickname: context.user.nickname,
+    channelCode,
+    fromUserId: sender.userId,
+    fromNickname: sender.nickname,
     createdAt: new Date(),
-    priority: 'urgent' as MessagePriority,
+    priority,
     message,
+    scope,
+    targetChannelCodes,
+    status: 'open',
+  });
+
+  const emitToScope = (broadcast: EmergencyBroadcast, event: string, payload: unknown) => {
+    if (broadcast.scope === 'global') {
+      io.emit(event, payload);
+    } else {
+      io.to(broadcast.targetChannelCodes).emit(event, payload);
+    }
+  };
+
+  const toStatusOutbound = (entry: TrackedEmergency): EmergencyStatusOutbound => ({
+    emergencyId: entry.broadcast.id,
+    channelCode: entry.broadcast.channelCode,
+    status: entry.broadcast.status,
+    recipientCount: entry.recipients.size,
+    acknowledgedCount: entry.acks.size,
+    acknowledgedBy: Array.from(entry.acks.values(), (ackEntry) => ({
+      userId: ackEntry.userId,
+      nickname: ackEntry.nickname,
+      acknowledgedAt: ackEntry.acknowledgedAt.toISOString(),
+    })),
+    resolvedBy: entry.resolvedBy,
+    resolvedAt: entry.resolvedAt?.toISOString() ?? null,
   });
 
-  const handleBroadcast = (
+  const emitStatus = (entry: TrackedEmergency) => {
+    emitToScope(entry.broadcast, 'emergency:status', toStatusOutbound(entry));
+  };
+
+  const track = (broadcast: EmergencyBroadcast, recipients: EmergencyRecipient[]) => {
+    const entry: TrackedEmergency = {
+      broadcast,
+      recipients: new Map(recipients.map((recipient) => [recipient.userId, recipient.nickname])),
+      acks: new Map(),
+      resolvedBy: null,
+      resolvedAt: null,
+      expiryTimer: setTimeout(() => {
+        tracked.delete(broadcast.id);
+      }, EMERGENCY_TRACK_MS),
+      writes: Promise.resolve(),
+    };
+    tracked.set(broadcast.id, entry);
+    return entry;
+  };
+
+  const applyAcknowledgement = (entry: TrackedEmergency, acknowledgement: EmergencyAcknowledgement) => {
+    entry.acks.set(acknowledgement.userId, acknowledgement);
+    entry.broadcast.status = 'acknowledged';
+  };
+
+  const applyResolution = (entry: TrackedEmergency, resolvedBy: EmergencyRecipient, resolvedAt: Date) => {
+    entry.broadcast.status = 'resolved';
+    entry.resolvedBy = resolvedBy;
+    entry.resolvedAt = resolvedAt;
+    clearTimeout(entry.expiryTimer);
+    tracked.delete(entry.broadcast.id);
+  };
+
+  // Dates arrive as strings from the adapter. The acting instance has already written storage and told the clients.
+  const handleRemoteChange = (change: EmergencyChange) => {
+    if (change.type === 'raised') {
+      if (!tracked.has(change.broadcast.id)) {
+        track({ ...change.broadcast, createdAt: new Date(change.broadcast.createdAt) }, change.recipients);
+      }
+      return;
+    }
+    const entry = tracked.get(change.emergencyId);
+    if (!entry) {
+      return;
+    }
+    if (change.type === 'acknowledged') {
+      const { userId, nickname } = change;
+      applyAcknowledgement(entry, { userId, nickname, acknowledgedAt: new Date(change.acknowledgedAt) });
+    } else {
+      applyResolution(entry, change.resolvedBy, new Date(change.resolvedAt));
+    }
+  };
+
+  // Status writes for one alert run in order, so a quick resolve cannot be overwritten by an earlier ack.
+  const enqueueWrite = (entry: TrackedEmergency, write: () => Promise<void>, label: string) => {
+    entry.writes = entry.writes.then(write).catch((error) => {
+      console.error(`[emergency] ${label} failed`, error);
+    });
+  };
+
+  const resolveTracked = (
+    socket: Socket,
+    payload: unknown,
+    ack: ((response: AckResponse<EmergencyStatusOutbound>) => void) | undefined,
+  ) => {
+    const emergencyId = (payload as EmergencyActionPayload)?.emergencyId;
+    if (typeof emergencyId !== 'string') {
+      respond(socket, ack, { ok: false, error: 'Invalid emergency.', code: 'invalid_payload', retryAfterMs: 0 });
+      return null;
+    }
+    const entry = tracked.get(emergencyId);
+    // A scanning socket answers as its member of the alert's channel when it has one.
+    const context =
+      (entry && deps.getUserContext(socket.id, entry.broadcast.channelCode)) ?? deps.getUserContext(socket.id);
+    if (!context) {
+      respond(socket, ack, { ok: false, error: 'User is not in a channel.', code: 'not_found', retryAfterMs: 0 });
+      return null;
+    }
+    if (!entry) {
+      respond(socket, ack, { ok: false, error: 'Emergency is no longer active.', code: 'not_found', retryAfterMs: 0 });
+      return null;
+    }
+    return { context, entry };
+  };
+
+  const listMutualLinks = async (channelCode: string) =>
+    (await deps.storage.listChannelLinks(channelCode))
+      .filter((link) => link.outgoing && link.incoming)
+      .map((link) => link.linkedCode);
+
+  const resolveTargets = async (
+    context: EmergencyContext,
+    scope: EmergencyScope,
+  ): Promise<{ ok: true; targets: string[] } | { ok: false; error: string; code: 'forbidden' | 'not_found' }> => {
+    if (scope === 'channel') {
+      return { ok: true, targets: [context.channelCode] };
+    }
+    if (ROLE_RANK[context.user.role] < ROLE_RANK[EMERGENCY_ESCALATION_ROLE]) {
+      return { ok: false, error: 'Your role cannot escalate emergencies.', code: 'forbidden' };
+    }
+    if (scope === 'global') {
+      if (!EMERGENCY_GLOBAL_CHANNELS.has(context.channelCode)) {
+        return { ok: false, error: 'Server-wide alerts are not allowed from this channel.', code: 'forbidden' };
+      }
+      return { ok: true, targets: [] };
+    }
+    const linked = await listMutualLinks(context.channelCode);
+    if (linked.length === 0) {
+      return { ok: false, error: 'This channel has no linked channels.', code: 'not_found' };
+    }
+    return { ok: true, targets: [context.channelCode, ...linked] };
+  };
+
+  // The row is written before the alert goes out, so acks and resolves always find it.
+  const publish = async (broadcast: EmergencyBroadcast) => {
+    console.warn('[emergency] broadcast', {
+      id: broadcast.id,
+      fromUserId: broadcast.fromUserId,
+      fromNickname: broadcast.fromNickname,
+      channelCode: broadcast.channelCode,
+      scope: broadcast.scope,
+      priority: broadcast.priority,
+      targetChannelCodes: broadcast.targetChannelCodes,
+      createdAt: broadcast.createdAt.toISOString(),
+    });
+
+    try {
+      await deps.storage.recordEmergency(broadcast);
+    } catch (error) {
+      console.error('[emergency] log failed', error);
+    }
+
+    const recipients = (
+      await deps.listRecipients(broadcast.scope === 'global' ? null : broadcast.targetChannelCodes)
+    ).filter((recipient) => recipient.userId !== broadcast.fromUserId);
+    const entry = track(broadcast, recipients);
+    deps.publishChange({ type: 'raised', broadcast, recipients });
+    emitToScope(broadcast, 'emergency:alert', { broadcast });
+    emitStatus(entry);
+  };
+
+  // Server-raised alerts (geofence breaches) skip the sender rate limit and role checks.
+  const raiseSystemAlert = (
+    channelCode: string,
+    sender: EmergencyRecipient,
+    message: string,
+    priority: MessagePriority,
+  ) => {
+    const broadcast = buildBroadcast(
+      sender,
+      channelCode,
+      message.slice(0, MAX_MESSAGE_LENGTH),
+      'channel',
+      [channelCode],
+      priority,
+    );
+    publish(broadcast).catch((error) => {
+      console.error('[emergency] system alert failed', error);
+    });
+    return broadcast;
+  };
+
+  const handleBroadcast = async (
     socket: Socket,
     payload: unknown,
     ack?: (response: AckResponse<{ broadcast: EmergencyBroadcast }>) => void,
   ) => {
     const message = normalizeMessage((payload as EmergencyPayload)?.message);
-    if (!message) {
+    const scope = (payload as EmergencyPayload)?.scope ?? 'channel';
+    if (!message || !isValidScope(scope)) {
       respond(socket, ack, {
         ok: false,
         error: 'Invalid emergency message.',
@@ -90,36 +386,223 @@ export const createEmergencyService = (io: Server, deps: EmergencyDeps) => {
       return;
     }
 
-    const now = Date.now();
-    const lastSentAt = lastBroadcastByUserId.get(context.user.id);
-    if (lastSentAt && now - lastSentAt < RATE_LIMIT_WINDOW_MS) {
-      const retryAfterMs = RATE_LIMIT_WINDOW_MS - (now - lastSentAt);
+    let targets: string[];
+    try {
+      const resolved = await resolveTargets(context, scope);
+      if (!resolved.ok) {
+        respond(socket, ack, { ok: false, error: resolved.error, code: resolved.code, retryAfterMs: 0 });
+        return;
+      }
+      targets = resolved.targets;
+    } catch (error) {
+      console.error('[emergency] link lookup failed', error);
+      respond(socket, ack, {
+        ok: false,
+        error: 'Unable to resolve linked channels.',
+        code: 'internal',
+        retryAfterMs: 0,
+      });
+      return;
+    }
+
+    const rateLimit = await deps.consumeRateLimit(context.user.id, [
+      { key: 'emergency', max: 1, windowMs: RATE_LIMIT_WINDOW_MS },
+    ]);
+    if (!rateLimit.allowed) {
       respond(socket, ack, {
         ok: false,
-        error: `Rate limited. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        error: `Rate limited. Try again in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`,
         code: 'rate_limited',
-        retryAfterMs,
+        retryAfterMs: rateLimit.retryAfterMs,
       });
       return;
     }
 
-    lastBroadcastByUserId.set(context.user.id, now);
     deps.touchActivity(socket.id);
 
-    const broadcast = buildBroadcast(context, message);
-    console.warn('[emergency] broadcast', {
-      id: broadcast.id,
-      fromUserId: broadcast.fromUserId,
-      fromNickname: broadcast.fromNickname,
-      channelCode: broadcast.channelCode,
-      createdAt: broadcast.createdAt.toISOString(),
-    });
-
-    io.emit('emergency:alert', { broadcast });
+    const broadcast = buildBroadcast(
+      { userId: context.user.id, nickname: context.user.nickname },
+      context.channelCode,
+      message,
+      scope,
+      targets,
+    );
+    await publish(broadcast);
     respond(socket, ack, { ok: true, data: { broadcast } });
   };
 
+  const handleAcknowledge = (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<EmergencyStatusOutbound>) => void,
+  ) => {
+    const resolved = resolveTracked(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, entry } = resolved;
+    if (!entry.recipients.has(context.user.id)) {
+      respond(socket, ack, {
+        ok: false,
+        error: 'This alert was not sent to you.',
+        code: 'forbidden',
+        retryAfterMs: 0,
+      });
+      return;
+    }
+    if (entry.acks.has(context.user.id) || entry.broadcast.status === 'resolved') {
+      respond(socket, ack, { ok: true, data: toStatusOutbound(entry) });
+      return;
+    }
+
+    const acknowledgedAt = new Date();
+    const isFirstAck = entry.broadcast.status === 'open';
+    enqueueWrite(
+      entry,
+      async () => {
+        await deps.storage.recordEmergencyAck(
+          entry.broadcast.id,
+          context.user.id,
+          context.user.nickname,
+          acknowledgedAt,
+        );
+        if (isFirstAck) {
+          await deps.storage.setEmergencyStatus(entry.broadcast.id, 'acknowledged');
+        }
+      },
+      'ack log',
+    );
+    const acknowledgement = { userId: context.user.id, nickname: context.user.nickname, acknowledgedAt };
+    applyAcknowledgement(entry, acknowledgement);
+    deps.publishChange({ type: 'acknowledged', emergencyId: entry.broadcast.id, ...acknowledgement });
+    deps.touchActivity(socket.id);
+
+    emitStatus(entry);
+    respond(socket, ack, { ok: true, data: toStatusOutbound(entry) });
+  };
+
+  const handleResolve = (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<EmergencyStatusOutbound>) => void,
+  ) => {
+    const resolved = resolveTracked(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, entry } = resolved;
+    const isSender = entry.broadcast.fromUserId === context.user.id;
+    const isOriginModerator =
+      context.channelCode === entry.broadcast.channelCode && ROLE_RANK[context.user.role] >= ROLE_RANK.moderator;
+    if (!isSender && !isOriginModerator) {
+      respond(socket, ack, {
+        ok: false,
+        error: 'Only the sender or a moderator can resolve this alert.',
+        code: 'forbidden',
+        retryAfterMs: 0,
+      });
+      return;
+    }
+
+    const resolvedAt = new Date();
+    enqueueWrite(
+      entry,
+      () =>
+        deps.storage.setEmergencyStatus(entry.broadcast.id, 'resolved', { resolvedBy: context.user.id, resolvedAt }),
+      'resolve log',
+    );
+    const resolvedBy = { userId: context.user.id, nickname: context.user.nickname };
+    applyResolution(entry, resolvedBy, resolvedAt);
+    deps.publishChange({ type: 'resolved', emergencyId: entry.broadcast.id, resolvedBy, resolvedAt });
+    console.warn('[emergency] resolved', { id: entry.broadcast.id, by: context.user.id });
+
+    emitStatus(entry);
+    respond(socket, ack, { ok: true, data: toStatusOutbound(entry) });
+  };
+
+  const handleListLinks = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<{ links: ChannelLinkOutbound[] }>) => void,
+  ) => {
+    const context = deps.getUserContext(socket.id);
+    if (!context || context.channelCode !== (payload as ChannelLinksPayload)?.channelCode) {
+      respond(socket, ack, { ok: false, error: 'Not in this channel.', code: 'not_found', retryAfterMs: 0 });
+      return;
+    }
+    try {
+      const links = (await deps.storage.listChannelLinks(context.channelCode)).map(toLinkOutbound);
+      respond(socket, ack, { ok: true, data: { links } });
+    } catch (error) {
+      console.error('[emergency] link list failed', error);
+      respond(socket, ack, { ok: false, error: 'Unable to load links.', code: 'internal', retryAfterMs: 0 });
+    }
+  };
+
+  const handleSetLink = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<{ links: ChannelLinkOutbound[] }>) => void,
+  ) => {
+    const data = payload as ChannelLinkPayload;
+    if (
+      !data ||
+      typeof data.channelCode !== 'string' ||
+      typeof data.linkedCode !== 'string' ||
+      typeof data.linked !== 'boolean' ||
+      data.linkedCode === data.channelCode
+    ) {
+      respond(socket, ack, { ok: false, error: 'Invalid link request.', code: 'invalid_payload', retryAfterMs: 0 });
+      return;
+    }
+    const context = deps.getUserContext(socket.id);
+    if (!context || context.channelCode !== data.channelCode) {
+      respond(socket, ack, { ok: false, error: 'Not in this channel.', code: 'not_found', retryAfterMs: 0 });
+      return;
+    }
+    if (context.user.role !== 'owner') {
+      respond(socket, ack, {
+        ok: false,
+        error: 'Only the owner can link channels.',
+        code: 'forbidden',
+        retryAfterMs: 0,
+      });
+      return;
+    }
+    const { storage } = deps;
+    try {
+      if (data.linked) {
+        const existing = (await storage.listChannelLinks(data.channelCode)).filter((link) => link.outgoing);
+        if (!existing.some((link) => link.linkedCode === data.linkedCode) && existing.length >= MAX_CHANNEL_LINKS) {
+          respond(socket, ack, {
+            ok: false,
+            error: `A channel can link to at most ${MAX_CHANNEL_LINKS} channels.`,
+            code: 'invalid_payload',
+            retryAfterMs: 0,
+          });
+          return;
+        }
+        if (!(await storage.getChannelByCode(data.linkedCode))) {
+          respond(socket, ack, { ok: false, error: 'Channel not found.', code: 'not_found', retryAfterMs: 0 });
+          return;
+        }
+      }
+      await storage.setChannelLink(data.channelCode, data.linkedCode, data.linked, context.user.id);
+      const links = (await storage.listChannelLinks(data.channelCode)).map(toLinkOutbound);
+      respond(socket, ack, { ok: true, data: { links } });
+    } catch (error) {
+      console.error('[emergency] link update failed', error);
+      respond(socket, ack, { ok: false, error: 'Unable to update link.', code: 'internal', retryAfterMs: 0 });
+    }
+  };
+
   return {
+    raiseSystemAlert,
     handleBroadcast,
+    handleAcknowledge,
+    handleResolve,
+    handleRemoteChange,
+    handleListLinks,
+    handleSetLink,
   };
 };
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import type { User } from '@walkie/shared/types';
+import { createFloorService, type FloorChange } from './floorService';
+import { createMemorySharedState, type FloorHolder, type SharedState } from './sharedState';
+
+const CHANNEL_CODE = '1234';
+
+const createUser = (id: string): User => ({
+  id,
+  nickname: `nick-${id}`,
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+});
+
+// Instances serving one channel share the store; pass the same one to set up a second instance.
+const setup = (options: { muted?: string[]; sharedState?: SharedState } = {}) => {
+  const sharedState = options.sharedState ?? createMemorySharedState();
+  const emitted: { event: string; payload: unknown }[] = [];
+  const io = {
+    to: () => ({
+      emit: (event: string, payload: unknown) => {
+        emitted.push({ event, payload });
+      },
+    }),
+  } as unknown as Server;
+  const channelState = { channel: { code: CHANNEL_CODE }, floor: null as FloorHolder | null };
+  const users = new Map(['a', 'b'].map((id) => [id, createUser(id)]));
+  const service = createFloorService(io, {
+    getMemberContext: (socketId) => {
+      const user = users.get(socketId);
+      return user ? { user, channelState } : null;
+    },
+    getChannelState: (channelCode) => (channelCode === CHANNEL_CODE ? channelState : null),
+    isMuted: (_channelCode, userId) => options.muted?.includes(userId) ?? false,
+    canUsePriority: () => true,
+    takeFloor: sharedState.takeFloor,
+    raiseFloorPriority: sharedState.raiseFloorPriority,
+    releaseFloor: sharedState.releaseFloor,
+    getFloor: sharedState.getFloor,
+    publish: (change) => {
+      published.push(change);
+    },
+  });
+  const published: FloorChange[] = [];
+  const socket = (id: string) => ({ id, emit: vi.fn() }) as unknown as Socket;
+  return { service, sharedState, channelState, emitted, published, socket };
+};
+
+describe('floorService', async () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants a free floor and announces it', async () => {
+    const { service, channelState, emitted, socket } = setup();
+    const ack = vi.fn();
+
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+    expect(channelState.floor?.userId).toBe('a');
+    expect(emitted.map((entry) => entry.event)).toEqual(['floor:grant']);
+  });
+
+  it('denies an equal priority request while the floor is held', async () => {
+    const { service, channelState, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+    const other = socket('b');
+    const ack = vi.fn();
+
+    await service.handleRequest(other, { channelCode: CHANNEL_CODE, priority: 'routine' }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'floor_busy' }));
+    expect(other.emit).toHaveBeenCalledWith('floor:denied', expect.anything());
+    expect(channelState.floor?.userId).toBe('a');
+  });
+
+  it('lets a higher priority preempt the holder', async () => {
+    const { service, channelState, emitted, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+
+    await service.handleRequest(socket('b'), { channelCode: CHANNEL_CODE, priority: 'urgent' });
+
+    expect(channelState.floor).toMatchObject({ userId: 'b', priority: 'urgent' });
+    expect(emitted.map((entry) => entry.event)).toEqual(['floor:grant', 'floor:release', 'floor:grant']);
+    expect(emitted[1].payload).toMatchObject({ userId: 'a', reason: 'preempted' });
+  });
+
+  it('rejects requests from muted members', async () => {
+    const { service, channelState, socket } = setup({ muted: ['a'] });
+    const ack = vi.fn();
+
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'muted' }));
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('expires a floor held past the hold limit', async () => {
+    const { service, channelState, emitted, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(channelState.floor).toBeNull();
+    expect(emitted[emitted.length - 1].payload).toMatchObject({ userId: 'a', reason: 'expired' });
+  });
+
+  it('keeps the original deadline when the holder asks again', async () => {
+    const { service, channelState, emitted, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+    const expiresAt = channelState.floor?.expiresAt;
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    const ack = vi.fn();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE, priority: 'important' }, ack);
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE, priority: 'routine' });
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+    expect(channelState.floor).toMatchObject({ userId: 'a', priority: 'important', expiresAt });
+    expect(emitted.map((entry) => entry.event)).toEqual(['floor:grant', 'floor:grant']);
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('grants a free floor to a sender and refuses senders while it is held', async () => {
+    const { service, channelState, emitted } = setup();
+    const sender = { user: createUser('a'), channelState };
+
+    expect(await service.acquireFloor(sender, 'routine')).toEqual({ allowed: true });
+    expect(channelState.floor?.userId).toBe('a');
+    expect(emitted.map((entry) => entry.event)).toEqual(['floor:grant']);
+
+    const busy = await service.acquireFloor({ user: createUser('b'), channelState }, 'urgent');
+    expect(busy).toMatchObject({ allowed: false, holder: { userId: 'a' } });
+    expect(channelState.floor?.userId).toBe('a');
+  });
+
+  it('keeps the floor with a holder that sends again', async () => {
+    const { service, channelState, emitted, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+
+    expect(await service.acquireFloor({ user: createUser('a'), channelState }, 'routine')).toEqual({ allowed: true });
+    expect(emitted.map((entry) => entry.event)).toEqual(['floor:grant']);
+  });
+
+  it('only releases the floor for its holder', async () => {
+    const { service, channelState, socket } = setup();
+    await service.handleRequest(socket('a'), { channelCode: CHANNEL_CODE });
+
+    await service.handleRelease(socket('b'), { channelCode: CHANNEL_CODE });
+    expect(channelState.floor?.userId).toBe('a');
+
+    await service.handleRelease(socket('a'), { channelCode: CHANNEL_CODE });
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('keeps one holder across instances and mirrors it on the others', async () => {
+    const first = setup();
+    const second = setup({ sharedState: first.sharedState });
+    await first.service.handleRequest(first.socket('a'), { channelCode: CHANNEL_CODE });
+    first.published.forEach((change) => second.service.handleRemoteChange(JSON.parse(JSON.stringify(change))));
+    const ack = vi.fn();
+
+    await second.service.handleRequest(second.socket('b'), { channelCode: CHANNEL_CODE }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'floor_busy' }));
+    expect(second.channelState.floor).toEqual(first.channelState.floor);
+    expect(second.service.canTransmit(CHANNEL_CODE, 'b')).toMatchObject({ allowed: false });
+
+    await first.service.handleRelease(first.socket('a'), { channelCode: CHANNEL_CODE });
+    first.published.forEach((change) => second.service.handleRemoteChange(JSON.parse(JSON.stringify(change))));
+    expect(second.channelState.floor).toBeNull();
+    expect(
+      await second.service.acquireFloor({ user: createUser('b'), channelState: second.channelState }, 'routine'),
+    ).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,337 @@
+import type { Server, Socket } from 'socket.io';
+import type { MessagePriority, User } from '@walkie/shared/types';
+import {
+  decideFloorTake,
+  isFloorActive,
+  type FloorHolder,
+  type FloorTakeResult,
+  type SharedState,
+} from './sharedState';
+
+const FLOOR_MAX_HOLD_MS = Number(process.env.FLOOR_MAX_HOLD_MS ?? 32_000);
+
+// Sent to the other instances. A null holder clears their copy only while it still names userId.
+export type FloorChange = {
+  channelCode: string;
+  userId: string;
+  holder: FloorHolder | null;
+};
+
+export type FloorReleaseReason = 'released' | 'sent' | 'expired' | 'preempted' | 'left';
+
+type FloorRequestPayload = {
+  channelCode: string;
+  priority?: MessagePriority;
+};
+
+type FloorReleasePayload = {
+  channelCode: string;
+};
+
+type FloorGrantOutbound = {
+  channelCode: string;
+  userId: string;
+  nickname: string;
+  priority: MessagePriority;
+  grantedAt: string;
+  expiresAt: string;
+};
+
+type FloorAck =
+  | { ok: true; data: FloorGrantOutbound }
+  | {
+      ok: false;
+      error: string;
+      code: 'invalid_payload' | 'not_found' | 'floor_busy' | 'muted' | 'forbidden';
+      holder?: FloorGrantOutbound;
+    };
+
+type FloorChannel = {
+  channel: { code: string };
+  floor: FloorHolder | null;
+};
+
+type FloorContext = {
+  user: User;
+  channelState: FloorChannel;
+};
+
+type FloorDeps = {
+  getMemberContext: (socketId: string) => FloorContext | null;
+  getChannelState: (channelCode: string) => FloorChannel | null;
+  isMuted: (channelCode: string, userId: string) => boolean;
+  canUsePriority: (channelCode: string, userId: string, priority: MessagePriority) => boolean;
+  takeFloor: SharedState['takeFloor'];
+  raiseFloorPriority: SharedState['raiseFloorPriority'];
+  releaseFloor: SharedState['releaseFloor'];
+  getFloor: SharedState['getFloor'];
+  publish: (change: FloorChange) => void;
+};
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  routine: 0,
+  important: 1,
+  urgent: 2,
+};
+
+const isValidPriority = (value: unknown): value is MessagePriority =>
+  value === 'routine' || value === 'important' || value === 'urgent';
+
+const outranked = (priority: MessagePriority) =>
+  (Object.keys(PRIORITY_RANK) as MessagePriority[]).filter((other) => PRIORITY_RANK[other] < PRIORITY_RANK[priority]);
+
+// The shared store decides who holds the floor, so only one member talks however many instances serve the channel.
+// Each instance keeps a copy of the holder in its channel state for the checks made on every audio chunk.
+export const createFloorService = (io: Server, deps: FloorDeps) => {
+  const holdTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const toOutbound = (channelCode: string, holder: FloorHolder): FloorGrantOutbound => ({
+    channelCode,
+    userId: holder.userId,
+    nickname: holder.nickname,
+    priority: holder.priority,
+    grantedAt: holder.grantedAt.toISOString(),
+    expiresAt: holder.expiresAt.toISOString(),
+  });
+
+  const clearHoldTimer = (channelCode: string) => {
+    const timer = holdTimers.get(channelCode);
+    if (timer) {
+      clearTimeout(timer);
+      holdTimers.delete(channelCode);
+    }
+  };
+
+  const getLocalHolder = (channelCode: string) => {
+    const holder = deps.getChannelState(channelCode)?.floor ?? null;
+    return isFloorActive(holder) ? holder : null;
+  };
+
+  const applyChange = ({ channelCode, userId, holder }: FloorChange) => {
+    const channelState = deps.getChannelState(channelCode);
+    if (channelState && (holder || channelState.floor?.userId === userId)) {
+      channelState.floor = holder;
+    }
+  };
+
+  const commit = (change: FloorChange) => {
+    applyChange(change);
+    deps.publish(change);
+  };
+
+  // Dates arrive as strings from the adapter.
+  const handleRemoteChange = (change: FloorChange) => {
+    const holder = change.holder && {
+      ...change.holder,
+      grantedAt: new Date(change.holder.grantedAt),
+      expiresAt: new Date(change.holder.expiresAt),
+    };
+    applyChange({ ...change, holder });
+  };
+
+  // Fails open like the rate limits: with the shared store unreachable, this instance decides from its own copy.
+  const takeFloor = async (channelCode: string, candidate: FloorHolder, outranks: MessagePriority[]) => {
+    try {
+      return await deps.takeFloor(channelCode, candidate, outranks);
+    } catch (error) {
+      console.error('[cluster] floor update failed', error);
+      return decideFloorTake(getLocalHolder(channelCode), candidate, outranks);
+    }
+  };
+
+  const releaseFloor = async (channelCode: string, reason: FloorReleaseReason, userId: string) => {
+    let holder: FloorHolder | null;
+    try {
+      holder = await deps.releaseFloor(channelCode, userId);
+    } catch (error) {
+      console.error('[cluster] floor update failed', error);
+      const local = deps.getChannelState(channelCode)?.floor ?? null;
+      holder = local?.userId === userId ? local : null;
+    }
+    if (!holder) {
+      return false;
+    }
+    clearHoldTimer(channelCode);
+    commit({ channelCode, userId, holder: null });
+    io.to(channelCode).emit('floor:release', {
+      channelCode,
+      userId: holder.userId,
+      nickname: holder.nickname,
+      reason,
+    });
+    return true;
+  };
+
+  const clearChannel = (channelCode: string) => {
+    clearHoldTimer(channelCode);
+  };
+
+  const buildHolder = (context: FloorContext, priority: MessagePriority): FloorHolder => {
+    const now = new Date();
+    return {
+      userId: context.user.id,
+      nickname: context.user.nickname,
+      priority,
+      grantedAt: now,
+      expiresAt: new Date(now.getTime() + FLOOR_MAX_HOLD_MS),
+    };
+  };
+
+  // The granting instance runs the hold timer; the key in the shared store expires on its own if that instance dies.
+  const grantFloor = (channelCode: string, result: Extract<FloorTakeResult, { status: 'granted' }>) => {
+    const { holder, preempted } = result;
+    if (preempted) {
+      io.to(channelCode).emit('floor:release', {
+        channelCode,
+        userId: preempted.userId,
+        nickname: preempted.nickname,
+        reason: 'preempted',
+      });
+    }
+    commit({ channelCode, userId: holder.userId, holder });
+    clearHoldTimer(channelCode);
+    holdTimers.set(
+      channelCode,
+      setTimeout(
+        () => {
+          holdTimers.delete(channelCode);
+          releaseFloor(channelCode, 'expired', holder.userId);
+        },
+        Math.max(0, holder.expiresAt.getTime() - Date.now()),
+      ),
+    );
+    const outbound = toOutbound(channelCode, holder);
+    io.to(channelCode).emit('floor:grant', outbound);
+    return outbound;
+  };
+
+  // Raises the holder's priority without moving the hold deadline; never lowers it. Resolves null for a non-holder.
+  const raiseHolderPriority = async (channelCode: string, userId: string, priority: MessagePriority) => {
+    const previous = getLocalHolder(channelCode);
+    let holder: FloorHolder | null;
+    try {
+      holder = await deps.raiseFloorPriority(channelCode, userId, priority, outranked(priority));
+    } catch (error) {
+      console.error('[cluster] floor update failed', error);
+      holder = previous?.userId === userId ? previous : null;
+      if (holder && outranked(priority).includes(holder.priority)) {
+        holder = { ...holder, priority };
+      }
+    }
+    if (holder && holder.priority !== previous?.priority) {
+      commit({ channelCode, userId, holder });
+      io.to(channelCode).emit('floor:grant', toOutbound(channelCode, holder));
+    }
+    return holder;
+  };
+
+  const raisePriority = async (channelCode: string, userId: string, priority: MessagePriority) =>
+    (await raiseHolderPriority(channelCode, userId, priority)) !== null;
+
+  const handleRequest = async (socket: Socket, payload: unknown, ack?: (response: FloorAck) => void) => {
+    const data = payload as FloorRequestPayload;
+    const priority = data?.priority ?? 'routine';
+    if (!isValidPriority(priority)) {
+      ack?.({ ok: false, error: 'Invalid priority.', code: 'invalid_payload' });
+      return;
+    }
+
+    const context = deps.getMemberContext(socket.id);
+    const channelCode = context?.channelState.channel.code;
+    if (!context || !channelCode || channelCode !== data?.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return;
+    }
+    if (deps.isMuted(channelCode, context.user.id)) {
+      ack?.({ ok: false, error: 'You are muted by a moderator.', code: 'muted' });
+      return;
+    }
+    if (!deps.canUsePriority(channelCode, context.user.id, priority)) {
+      ack?.({ ok: false, error: 'Urgent messages are restricted on this channel.', code: 'forbidden' });
+      return;
+    }
+
+    const result = await takeFloor(channelCode, buildHolder(context, priority), outranked(priority));
+    // A repeat request keeps the original deadline, so the hold limit cannot be renewed by asking again.
+    if (result.status === 'held') {
+      const holder = (await raiseHolderPriority(channelCode, context.user.id, priority)) ?? result.holder;
+      ack?.({ ok: true, data: toOutbound(channelCode, holder) });
+      return;
+    }
+    if (result.status === 'busy') {
+      const busy = toOutbound(channelCode, result.holder);
+      socket.emit('floor:denied', { channelCode, holder: busy });
+      ack?.({
+        ok: false,
+        error: `Channel busy — ${result.holder.nickname} is talking.`,
+        code: 'floor_busy',
+        holder: busy,
+      });
+      return;
+    }
+
+    const grant = grantFloor(channelCode, result);
+    ack?.({ ok: true, data: grant });
+  };
+
+  const handleRelease = async (socket: Socket, payload: unknown) => {
+    const context = deps.getMemberContext(socket.id);
+    const channelCode = context?.channelState.channel.code;
+    if (!context || !channelCode || channelCode !== (payload as FloorReleasePayload)?.channelCode) {
+      return;
+    }
+    await releaseFloor(channelCode, 'released', context.user.id);
+  };
+
+  // Read-only pre-check against this instance's copy; a send still has to acquire the floor before it goes out.
+  const canTransmit = (channelCode: string, userId: string) => {
+    const holder = getLocalHolder(channelCode);
+    if (!holder) {
+      return { allowed: true as const };
+    }
+    if (holder.userId === userId) {
+      return { allowed: true as const };
+    }
+    return { allowed: false as const, holder };
+  };
+
+  // Sends must hold the floor. A free floor is granted to the sender; a held one is never taken over here.
+  const acquireFloor = async (context: FloorContext, priority: MessagePriority) => {
+    const channelCode = context.channelState.channel.code;
+    const result = await takeFloor(channelCode, buildHolder(context, priority), []);
+    if (result.status === 'busy') {
+      return { allowed: false as const, holder: result.holder };
+    }
+    if (result.status === 'granted') {
+      grantFloor(channelCode, result);
+    }
+    return { allowed: true as const };
+  };
+
+  const holdsFloor = (channelCode: string, userId: string) => getLocalHolder(channelCode)?.userId === userId;
+
+  // Reads the shared store, so a channel this instance only just loaded reports a holder on another instance.
+  const getSnapshot = async (channelCode: string) => {
+    let holder: FloorHolder | null;
+    try {
+      holder = await deps.getFloor(channelCode);
+    } catch (error) {
+      console.error('[cluster] floor read failed', error);
+      holder = getLocalHolder(channelCode);
+    }
+    return holder ? toOutbound(channelCode, holder) : null;
+  };
+
+  return {
+    handleRequest,
+    handleRelease,
+    handleRemoteChange,
+    releaseFloor,
+    raisePriority,
+    clearChannel,
+    canTransmit,
+    acquireFloor,
+    holdsFloor,
+    getSnapshot,
+  };
+};
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'socket.io';
+import type { Geofence, User, UserLocation } from '@walkie/shared/types';
+import { createGeofenceService } from './geofenceService';
+import type { Storage } from './storage';
+
+const CHANNEL_CODE = '1234';
+const ALERT_AFTER_MS = 60_000;
+
+const user: User = {
+  id: 'a',
+  nickname: 'nick-a',
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+};
+
+const fence: Geofence = {
+  id: 'fence-1',
+  channelCode: CHANNEL_CODE,
+  name: 'Base',
+  shape: { type: 'circle', center: { lat: 0, lng: 0 }, radiusMeters: 100 },
+  alertAfterMs: ALERT_AFTER_MS,
+  createdBy: 'owner',
+  createdAt: new Date(),
+};
+
+const at = (lat: number): UserLocation => ({ lat, lng: 0, accuracy: 10, heading: null, updatedAt: new Date() });
+const INSIDE = at(0);
+const OUTSIDE = at(0.01);
+
+const setup = (listGeofences: Storage['listGeofences'] = async () => [fence]) => {
+  const events: string[] = [];
+  const io = {
+    to: () => ({
+      emit: (event: string) => {
+        events.push(event);
+      },
+    }),
+  } as unknown as Server;
+  const storage = { listGeofences: vi.fn(listGeofences) };
+  const raiseAlert = vi.fn();
+  const service = createGeofenceService(io, {
+    storage: storage as unknown as Storage,
+    getMemberContext: () => null,
+    raiseAlert,
+  });
+  return { service, storage, events, raiseAlert };
+};
+
+describe('geofenceService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('emits exit and enter only on transitions after the first fix', async () => {
+    const { service, events } = setup();
+
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    expect(events).toEqual([]);
+
+    await service.evaluate(CHANNEL_CODE, user, OUTSIDE);
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    expect(events).toEqual(['geofence:exit', 'geofence:enter']);
+  });
+
+  it('ignores fixes less accurate than the limit', async () => {
+    const { service, events } = setup();
+
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, { ...OUTSIDE, accuracy: 5_000 });
+    expect(events).toEqual([]);
+  });
+
+  it('raises an alert when a member stays outside past the limit', async () => {
+    const { service, raiseAlert } = setup();
+
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, OUTSIDE);
+    await vi.advanceTimersByTimeAsync(ALERT_AFTER_MS - 1);
+    expect(raiseAlert).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(raiseAlert).toHaveBeenCalledWith(
+      CHANNEL_CODE,
+      { userId: 'geofence:fence-1', nickname: 'Base' },
+      'nick-a has been outside Base for 1 min.',
+      'important',
+    );
+  });
+
+  it('cancels the alert when the member returns or leaves', async () => {
+    const { service, raiseAlert } = setup();
+
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, OUTSIDE);
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, OUTSIDE);
+    service.clearUser(CHANNEL_CODE, user.id);
+    await vi.advanceTimersByTimeAsync(ALERT_AFTER_MS);
+
+    expect(raiseAlert).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed fence load instead of caching it', async () => {
+    const { service, storage, events } = setup();
+    storage.listGeofences.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, INSIDE);
+    await service.evaluate(CHANNEL_CODE, user, OUTSIDE);
+
+    expect(storage.listGeofences).toHaveBeenCalledTimes(2);
+    expect(events).toEqual(['geofence:exit']);
+  });
+});
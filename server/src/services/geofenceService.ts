@@ -0,0 +1,411 @@
+import { randomUUID } from 'crypto';
+import type { Server, Socket } from 'socket.io';
+import type { Geofence, GeofenceShape, MessagePriority, User, UserLocation } from '@walkie/shared/types';
+import type { Storage } from './storage';
+
+const MAX_GEOFENCES_PER_CHANNEL = 20;
+const MAX_NAME_LENGTH = 40;
+const MIN_RADIUS_METERS = 10;
+const MAX_RADIUS_METERS = 50_000;
+const MAX_POLYGON_POINTS = 50;
+const MIN_ALERT_AFTER_MS = 30_000;
+const MAX_ALERT_AFTER_MS = 24 * 60 * 60_000;
+const GEOFENCE_MAX_ACCURACY_M = Number(process.env.GEOFENCE_MAX_ACCURACY_M ?? 100);
+const EARTH_RADIUS_M = 6_371_000;
+
+type GeofenceCreatePayload = {
+  channelCode: string;
+  name: string;
+  shape: GeofenceShape;
+  alertAfterMs?: number | null;
+};
+
+type GeofenceDeletePayload = {
+  channelCode: string;
+  geofenceId: string;
+};
+
+type GeofenceOutbound = Omit<Geofence, 'createdAt'> & { createdAt: string };
+
+type GeofenceAck<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; code: 'invalid_payload' | 'not_found' | 'forbidden' | 'internal' };
+
+type GeofenceChannel = {
+  channel: { code: string };
+};
+
+type GeofenceContext = {
+  user: User;
+  channelState: GeofenceChannel;
+};
+
+type GeofenceDeps = {
+  storage: Storage;
+  getMemberContext: (socketId: string, channelCode?: string) => GeofenceContext | null;
+  raiseAlert: (
+    channelCode: string,
+    sender: { userId: string; nickname: string },
+    message: string,
+    priority: MessagePriority,
+  ) => void;
+};
+
+type FenceState = {
+  inside: boolean;
+  alertTimer: ReturnType<typeof setTimeout> | null;
+};
+
+type Point = { lat: number; lng: number };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const distanceMeters = (from: Point, to: Point) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Ray casting on raw lat/lng; fine at the scale of a site or a neighbourhood.
+const isInsidePolygon = (point: Point, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    const a = points[i];
+    const b = points[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const crossLng = ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+      if (point.lng < crossLng) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+const contains = (shape: GeofenceShape, point: Point) =>
+  shape.type === 'circle'
+    ? distanceMeters(shape.center, point) <= shape.radiusMeters
+    : isInsidePolygon(point, shape.points);
+
+const isPoint = (value: unknown): value is Point => {
+  const point = value as Point;
+  return (
+    Boolean(point) &&
+    typeof point.lat === 'number' &&
+    typeof point.lng === 'number' &&
+    Number.isFinite(point.lat) &&
+    Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180
+  );
+};
+
+const normalizeShape = (value: unknown): GeofenceShape | null => {
+  const shape = value as GeofenceShape;
+  if (!shape || typeof shape !== 'object') {
+    return null;
+  }
+  if (shape.type === 'circle') {
+    if (
+      !isPoint(shape.center) ||
+      typeof shape.radiusMeters !== 'number' ||
+      !Number.isFinite(shape.radiusMeters) ||
+      shape.radiusMeters < MIN_RADIUS_METERS ||
+      shape.radiusMeters > MAX_RADIUS_METERS
+    ) {
+      return null;
+    }
+    return {
+      type: 'circle',
+      center: { lat: shape.center.lat, lng: shape.center.lng },
+      radiusMeters: Math.round(shape.radiusMeters),
+    };
+  }
+  if (shape.type === 'polygon') {
+    if (
+      !Array.isArray(shape.points) ||
+      shape.points.length < 3 ||
+      shape.points.length > MAX_POLYGON_POINTS ||
+      !shape.points.every(isPoint)
+    ) {
+      return null;
+    }
+    return { type: 'polygon', points: shape.points.map((point) => ({ lat: point.lat, lng: point.lng })) };
+  }
+  return null;
+};
+
+const normalizeAlertAfter = (value: unknown): number | null | undefined => {
+  if (value === undefined || value === null || value === 0) {
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return undefined;
+  }
+  if (value < MIN_ALERT_AFTER_MS || value > MAX_ALERT_AFTER_MS) {
+    return undefined;
+  }
+  return Math.round(value);
+};
+
+const toOutbound = (geofence: Geofence): GeofenceOutbound => ({
+  ...geofence,
+  createdAt: geofence.createdAt.toISOString(),
+});
+
+const describeDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60_000);
+  return minutes >= 1 ? `${minutes} min` : `${Math.round(ms / 1000)}s`;
+};
+
+export const createGeofenceService = (io: Server, deps: GeofenceDeps) => {
+  // Holds the pending load too, so concurrent callers share one query and one array.
+  const fencesByChannel = new Map<string, Promise<Geofence[]>>();
+  // `${channelCode}:${userId}` -> geofence id -> last evaluated side of the fence.
+  const memberStates = new Map<string, Map<string, FenceState>>();
+
+  const loadFences = (channelCode: string) => {
+    const cached = fencesByChannel.get(channelCode);
+    if (cached) {
+      return cached;
+    }
+    // A failed load is not cached, so the next call retries instead of disabling the channel's fences.
+    const fences: Promise<Geofence[]> = deps.storage.listGeofences(channelCode).catch((error) => {
+      console.error('[geofence] load failed', error);
+      if (fencesByChannel.get(channelCode) === fences) {
+        fencesByChannel.delete(channelCode);
+      }
+      return [];
+    });
+    fencesByChannel.set(channelCode, fences);
+    return fences;
+  };
+
+  const clearFenceState = (state: FenceState) => {
+    if (state.alertTimer) {
+      clearTimeout(state.alertTimer);
+      state.alertTimer = null;
+    }
+  };
+
+  const emitFences = async (channelCode: string) => {
+    io.to(channelCode).emit('geofence:list', {
+      channelCode,
+      geofences: (await loadFences(channelCode)).map(toOutbound),
+    });
+  };
+
+  const scheduleAlert = (channelCode: string, user: User, fence: Geofence, state: FenceState) => {
+    if (fence.alertAfterMs === null) {
+      return;
+    }
+    const alertAfterMs = fence.alertAfterMs;
+    state.alertTimer = setTimeout(() => {
+      state.alertTimer = null;
+      console.warn('[geofence] alert', { channelCode, userId: user.id, geofenceId: fence.id });
+      deps.raiseAlert(
+        channelCode,
+        { userId: `geofence:${fence.id}`, nickname: fence.name },
+        `${user.nickname} has been outside ${fence.name} for ${describeDuration(alertAfterMs)}.`,
+        'important',
+      );
+    }, alertAfterMs);
+  };
+
+  // The first fix after joining only records which side of each fence a member is on;
+  // enter/exit events fire on later transitions.
+  const evaluate = async (channelCode: string, user: User, location: UserLocation) => {
+    const fences = await loadFences(channelCode);
+    if (fences.length === 0) {
+      return;
+    }
+    if (location.accuracy !== null && location.accuracy > GEOFENCE_MAX_ACCURACY_M) {
+      return;
+    }
+    const key = `${channelCode}:${user.id}`;
+    let states = memberStates.get(key);
+    if (!states) {
+      states = new Map();
+      memberStates.set(key, states);
+    }
+    fences.forEach((fence) => {
+      const inside = contains(fence.shape, location);
+      const state = states!.get(fence.id);
+      if (!state) {
+        states!.set(fence.id, { inside, alertTimer: null });
+        return;
+      }
+      if (state.inside === inside) {
+        return;
+      }
+      state.inside = inside;
+      clearFenceState(state);
+      const event = {
+        channelCode,
+        geofenceId: fence.id,
+        name: fence.name,
+        userId: user.id,
+        nickname: user.nickname,
+        at: location.updatedAt.toISOString(),
+      };
+      if (inside) {
+        io.to(channelCode).emit('geofence:enter', event);
+        return;
+      }
+      io.to(channelCode).emit('geofence:exit', event);
+      scheduleAlert(channelCode, user, fence, state);
+    });
+  };
+
+  const clearUser = (channelCode: string, userId: string) => {
+    const key = `${channelCode}:${userId}`;
+    memberStates.get(key)?.forEach(clearFenceState);
+    memberStates.delete(key);
+  };
+
+  const clearChannel = (channelCode: string) => {
+    const prefix = `${channelCode}:`;
+    memberStates.forEach((states, key) => {
+      if (key.startsWith(prefix)) {
+        states.forEach(clearFenceState);
+        memberStates.delete(key);
+      }
+    });
+    fencesByChannel.delete(channelCode);
+  };
+
+  const resolveContext = <T>(
+    socket: Socket,
+    channelCode: unknown,
+    ack: ((response: GeofenceAck<T>) => void) | undefined,
+    requireOwner: boolean,
+  ) => {
+    const context = typeof channelCode === 'string' ? deps.getMemberContext(socket.id, channelCode) : null;
+    if (typeof channelCode !== 'string' || !context || context.channelState.channel.code !== channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return null;
+    }
+    if (requireOwner && context.user.role !== 'owner') {
+      ack?.({ ok: false, error: 'Only the owner can manage geofences.', code: 'forbidden' });
+      return null;
+    }
+    return context;
+  };
+
+  const handleList = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: GeofenceAck<{ geofences: GeofenceOutbound[] }>) => void,
+  ) => {
+    const channelCode = (payload as { channelCode?: unknown })?.channelCode;
+    if (!resolveContext(socket, channelCode, ack, false)) {
+      return;
+    }
+    const fences = await loadFences(channelCode as string);
+    ack?.({ ok: true, data: { geofences: fences.map(toOutbound) } });
+  };
+
+  const handleCreate = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: GeofenceAck<{ geofence: GeofenceOutbound }>) => void,
+  ) => {
+    const data = payload as GeofenceCreatePayload;
+    const name = typeof data?.name === 'string' ? data.name.trim() : '';
+    const shape = normalizeShape(data?.shape);
+    const alertAfterMs = normalizeAlertAfter(data?.alertAfterMs);
+    if (!name || name.length > MAX_NAME_LENGTH || !shape || alertAfterMs === undefined) {
+      ack?.({ ok: false, error: 'Invalid geofence.', code: 'invalid_payload' });
+      return;
+    }
+    const context = resolveContext(socket, data.channelCode, ack, true);
+    if (!context) {
+      return;
+    }
+    const fences = await loadFences(data.channelCode);
+    if (fences.length >= MAX_GEOFENCES_PER_CHANNEL) {
+      ack?.({
+        ok: false,
+        error: `A channel can have at most ${MAX_GEOFENCES_PER_CHANNEL} geofences.`,
+        code: 'invalid_payload',
+      });
+      return;
+    }
+    const geofence: Geofence = {
+      id: randomUUID(),
+      channelCode: data.channelCode,
+      name,
+      shape,
+      alertAfterMs,
+      createdBy: context.user.id,
+      createdAt: new Date(),
+    };
+    try {
+      await deps.storage.recordGeofence(geofence);
+    } catch (error) {
+      console.error('[geofence] create failed', error);
+      ack?.({ ok: false, error: 'Unable to save geofence.', code: 'internal' });
+      return;
+    }
+    fences.push(geofence);
+    console.info('[geofence] created', { channelCode: data.channelCode, id: geofence.id, by: context.user.id });
+    emitFences(data.channelCode);
+    ack?.({ ok: true, data: { geofence: toOutbound(geofence) } });
+  };
+
+  const handleDelete = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: GeofenceAck<{ geofenceId: string }>) => void,
+  ) => {
+    const data = payload as GeofenceDeletePayload;
+    if (!data || typeof data.geofenceId !== 'string') {
+      ack?.({ ok: false, error: 'Invalid geofence.', code: 'invalid_payload' });
+      return;
+    }
+    const context = resolveContext(socket, data.channelCode, ack, true);
+    if (!context) {
+      return;
+    }
+    const fences = await loadFences(data.channelCode);
+    const index = fences.findIndex((fence) => fence.id === data.geofenceId);
+    if (index === -1) {
+      ack?.({ ok: false, error: 'Geofence not found.', code: 'not_found' });
+      return;
+    }
+    try {
+      await deps.storage.deleteGeofence(data.channelCode, data.geofenceId);
+    } catch (error) {
+      console.error('[geofence] delete failed', error);
+      ack?.({ ok: false, error: 'Unable to delete geofence.', code: 'internal' });
+      return;
+    }
+    // Another delete may have finished while this one was awaiting the database.
+    const current = fences.findIndex((fence) => fence.id === data.geofenceId);
+    if (current !== -1) {
+      fences.splice(current, 1);
+    }
+    memberStates.forEach((states, key) => {
+      const state = key.startsWith(`${data.channelCode}:`) ? states.get(data.geofenceId) : undefined;
+      if (state) {
+        clearFenceState(state);
+        states.delete(data.geofenceId);
+      }
+    });
+    console.info('[geofence] deleted', { channelCode: data.channelCode, id: data.geofenceId, by: context.user.id });
+    emitFences(data.channelCode);
+    ack?.({ ok: true, data: { geofenceId: data.geofenceId } });
+  };
+
+  return {
+    evaluate,
+    handleList,
+    handleCreate,
+    handleDelete,
+    clearUser,
+    clearChannel,
+  };
+};
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TextMessage } from '@walkie/shared/types';
+import { createFileAudioStore } from './audioStore';
+import { createHistoryService } from './historyService';
+import { SqliteStorage } from './sqliteStorage';
+
+const CHANNEL_CODE = '1234';
+const MIGRATIONS_DIR = path.resolve(__dirname, '..', '..', 'migrations', 'sqlite');
+
+describe('historyService', () => {
+  let tempDir: string;
+  let storage: SqliteStorage;
+  let history: ReturnType<typeof createHistoryService>;
+  const base = Date.now() - 10 * 60_000;
+
+  const recordText = (id: string, createdAt: number, fromUserId = 'sender') => {
+    const message: TextMessage = {
+      id,
+      kind: 'text',
+      channelCode: CHANNEL_CODE,
+      fromUserId,
+      fromNickname: fromUserId,
+      createdAt: new Date(createdAt),
+      priority: 'routine',
+      body: `body ${id}`,
+    };
+    return storage.recordTextMessage(message);
+  };
+
+  const recordQuick = (id: string, createdAt: number) =>
+    storage.recordQuickResponse({
+      id,
+      channelCode: CHANNEL_CODE,
+      fromUserId: 'sender',
+      fromNickname: 'sender',
+      createdAt: new Date(createdAt),
+      kind: 'ack',
+      message: 'Acknowledged',
+    });
+
+  const readAll = async (viewerId: string, first: Awaited<ReturnType<typeof history.loadWindow>>) => {
+    const ids = first.records.map((record) => record.id);
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await history.loadCursor(CHANNEL_CODE, viewerId, cursor);
+      expect(page).not.toBeNull();
+      ids.push(...page!.records.map((record) => record.id));
+      cursor = page!.nextCursor;
+    }
+    return ids;
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walkie-history-'));
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    storage = await SqliteStorage.open({
+      filename: ':memory:',
+      migrationsDir: MIGRATIONS_DIR,
+      audioStore: createFileAudioStore(path.join(tempDir, 'audio')),
+      maxMessagesPerChannel: 100,
+    });
+    await storage.upsertChannel({ code: CHANNEL_CODE, displayName: 'Channel 1234', createdAt: new Date(base) });
+    history = createHistoryService(storage);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('pages through a window in order without gaps or repeats', async () => {
+    const ids = Array.from({ length: 25 }, (_, index) => `m${String(index).padStart(2, '0')}`);
+    for (const [index, id] of ids.entries()) {
+      await recordText(id, base + index * 1000);
+    }
+
+    const first = await history.loadWindow(CHANNEL_CODE, 'viewer', { mode: 'count', count: 25 });
+
+    expect(first.records).toHaveLength(10);
+    expect(await readAll('viewer', first)).toEqual(ids);
+  });
+
+  it('breaks timestamp ties by id across page boundaries', async () => {
+    const ids = Array.from({ length: 15 }, (_, index) => `t${String(index).padStart(2, '0')}`);
+    for (const id of [...ids].reverse()) {
+      await recordText(id, base);
+    }
+
+    const first = await history.loadWindow(CHANNEL_CODE, 'viewer', { mode: 'minutes', minutes: 60 });
+
+    expect(await readAll('viewer', first)).toEqual(ids);
+  });
+
+  it('keeps later pages bounded by the time of the first request', async () => {
+    for (let index = 0; index < 12; index += 1) {
+      await recordText(`m${String(index).padStart(2, '0')}`, base + index * 1000);
+    }
+    const first = await history.loadWindow(CHANNEL_CODE, 'viewer', { mode: 'count', count: 50 });
+    await recordText('late', Date.now() + 60_000);
+
+    expect(await readAll('viewer', first)).not.toContain('late');
+  });
+
+  it('starts a count window at the newest messages', async () => {
+    for (let index = 0; index < 8; index += 1) {
+      await recordText(`m${index}`, base + index * 1000);
+    }
+
+    const page = await history.loadWindow(CHANNEL_CODE, 'viewer', { mode: 'count', count: 3 });
+
+    expect(page.records.map((record) => record.id)).toEqual(['m5', 'm6', 'm7']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('replays from a message id and hides private messages from other members', async () => {
+    await recordText('m0', base);
+    await recordText('m1', base + 1000);
+    await storage.recordAudioMessage({
+      id: 'private',
+      channelCode: CHANNEL_CODE,
+      fromUserId: 'sender',
+      fromNickname: 'sender',
+      createdAt: new Date(base + 2000),
+      priority: 'routine',
+      mimeType: 'audio/webm',
+      durationMs: 500,
+      sizeBytes: 3,
+      payload: Buffer.from([1, 2, 3]),
+      recipientUserIds: ['recipient'],
+    });
+
+    const forRecipient = await history.loadWindow(CHANNEL_CODE, 'recipient', { mode: 'since', messageId: 'm0' });
+    const forOther = await history.loadWindow(CHANNEL_CODE, 'other', { mode: 'since', messageId: 'm0' });
+
+    expect(forRecipient.records.map((record) => record.id)).toEqual(['m1', 'private']);
+    expect(forOther.records.map((record) => record.id)).toEqual(['m1']);
+  });
+
+  it('replays the newest quick responses for a count window', async () => {
+    for (let index = 0; index < 5; index += 1) {
+      await recordQuick(`q${index}`, base + index * 1000);
+    }
+
+    const responses = await history.loadQuickResponses(CHANNEL_CODE, 'viewer', { mode: 'count', count: 2 });
+
+    expect(responses.map((response) => response.id)).toEqual(['q3', 'q4']);
+  });
+
+  it('replays quick responses sent after a message id', async () => {
+    await recordQuick('q0', base);
+    await recordText('m0', base + 1000);
+    await recordQuick('q1', base + 2000);
+
+    const responses = await history.loadQuickResponses(CHANNEL_CODE, 'viewer', { mode: 'since', messageId: 'm0' });
+
+    expect(responses.map((response) => response.id)).toEqual(['q1']);
+  });
+
+  it('rejects malformed cursors and windows', async () => {
+    expect(await history.loadCursor(CHANNEL_CODE, 'viewer', 'not-a-cursor')).toBeNull();
+    expect(await history.loadCursor(CHANNEL_CODE, 'viewer', 42)).toBeNull();
+    expect(history.normalizeWindow({ mode: 'count', count: 0 })).toBeNull();
+    expect(history.normalizeWindow({ mode: 'minutes', minutes: 24 * 60 + 1 })).toBeNull();
+    expect(history.normalizeWindow({ mode: 'since', messageId: '' })).toBeNull();
+  });
+});
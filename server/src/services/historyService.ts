@@ -0,0 +1,176 @@
+import type { QuickResponse } from '@walkie/shared/types';
+import type { ChannelMessageRecord, MessageCursor, Storage } from './storage';
+
+const HISTORY_PAGE_SIZE = Number(process.env.HISTORY_PAGE_SIZE ?? 10);
+const HISTORY_PAGE_MAX_BYTES = Number(process.env.HISTORY_PAGE_MAX_BYTES ?? 512_000);
+const MAX_HISTORY_MESSAGES = 50;
+const MAX_HISTORY_MINUTES = 24 * 60;
+const MAX_MESSAGE_ID_LENGTH = 64;
+
+export type HistoryWindow =
+  | { mode: 'since'; messageId: string }
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'count'; count: number };
+
+export type HistoryPage = {
+  records: ChannelMessageRecord[];
+  nextCursor: string | null;
+};
+
+type HistoryCursor = {
+  after: MessageCursor | null;
+  until: number;
+};
+
+export const DEFAULT_HISTORY_WINDOW: HistoryWindow = { mode: 'count', count: MAX_HISTORY_MESSAGES };
+
+export const createHistoryService = (storage: Storage) => {
+  const normalizeWindow = (value: unknown): HistoryWindow | null => {
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+    const window = value as { mode?: unknown; messageId?: unknown; minutes?: unknown; count?: unknown };
+    if (window.mode === 'since') {
+      if (
+        typeof window.messageId !== 'string' ||
+        window.messageId.length === 0 ||
+        window.messageId.length > MAX_MESSAGE_ID_LENGTH
+      ) {
+        return null;
+      }
+      return { mode: 'since', messageId: window.messageId };
+    }
+    if (window.mode === 'minutes') {
+      if (
+        typeof window.minutes !== 'number' ||
+        !Number.isFinite(window.minutes) ||
+        window.minutes <= 0 ||
+        window.minutes > MAX_HISTORY_MINUTES
+      ) {
+        return null;
+      }
+      return { mode: 'minutes', minutes: window.minutes };
+    }
+    if (window.mode === 'count') {
+      if (
+        typeof window.count !== 'number' ||
+        !Number.isInteger(window.count) ||
+        window.count <= 0 ||
+        window.count > MAX_HISTORY_MESSAGES
+      ) {
+        return null;
+      }
+      return { mode: 'count', count: window.count };
+    }
+    return null;
+  };
+
+  const encodeCursor = (cursor: HistoryCursor) =>
+    Buffer.from(
+      JSON.stringify({ c: cursor.after?.createdAt ?? null, i: cursor.after?.id ?? null, u: cursor.until }),
+    ).toString('base64url');
+
+  const decodeCursor = (value: unknown): HistoryCursor | null => {
+    if (typeof value !== 'string' || value.length === 0 || value.length > 256) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as {
+        c?: unknown;
+        i?: unknown;
+        u?: unknown;
+      };
+      if (typeof parsed.u !== 'number' || !Number.isFinite(parsed.u)) {
+        return null;
+      }
+      if (parsed.c === null && parsed.i === null) {
+        return { after: null, until: parsed.u };
+      }
+      if (typeof parsed.c !== 'number' || typeof parsed.i !== 'string') {
+        return null;
+      }
+      return { after: { createdAt: parsed.c, id: parsed.i }, until: parsed.u };
+    } catch {
+      return null;
+    }
+  };
+
+  const resolveStart = async (
+    channelCode: string,
+    viewerId: string,
+    window: HistoryWindow,
+    now: number,
+  ): Promise<MessageCursor | null> => {
+    if (window.mode === 'since') {
+      // An unknown id means the message was pruned, so replay everything still retained.
+      return storage.getMessageCursor(channelCode, window.messageId);
+    }
+    if (window.mode === 'minutes') {
+      return { createdAt: now - window.minutes * 60_000, id: '' };
+    }
+    return storage.getMessageCursorAtOffset(channelCode, viewerId, window.count);
+  };
+
+  const readPage = async (channelCode: string, viewerId: string, cursor: HistoryCursor): Promise<HistoryPage> => {
+    const rows = await storage.listMessagesAfter(
+      channelCode,
+      viewerId,
+      cursor.after,
+      cursor.until,
+      HISTORY_PAGE_SIZE + 1,
+    );
+    const records: ChannelMessageRecord[] = [];
+    let totalBytes = 0;
+    for (const row of rows.slice(0, HISTORY_PAGE_SIZE)) {
+      const rowBytes = row.kind === 'text' ? Buffer.byteLength(row.body) : row.sizeBytes;
+      if (records.length > 0 && totalBytes + rowBytes > HISTORY_PAGE_MAX_BYTES) {
+        break;
+      }
+      records.push(row);
+      totalBytes += rowBytes;
+    }
+
+    const hasMore = rows.length > records.length;
+    const last = records[records.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? encodeCursor({ after: { createdAt: last.createdAt.getTime(), id: last.id }, until: cursor.until })
+        : null;
+    return { records, nextCursor };
+  };
+
+  // Private messages are only returned when `viewerId` is one of their participants.
+  const loadWindow = async (channelCode: string, viewerId: string, window: HistoryWindow) => {
+    const now = Date.now();
+    const after = await resolveStart(channelCode, viewerId, window, now);
+    return readPage(channelCode, viewerId, { after, until: now });
+  };
+
+  // Quick responses are few and small, so a window is replayed in one batch.
+  const loadQuickResponses = async (
+    channelCode: string,
+    viewerId: string,
+    window: HistoryWindow,
+  ): Promise<QuickResponse[]> => {
+    if (window.mode === 'count') {
+      return storage.listQuickResponses(channelCode, 0, window.count);
+    }
+    const start = await resolveStart(channelCode, viewerId, window, Date.now());
+    return storage.listQuickResponses(channelCode, start?.createdAt ?? 0, MAX_HISTORY_MESSAGES);
+  };
+
+  const loadCursor = async (channelCode: string, viewerId: string, value: unknown) => {
+    const cursor = decodeCursor(value);
+    if (!cursor) {
+      return null;
+    }
+    return readPage(channelCode, viewerId, cursor);
+  };
+
+  return {
+    normalizeWindow,
+    loadWindow,
+    loadQuickResponses,
+    loadCursor,
+  };
+};
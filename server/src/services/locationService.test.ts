@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import type { User, UserLocation } from '@walkie/shared/types';
+import { createLocationService } from './locationService';
+
+const CHANNEL_CODE = '1234';
+
+const user: User = {
+  id: 'a',
+  nickname: 'nick-a',
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+};
+
+const setup = () => {
+  const emitted: unknown[] = [];
+  const io = {
+    to: () => ({
+      emit: (_event: string, payload: unknown) => {
+        emitted.push(payload);
+      },
+    }),
+  } as unknown as Server;
+  const member = { user, location: null as UserLocation | null };
+  const channelState = { channel: { code: CHANNEL_CODE }, users: new Map([[user.id, member]]) };
+  const onLocationChanged = vi.fn();
+  const service = createLocationService(io, {
+    getMemberContext: (socketId) => (socketId === 'socket-a' ? { user, channelState } : null),
+    getChannelState: () => channelState,
+    onLocationChanged,
+  });
+  const socket = { id: 'socket-a' } as unknown as Socket;
+  const update = (lat: number) => service.handleUpdate(socket, { channelCode: CHANNEL_CODE, lat, lng: 0 });
+  return { service, socket, emitted, onLocationChanged, update };
+};
+
+describe('locationService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces a burst of fixes into one change per interval with the latest position', () => {
+    const { emitted, onLocationChanged, update } = setup();
+
+    update(1);
+    update(2);
+    update(3);
+    expect(emitted).toHaveLength(1);
+    expect(onLocationChanged).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10_000);
+    expect(emitted).toHaveLength(2);
+    expect(onLocationChanged).toHaveBeenCalledTimes(2);
+    expect(onLocationChanged).toHaveBeenLastCalledWith(CHANNEL_CODE, user, expect.objectContaining({ lat: 3 }));
+  });
+
+  it('reports a stop at once and drops a pending fix', () => {
+    const { service, socket, onLocationChanged, update } = setup();
+    update(1);
+    update(2);
+
+    service.handleStop(socket, { channelCode: CHANNEL_CODE });
+    vi.advanceTimersByTime(10_000);
+
+    expect(onLocationChanged).toHaveBeenCalledTimes(2);
+    expect(onLocationChanged).toHaveBeenLastCalledWith(CHANNEL_CODE, user, null);
+  });
+
+  it('ignores malformed fixes', () => {
+    const { service, socket, onLocationChanged } = setup();
+
+    service.handleUpdate(socket, { channelCode: CHANNEL_CODE, lat: 91, lng: 0 });
+    service.handleUpdate(socket, { channelCode: CHANNEL_CODE, lat: 'x', lng: 0 });
+
+    expect(onLocationChanged).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import type { Server, Socket } from 'socket.io';
+import type { GeoLocation, User, UserLocation } from '@walkie/shared/types';
+
+const LOCATION_MIN_INTERVAL_MS = Number(process.env.LOCATION_MIN_INTERVAL_MS ?? 10_000);
+
+type LocationUpdatePayload = {
+  channelCode: string;
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  heading?: number | null;
+};
+
+type LocationMember = {
+  user: User;
+  location: UserLocation | null;
+};
+
+type LocationChannel = {
+  channel: { code: string };
+  users: Map<string, LocationMember>;
+};
+
+type LocationContext = {
+  user: User;
+  channelState: LocationChannel;
+};
+
+type LocationDeps = {
+  getMemberContext: (socketId: string, channelCode?: string) => LocationContext | null;
+  getChannelState: (channelCode: string) => LocationChannel | null;
+  // Called at the broadcast rate with the latest fix, so bursts of updates are coalesced per member.
+  onLocationChanged: (channelCode: string, user: User, location: UserLocation | null) => void;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const normalizeLocation = (value: unknown): GeoLocation | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const location = value as { lat?: unknown; lng?: unknown; accuracy?: unknown };
+  if (!isFiniteNumber(location.lat) || !isFiniteNumber(location.lng)) {
+    return undefined;
+  }
+  if (Math.abs(location.lat) > 90 || Math.abs(location.lng) > 180) {
+    return undefined;
+  }
+  if (location.accuracy !== undefined && (!isFiniteNumber(location.accuracy) || location.accuracy < 0)) {
+    return undefined;
+  }
+  return {
+    lat: location.lat,
+    lng: location.lng,
+    accuracy: location.accuracy,
+  };
+};
+
+const normalizeUpdate = (payload: LocationUpdatePayload): UserLocation | null => {
+  const location = normalizeLocation({
+    lat: payload.lat,
+    lng: payload.lng,
+    accuracy: payload.accuracy ?? undefined,
+  });
+  if (!location) {
+    return null;
+  }
+  const heading = payload.heading ?? null;
+  if (heading !== null && !isFiniteNumber(heading)) {
+    return null;
+  }
+  return {
+    lat: location.lat,
+    lng: location.lng,
+    accuracy: location.accuracy ?? null,
+    heading: heading === null ? null : ((heading % 360) + 360) % 360,
+    updatedAt: new Date(),
+  };
+};
+
+export const createLocationService = (io: Server, deps: LocationDeps) => {
+  const lastBroadcastAt = new Map<string, number>();
+  const pendingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const broadcast = (channelCode: string, userId: string) => {
+    const member = deps.getChannelState(channelCode)?.users.get(userId);
+    if (!member) {
+      return;
+    }
+    lastBroadcastAt.set(`${channelCode}:${userId}`, Date.now());
+    io.to(channelCode).emit('location:update', { channelCode, userId, location: member.location });
+    deps.onLocationChanged(channelCode, member.user, member.location);
+  };
+
+  const handleUpdate = (socket: Socket, payload: unknown) => {
+    const data = payload as LocationUpdatePayload;
+    if (!data || typeof data.channelCode !== 'string') {
+      return;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      return;
+    }
+    const member = context.channelState.users.get(context.user.id);
+    const location = normalizeUpdate(data);
+    if (!member || !location) {
+      return;
+    }
+    member.location = location;
+
+    const key = `${data.channelCode}:${context.user.id}`;
+    if (pendingTimers.has(key)) {
+      return;
+    }
+    const waitMs = (lastBroadcastAt.get(key) ?? 0) + LOCATION_MIN_INTERVAL_MS - Date.now();
+    if (waitMs <= 0) {
+      broadcast(data.channelCode, context.user.id);
+      return;
+    }
+    pendingTimers.set(
+      key,
+      setTimeout(() => {
+        pendingTimers.delete(key);
+        broadcast(data.channelCode, context.user.id);
+      }, waitMs),
+    );
+  };
+
+  const clearUser = (channelCode: string, userId: string) => {
+    const key = `${channelCode}:${userId}`;
+    const timer = pendingTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      pendingTimers.delete(key);
+    }
+    lastBroadcastAt.delete(key);
+  };
+
+  // Sharing was switched off: forget the position and tell the channel right away.
+  const handleStop = (socket: Socket, payload: unknown) => {
+    const channelCode = (payload as { channelCode?: unknown })?.channelCode;
+    const context = typeof channelCode === 'string' ? deps.getMemberContext(socket.id, channelCode) : null;
+    if (typeof channelCode !== 'string' || !context || context.channelState.channel.code !== channelCode) {
+      return;
+    }
+    const member = context.channelState.users.get(context.user.id);
+    if (!member?.location) {
+      return;
+    }
+    member.location = null;
+    clearUser(channelCode, context.user.id);
+    broadcast(channelCode, context.user.id);
+  };
+
+  const clearChannel = (channelCode: string) => {
+    const prefix = `${channelCode}:`;
+    pendingTimers.forEach((timer, key) => {
+      if (key.startsWith(prefix)) {
+        clearTimeout(timer);
+        pendingTimers.delete(key);
+      }
+    });
+    lastBroadcastAt.forEach((_at, key) => {
+      if (key.startsWith(prefix)) {
+        lastBroadcastAt.delete(key);
+      }
+    });
+  };
+
+  return {
+    handleUpdate,
+    handleStop,
+    clearUser,
+    clearChannel,
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createMembershipService } from './membershipService';
+
+describe('membershipService', () => {
+  it('returns the transmit membership unless a channel is named', () => {
+    const memberships = createMembershipService();
+    memberships.set('socket-a', { channelCode: '1111', userId: 'a', mode: 'listen' });
+    memberships.set('socket-a', { channelCode: '2222', userId: 'a2', mode: 'transmit' });
+
+    expect(memberships.get('socket-a')).toEqual({ channelCode: '2222', userId: 'a2', mode: 'transmit' });
+    expect(memberships.get('socket-a', '1111')).toEqual({ channelCode: '1111', userId: 'a', mode: 'listen' });
+    expect(memberships.get('socket-a', '3333')).toBeNull();
+    expect(memberships.listScans('socket-a').map((membership) => membership.channelCode)).toEqual(['1111']);
+  });
+
+  it('has no transmit membership while only scanning', () => {
+    const memberships = createMembershipService();
+    memberships.set('socket-a', { channelCode: '1111', userId: 'a', mode: 'listen' });
+
+    expect(memberships.get('socket-a')).toBeNull();
+    expect(memberships.has('socket-a')).toBe(true);
+  });
+
+  it('forgets the socket once its last membership is removed', () => {
+    const memberships = createMembershipService();
+    memberships.set('socket-a', { channelCode: '1111', userId: 'a', mode: 'transmit' });
+    memberships.set('socket-a', { channelCode: '2222', userId: 'a2', mode: 'listen' });
+
+    expect(memberships.remove('socket-a', '1111')).toEqual({ channelCode: '1111', userId: 'a', mode: 'transmit' });
+    expect(memberships.has('socket-a')).toBe(true);
+    expect(memberships.remove('socket-a', '2222')?.mode).toBe('listen');
+    expect(memberships.has('socket-a')).toBe(false);
+    expect(memberships.remove('socket-a', '2222')).toBeNull();
+    expect(memberships.list('socket-a')).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { ScanMode } from '@walkie/shared/types';
+
+export type MembershipMode = 'transmit' | ScanMode;
+
+export type Membership = {
+  channelCode: string;
+  userId: string;
+  mode: MembershipMode;
+};
+
+// Every channel a socket belongs to. A socket has at most one transmit membership; the rest are scanned.
+export const createMembershipService = () => {
+  const bySocket = new Map<string, Map<string, Membership>>();
+
+  const list = (socketId: string) => Array.from(bySocket.get(socketId)?.values() ?? []);
+
+  // Without a channel code this returns the transmit membership.
+  const get = (socketId: string, channelCode?: string) => {
+    if (channelCode !== undefined) {
+      return bySocket.get(socketId)?.get(channelCode) ?? null;
+    }
+    return list(socketId).find((membership) => membership.mode === 'transmit') ?? null;
+  };
+
+  const listScans = (socketId: string) => list(socketId).filter((membership) => membership.mode !== 'transmit');
+
+  const set = (socketId: string, membership: Membership) => {
+    const memberships = bySocket.get(socketId) ?? new Map<string, Membership>();
+    memberships.set(membership.channelCode, membership);
+    bySocket.set(socketId, memberships);
+  };
+
+  const remove = (socketId: string, channelCode: string) => {
+    const memberships = bySocket.get(socketId);
+    const membership = memberships?.get(channelCode) ?? null;
+    memberships?.delete(channelCode);
+    if (memberships?.size === 0) {
+      bySocket.delete(socketId);
+    }
+    return membership;
+  };
+
+  const has = (socketId: string) => bySocket.has(socketId);
+
+  return {
+    get,
+    list,
+    listScans,
+    set,
+    remove,
+    has,
+  };
+};
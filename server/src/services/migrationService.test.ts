@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadMigrations, runMigrations, SchemaVersionError } from './migrationService';
+
+const SQLITE_MIGRATIONS_DIR = path.resolve(__dirname, '..', '..', 'migrations', 'sqlite');
+
+// The schema that databases had before migrations existed.
+const LEGACY_SCHEMA = `
+CREATE TABLE channels (
+  code TEXT PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_activity_at INTEGER NOT NULL
+);
+CREATE TABLE messages (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('routine', 'important', 'urgent')),
+  mime_type TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  payload BLOB NOT NULL,
+  FOREIGN KEY (channel_code) REFERENCES channels(code) ON DELETE CASCADE
+);
+CREATE TABLE emergency_log (
+  id TEXT PRIMARY KEY,
+  channel_code TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  from_nickname TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('routine', 'important', 'urgent')),
+  message TEXT NOT NULL
+);
+`;
+
+const columnsOf = (db: Database.Database, table: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((column) => column.name).sort();
+
+const appliedVersions = (db: Database.Database) =>
+  (db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[]).map(
+    (row) => row.version,
+  );
+
+describe('migrationService', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walkie-migrations-'));
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('loadMigrations', () => {
+    it('orders migrations by version and ignores other files', () => {
+      fs.writeFileSync(path.join(tempDir, '010_later.sql'), 'SELECT 10;');
+      fs.writeFileSync(path.join(tempDir, '002_second.sql'), 'SELECT 2;');
+      fs.writeFileSync(path.join(tempDir, 'README.md'), 'notes');
+
+      expect(loadMigrations(tempDir).map(({ version, name }) => [version, name])).toEqual([
+        [2, 'second'],
+        [10, 'later'],
+      ]);
+    });
+
+    it('rejects duplicate versions', () => {
+      fs.writeFileSync(path.join(tempDir, '001_a.sql'), 'SELECT 1;');
+      fs.writeFileSync(path.join(tempDir, '1_b.sql'), 'SELECT 1;');
+
+      expect(() => loadMigrations(tempDir)).toThrow('Duplicate migration version 1');
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('applies every migration once', () => {
+      const db = new Database(':memory:');
+      const migrations = loadMigrations(SQLITE_MIGRATIONS_DIR);
+
+      expect(runMigrations(db, migrations)).toHaveLength(migrations.length);
+      expect(runMigrations(db, migrations)).toHaveLength(0);
+      expect(appliedVersions(db)).toEqual(migrations.map((migration) => migration.version));
+    });
+
+    it('adopts a database created before migrations existed', () => {
+      const migrations = loadMigrations(SQLITE_MIGRATIONS_DIR);
+      const legacy = new Database(':memory:');
+      legacy.exec(LEGACY_SCHEMA);
+      legacy
+        .prepare(`INSERT INTO channels (code, display_name, created_at, last_activity_at) VALUES (?, ?, ?, ?)`)
+        .run('1234', 'Channel 1234', 1, 2);
+      const fresh = new Database(':memory:');
+
+      runMigrations(legacy, migrations);
+      runMigrations(fresh, migrations);
+
+      ['channels', 'messages', 'emergency_log'].forEach((table) => {
+        expect(columnsOf(legacy, table)).toEqual(columnsOf(fresh, table));
+      });
+      expect(appliedVersions(legacy)).toEqual(appliedVersions(fresh));
+      expect(legacy.prepare(`SELECT code, urgent_min_role FROM channels`).all()).toEqual([
+        { code: '1234', urgent_min_role: 'member' },
+      ]);
+    });
+
+    it('refuses a database migrated by a newer server', () => {
+      const db = new Database(':memory:');
+      const migrations = loadMigrations(SQLITE_MIGRATIONS_DIR);
+      runMigrations(db, migrations);
+      db.prepare(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (999, 'future', 0)`).run();
+
+      expect(() => runMigrations(db, migrations)).toThrow(SchemaVersionError);
+    });
+
+    it('rolls back a failing migration', () => {
+      const db = new Database(':memory:');
+      const migrations = [
+        { version: 1, name: 'ok', sql: 'CREATE TABLE a (id INTEGER);' },
+        { version: 2, name: 'broken', sql: 'CREATE TABLE b (id INTEGER); INSERT INTO missing VALUES (1);' },
+      ];
+
+      expect(() => runMigrations(db, migrations)).toThrow();
+      expect(appliedVersions(db)).toEqual([1]);
+      expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'b'`).get()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { Pool } from 'pg';
+
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+// Thrown when the database was migrated by a newer server; running against it could corrupt data.
+export class SchemaVersionError extends Error {
+  constructor(current: number, latest: number) {
+    super(`Database schema version ${current} is newer than this server supports (${latest}).`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+const MIGRATION_FILE_REGEX = /^(\d+)_([\w-]+)\.sql$/;
+// Serialises migrations when several servers boot against the same PostgreSQL database.
+const PG_MIGRATION_LOCK_ID = 727_001;
+
+export const loadMigrations = (dir: string): Migration[] => {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Migrations directory not found at ${dir}`);
+  }
+  const migrations = fs
+    .readdirSync(dir)
+    .map((file) => ({ file, match: MIGRATION_FILE_REGEX.exec(file) }))
+    .filter(({ match }) => match !== null)
+    .map(({ file, match }) => ({
+      version: Number(match![1]),
+      name: match![2],
+      sql: fs.readFileSync(path.join(dir, file), 'utf-8'),
+    }))
+    .sort((a, b) => a.version - b.version);
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+  return migrations;
+};
+
+const latestVersion = (migrations: Migration[]) =>
+  migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+// Applies pending migrations in order, each in its own transaction. Returns the ones applied.
+// 001 is the schema databases had before migrations existed; its IF NOT EXISTS statements adopt them as they are.
+export const runMigrations = (db: Database.Database, migrations: Migration[]) => {
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`,
+  );
+  const rows = db.prepare(`SELECT version FROM schema_migrations`).all() as { version: number }[];
+  const applied = new Set(rows.map((row) => row.version));
+  const current = rows.reduce((max, row) => Math.max(max, row.version), 0);
+  const latest = latestVersion(migrations);
+  if (current > latest) {
+    throw new SchemaVersionError(current, latest);
+  }
+
+  const recordStmt = db.prepare(
+    `INSERT INTO schema_migrations (version, name, applied_at) VALUES (@version, @name, @applied_at)`,
+  );
+  const pending = migrations.filter((migration) => !applied.has(migration.version));
+  pending.forEach((migration) => {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      recordStmt.run({ version: migration.version, name: migration.name, applied_at: Date.now() });
+    })();
+    console.info('[db] applied migration', { version: migration.version, name: migration.name });
+  });
+  return pending;
+};
+
+// PostgreSQL counterpart of runMigrations. There are no legacy PostgreSQL databases to adopt.
+export const runPostgresMigrations = async (pool: Pool, migrations: Migration[]) => {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [PG_MIGRATION_LOCK_ID]);
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at BIGINT NOT NULL
+      )`,
+    );
+    const { rows } = await client.query<{ version: number }>(`SELECT version FROM schema_migrations`);
+    const applied = new Set(rows.map((row) => row.version));
+    const current = rows.reduce((max, row) => Math.max(max, row.version), 0);
+    const latest = latestVersion(migrations);
+    if (current > latest) {
+      throw new SchemaVersionError(current, latest);
+    }
+
+    const pending = migrations.filter((migration) => !applied.has(migration.version));
+    for (const migration of pending) {
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.sql);
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, Date.now()],
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      console.info('[db] applied migration', { version: migration.version, name: migration.name });
+    }
+    return pending;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [PG_MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+};
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import type { ChannelRole, User } from '@walkie/shared/types';
+import { createModerationService, type ModerationChange } from './moderationService';
+import type { ChannelBanRecord, Storage } from './storage';
+
+const CHANNEL_CODE = '1234';
+
+const createUser = (id: string, role: ChannelRole): User => ({
+  id,
+  nickname: `nick-${id}`,
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role,
+  mutedUntil: null,
+});
+
+const setup = () => {
+  const storage = {
+    setChannelRole: vi.fn(async () => {}),
+    setChannelMute: vi.fn(async () => {}),
+    recordBan: vi.fn(async (_ban: ChannelBanRecord) => {}),
+  };
+  const owner = createUser('owner', 'owner');
+  const member = createUser('member', 'member');
+  const channelState = {
+    channel: { code: CHANNEL_CODE },
+    users: new Map([
+      [owner.id, { user: owner, socketId: 'socket-owner' }],
+      [member.id, { user: member, socketId: 'socket-member' }],
+    ]),
+    roles: new Map<string, ChannelRole>([[owner.id, 'owner']]),
+    mutes: new Map<string, Date>(),
+    bans: [] as ChannelBanRecord[],
+    policy: { urgentMinRole: 'member' as ChannelRole },
+  };
+  // Connected to another instance, so only the shared roster knows it.
+  const remote = createUser('remote', 'member');
+  const onUserUpdated = vi.fn();
+  const removeUser = vi.fn();
+  const publish = vi.fn();
+  const service = createModerationService({
+    storage: storage as unknown as Storage,
+    getMemberContext: (socketId) => (socketId === 'socket-owner' ? { user: owner, channelState } : null),
+    getChannelState: () => channelState,
+    getRosterUser: async (_channelCode, userId) => (userId === remote.id ? remote : null),
+    getClientIp: (socketId) => (socketId === 'socket-member' ? '10.0.0.9' : null),
+    publish,
+    removeUser,
+    onUserUpdated,
+    onPolicyUpdated: () => {},
+  });
+  const socket = { id: 'socket-owner' } as Socket;
+  return { service, storage, channelState, member, remote, onUserUpdated, removeUser, publish, socket };
+};
+
+describe('moderationService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the old role when the role cannot be stored', async () => {
+    const { service, storage, channelState, member, onUserUpdated, socket } = setup();
+    storage.setChannelRole.mockRejectedValueOnce(new Error('disk full'));
+    const ack = vi.fn();
+
+    await service.handleSetRole(socket, { channelCode: CHANNEL_CODE, userId: member.id, role: 'moderator' }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'internal' }));
+    expect(channelState.roles.has(member.id)).toBe(false);
+    expect(member.role).toBe('member');
+    expect(onUserUpdated).not.toHaveBeenCalled();
+  });
+
+  it('stores a mute before applying it and clears it on unmute', async () => {
+    const { service, storage, channelState, member, socket } = setup();
+
+    await service.handleMute(socket, { channelCode: CHANNEL_CODE, userId: member.id, durationMs: 60_000 });
+
+    const mutedUntil = channelState.mutes.get(member.id);
+    expect(mutedUntil).toBeInstanceOf(Date);
+    expect(storage.setChannelMute).toHaveBeenLastCalledWith(CHANNEL_CODE, member.id, mutedUntil);
+
+    await service.handleMute(socket, { channelCode: CHANNEL_CODE, userId: member.id, durationMs: 0 });
+
+    expect(channelState.mutes.has(member.id)).toBe(false);
+    expect(storage.setChannelMute).toHaveBeenLastCalledWith(CHANNEL_CODE, member.id, null);
+    service.clearChannel(CHANNEL_CODE);
+  });
+
+  it('leaves a member unmuted when the mute cannot be stored', async () => {
+    const { service, storage, channelState, member, socket } = setup();
+    storage.setChannelMute.mockRejectedValueOnce(new Error('disk full'));
+    const ack = vi.fn();
+
+    await service.handleMute(socket, { channelCode: CHANNEL_CODE, userId: member.id, durationMs: 60_000 }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'internal' }));
+    expect(channelState.mutes.has(member.id)).toBe(false);
+  });
+
+  it('bans a member connected to another instance and tells the other instances', async () => {
+    const { service, storage, channelState, remote, removeUser, publish, socket } = setup();
+    const ack = vi.fn();
+
+    await service.handleBan(socket, { channelCode: CHANNEL_CODE, userId: remote.id }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+    expect(storage.recordBan).toHaveBeenCalledWith(expect.objectContaining({ userId: remote.id, ip: null }));
+    expect(channelState.bans.map((ban) => ban.userId)).toEqual([remote.id]);
+    expect(removeUser).toHaveBeenCalledWith(CHANNEL_CODE, remote.id, 'banned');
+    expect(publish).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'remove', userId: remote.id, reason: 'banned' }),
+    );
+  });
+
+  it('applies a ban from another instance and records the address of a member connected here', async () => {
+    const { service, storage, channelState, member, removeUser, publish } = setup();
+    const ban: ChannelBanRecord = {
+      channelCode: CHANNEL_CODE,
+      userId: member.id,
+      nickname: member.nickname,
+      ip: null,
+      bannedBy: 'owner',
+      createdAt: new Date(),
+    };
+    const change: ModerationChange = {
+      type: 'remove',
+      channelCode: CHANNEL_CODE,
+      userId: member.id,
+      reason: 'banned',
+      ban,
+    };
+
+    service.handleRemoteChange(JSON.parse(JSON.stringify(change)));
+
+    expect(channelState.bans).toEqual([{ ...ban, ip: '10.0.0.9' }]);
+    expect(storage.recordBan).toHaveBeenCalledWith({ ...ban, ip: '10.0.0.9' });
+    expect(removeUser).toHaveBeenCalledWith(CHANNEL_CODE, member.id, 'banned');
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('applies a mute from another instance to a member connected here', async () => {
+    const { service, storage, channelState, member, onUserUpdated } = setup();
+    const mutedUntil = new Date(Date.now() + 60_000);
+    const change: ModerationChange = { type: 'mute', channelCode: CHANNEL_CODE, userId: member.id, mutedUntil };
+
+    service.handleRemoteChange(JSON.parse(JSON.stringify(change)));
+
+    expect(channelState.mutes.get(member.id)).toEqual(mutedUntil);
+    expect(member.mutedUntil).toEqual(mutedUntil);
+    expect(onUserUpdated).toHaveBeenCalledWith(CHANNEL_CODE, member);
+    expect(storage.setChannelMute).not.toHaveBeenCalled();
+    service.clearChannel(CHANNEL_CODE);
+  });
+});
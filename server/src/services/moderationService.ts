@@ -0,0 +1,408 @@
+import type { Socket } from 'socket.io';
+import type { ChannelPolicy, ChannelRole, MessagePriority, User } from '@walkie/shared/types';
+import type { ChannelBanRecord, Storage } from './storage';
+
+const MAX_MUTE_MS = Number(process.env.MAX_MUTE_MS ?? 24 * 60 * 60_000);
+
+export type RemovalReason = 'kicked' | 'banned';
+
+// Every other instance applies a change to its own copy of the channel; only the acting instance writes storage.
+export type ModerationChange =
+  | { type: 'role'; channelCode: string; userId: string; role: ChannelRole }
+  | { type: 'mute'; channelCode: string; userId: string; mutedUntil: Date | null }
+  | { type: 'remove'; channelCode: string; userId: string; reason: RemovalReason; ban: ChannelBanRecord | null }
+  | { type: 'policy'; channelCode: string; policy: ChannelPolicy };
+
+type ModerationTargetPayload = {
+  channelCode: string;
+  userId: string;
+};
+
+type ModerationMutePayload = ModerationTargetPayload & {
+  durationMs: number;
+};
+
+type ModerationRolePayload = ModerationTargetPayload & {
+  role: ChannelRole;
+};
+
+type ModerationPolicyPayload = {
+  channelCode: string;
+  urgentMinRole: ChannelRole;
+};
+
+type ModerationPolicyAck =
+  | { ok: true; data: { policy: ChannelPolicy } }
+  | { ok: false; error: string; code: 'invalid_payload' | 'not_found' | 'forbidden' | 'internal' };
+
+type ModerationAck =
+  | { ok: true; data: { user: User } }
+  | { ok: false; error: string; code: 'invalid_payload' | 'not_found' | 'forbidden' | 'internal' };
+
+type ModerationMember = {
+  user: User;
+  socketId: string;
+};
+
+// Members connected to another instance are known only from the shared roster and have no local socket.
+type ModerationTarget = {
+  user: User;
+  socketId: string | null;
+};
+
+type ModerationChannel = {
+  channel: { code: string };
+  users: Map<string, ModerationMember>;
+  roles: Map<string, ChannelRole>;
+  mutes: Map<string, Date>;
+  bans: ChannelBanRecord[];
+  policy: ChannelPolicy;
+};
+
+type ModerationContext = {
+  user: User;
+  channelState: ModerationChannel;
+};
+
+type ModerationDeps = {
+  storage: Storage;
+  getMemberContext: (socketId: string, channelCode?: string) => ModerationContext | null;
+  getChannelState: (channelCode: string) => ModerationChannel | null;
+  getRosterUser: (channelCode: string, userId: string) => Promise<User | null>;
+  getClientIp: (socketId: string) => string | null;
+  publish: (change: ModerationChange) => void;
+  removeUser: (channelCode: string, userId: string, reason: RemovalReason) => void;
+  onUserUpdated: (channelCode: string, user: User) => void;
+  onPolicyUpdated: (channelCode: string, policy: ChannelPolicy) => void;
+};
+
+const ROLE_RANK: Record<ChannelRole, number> = {
+  member: 0,
+  moderator: 1,
+  owner: 2,
+};
+
+const isValidRole = (value: unknown): value is ChannelRole =>
+  value === 'owner' || value === 'moderator' || value === 'member';
+
+export const createModerationService = (deps: ModerationDeps) => {
+  const muteTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const resolveTarget = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: ModerationAck) => void,
+  ): Promise<{ context: ModerationContext; target: ModerationTarget } | null> => {
+    const data = payload as ModerationTargetPayload;
+    if (!data || typeof data.channelCode !== 'string' || typeof data.userId !== 'string') {
+      ack?.({ ok: false, error: 'Invalid moderation request.', code: 'invalid_payload' });
+      return null;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return null;
+    }
+    const local = context.channelState.users.get(data.userId);
+    const rosterUser = local ? null : await deps.getRosterUser(data.channelCode, data.userId);
+    const target = local ?? (rosterUser ? { user: rosterUser, socketId: null } : null);
+    if (!target) {
+      ack?.({ ok: false, error: 'User not found.', code: 'not_found' });
+      return null;
+    }
+    if (
+      target.user.id === context.user.id ||
+      ROLE_RANK[context.user.role] < ROLE_RANK.moderator ||
+      ROLE_RANK[context.user.role] <= ROLE_RANK[target.user.role]
+    ) {
+      ack?.({ ok: false, error: 'Not allowed.', code: 'forbidden' });
+      return null;
+    }
+    return { context, target };
+  };
+
+  const getRole = (channelState: ModerationChannel, userId: string): ChannelRole =>
+    channelState.roles.get(userId) ?? 'member';
+
+  const applyRole = (channelState: ModerationChannel, userId: string, role: ChannelRole) => {
+    if (role === 'member') {
+      channelState.roles.delete(userId);
+    } else {
+      channelState.roles.set(userId, role);
+    }
+  };
+
+  // The stored role is written first so a failed write never leaves a role that vanishes on reload.
+  const setRole = async (channelState: ModerationChannel, userId: string, role: ChannelRole) => {
+    await deps.storage.setChannelRole(channelState.channel.code, userId, role);
+    applyRole(channelState, userId, role);
+  };
+
+  const getMutedUntil = (channelState: ModerationChannel, userId: string) => {
+    const mutedUntil = channelState.mutes.get(userId);
+    if (!mutedUntil) {
+      return null;
+    }
+    if (mutedUntil.getTime() <= Date.now()) {
+      channelState.mutes.delete(userId);
+      return null;
+    }
+    return mutedUntil;
+  };
+
+  const canUsePriority = (channelState: ModerationChannel, user: User, priority: MessagePriority) =>
+    priority !== 'urgent' || ROLE_RANK[user.role] >= ROLE_RANK[channelState.policy.urgentMinRole];
+
+  const isBanned = (channelState: ModerationChannel, userId: string, ip: string | null) =>
+    channelState.bans.some((ban) => ban.userId === userId || (ip !== null && ban.ip === ip));
+
+  const clearMuteTimer = (key: string) => {
+    const timer = muteTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      muteTimers.delete(key);
+    }
+  };
+
+  // Only the instance holding the member's connection updates the user and announces it.
+  const updateLocalUser = (channelState: ModerationChannel, userId: string, update: (user: User) => void) => {
+    const member = channelState.users.get(userId);
+    if (member) {
+      update(member.user);
+      deps.onUserUpdated(channelState.channel.code, member.user);
+    }
+  };
+
+  const applyMute = (channelState: ModerationChannel, userId: string, mutedUntil: Date | null) => {
+    const channelCode = channelState.channel.code;
+    const key = `${channelCode}:${userId}`;
+    clearMuteTimer(key);
+
+    if (!mutedUntil) {
+      channelState.mutes.delete(userId);
+    } else {
+      channelState.mutes.set(userId, mutedUntil);
+      muteTimers.set(
+        key,
+        setTimeout(
+          () => {
+            muteTimers.delete(key);
+            channelState.mutes.delete(userId);
+            updateLocalUser(channelState, userId, (user) => {
+              user.mutedUntil = null;
+            });
+          },
+          Math.max(0, mutedUntil.getTime() - Date.now()),
+        ),
+      );
+    }
+    updateLocalUser(channelState, userId, (user) => {
+      user.mutedUntil = mutedUntil;
+    });
+  };
+
+  const addBan = (channelState: ModerationChannel, ban: ChannelBanRecord) => {
+    channelState.bans = channelState.bans.filter((entry) => entry.userId !== ban.userId);
+    channelState.bans.push(ban);
+  };
+
+  // A ban placed from another instance has no address for the member, so the instance holding the connection adds it.
+  const withMemberIp = (ban: ChannelBanRecord) => {
+    const member = deps.getChannelState(ban.channelCode)?.users.get(ban.userId);
+    const ip = member ? deps.getClientIp(member.socketId) : null;
+    if (ban.ip !== null || ip === null) {
+      return ban;
+    }
+    const withIp = { ...ban, ip };
+    deps.storage.recordBan(withIp).catch((error) => {
+      console.error('[moderation] ban address persist failed', error);
+    });
+    return withIp;
+  };
+
+  const applyChange = (change: ModerationChange) => {
+    const channelState = deps.getChannelState(change.channelCode);
+    if (change.type === 'remove') {
+      if (channelState && change.ban) {
+        addBan(channelState, change.ban);
+      }
+      deps.removeUser(change.channelCode, change.userId, change.reason);
+      return;
+    }
+    if (!channelState) {
+      return;
+    }
+    if (change.type === 'role') {
+      applyRole(channelState, change.userId, change.role);
+      updateLocalUser(channelState, change.userId, (user) => {
+        user.role = change.role;
+      });
+    } else if (change.type === 'mute') {
+      applyMute(channelState, change.userId, change.mutedUntil);
+    } else {
+      channelState.policy = change.policy;
+    }
+  };
+
+  const commit = (change: ModerationChange) => {
+    applyChange(change);
+    deps.publish(change);
+  };
+
+  // Dates arrive as strings from the adapter.
+  const handleRemoteChange = (change: ModerationChange) => {
+    if (change.type === 'mute') {
+      applyChange({ ...change, mutedUntil: change.mutedUntil ? new Date(change.mutedUntil) : null });
+    } else if (change.type === 'remove' && change.ban) {
+      applyChange({ ...change, ban: withMemberIp({ ...change.ban, createdAt: new Date(change.ban.createdAt) }) });
+    } else {
+      applyChange(change);
+    }
+  };
+
+  const handleSetRole = async (socket: Socket, payload: unknown, ack?: (response: ModerationAck) => void) => {
+    const role = (payload as ModerationRolePayload)?.role;
+    if (role !== 'moderator' && role !== 'member') {
+      ack?.({ ok: false, error: 'Invalid role.', code: 'invalid_payload' });
+      return;
+    }
+    const resolved = await resolveTarget(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, target } = resolved;
+    if (context.user.role !== 'owner') {
+      ack?.({ ok: false, error: 'Only the owner can change roles.', code: 'forbidden' });
+      return;
+    }
+    const channelCode = context.channelState.channel.code;
+    try {
+      await deps.storage.setChannelRole(channelCode, target.user.id, role);
+    } catch (error) {
+      console.error('[moderation] role update failed', error);
+      ack?.({ ok: false, error: 'Unable to update role.', code: 'internal' });
+      return;
+    }
+    commit({ type: 'role', channelCode, userId: target.user.id, role });
+    ack?.({ ok: true, data: { user: { ...target.user, role } } });
+  };
+
+  const handleKick = async (socket: Socket, payload: unknown, ack?: (response: ModerationAck) => void) => {
+    const resolved = await resolveTarget(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, target } = resolved;
+    const channelCode = context.channelState.channel.code;
+    console.info('[moderation] kick', { channelCode, userId: target.user.id, by: context.user.id });
+    commit({ type: 'remove', channelCode, userId: target.user.id, reason: 'kicked', ban: null });
+    ack?.({ ok: true, data: { user: target.user } });
+  };
+
+  const handleMute = async (socket: Socket, payload: unknown, ack?: (response: ModerationAck) => void) => {
+    const durationMs = (payload as ModerationMutePayload)?.durationMs;
+    if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0) {
+      ack?.({ ok: false, error: 'Invalid mute duration.', code: 'invalid_payload' });
+      return;
+    }
+    const resolved = await resolveTarget(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, target } = resolved;
+    const channelCode = context.channelState.channel.code;
+    const mutedUntil = durationMs === 0 ? null : new Date(Date.now() + Math.min(durationMs, MAX_MUTE_MS));
+    try {
+      await deps.storage.setChannelMute(channelCode, target.user.id, mutedUntil);
+    } catch (error) {
+      console.error('[moderation] mute persist failed', error);
+      ack?.({ ok: false, error: 'Unable to update mute.', code: 'internal' });
+      return;
+    }
+    commit({ type: 'mute', channelCode, userId: target.user.id, mutedUntil });
+    ack?.({ ok: true, data: { user: { ...target.user, mutedUntil } } });
+  };
+
+  const handleBan = async (socket: Socket, payload: unknown, ack?: (response: ModerationAck) => void) => {
+    const resolved = await resolveTarget(socket, payload, ack);
+    if (!resolved) {
+      return;
+    }
+    const { context, target } = resolved;
+    const ban: ChannelBanRecord = {
+      channelCode: context.channelState.channel.code,
+      userId: target.user.id,
+      nickname: target.user.nickname,
+      ip: target.socketId ? deps.getClientIp(target.socketId) : null,
+      bannedBy: context.user.id,
+      createdAt: new Date(),
+    };
+    try {
+      await deps.storage.recordBan(ban);
+    } catch (error) {
+      console.error('[moderation] ban persist failed', error);
+      ack?.({ ok: false, error: 'Unable to ban user.', code: 'internal' });
+      return;
+    }
+    console.info('[moderation] ban', { channelCode: ban.channelCode, userId: ban.userId, by: ban.bannedBy });
+    commit({ type: 'remove', channelCode: ban.channelCode, userId: ban.userId, reason: 'banned', ban });
+    ack?.({ ok: true, data: { user: target.user } });
+  };
+
+  const handleSetPolicy = async (socket: Socket, payload: unknown, ack?: (response: ModerationPolicyAck) => void) => {
+    const data = payload as ModerationPolicyPayload;
+    if (!data || typeof data.channelCode !== 'string' || !isValidRole(data.urgentMinRole)) {
+      ack?.({ ok: false, error: 'Invalid policy.', code: 'invalid_payload' });
+      return;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return;
+    }
+    const actorRank = ROLE_RANK[context.user.role];
+    if (
+      actorRank < ROLE_RANK.moderator ||
+      ROLE_RANK[data.urgentMinRole] > actorRank ||
+      ROLE_RANK[context.channelState.policy.urgentMinRole] > actorRank
+    ) {
+      ack?.({ ok: false, error: 'Not allowed.', code: 'forbidden' });
+      return;
+    }
+    const policy: ChannelPolicy = { ...context.channelState.policy, urgentMinRole: data.urgentMinRole };
+    try {
+      await deps.storage.setChannelPolicy(data.channelCode, policy);
+    } catch (error) {
+      console.error('[moderation] policy update failed', error);
+      ack?.({ ok: false, error: 'Unable to update policy.', code: 'internal' });
+      return;
+    }
+    commit({ type: 'policy', channelCode: data.channelCode, policy });
+    console.info('[moderation] policy', { channelCode: data.channelCode, policy, by: context.user.id });
+    deps.onPolicyUpdated(data.channelCode, policy);
+    ack?.({ ok: true, data: { policy } });
+  };
+
+  const clearChannel = (channelCode: string) => {
+    muteTimers.forEach((_timer, key) => {
+      if (key.startsWith(`${channelCode}:`)) {
+        clearMuteTimer(key);
+      }
+    });
+  };
+
+  return {
+    handleSetRole,
+    handleKick,
+    handleMute,
+    handleBan,
+    handleSetPolicy,
+    handleRemoteChange,
+    getRole,
+    setRole,
+    getMutedUntil,
+    isBanned,
+    canUsePriority,
+    clearChannel,
+  };
+};
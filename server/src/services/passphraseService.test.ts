@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createPassphraseService } from './passphraseService';
+
+describe('passphraseService', () => {
+  it('verifies a passphrase against its hash', async () => {
+    const service = createPassphraseService();
+    const stored = await service.hash('open sesame');
+
+    expect(await service.verify('open sesame', stored)).toBe(true);
+    expect(await service.verify('open sesame!', stored)).toBe(false);
+    expect(await service.verify('open sesame', 'plain$text')).toBe(false);
+  });
+
+  it('locks a key out after repeated failures', async () => {
+    const service = createPassphraseService();
+    const stored = await service.hash('open sesame');
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      expect(await service.checkAttempt(['ip:1.2.3.4'], 'wrong', stored)).toBe(false);
+    }
+
+    expect(service.getLockout(['ip:1.2.3.4'])).toMatchObject({ locked: true });
+    expect(service.getLockout(['ip:5.6.7.8'])).toEqual({ locked: false });
+  });
+
+  it('reports a key as locked while its check is running', async () => {
+    const service = createPassphraseService();
+    const stored = await service.hash('open sesame');
+
+    const running = service.checkAttempt(['ip:1.2.3.4'], 'wrong', stored);
+
+    expect(service.getLockout(['ip:1.2.3.4'])).toMatchObject({ locked: true });
+    await running;
+    expect(service.getLockout(['ip:1.2.3.4'])).toEqual({ locked: false });
+  });
+});
@@ -0,0 +1,108 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const JOIN_MAX_FAILED_ATTEMPTS = Number(process.env.JOIN_MAX_FAILED_ATTEMPTS ?? 5);
+const JOIN_ATTEMPT_WINDOW_MS = Number(process.env.JOIN_ATTEMPT_WINDOW_MS ?? 10 * 60_000);
+const JOIN_LOCKOUT_MS = Number(process.env.JOIN_LOCKOUT_MS ?? 5 * 60_000);
+const MIN_PASSPHRASE_LENGTH = 4;
+const MAX_PASSPHRASE_LENGTH = 128;
+const SCRYPT_KEY_LENGTH = 32;
+const PENDING_RETRY_MS = 1_000;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+type FailureEntry = {
+  count: number;
+  resetAt: number;
+  lockedUntil: number;
+};
+
+export const normalizePassphrase = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  if (value.length < MIN_PASSPHRASE_LENGTH || value.length > MAX_PASSPHRASE_LENGTH) {
+    return null;
+  }
+  return value;
+};
+
+export const createPassphraseService = () => {
+  const failures = new Map<string, FailureEntry>();
+  const pending = new Set<string>();
+
+  // scrypt runs on the libuv pool so join attempts do not block the event loop.
+  const hash = async (passphrase: string) => {
+    const salt = randomBytes(16);
+    const derived = await scryptAsync(passphrase, salt, SCRYPT_KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${derived.toString('base64')}`;
+  };
+
+  const verify = async (passphrase: string, stored: string) => {
+    const [scheme, saltEncoded, hashEncoded] = stored.split('$');
+    if (scheme !== 'scrypt' || !saltEncoded || !hashEncoded) {
+      return false;
+    }
+    const expected = Buffer.from(hashEncoded, 'base64');
+    const derived = await scryptAsync(passphrase, Buffer.from(saltEncoded, 'base64'), expected.length);
+    return timingSafeEqual(derived, expected);
+  };
+
+  const getLockout = (keys: string[]) => {
+    const now = Date.now();
+    let retryAfterMs = 0;
+    keys.forEach((key) => {
+      if (pending.has(key)) {
+        retryAfterMs = Math.max(retryAfterMs, PENDING_RETRY_MS);
+      }
+      const entry = failures.get(key);
+      if (!entry) {
+        return;
+      }
+      if (entry.lockedUntil <= now && entry.resetAt <= now) {
+        failures.delete(key);
+        return;
+      }
+      retryAfterMs = Math.max(retryAfterMs, entry.lockedUntil - now);
+    });
+    return retryAfterMs > 0 ? { locked: true as const, retryAfterMs } : { locked: false as const };
+  };
+
+  const recordFailure = (keys: string[]) => {
+    const now = Date.now();
+    keys.forEach((key) => {
+      let entry = failures.get(key);
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + JOIN_ATTEMPT_WINDOW_MS, lockedUntil: 0 };
+        failures.set(key, entry);
+      }
+      entry.count += 1;
+      if (entry.count >= JOIN_MAX_FAILED_ATTEMPTS) {
+        entry.lockedUntil = now + JOIN_LOCKOUT_MS;
+        entry.resetAt = Math.max(entry.resetAt, entry.lockedUntil);
+        entry.count = 0;
+      }
+    });
+  };
+
+  // One check per key at a time, so parallel guesses cannot slip past the failure count while scrypt runs.
+  const checkAttempt = async (keys: string[], passphrase: string, stored: string) => {
+    keys.forEach((key) => pending.add(key));
+    try {
+      const valid = await verify(passphrase, stored);
+      if (!valid) {
+        recordFailure(keys);
+      }
+      return valid;
+    } finally {
+      keys.forEach((key) => pending.delete(key));
+    }
+  };
+
+  return {
+    hash,
+    verify,
+    getLockout,
+    checkAttempt,
+  };
+};
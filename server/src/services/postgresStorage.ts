@@ -0,0 +1,575 @@
+import path from 'path';
+import { Pool, types } from 'pg';
+import type { PoolClient } from 'pg';
+import type {
+  Channel,
+  ChannelPolicy,
+  ChannelRetention,
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyStatus,
+  Geofence,
+  QuickResponse,
+  RetentionLimits,
+  TextMessage,
+} from '@walkie/shared/types';
+import { deleteOrphanedAudio } from './audioStore';
+import type { AudioStore } from './audioStore';
+import { loadMigrations, runPostgresMigrations } from './migrationService';
+import type {
+  AudioMessageRecord,
+  ChannelBanRecord,
+  ChannelLinkRecord,
+  ChannelMessageRecord,
+  ChannelRecord,
+  MessageCursor,
+  MessageReceiptRecord,
+  RetentionPruneResult,
+  Storage,
+} from './storage';
+import {
+  assertAudioPayload,
+  toAudioMessageRow,
+  toChannelBan,
+  toChannelBanRow,
+  toChannelLink,
+  toChannelMessageRecord,
+  toChannelRecord,
+  toChannelRetention,
+  toEmergencyRow,
+  toGeofence,
+  toGeofenceRow,
+  toMessageCursor,
+  toQuickResponse,
+  toQuickResponseRow,
+  toTextMessageRow,
+} from './storageRows';
+import type {
+  ChannelBanRow,
+  ChannelLinkSummaryRow,
+  ChannelMuteRow,
+  ChannelRecordRow,
+  ChannelRetentionRow,
+  ChannelRoleRow,
+  GeofenceRow,
+  MessageCursorRow,
+  MessageRow,
+  QuickResponseRow,
+} from './storageRows';
+
+type PostgresStorageOptions = {
+  connectionString: string;
+  migrationsDir?: string;
+  audioStore: AudioStore;
+  maxAudioBytes?: number;
+  maxMessagesPerChannel?: number;
+};
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+const DEFAULT_MAX_AUDIO_BYTES = 1_000_000;
+const DEFAULT_MAX_MESSAGES_PER_CHANNEL = 50;
+
+// Timestamps are BIGINT epoch milliseconds, which fit comfortably in a JS number.
+types.setTypeParser(types.builtins.INT8, (value) => Number(value));
+
+// Rows carry no inline payload; audio always lives in the AudioStore.
+const MESSAGE_COLUMNS = `id, channel_code, from_user_id, from_nickname, created_at, priority, mime_type,
+  duration_ms, size_bytes, NULL::bytea AS payload, audio_key, audio_checksum, kind, body, location_lat,
+  location_lng, location_accuracy, visible_to`;
+
+// `visible_to` holds a private message's participants as a JSON array.
+const visibleToViewer = (param: string) => `(visible_to IS NULL OR visible_to::jsonb ? ${param})`;
+
+const SQL = {
+  upsertChannel: `INSERT INTO channels (code, display_name, created_at, last_activity_at)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (code) DO UPDATE SET
+      display_name = EXCLUDED.display_name,
+      last_activity_at = EXCLUDED.last_activity_at`,
+  getChannelByCode: `SELECT code, display_name, created_at, last_activity_at, passphrase_hash, urgent_min_role,
+    retention_max_messages, retention_max_age_days, retention_max_bytes
+    FROM channels
+    WHERE code = $1`,
+  updateChannelActivity: `UPDATE channels SET last_activity_at = $2 WHERE code = $1`,
+  insertMessage: `INSERT INTO messages (
+      id, channel_code, from_user_id, from_nickname, created_at, priority, mime_type, duration_ms, size_bytes,
+      audio_key, audio_checksum, kind, body, location_lat, location_lng, location_accuracy, visible_to
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+  pruneMessages: `DELETE FROM messages
+    WHERE id IN (
+      SELECT id FROM messages
+      WHERE channel_code = $1
+      ORDER BY created_at DESC
+      OFFSET $2
+    )`,
+  // Keeps the newest messages whose combined size fits within the budget.
+  pruneMessageBytes: `DELETE FROM messages
+    WHERE id IN (
+      SELECT id FROM (
+        SELECT id, SUM(size_bytes) OVER (ORDER BY created_at DESC, id DESC) AS running_bytes
+        FROM messages
+        WHERE channel_code = $1
+      ) AS ranked
+      WHERE running_bytes > $2
+    )`,
+  listLinks: `SELECT linked_code, MAX(outgoing) AS outgoing, MAX(incoming) AS incoming, MIN(created_at) AS created_at
+    FROM (
+      SELECT linked_code, 1 AS outgoing, 0 AS incoming, created_at
+      FROM channel_links WHERE channel_code = $1
+      UNION ALL
+      SELECT channel_code AS linked_code, 0 AS outgoing, 1 AS incoming, created_at
+      FROM channel_links WHERE linked_code = $1
+    ) AS links
+    GROUP BY linked_code
+    ORDER BY created_at ASC`,
+};
+
+export class PostgresStorage implements Storage {
+  private readonly maxAudioBytes: number;
+  private readonly maxMessagesPerChannel: number;
+  private readonly audioStore: AudioStore;
+
+  private constructor(
+    private readonly pool: Pool,
+    options: PostgresStorageOptions,
+  ) {
+    this.maxAudioBytes = options.maxAudioBytes ?? DEFAULT_MAX_AUDIO_BYTES;
+    this.maxMessagesPerChannel = options.maxMessagesPerChannel ?? DEFAULT_MAX_MESSAGES_PER_CHANNEL;
+    this.audioStore = options.audioStore;
+  }
+
+  static async connect(options: PostgresStorageOptions) {
+    const pool = new Pool({ connectionString: options.connectionString });
+    // Idle clients can drop (e.g. on a database restart); the pool replaces them on the next query.
+    pool.on('error', (error) => console.error('[db] idle client error', error));
+    try {
+      await runPostgresMigrations(
+        pool,
+        loadMigrations(options.migrationsDir ?? path.resolve(process.cwd(), 'migrations', 'postgres')),
+      );
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+    return new PostgresStorage(pool, options);
+  }
+
+  async close() {
+    await this.pool.end();
+  }
+
+  async upsertChannel(channel: Channel, lastActivityAt?: Date) {
+    const lastActivity = lastActivityAt ?? channel.createdAt;
+    await this.pool.query(SQL.upsertChannel, [
+      channel.code,
+      channel.displayName,
+      channel.createdAt.getTime(),
+      lastActivity.getTime(),
+    ]);
+  }
+
+  async touchChannels(codes: string[], when: Date) {
+    if (codes.length === 0) {
+      return;
+    }
+    await this.pool.query(
+      `UPDATE channels SET last_activity_at = GREATEST(last_activity_at, $2) WHERE code = ANY($1::text[])`,
+      [codes, when.getTime()],
+    );
+  }
+
+  async getChannelByCode(code: string): Promise<ChannelRecord | null> {
+    const { rows } = await this.pool.query<ChannelRecordRow>(SQL.getChannelByCode, [code]);
+    return rows[0] ? toChannelRecord(rows[0]) : null;
+  }
+
+  async setChannelPolicy(code: string, policy: ChannelPolicy) {
+    await this.pool.query(`UPDATE channels SET urgent_min_role = $2 WHERE code = $1`, [
+      code,
+      policy.urgentMinRole,
+    ]);
+  }
+
+  async setChannelPassphraseHash(code: string, passphraseHash: string | null) {
+    await this.pool.query(`UPDATE channels SET passphrase_hash = $2 WHERE code = $1`, [code, passphraseHash]);
+  }
+
+  async setChannelRetention(code: string, retention: ChannelRetention) {
+    await this.pool.query(
+      `UPDATE channels SET retention_max_messages = $2, retention_max_age_days = $3, retention_max_bytes = $4
+       WHERE code = $1`,
+      [code, retention.maxMessages, retention.maxAgeDays, retention.maxBytes],
+    );
+  }
+
+  async listChannelRetention() {
+    const { rows } = await this.pool.query<ChannelRetentionRow>(
+      `SELECT code, retention_max_messages, retention_max_age_days, retention_max_bytes FROM channels`,
+    );
+    return rows.map((row) => ({ channelCode: row.code, retention: toChannelRetention(row) }));
+  }
+
+  async recordAudioMessage(message: AudioMessageRecord) {
+    assertAudioPayload(message, this.maxAudioBytes);
+    // An insert that fails after the file is written leaves an orphan for cleanup to remove.
+    const ref = await this.audioStore.put(message.payload);
+    await this.insertMessage(toAudioMessageRow(message, ref));
+  }
+
+  async recordTextMessage(message: TextMessage) {
+    await this.insertMessage(toTextMessageRow(message));
+  }
+
+  async recordQuickResponse(response: QuickResponse) {
+    const row = toQuickResponseRow(response);
+    await this.pool.query(
+      `INSERT INTO quick_responses (id, channel_code, from_user_id, from_nickname, created_at, kind, message)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [row.id, row.channel_code, row.from_user_id, row.from_nickname, row.created_at, row.kind, row.message],
+    );
+  }
+
+  // A play receipt implies delivery, so the first receipt of either kind creates the row.
+  async recordReceipt(receipt: MessageReceiptRecord) {
+    await this.pool.query(
+      `INSERT INTO message_receipts (message_id, channel_code, user_id, nickname, delivered_at, played_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (message_id, user_id) DO UPDATE SET
+         played_at = COALESCE(message_receipts.played_at, EXCLUDED.played_at)`,
+      [
+        receipt.messageId,
+        receipt.channelCode,
+        receipt.userId,
+        receipt.nickname,
+        receipt.deliveredAt.getTime(),
+        receipt.playedAt?.getTime() ?? null,
+      ],
+    );
+  }
+
+  // Returns the newest responses after `since`, oldest first.
+  async listQuickResponses(channelCode: string, since: number, limit = 50): Promise<QuickResponse[]> {
+    const boundedLimit = Math.max(0, Math.min(limit, 50));
+    if (boundedLimit === 0) {
+      return [];
+    }
+    const { rows } = await this.pool.query<QuickResponseRow>(
+      `SELECT id, channel_code, from_user_id, from_nickname, created_at, kind, message
+       FROM quick_responses
+       WHERE channel_code = $1 AND created_at > $2
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [channelCode, since, boundedLimit],
+    );
+    return rows.reverse().map(toQuickResponse);
+  }
+
+  async recordEmergency(broadcast: EmergencyBroadcast) {
+    const row = toEmergencyRow(broadcast);
+    await this.withTransaction(async (client) => {
+      await client.query(
+        `INSERT INTO emergency_log (
+          id, channel_code, from_user_id, from_nickname, created_at, priority, message, scope, target_channels, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          row.id,
+          row.channel_code,
+          row.from_user_id,
+          row.from_nickname,
+          row.created_at,
+          row.priority,
+          row.message,
+          row.scope,
+          row.target_channels,
+          row.status,
+        ],
+      );
+      await client.query(SQL.updateChannelActivity, [row.channel_code, row.created_at]);
+    });
+  }
+
+  async recordEmergencyAck(emergencyId: string, userId: string, nickname: string, when = new Date()) {
+    await this.pool.query(
+      `INSERT INTO emergency_acks (emergency_id, user_id, nickname, acknowledged_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (emergency_id, user_id) DO NOTHING`,
+      [emergencyId, userId, nickname, when.getTime()],
+    );
+  }
+
+  async setEmergencyStatus(
+    emergencyId: string,
+    status: EmergencyStatus,
+    resolution: { resolvedBy: string; resolvedAt: Date } | null = null,
+  ) {
+    await this.pool.query(
+      `UPDATE emergency_log SET status = $2, resolved_by = $3, resolved_at = $4
+       WHERE id = $1 AND status <> 'resolved'`,
+      [emergencyId, status, resolution?.resolvedBy ?? null, resolution?.resolvedAt.getTime() ?? null],
+    );
+  }
+
+  async setChannelRole(channelCode: string, userId: string, role: ChannelRole, when = new Date()) {
+    if (role === 'member') {
+      await this.pool.query(`DELETE FROM channel_roles WHERE channel_code = $1 AND user_id = $2`, [
+        channelCode,
+        userId,
+      ]);
+      return;
+    }
+    await this.pool.query(
+      `INSERT INTO channel_roles (channel_code, user_id, role, granted_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (channel_code, user_id) DO UPDATE SET
+         role = EXCLUDED.role,
+         granted_at = EXCLUDED.granted_at`,
+      [channelCode, userId, role, when.getTime()],
+    );
+  }
+
+  async listChannelRoles(channelCode: string): Promise<Map<string, ChannelRole>> {
+    const { rows } = await this.pool.query<ChannelRoleRow>(
+      `SELECT channel_code, user_id, role, granted_at FROM channel_roles WHERE channel_code = $1`,
+      [channelCode],
+    );
+    return new Map(rows.map((row) => [row.user_id, row.role]));
+  }
+
+  async recordBan(ban: ChannelBanRecord) {
+    const row = toChannelBanRow(ban);
+    await this.pool.query(
+      `INSERT INTO channel_bans (channel_code, user_id, nickname, ip, banned_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (channel_code, user_id) DO UPDATE SET
+         ip = EXCLUDED.ip,
+         banned_by = EXCLUDED.banned_by,
+         created_at = EXCLUDED.created_at`,
+      [row.channel_code, row.user_id, row.nickname, row.ip, row.banned_by, row.created_at],
+    );
+  }
+
+  async listChannelBans(channelCode: string): Promise<ChannelBanRecord[]> {
+    const { rows } = await this.pool.query<ChannelBanRow>(
+      `SELECT channel_code, user_id, nickname, ip, banned_by, created_at FROM channel_bans WHERE channel_code = $1`,
+      [channelCode],
+    );
+    return rows.map(toChannelBan);
+  }
+
+  async setChannelMute(channelCode: string, userId: string, mutedUntil: Date | null) {
+    if (!mutedUntil) {
+      await this.pool.query(`DELETE FROM channel_mutes WHERE channel_code = $1 AND user_id = $2`, [
+        channelCode,
+        userId,
+      ]);
+      return;
+    }
+    await this.pool.query(
+      `INSERT INTO channel_mutes (channel_code, user_id, muted_until)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (channel_code, user_id) DO UPDATE SET muted_until = EXCLUDED.muted_until`,
+      [channelCode, userId, mutedUntil.getTime()],
+    );
+  }
+
+  async listChannelMutes(channelCode: string, now = new Date()): Promise<Map<string, Date>> {
+    const { rows } = await this.pool.query<ChannelMuteRow>(
+      `SELECT channel_code, user_id, muted_until FROM channel_mutes WHERE channel_code = $1 AND muted_until > $2`,
+      [channelCode, now.getTime()],
+    );
+    return new Map(rows.map((row) => [row.user_id, new Date(row.muted_until)]));
+  }
+
+  async setChannelLink(channelCode: string, linkedCode: string, linked: boolean, createdBy: string, when = new Date()) {
+    if (!linked) {
+      await this.pool.query(`DELETE FROM channel_links WHERE channel_code = $1 AND linked_code = $2`, [
+        channelCode,
+        linkedCode,
+      ]);
+      return;
+    }
+    await this.pool.query(
+      `INSERT INTO channel_links (channel_code, linked_code, created_by, created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (channel_code, linked_code) DO NOTHING`,
+      [channelCode, linkedCode, createdBy, when.getTime()],
+    );
+  }
+
+  async listChannelLinks(channelCode: string): Promise<ChannelLinkRecord[]> {
+    const { rows } = await this.pool.query<ChannelLinkSummaryRow>(SQL.listLinks, [channelCode]);
+    return rows.map(toChannelLink);
+  }
+
+  async recordGeofence(geofence: Geofence) {
+    const row = toGeofenceRow(geofence);
+    await this.pool.query(
+      `INSERT INTO geofences (id, channel_code, name, shape, alert_after_ms, created_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [row.id, row.channel_code, row.name, row.shape, row.alert_after_ms, row.created_by, row.created_at],
+    );
+  }
+
+  async deleteGeofence(channelCode: string, id: string) {
+    const result = await this.pool.query(`DELETE FROM geofences WHERE channel_code = $1 AND id = $2`, [
+      channelCode,
+      id,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async listGeofences(channelCode: string): Promise<Geofence[]> {
+    const { rows } = await this.pool.query<GeofenceRow>(
+      `SELECT id, channel_code, name, shape, alert_after_ms, created_by, created_at
+       FROM geofences
+       WHERE channel_code = $1
+       ORDER BY created_at ASC`,
+      [channelCode],
+    );
+    return rows.map(toGeofence);
+  }
+
+  async listMessagesAfter(
+    channelCode: string,
+    viewerId: string,
+    after: MessageCursor | null,
+    until: number,
+    limit: number,
+  ): Promise<ChannelMessageRecord[]> {
+    const boundedLimit = Math.max(0, Math.min(limit, 50));
+    if (boundedLimit === 0) {
+      return [];
+    }
+    const { rows } = await this.pool.query<MessageRow>(
+      `SELECT ${MESSAGE_COLUMNS}
+       FROM messages
+       WHERE channel_code = $1
+         AND (created_at > $3 OR (created_at = $3 AND id > $4))
+         AND created_at <= $5
+         AND ${visibleToViewer('$2')}
+       ORDER BY created_at ASC, id ASC
+       LIMIT $6`,
+      [channelCode, viewerId, after?.createdAt ?? -1, after?.id ?? '', until, boundedLimit],
+    );
+    // Payloads load one at a time so a page never holds many reads open at once.
+    const records: ChannelMessageRecord[] = [];
+    for (const row of rows) {
+      const record = await toChannelMessageRecord(row, this.audioStore);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  async getMessageCursor(channelCode: string, id: string) {
+    const { rows } = await this.pool.query<MessageCursorRow>(
+      `SELECT id, created_at FROM messages WHERE channel_code = $1 AND id = $2`,
+      [channelCode, id],
+    );
+    return toMessageCursor(rows[0]);
+  }
+
+  async getMessageCursorAtOffset(channelCode: string, viewerId: string, offset: number) {
+    const { rows } = await this.pool.query<MessageCursorRow>(
+      `SELECT id, created_at
+       FROM messages
+       WHERE channel_code = $1 AND ${visibleToViewer('$2')}
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1 OFFSET $3`,
+      [channelCode, viewerId, offset],
+    );
+    return toMessageCursor(rows[0]);
+  }
+
+  async pruneChannelMessages(
+    channelCode: string,
+    limits: RetentionLimits,
+    now = new Date(),
+  ): Promise<RetentionPruneResult> {
+    const cutoff = now.getTime() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+    return this.withTransaction(async (client) => ({
+      byAge: await this.changes(client, `DELETE FROM messages WHERE channel_code = $1 AND created_at < $2`, [
+        channelCode,
+        cutoff,
+      ]),
+      byCount: await this.changes(client, SQL.pruneMessages, [channelCode, limits.maxMessages]),
+      byBytes: await this.changes(client, SQL.pruneMessageBytes, [channelCode, limits.maxBytes]),
+    }));
+  }
+
+  async cleanupOldQuickResponses(cutoff: Date) {
+    return this.changes(this.pool, `DELETE FROM quick_responses WHERE created_at < $1`, [cutoff.getTime()]);
+  }
+
+  async cleanupOldReceipts(cutoff: Date) {
+    return this.changes(this.pool, `DELETE FROM message_receipts WHERE delivered_at < $1`, [cutoff.getTime()]);
+  }
+
+  async cleanupOldEmergencyLogs(cutoff: Date) {
+    return this.changes(this.pool, `DELETE FROM emergency_log WHERE created_at < $1`, [cutoff.getTime()]);
+  }
+
+  async cleanupIdleChannels(cutoff: Date) {
+    return this.changes(this.pool, `DELETE FROM channels WHERE last_activity_at < $1`, [cutoff.getTime()]);
+  }
+
+  // Removes stored audio that no message references any more, e.g. after pruning.
+  async cleanupOrphanedAudio() {
+    const { rows } = await this.pool.query<{ audio_key: string }>(
+      `SELECT DISTINCT audio_key FROM messages WHERE audio_key IS NOT NULL`,
+    );
+    return deleteOrphanedAudio(this.audioStore, new Set(rows.map((row) => row.audio_key)));
+  }
+
+  private async insertMessage(row: MessageRow) {
+    await this.withTransaction(async (client) => {
+      await client.query(SQL.insertMessage, [
+        row.id,
+        row.channel_code,
+        row.from_user_id,
+        row.from_nickname,
+        row.created_at,
+        row.priority,
+        row.mime_type,
+        row.duration_ms,
+        row.size_bytes,
+        row.audio_key,
+        row.audio_checksum,
+        row.kind,
+        row.body,
+        row.location_lat,
+        row.location_lng,
+        row.location_accuracy,
+        row.visible_to,
+      ]);
+      const { rows } = await client.query<ChannelRecordRow>(SQL.getChannelByCode, [row.channel_code]);
+      await client.query(SQL.pruneMessages, [
+        row.channel_code,
+        rows[0]?.retention_max_messages ?? this.maxMessagesPerChannel,
+      ]);
+      await client.query(SQL.updateChannelActivity, [row.channel_code, row.created_at]);
+    });
+  }
+
+  private async changes(target: Queryable, sql: string, params: unknown[]) {
+    const result = await target.query(sql, params);
+    return result.rowCount ?? 0;
+  }
+
+  private async withTransaction<T>(run: (client: PoolClient) => Promise<T>) {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await run(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import type { Server, Socket } from 'socket.io';
+import type { ConnectionQuality, PresenceStatus, User, UserPresence } from '@walkie/shared/types';
+
+const PRESENCE_MIN_INTERVAL_MS = Number(process.env.PRESENCE_MIN_INTERVAL_MS ?? 5_000);
+
+type PresenceUpdatePayload = {
+  channelCode: string;
+  status: PresenceStatus;
+  batteryLevel?: number | null;
+  charging?: boolean | null;
+  lowPowerMode?: boolean;
+  connectionQuality?: ConnectionQuality;
+};
+
+type PresenceMember = {
+  user: User;
+  presence: UserPresence | null;
+};
+
+type PresenceChannel = {
+  channel: { code: string };
+  users: Map<string, PresenceMember>;
+};
+
+type PresenceContext = {
+  user: User;
+  channelState: PresenceChannel;
+};
+
+type PresenceDeps = {
+  getMemberContext: (socketId: string, channelCode?: string) => PresenceContext | null;
+  getChannelState: (channelCode: string) => PresenceChannel | null;
+  // Called at the broadcast rate, so a chatty client costs one shared-state write per interval.
+  onPresenceChanged: (channelCode: string, userId: string) => void;
+};
+
+const PRESENCE_STATUSES = new Set<PresenceStatus>(['active', 'idle', 'away']);
+const CONNECTION_QUALITIES = new Set<ConnectionQuality>(['good', 'ok', 'poor', 'offline']);
+
+const normalizePresence = (payload: PresenceUpdatePayload): UserPresence | null => {
+  if (!PRESENCE_STATUSES.has(payload.status)) {
+    return null;
+  }
+  const batteryLevel = payload.batteryLevel ?? null;
+  if (batteryLevel !== null && (typeof batteryLevel !== 'number' || !Number.isFinite(batteryLevel))) {
+    return null;
+  }
+  const charging = payload.charging ?? null;
+  if (charging !== null && typeof charging !== 'boolean') {
+    return null;
+  }
+  const connectionQuality = payload.connectionQuality ?? 'ok';
+  if (!CONNECTION_QUALITIES.has(connectionQuality)) {
+    return null;
+  }
+  return {
+    status: payload.status,
+    batteryLevel: batteryLevel === null ? null : Math.round(Math.min(Math.max(batteryLevel, 0), 1) * 100) / 100,
+    charging,
+    lowPowerMode: payload.lowPowerMode === true,
+    connectionQuality,
+    updatedAt: new Date(),
+  };
+};
+
+export const createPresenceService = (io: Server, deps: PresenceDeps) => {
+  const lastBroadcastAt = new Map<string, number>();
+  const pendingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const broadcast = (channelCode: string, userId: string) => {
+    const member = deps.getChannelState(channelCode)?.users.get(userId);
+    if (!member?.presence) {
+      return;
+    }
+    lastBroadcastAt.set(`${channelCode}:${userId}`, Date.now());
+    io.to(channelCode).emit('presence:update', { channelCode, userId, presence: member.presence });
+    deps.onPresenceChanged(channelCode, userId);
+  };
+
+  const handleUpdate = (socket: Socket, payload: unknown) => {
+    const data = payload as PresenceUpdatePayload;
+    if (!data || typeof data.channelCode !== 'string') {
+      return;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      return;
+    }
+    const member = context.channelState.users.get(context.user.id);
+    const presence = normalizePresence(data);
+    if (!member || !presence) {
+      return;
+    }
+    member.presence = presence;
+
+    const key = `${data.channelCode}:${context.user.id}`;
+    if (pendingTimers.has(key)) {
+      return;
+    }
+    const waitMs = (lastBroadcastAt.get(key) ?? 0) + PRESENCE_MIN_INTERVAL_MS - Date.now();
+    if (waitMs <= 0) {
+      broadcast(data.channelCode, context.user.id);
+      return;
+    }
+    pendingTimers.set(
+      key,
+      setTimeout(() => {
+        pendingTimers.delete(key);
+        broadcast(data.channelCode, context.user.id);
+      }, waitMs),
+    );
+  };
+
+  const clearUser = (channelCode: string, userId: string) => {
+    const key = `${channelCode}:${userId}`;
+    const timer = pendingTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      pendingTimers.delete(key);
+    }
+    lastBroadcastAt.delete(key);
+  };
+
+  const clearChannel = (channelCode: string) => {
+    const prefix = `${channelCode}:`;
+    pendingTimers.forEach((timer, key) => {
+      if (key.startsWith(prefix)) {
+        clearTimeout(timer);
+        pendingTimers.delete(key);
+      }
+    });
+    lastBroadcastAt.forEach((_at, key) => {
+      if (key.startsWith(prefix)) {
+        lastBroadcastAt.delete(key);
+      }
+    });
+  };
+
+  return {
+    handleUpdate,
+    clearUser,
+    clearChannel,
+  };
+};
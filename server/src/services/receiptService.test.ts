@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import type { User } from '@walkie/shared/types';
+import { createReceiptService } from './receiptService';
+import type { Storage } from './storage';
+
+const CHANNEL_CODE = '1234';
+
+const createUser = (id: string): User => ({
+  id,
+  nickname: `nick-${id}`,
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+});
+
+const setup = () => {
+  const emitted: { room: string; payload: { deliveredCount: number; playedCount: number } }[] = [];
+  const io = {
+    to: (room: string) => ({
+      emit: (_event: string, payload: { deliveredCount: number; playedCount: number }) => {
+        emitted.push({ room, payload });
+      },
+    }),
+  } as unknown as Server;
+  const storage = { recordReceipt: vi.fn(async () => {}) };
+  const channelState = { channel: { code: CHANNEL_CODE } };
+  const users = new Map(['sender', 'b', 'c'].map((id) => [id, createUser(id)]));
+  const publish = vi.fn();
+  const service = createReceiptService(io, {
+    storage: storage as unknown as Storage,
+    getMemberContext: (socketId, channelCode) => {
+      const user = users.get(socketId);
+      return user && channelCode === CHANNEL_CODE ? { user, channelState } : null;
+    },
+    getUserRoom: (userId) => `user:${userId}`,
+    publish,
+  });
+  const socket = (id: string) => ({ id }) as unknown as Socket;
+  const payload = { channelCode: CHANNEL_CODE, messageId: 'message-1' };
+  return { service, storage, emitted, publish, socket, payload };
+};
+
+describe('receiptService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports each new receipt to the sender once', () => {
+    const { service, storage, emitted, socket, payload } = setup();
+    service.track({ id: 'message-1', channelCode: CHANNEL_CODE, fromUserId: 'sender' });
+
+    service.handleDelivered(socket('b'), payload);
+    service.handleDelivered(socket('b'), payload);
+    service.handlePlayed(socket('b'), payload);
+
+    expect(emitted.map((entry) => entry.room)).toEqual(['user:sender', 'user:sender']);
+    expect(emitted.map((entry) => entry.payload)).toEqual([
+      expect.objectContaining({ deliveredCount: 1, playedCount: 0 }),
+      expect.objectContaining({ deliveredCount: 1, playedCount: 1 }),
+    ]);
+    expect(storage.recordReceipt).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts a play as a delivery when the delivered receipt was lost', () => {
+    const { service, emitted, socket, payload } = setup();
+    service.track({ id: 'message-1', channelCode: CHANNEL_CODE, fromUserId: 'sender' });
+
+    service.handlePlayed(socket('b'), payload);
+
+    expect(emitted[0].payload).toMatchObject({ deliveredCount: 1, playedCount: 1 });
+  });
+
+  it('ignores the sender, members outside a private message and untracked messages', () => {
+    const { service, emitted, socket, payload } = setup();
+    service.track({ id: 'message-1', channelCode: CHANNEL_CODE, fromUserId: 'sender', recipientUserIds: ['b'] });
+
+    service.handleDelivered(socket('sender'), payload);
+    service.handleDelivered(socket('c'), payload);
+    service.handleDelivered(socket('b'), { channelCode: CHANNEL_CODE, messageId: 'message-2' });
+    expect(emitted).toEqual([]);
+
+    service.handleDelivered(socket('b'), payload);
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('stops tracking a message once its channel is cleared', () => {
+    const { service, emitted, socket, payload } = setup();
+    service.track({ id: 'message-1', channelCode: CHANNEL_CODE, fromUserId: 'sender' });
+
+    service.clearChannel(CHANNEL_CODE);
+    service.handleDelivered(socket('b'), payload);
+
+    expect(emitted).toEqual([]);
+  });
+
+  it('forwards a receipt for a message sent through another instance', () => {
+    const { service, emitted, publish, socket, payload } = setup();
+
+    service.handlePlayed(socket('b'), payload);
+
+    expect(publish).toHaveBeenCalledWith({
+      kind: 'played',
+      channelCode: CHANNEL_CODE,
+      messageId: 'message-1',
+      member: { userId: 'b', nickname: 'nick-b' },
+    });
+    expect(emitted).toEqual([]);
+  });
+
+  it('reports a forwarded receipt for a message it tracks', () => {
+    const { service, emitted, publish } = setup();
+    service.track({ id: 'message-1', channelCode: CHANNEL_CODE, fromUserId: 'sender' });
+
+    service.handleRemoteReceipt({
+      kind: 'delivered',
+      channelCode: CHANNEL_CODE,
+      messageId: 'message-1',
+      member: { userId: 'remote', nickname: 'nick-remote' },
+    });
+
+    expect(emitted).toEqual([{ room: 'user:sender', payload: expect.objectContaining({ deliveredCount: 1 }) }]);
+    expect(publish).not.toHaveBeenCalled();
+  });
+});
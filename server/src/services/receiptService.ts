@@ -0,0 +1,175 @@
+import type { Server, Socket } from 'socket.io';
+import type { User } from '@walkie/shared/types';
+import type { Storage } from './storage';
+
+const RECEIPT_TRACK_MS = Number(process.env.RECEIPT_TRACK_MS ?? 60 * 60_000);
+
+type ReceiptKind = 'delivered' | 'played';
+
+// A receipt for a message sent through another instance, forwarded to the instance that tracks it.
+export type ReceiptEvent = {
+  kind: ReceiptKind;
+  channelCode: string;
+  messageId: string;
+  member: ReceiptMember;
+};
+
+type ReceiptPayload = {
+  channelCode: string;
+  messageId: string;
+};
+
+type ReceiptChannel = {
+  channel: { code: string };
+};
+
+type ReceiptContext = {
+  user: User;
+  channelState: ReceiptChannel;
+};
+
+type ReceiptDeps = {
+  storage: Storage;
+  getMemberContext: (socketId: string, channelCode: string) => ReceiptContext | null;
+  // The sender may be connected to another instance, so receipts go to the sender's room.
+  getUserRoom: (userId: string) => string;
+  publish: (receipt: ReceiptEvent) => void;
+};
+
+type ReceiptMember = {
+  userId: string;
+  nickname: string;
+};
+
+type TrackedMessage = {
+  messageId: string;
+  channelCode: string;
+  senderId: string;
+  recipientUserIds?: string[];
+  delivered: Map<string, ReceiptMember>;
+  played: Map<string, ReceiptMember>;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type TrackableMessage = {
+  id: string;
+  channelCode: string;
+  fromUserId: string;
+  recipientUserIds?: string[];
+};
+
+export const createReceiptService = (io: Server, deps: ReceiptDeps) => {
+  // Only recent messages are tracked; receipts for anything older are ignored.
+  const tracked = new Map<string, TrackedMessage>();
+
+  const track = (message: TrackableMessage) => {
+    const existing = tracked.get(message.id);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    tracked.set(message.id, {
+      messageId: message.id,
+      channelCode: message.channelCode,
+      senderId: message.fromUserId,
+      recipientUserIds: message.recipientUserIds,
+      delivered: existing?.delivered ?? new Map(),
+      played: existing?.played ?? new Map(),
+      timer: setTimeout(() => tracked.delete(message.id), RECEIPT_TRACK_MS),
+    });
+  };
+
+  const emitReceipts = (entry: TrackedMessage) => {
+    io.to(deps.getUserRoom(entry.senderId)).emit('audio:receipts', {
+      messageId: entry.messageId,
+      channelCode: entry.channelCode,
+      deliveredCount: entry.delivered.size,
+      playedCount: entry.played.size,
+      deliveredTo: Array.from(entry.delivered.values()),
+      playedBy: Array.from(entry.played.values()),
+    });
+  };
+
+  const applyReceipt = ({ kind, channelCode, messageId, member }: ReceiptEvent) => {
+    const entry = tracked.get(messageId);
+    if (!entry || entry.channelCode !== channelCode || member.userId === entry.senderId) {
+      return;
+    }
+    if (entry.recipientUserIds && !entry.recipientUserIds.includes(member.userId)) {
+      return;
+    }
+
+    const isNewDelivery = !entry.delivered.has(member.userId);
+    const isNewPlay = kind === 'played' && !entry.played.has(member.userId);
+    if (!isNewDelivery && !isNewPlay) {
+      return;
+    }
+    // Hearing a message implies it arrived, even if the delivered receipt was lost.
+    entry.delivered.set(member.userId, member);
+    if (kind === 'played') {
+      entry.played.set(member.userId, member);
+    }
+
+    const now = new Date();
+    deps.storage
+      .recordReceipt({
+        messageId: entry.messageId,
+        channelCode: entry.channelCode,
+        userId: member.userId,
+        nickname: member.nickname,
+        deliveredAt: now,
+        playedAt: kind === 'played' ? now : null,
+      })
+      .catch((error) => {
+        console.error('[receipts] log failed', error);
+      });
+    emitReceipts(entry);
+  };
+
+  const handleReceipt = (kind: ReceiptKind, socket: Socket, payload: unknown) => {
+    const data = payload as ReceiptPayload;
+    if (!data || typeof data.channelCode !== 'string' || typeof data.messageId !== 'string') {
+      return;
+    }
+    const context = deps.getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      return;
+    }
+    const receipt: ReceiptEvent = {
+      kind,
+      channelCode: data.channelCode,
+      messageId: data.messageId,
+      member: { userId: context.user.id, nickname: context.user.nickname },
+    };
+    // Messages are tracked where they were sent; a receipt for one sent elsewhere goes to every other instance.
+    if (tracked.has(data.messageId)) {
+      applyReceipt(receipt);
+    } else {
+      deps.publish(receipt);
+    }
+  };
+
+  const handleDelivered = (socket: Socket, payload: unknown) => {
+    handleReceipt('delivered', socket, payload);
+  };
+
+  const handlePlayed = (socket: Socket, payload: unknown) => {
+    handleReceipt('played', socket, payload);
+  };
+
+  const clearChannel = (channelCode: string) => {
+    tracked.forEach((entry, messageId) => {
+      if (entry.channelCode === channelCode) {
+        clearTimeout(entry.timer);
+        tracked.delete(messageId);
+      }
+    });
+  };
+
+  return {
+    track,
+    handleDelivered,
+    handlePlayed,
+    handleRemoteReceipt: applyReceipt,
+    clearChannel,
+  };
+};
@@ -0,0 +1,258 @@
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient, type RedisClientType } from 'redis';
+import type { Server } from 'socket.io';
+import type { FloorHolder, FloorTakeResult, RateLimitResult, RosterMember, SharedState } from './sharedState';
+
+// Refreshed on every roster write, so a node that dies without cleaning up only holds a code for this long.
+const CHANNEL_STATE_TTL_MS = Number(process.env.CLUSTER_STATE_TTL_MS ?? 24 * 60 * 60 * 1000);
+const KEY_PREFIX = 'walkie';
+// The floor key outlives its deadline briefly, so the granting instance's timer still finds and announces the expiry.
+const FLOOR_KEY_GRACE_MS = 5_000;
+
+// KEYS are one user's bucket counters; ARGV holds a max and a window per key. Returns 0 or the wait in milliseconds.
+const CONSUME_RATE_LIMIT_SCRIPT = `
+local retry = 0
+for i, key in ipairs(KEYS) do
+  local count = tonumber(redis.call('GET', key) or '0')
+  if count >= tonumber(ARGV[i * 2 - 1]) then
+    retry = math.max(retry, redis.call('PTTL', key))
+  end
+end
+if retry > 0 then
+  return retry
+end
+for i, key in ipairs(KEYS) do
+  if redis.call('INCR', key) == 1 then
+    redis.call('PEXPIRE', key, ARGV[i * 2])
+  end
+end
+return 0
+`;
+
+// KEYS: roster, roster version, code claim. Dropping the last member releases the channel and returns 1.
+const REMOVE_ROSTER_MEMBER_SCRIPT = `
+redis.call('HDEL', KEYS[1], ARGV[1])
+if redis.call('HLEN', KEYS[1]) == 0 then
+  redis.call('DEL', KEYS[1], KEYS[2], KEYS[3])
+  return 1
+end
+return 0
+`;
+
+// KEYS: floor. ARGV: candidate JSON, current time as ISO text, key TTL, then the priorities the candidate outranks.
+// ISO timestamps compare as strings. Returns the status and the holder JSON, plus the preempted holder when granted.
+const TAKE_FLOOR_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local preempted = ''
+if current then
+  local holder = cjson.decode(current)
+  if holder.expiresAt > ARGV[2] then
+    if holder.userId == cjson.decode(ARGV[1]).userId then
+      return {'held', current}
+    end
+    local outranked = false
+    for i = 4, #ARGV do
+      if holder.priority == ARGV[i] then
+        outranked = true
+      end
+    end
+    if not outranked then
+      return {'busy', current}
+    end
+    preempted = current
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[3])
+return {'granted', ARGV[1], preempted}
+`;
+
+// KEYS: floor. ARGV: user id, new priority, then the priorities it outranks. Returns the holder JSON or nil.
+const RAISE_FLOOR_PRIORITY_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return false
+end
+local holder = cjson.decode(current)
+if holder.userId ~= ARGV[1] then
+  return false
+end
+for i = 3, #ARGV do
+  if holder.priority == ARGV[i] then
+    holder.priority = ARGV[2]
+    current = cjson.encode(holder)
+    redis.call('SET', KEYS[1], current, 'KEEPTTL')
+    return current
+  end
+end
+return current
+`;
+
+// KEYS: floor. ARGV: user id. Returns the cleared holder JSON or nil.
+const RELEASE_FLOOR_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).userId == ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return current
+end
+return false
+`;
+
+// The hash tag keeps a channel's keys in one slot for Redis Cluster.
+const channelKeys = (channelCode: string) => ({
+  roster: `${KEY_PREFIX}:{${channelCode}}:roster`,
+  version: `${KEY_PREFIX}:{${channelCode}}:roster-version`,
+  claim: `${KEY_PREFIX}:{${channelCode}}:claim`,
+  floor: `${KEY_PREFIX}:{${channelCode}}:floor`,
+});
+
+// Tagged by user so the multi-bucket script stays within one slot.
+const rateLimitKey = (userId: string, key: string) => `${KEY_PREFIX}:rate:{${userId}}:${key}`;
+// Lives in its own slot, so it is written beside the channel keys rather than inside their transactions.
+const CHANNELS_KEY = `${KEY_PREFIX}:channels`;
+const lockKey = (name: string) => `${KEY_PREFIX}:lock:${name}`;
+
+const toRosterMember = (value: string): RosterMember => {
+  const member = JSON.parse(value) as RosterMember;
+  return {
+    ...member,
+    joinedAt: new Date(member.joinedAt),
+    mutedUntil: member.mutedUntil ? new Date(member.mutedUntil) : null,
+    lastActivityAt: new Date(member.lastActivityAt),
+    presence: member.presence ? { ...member.presence, updatedAt: new Date(member.presence.updatedAt) } : null,
+    location: member.location ? { ...member.location, updatedAt: new Date(member.location.updatedAt) } : null,
+  };
+};
+
+const toFloorHolder = (value: string): FloorHolder => {
+  const holder = JSON.parse(value) as FloorHolder;
+  return { ...holder, grantedAt: new Date(holder.grantedAt), expiresAt: new Date(holder.expiresAt) };
+};
+
+const toOptionalFloorHolder = (value: unknown) => (typeof value === 'string' ? toFloorHolder(value) : null);
+
+export const createRedisSharedState = (client: RedisClientType, onClose: () => Promise<void>): SharedState => ({
+  close: onClose,
+
+  consumeRateLimit: async (userId, buckets): Promise<RateLimitResult> => {
+    if (buckets.length === 0) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    const retryAfterMs = Number(
+      await client.eval(CONSUME_RATE_LIMIT_SCRIPT, {
+        keys: buckets.map((bucket) => rateLimitKey(userId, bucket.key)),
+        arguments: buckets.flatMap((bucket) => [String(bucket.max), String(bucket.windowMs)]),
+      }),
+    );
+    return retryAfterMs > 0 ? { allowed: false, retryAfterMs } : { allowed: true, retryAfterMs: 0 };
+  },
+
+  clearRateLimits: async (userId, keys) => {
+    if (keys.length > 0) {
+      await client.del(keys.map((key) => rateLimitKey(userId, key)));
+    }
+  },
+
+  claimChannelCode: async (code) => {
+    const result = await client.set(channelKeys(code).claim, '1', {
+      condition: 'NX',
+      expiration: { type: 'PX', value: CHANNEL_STATE_TTL_MS },
+    });
+    return result === 'OK';
+  },
+
+  acquireLock: async (name, ttlMs) => {
+    const result = await client.set(lockKey(name), '1', {
+      condition: 'NX',
+      expiration: { type: 'PX', value: ttlMs },
+    });
+    return result === 'OK';
+  },
+
+  setRosterMember: async (channelCode, member) => {
+    const keys = channelKeys(channelCode);
+    await client
+      .multi()
+      .hSet(keys.roster, member.id, JSON.stringify(member))
+      .set(keys.claim, '1', { expiration: { type: 'PX', value: CHANNEL_STATE_TTL_MS } })
+      .pExpire(keys.roster, CHANNEL_STATE_TTL_MS)
+      .pExpire(keys.version, CHANNEL_STATE_TTL_MS)
+      .exec();
+    await client.sAdd(CHANNELS_KEY, channelCode);
+  },
+
+  removeRosterMember: async (channelCode, userId) => {
+    const keys = channelKeys(channelCode);
+    const released = await client.eval(REMOVE_ROSTER_MEMBER_SCRIPT, {
+      keys: [keys.roster, keys.version, keys.claim],
+      arguments: [userId],
+    });
+    if (Number(released) === 1) {
+      await client.sRem(CHANNELS_KEY, channelCode);
+    }
+  },
+
+  listRoster: async (channelCode) => (await client.hVals(channelKeys(channelCode).roster)).map(toRosterMember),
+
+  // Rosters that expired after a node died stay listed; they read back as empty.
+  listChannels: async () => client.sMembers(CHANNELS_KEY),
+
+  getRosterVersion: async (channelCode) => Number((await client.get(channelKeys(channelCode).version)) ?? 0),
+
+  nextRosterVersion: async (channelCode) => {
+    const keys = channelKeys(channelCode);
+    const [version] = await client
+      .multi()
+      .incr(keys.version)
+      .pExpire(keys.version, CHANNEL_STATE_TTL_MS)
+      .exec();
+    return Number(version);
+  },
+
+  takeFloor: async (channelCode, candidate, outranks): Promise<FloorTakeResult> => {
+    const ttlMs = Math.max(0, candidate.expiresAt.getTime() - Date.now()) + FLOOR_KEY_GRACE_MS;
+    const [status, holder, preempted] = (await client.eval(TAKE_FLOOR_SCRIPT, {
+      keys: [channelKeys(channelCode).floor],
+      arguments: [JSON.stringify(candidate), new Date().toISOString(), String(ttlMs), ...outranks],
+    })) as [FloorTakeResult['status'], string, string?];
+    if (status === 'granted') {
+      return { status, holder: toFloorHolder(holder), preempted: preempted ? toFloorHolder(preempted) : null };
+    }
+    return { status, holder: toFloorHolder(holder) } as FloorTakeResult;
+  },
+
+  raiseFloorPriority: async (channelCode, userId, priority, outranks) =>
+    toOptionalFloorHolder(
+      await client.eval(RAISE_FLOOR_PRIORITY_SCRIPT, {
+        keys: [channelKeys(channelCode).floor],
+        arguments: [userId, priority, ...outranks],
+      }),
+    ),
+
+  releaseFloor: async (channelCode, userId) =>
+    toOptionalFloorHolder(
+      await client.eval(RELEASE_FLOOR_SCRIPT, { keys: [channelKeys(channelCode).floor], arguments: [userId] }),
+    ),
+
+  getFloor: async (channelCode) => {
+    const holder = toOptionalFloorHolder(await client.get(channelKeys(channelCode).floor));
+    return holder && holder.expiresAt.getTime() > Date.now() ? holder : null;
+  },
+});
+
+// Connects the adapter's publisher and subscriber; the publisher doubles as the shared state client.
+export const connectRedisSharedState = async (io: Server, url: string): Promise<SharedState> => {
+  const pubClient = createClient({ url });
+  const subClient = pubClient.duplicate();
+  [pubClient, subClient].forEach((client) => {
+    client.on('error', (error) => {
+      console.error('[cluster] redis error', error);
+    });
+  });
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  io.adapter(createAdapter(pubClient, subClient));
+  console.info('[cluster] redis adapter enabled');
+
+  return createRedisSharedState(pubClient, async () => {
+    await Promise.all([pubClient.close(), subClient.close()]);
+  });
+};
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const loadSessionService = async () => {
+  vi.resetModules();
+  return import('./sessionService');
+};
+
+describe('sessionService', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([undefined, 'change-me'])('refuses to start in production with secret %s', async (secret) => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SESSION_SECRET', secret);
+
+    await expect(loadSessionService()).rejects.toThrow('SESSION_SECRET');
+  });
+
+  it('refuses to start in cluster mode without a secret', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('SESSION_SECRET', undefined);
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379');
+
+    await expect(loadSessionService()).rejects.toThrow('SESSION_SECRET');
+  });
+
+  it('accepts tokens signed by another instance sharing the secret', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SESSION_SECRET', 'a-shared-secret');
+    const first = (await loadSessionService()).createSessionService();
+    const token = first.issueToken({ userId: 'u1', channelCode: '1234' });
+
+    const second = (await loadSessionService()).createSessionService();
+
+    expect(second.verifyToken(token)).toEqual({ userId: 'u1', channelCode: '1234' });
+  });
+});
@@ -0,0 +1,99 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const PLACEHOLDER_SECRET = 'change-me';
+
+// Tokens must verify on every instance and survive restarts, so production needs a real shared secret.
+const resolveSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret && secret !== PLACEHOLDER_SECRET) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production' || process.env.REDIS_URL) {
+    throw new Error('SESSION_SECRET must be set to a random value shared by every server instance.');
+  }
+  return secret ?? randomBytes(32).toString('hex');
+};
+
+const SESSION_SECRET = resolveSessionSecret();
+const SESSION_GRACE_MS = Number(process.env.SESSION_GRACE_MS ?? 60_000);
+const SESSION_TOKEN_TTL_MS = Number(process.env.SESSION_TOKEN_TTL_MS ?? 30 * 24 * 60 * 60_000);
+
+export type SessionClaims = {
+  userId: string;
+  channelCode: string;
+};
+
+type TokenBody = {
+  u: string;
+  c: string;
+  e: number;
+};
+
+const sign = (body: string) => createHmac('sha256', SESSION_SECRET).update(body).digest('base64url');
+
+export const createSessionService = () => {
+  const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const issueToken = (claims: SessionClaims) => {
+    const body: TokenBody = {
+      u: claims.userId,
+      c: claims.channelCode,
+      e: Date.now() + SESSION_TOKEN_TTL_MS,
+    };
+    const encoded = Buffer.from(JSON.stringify(body)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+  };
+
+  const verifyToken = (token: unknown): SessionClaims | null => {
+    if (typeof token !== 'string' || token.length > 512) {
+      return null;
+    }
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      return null;
+    }
+    const expected = Buffer.from(sign(encoded));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return null;
+    }
+    try {
+      const body = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenBody;
+      if (typeof body.u !== 'string' || typeof body.c !== 'string' || typeof body.e !== 'number') {
+        return null;
+      }
+      if (body.e <= Date.now()) {
+        return null;
+      }
+      return { userId: body.u, channelCode: body.c };
+    } catch {
+      return null;
+    }
+  };
+
+  const scheduleExpiry = (userId: string, onExpire: () => void) => {
+    cancelExpiry(userId);
+    expiryTimers.set(
+      userId,
+      setTimeout(() => {
+        expiryTimers.delete(userId);
+        onExpire();
+      }, SESSION_GRACE_MS),
+    );
+  };
+
+  const cancelExpiry = (userId: string) => {
+    const timer = expiryTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      expiryTimers.delete(userId);
+    }
+  };
+
+  return {
+    issueToken,
+    verifyToken,
+    scheduleExpiry,
+    cancelExpiry,
+  };
+};
@@ -0,0 +1,201 @@
+import { createClient, type RedisClientType } from 'redis';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createRedisSharedState } from './redisSharedState';
+import { createMemorySharedState, type FloorHolder, type RosterMember, type SharedState } from './sharedState';
+
+// One suite for both stores. Redis runs when TEST_REDIS_URL points at a scratch database.
+const TEST_REDIS_URL = process.env.TEST_REDIS_URL;
+const CHANNEL_CODE = '1234';
+
+type Backend = {
+  name: string;
+  open: () => Promise<SharedState>;
+};
+
+// Each test starts from an empty database, so TEST_REDIS_URL must point at a scratch database.
+const openRedis = async () => {
+  const client = createClient({ url: TEST_REDIS_URL }) as RedisClientType;
+  await client.connect();
+  await client.flushDb();
+  return createRedisSharedState(client, async () => {
+    await client.close();
+  });
+};
+
+const backends: Backend[] = [
+  { name: 'memory', open: async () => createMemorySharedState() },
+  ...(TEST_REDIS_URL ? [{ name: 'redis', open: openRedis }] : []),
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.each(backends)('shared state contract ($name)', (backend) => {
+  let sharedState: SharedState;
+
+  const member = (id: string, updatedAt = new Date()): RosterMember => ({
+    id,
+    nickname: `user ${id}`,
+    channelCode: CHANNEL_CODE,
+    joinedAt: new Date(updatedAt.getTime() - 1000),
+    connectionStatus: 'connected',
+    role: 'member',
+    mutedUntil: null,
+    lastActivityAt: updatedAt,
+    presence: null,
+    location: { lat: 1, lng: 2, accuracy: null, heading: null, updatedAt },
+  });
+
+  const holder = (userId: string, priority: FloorHolder['priority'] = 'routine', holdMs = 60_000): FloorHolder => {
+    const grantedAt = new Date();
+    return {
+      userId,
+      nickname: `user ${userId}`,
+      priority,
+      grantedAt,
+      expiresAt: new Date(grantedAt.getTime() + holdMs),
+    };
+  };
+
+  beforeEach(async () => {
+    sharedState = await backend.open();
+  });
+
+  afterEach(async () => {
+    await sharedState.close();
+  });
+
+  it('lists roster members with their dates intact', async () => {
+    const updatedAt = new Date('2026-01-02T03:04:05.000Z');
+    await sharedState.setRosterMember(CHANNEL_CODE, member('a', updatedAt));
+    await sharedState.setRosterMember(CHANNEL_CODE, member('b', updatedAt));
+    await sharedState.setRosterMember(CHANNEL_CODE, { ...member('a', updatedAt), nickname: 'renamed' });
+
+    const roster = await sharedState.listRoster(CHANNEL_CODE);
+    expect(roster.map((entry) => entry.id).sort()).toEqual(['a', 'b']);
+    const first = roster.find((entry) => entry.id === 'a')!;
+    expect(first.nickname).toBe('renamed');
+    expect(first.lastActivityAt).toEqual(updatedAt);
+    expect(first.location?.updatedAt).toEqual(updatedAt);
+    expect(await sharedState.listChannels()).toEqual([CHANNEL_CODE]);
+  });
+
+  it('counts roster versions per channel', async () => {
+    expect(await sharedState.getRosterVersion(CHANNEL_CODE)).toBe(0);
+    await sharedState.setRosterMember(CHANNEL_CODE, member('a'));
+    expect(await sharedState.nextRosterVersion(CHANNEL_CODE)).toBe(1);
+    expect(await sharedState.nextRosterVersion(CHANNEL_CODE)).toBe(2);
+    expect(await sharedState.getRosterVersion(CHANNEL_CODE)).toBe(2);
+    expect(await sharedState.getRosterVersion('9999')).toBe(0);
+  });
+
+  it('releases the channel when its last member leaves', async () => {
+    expect(await sharedState.claimChannelCode(CHANNEL_CODE)).toBe(true);
+    await sharedState.setRosterMember(CHANNEL_CODE, member('a'));
+    await sharedState.setRosterMember(CHANNEL_CODE, member('b'));
+    await sharedState.nextRosterVersion(CHANNEL_CODE);
+
+    await sharedState.removeRosterMember(CHANNEL_CODE, 'a');
+    expect(await sharedState.claimChannelCode(CHANNEL_CODE)).toBe(false);
+    expect(await sharedState.listChannels()).toEqual([CHANNEL_CODE]);
+
+    await sharedState.removeRosterMember(CHANNEL_CODE, 'b');
+    expect(await sharedState.listRoster(CHANNEL_CODE)).toEqual([]);
+    expect(await sharedState.getRosterVersion(CHANNEL_CODE)).toBe(0);
+    expect(await sharedState.listChannels()).toEqual([]);
+    expect(await sharedState.claimChannelCode(CHANNEL_CODE)).toBe(true);
+  });
+
+  it('hands a channel code to one claimant', async () => {
+    expect(await sharedState.claimChannelCode(CHANNEL_CODE)).toBe(true);
+    expect(await sharedState.claimChannelCode(CHANNEL_CODE)).toBe(false);
+    expect(await sharedState.claimChannelCode('5678')).toBe(true);
+  });
+
+  it('holds a lock until it expires', async () => {
+    expect(await sharedState.acquireLock('cleanup', 50)).toBe(true);
+    expect(await sharedState.acquireLock('cleanup', 50)).toBe(false);
+    expect(await sharedState.acquireLock('other', 50)).toBe(true);
+    await sleep(80);
+    expect(await sharedState.acquireLock('cleanup', 50)).toBe(true);
+  });
+
+  it('counts against every bucket or none of them', async () => {
+    const overall = { key: 'audio', max: 3, windowMs: 60_000 };
+    const urgent = { key: 'audio:urgent', max: 1, windowMs: 60_000 };
+
+    expect(await sharedState.consumeRateLimit('a', [overall, urgent])).toEqual({ allowed: true, retryAfterMs: 0 });
+    const blocked = await sharedState.consumeRateLimit('a', [overall, urgent]);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeGreaterThan(0);
+    expect(blocked.retryAfterMs).toBeLessThanOrEqual(60_000);
+
+    // The refused attempt did not count, so two routine sends still fit in the overall bucket.
+    expect((await sharedState.consumeRateLimit('a', [overall])).allowed).toBe(true);
+    expect((await sharedState.consumeRateLimit('a', [overall])).allowed).toBe(true);
+    expect((await sharedState.consumeRateLimit('a', [overall])).allowed).toBe(false);
+  });
+
+  it('keeps rate limits per user and clears them on request', async () => {
+    const quick = { key: 'quick', max: 1, windowMs: 60_000 };
+    expect((await sharedState.consumeRateLimit('a', [quick])).allowed).toBe(true);
+    expect((await sharedState.consumeRateLimit('a', [quick])).allowed).toBe(false);
+    expect((await sharedState.consumeRateLimit('b', [quick])).allowed).toBe(true);
+
+    await sharedState.clearRateLimits('a', ['quick']);
+    expect((await sharedState.consumeRateLimit('a', [quick])).allowed).toBe(true);
+    expect((await sharedState.consumeRateLimit('b', [quick])).allowed).toBe(false);
+  });
+
+  it('opens a bucket again once its window passes', async () => {
+    const bucket = { key: 'audio', max: 1, windowMs: 50 };
+    expect((await sharedState.consumeRateLimit('a', [bucket])).allowed).toBe(true);
+    expect((await sharedState.consumeRateLimit('a', [bucket])).allowed).toBe(false);
+    await sleep(80);
+    expect((await sharedState.consumeRateLimit('a', [bucket])).allowed).toBe(true);
+  });
+
+  it('gives the floor to one holder until it is released or outranked', async () => {
+    const first = holder('a');
+    expect(await sharedState.takeFloor(CHANNEL_CODE, first, [])).toEqual({
+      status: 'granted',
+      holder: first,
+      preempted: null,
+    });
+    expect(await sharedState.takeFloor(CHANNEL_CODE, holder('a'), [])).toEqual({ status: 'held', holder: first });
+    expect(await sharedState.takeFloor(CHANNEL_CODE, holder('b'), [])).toEqual({ status: 'busy', holder: first });
+
+    const urgent = holder('b', 'urgent');
+    expect(await sharedState.takeFloor(CHANNEL_CODE, urgent, ['routine', 'important'])).toEqual({
+      status: 'granted',
+      holder: urgent,
+      preempted: first,
+    });
+    expect(await sharedState.releaseFloor(CHANNEL_CODE, 'a')).toBeNull();
+    expect(await sharedState.releaseFloor(CHANNEL_CODE, 'b')).toEqual(urgent);
+    expect(await sharedState.getFloor(CHANNEL_CODE)).toBeNull();
+  });
+
+  it('raises the floor priority without moving the deadline', async () => {
+    const first = holder('a');
+    await sharedState.takeFloor(CHANNEL_CODE, first, []);
+
+    expect(await sharedState.raiseFloorPriority(CHANNEL_CODE, 'b', 'urgent', ['routine', 'important'])).toBeNull();
+    expect(await sharedState.raiseFloorPriority(CHANNEL_CODE, 'a', 'important', ['routine'])).toEqual({
+      ...first,
+      priority: 'important',
+    });
+    expect(await sharedState.raiseFloorPriority(CHANNEL_CODE, 'a', 'routine', [])).toEqual({
+      ...first,
+      priority: 'important',
+    });
+    expect(await sharedState.getFloor(CHANNEL_CODE)).toEqual({ ...first, priority: 'important' });
+  });
+
+  it('frees the floor once the holder passes its deadline', async () => {
+    await sharedState.takeFloor(CHANNEL_CODE, holder('a', 'urgent', 50), []);
+    await sleep(80);
+
+    expect(await sharedState.getFloor(CHANNEL_CODE)).toBeNull();
+    expect((await sharedState.takeFloor(CHANNEL_CODE, holder('b'), [])).status).toBe('granted');
+  });
+});
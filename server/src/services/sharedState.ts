@@ -0,0 +1,231 @@
+import type { Server } from 'socket.io';
+import type { MessagePriority, User, UserLocation, UserPresence } from '@walkie/shared/types';
+import { connectRedisSharedState } from './redisSharedState';
+
+const REDIS_URL = process.env.REDIS_URL;
+
+export type RosterMember = User & {
+  lastActivityAt: Date;
+  presence: UserPresence | null;
+  location: UserLocation | null;
+};
+
+export type RateLimitBucket = {
+  key: string;
+  max: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+export type FloorHolder = {
+  userId: string;
+  nickname: string;
+  priority: MessagePriority;
+  grantedAt: Date;
+  expiresAt: Date;
+};
+
+// 'held' means the candidate already holds the floor, which keeps its deadline.
+export type FloorTakeResult =
+  | { status: 'granted'; holder: FloorHolder; preempted: FloorHolder | null }
+  | { status: 'held'; holder: FloorHolder }
+  | { status: 'busy'; holder: FloorHolder };
+
+// State every server instance has to agree on. Removing the last roster member frees the channel code.
+export type SharedState = {
+  close(): Promise<void>;
+  // Counts against every one of the user's buckets, or against none when any of them is exhausted.
+  consumeRateLimit(userId: string, buckets: RateLimitBucket[]): Promise<RateLimitResult>;
+  clearRateLimits(userId: string, keys: string[]): Promise<void>;
+  // Resolves false when the code is already in use.
+  claimChannelCode(code: string): Promise<boolean>;
+  // Resolves true for at most one caller per name until ttlMs has passed; the lock is never released early.
+  acquireLock(name: string, ttlMs: number): Promise<boolean>;
+  setRosterMember(channelCode: string, member: RosterMember): Promise<void>;
+  removeRosterMember(channelCode: string, userId: string): Promise<void>;
+  listRoster(channelCode: string): Promise<RosterMember[]>;
+  // Codes of channels with at least one roster member on any instance.
+  listChannels(): Promise<string[]>;
+  getRosterVersion(channelCode: string): Promise<number>;
+  nextRosterVersion(channelCode: string): Promise<number>;
+  // A holder past its deadline counts as gone. The candidate takes a free floor or one held at a priority in outranks.
+  takeFloor(channelCode: string, candidate: FloorHolder, outranks: MessagePriority[]): Promise<FloorTakeResult>;
+  // Applies the priority only over one in outranks and keeps the deadline. Resolves null unless the user holds the floor.
+  raiseFloorPriority(
+    channelCode: string,
+    userId: string,
+    priority: MessagePriority,
+    outranks: MessagePriority[],
+  ): Promise<FloorHolder | null>;
+  // Resolves the cleared holder, or null when the user did not hold the floor.
+  releaseFloor(channelCode: string, userId: string): Promise<FloorHolder | null>;
+  getFloor(channelCode: string): Promise<FloorHolder | null>;
+};
+
+export const isFloorActive = (holder: FloorHolder | null): holder is FloorHolder =>
+  holder !== null && holder.expiresAt.getTime() > Date.now();
+
+// The rule behind takeFloor, for stores that hold the current holder in process memory.
+export const decideFloorTake = (
+  current: FloorHolder | null,
+  candidate: FloorHolder,
+  outranks: MessagePriority[],
+): FloorTakeResult => {
+  if (!isFloorActive(current)) {
+    return { status: 'granted', holder: candidate, preempted: null };
+  }
+  if (current.userId === candidate.userId) {
+    return { status: 'held', holder: current };
+  }
+  if (!outranks.includes(current.priority)) {
+    return { status: 'busy', holder: current };
+  }
+  return { status: 'granted', holder: candidate, preempted: current };
+};
+
+type RosterEntry = {
+  members: Map<string, RosterMember>;
+  version: number;
+};
+
+const rateLimitKey = (userId: string, key: string) => `${userId}:${key}`;
+
+export const createMemorySharedState = (): SharedState => {
+  const rateLimits = new Map<string, { count: number; resetAt: number }>();
+  const claimedCodes = new Set<string>();
+  const locks = new Map<string, number>();
+  const rosters = new Map<string, RosterEntry>();
+  const floors = new Map<string, FloorHolder>();
+
+  const getRoster = (channelCode: string) => {
+    let roster = rosters.get(channelCode);
+    if (!roster) {
+      roster = { members: new Map(), version: 0 };
+      rosters.set(channelCode, roster);
+    }
+    return roster;
+  };
+
+  return {
+    close: async () => {},
+
+    consumeRateLimit: async (userId, buckets) => {
+      const now = Date.now();
+      let retryAfterMs = 0;
+      buckets.forEach(({ key, max }) => {
+        const entry = rateLimits.get(rateLimitKey(userId, key));
+        if (entry && now < entry.resetAt && entry.count >= max) {
+          retryAfterMs = Math.max(retryAfterMs, entry.resetAt - now);
+        }
+      });
+      if (retryAfterMs > 0) {
+        return { allowed: false, retryAfterMs };
+      }
+
+      buckets.forEach(({ key, windowMs }) => {
+        const entry = rateLimits.get(rateLimitKey(userId, key));
+        if (!entry || now >= entry.resetAt) {
+          rateLimits.set(rateLimitKey(userId, key), { count: 1, resetAt: now + windowMs });
+        } else {
+          entry.count += 1;
+        }
+      });
+      return { allowed: true, retryAfterMs: 0 };
+    },
+
+    clearRateLimits: async (userId, keys) => {
+      keys.forEach((key) => rateLimits.delete(rateLimitKey(userId, key)));
+    },
+
+    claimChannelCode: async (code) => {
+      if (claimedCodes.has(code)) {
+        return false;
+      }
+      claimedCodes.add(code);
+      return true;
+    },
+
+    acquireLock: async (name, ttlMs) => {
+      const now = Date.now();
+      if ((locks.get(name) ?? 0) > now) {
+        return false;
+      }
+      locks.set(name, now + ttlMs);
+      return true;
+    },
+
+    setRosterMember: async (channelCode, member) => {
+      getRoster(channelCode).members.set(member.id, member);
+    },
+
+    removeRosterMember: async (channelCode, userId) => {
+      const roster = rosters.get(channelCode);
+      roster?.members.delete(userId);
+      if (!roster || roster.members.size === 0) {
+        rosters.delete(channelCode);
+        claimedCodes.delete(channelCode);
+      }
+    },
+
+    listRoster: async (channelCode) => Array.from(rosters.get(channelCode)?.members.values() ?? []),
+
+    listChannels: async () =>
+      Array.from(rosters.entries())
+        .filter(([, roster]) => roster.members.size > 0)
+        .map(([channelCode]) => channelCode),
+
+    getRosterVersion: async (channelCode) => rosters.get(channelCode)?.version ?? 0,
+
+    nextRosterVersion: async (channelCode) => {
+      const roster = getRoster(channelCode);
+      roster.version += 1;
+      return roster.version;
+    },
+
+    takeFloor: async (channelCode, candidate, outranks) => {
+      const current = floors.get(channelCode);
+      const result = decideFloorTake(current ? { ...current } : null, candidate, outranks);
+      if (result.status === 'granted') {
+        floors.set(channelCode, { ...candidate });
+      }
+      return result;
+    },
+
+    raiseFloorPriority: async (channelCode, userId, priority, outranks) => {
+      const holder = floors.get(channelCode);
+      if (!holder || holder.userId !== userId) {
+        return null;
+      }
+      if (outranks.includes(holder.priority)) {
+        holder.priority = priority;
+      }
+      return { ...holder };
+    },
+
+    releaseFloor: async (channelCode, userId) => {
+      const holder = floors.get(channelCode);
+      if (!holder || holder.userId !== userId) {
+        return null;
+      }
+      floors.delete(channelCode);
+      return holder;
+    },
+
+    getFloor: async (channelCode) => {
+      const holder = floors.get(channelCode) ?? null;
+      return isFloorActive(holder) ? { ...holder } : null;
+    },
+  };
+};
+
+// With REDIS_URL set, rooms fan out through the Redis adapter and shared state lives in Redis.
+export const createSharedState = async (io: Server): Promise<SharedState> => {
+  if (REDIS_URL) {
+    return connectRedisSharedState(io, REDIS_URL);
+  }
+  return createMemorySharedState();
+};
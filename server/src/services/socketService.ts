@@ -1,12 +1,53 @@
 import { randomInt, randomUUID } from 'crypto';
-import path from 'path';
 import type { Server, Socket } from 'socket.io';
-import type { AudioMessage, Channel, EmergencyBroadcast, MessagePriority, User } from '@walkie/shared/types';
-import { DatabaseService } from './databaseService';
-import { createEmergencyService } from './emergencyService';
+import type {
+  AudioMessage,
+  Channel,
+  ChannelPolicy,
+  ChannelRole,
+  GeoLocation,
+  MessagePriority,
+  QuickResponse,
+  ScanMode,
+  TextMessage,
+  User,
+  UserLocation,
+  UserPresence,
+} from '@walkie/shared/types';
+import {
+  BINARY_AUDIO_PROTOCOL,
+  LEGACY_AUDIO_PROTOCOL,
+  createAudioEncoder,
+  resolveAudioProtocol,
+  type AudioProtocolVersion,
+  type AudioWirePayload,
+} from './audioProtocol';
+import { createCleanupService } from './cleanupService';
+import type { ClusterBus } from './clusterBus';
+import { createEmergencyService, type EmergencyChange } from './emergencyService';
+import { createFloorService, type FloorChange } from './floorService';
+import { createGeofenceService } from './geofenceService';
+import { createReceiptService, type ReceiptEvent } from './receiptService';
+import {
+  createHistoryService,
+  DEFAULT_HISTORY_WINDOW,
+  type HistoryPage,
+  type HistoryWindow,
+} from './historyService';
+import { createLocationService, normalizeLocation } from './locationService';
+import { createMembershipService, type Membership, type MembershipMode } from './membershipService';
+import { createModerationService, type ModerationChange, type RemovalReason } from './moderationService';
+import { createPassphraseService, normalizePassphrase } from './passphraseService';
+import { createPresenceService } from './presenceService';
+import { createSessionService } from './sessionService';
+import type { FloorHolder, RateLimitBucket, RosterMember, SharedState } from './sharedState';
+import type { AudioMessageRecord, ChannelBanRecord, ChannelMessageRecord, Storage } from './storage';
+import { createStreamService } from './streamService';
 
 const CHANNEL_CODE_REGEX = /^\d{4}$/;
 const MAX_USERS_PER_CHANNEL = 20;
+const MAX_SCAN_CHANNELS = Number(process.env.MAX_SCAN_CHANNELS ?? 8);
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS ?? 1);
 const MAX_CODE_GENERATION_ATTEMPTS = 200;
 const MIN_NICKNAME_LENGTH = 1;
 const MAX_NICKNAME_LENGTH = 24;
@@ -14,8 +55,21 @@ const MAX_AUDIO_BYTES = Number(process.env.MAX_AUDIO_BYTES ?? 1_000_000);
 const MAX_AUDIO_DURATION_MS = Number(process.env.MAX_AUDIO_DURATION_MS ?? 30_000);
 const AUDIO_RATE_LIMIT_WINDOW_MS = Number(process.env.AUDIO_RATE_LIMIT_WINDOW_MS ?? 60_000);
 const AUDIO_RATE_LIMIT_MAX = Number(process.env.AUDIO_RATE_LIMIT_MAX ?? 30);
-const DB_PATH =
-  process.env.DB_PATH ?? path.resolve(process.cwd(), 'data', 'walkie.sqlite');
+const AUDIO_PRIORITY_RATE_LIMITS: Record<MessagePriority, number> = {
+  routine: AUDIO_RATE_LIMIT_MAX,
+  important: Number(process.env.AUDIO_RATE_LIMIT_IMPORTANT_MAX ?? 10),
+  urgent: Number(process.env.AUDIO_RATE_LIMIT_URGENT_MAX ?? 3),
+};
+const MAX_TEXT_LENGTH = Number(process.env.MAX_TEXT_LENGTH ?? 500);
+const QUICK_RATE_LIMIT_WINDOW_MS = Number(process.env.QUICK_RATE_LIMIT_WINDOW_MS ?? 60_000);
+const QUICK_RATE_LIMIT_MAX = Number(process.env.QUICK_RATE_LIMIT_MAX ?? 12);
+const QUICK_RESPONSE_MESSAGES: Record<QuickResponse['kind'], string> = {
+  ack: 'Acknowledged',
+  clear: 'All clear',
+  assist: 'Need assistance',
+  standby: 'Standing by',
+  enroute: 'En route',
+};
 const ALLOWED_MIME_TYPES = new Set([
   'audio/webm;codecs=opus',
   'audio/webm',
@@ -23,43 +77,126 @@ const ALLOWED_MIME_TYPES = new Set([
   'audio/mp4',
 ]);
 
+const AUDIO_PROTOCOLS: AudioProtocolVersion[] = [LEGACY_AUDIO_PROTOCOL, BINARY_AUDIO_PROTOCOL];
+
+// Per-member and per-encoding rooms let private and audio sends reach sockets on any instance.
+const userRoom = (userId: string) => `user:${userId}`;
+const audioProtocolRoom = (version: AudioProtocolVersion) => `audio:v${version}`;
+
 export type ChannelState = {
   channel: Channel;
   users: Map<string, UserState>;
   lastActivityAt: Date;
+  floor: FloorHolder | null;
+  passphraseHash: string | null;
+  roles: Map<string, ChannelRole>;
+  mutes: Map<string, Date>;
+  bans: ChannelBanRecord[];
+  policy: ChannelPolicy;
 };
 
 export type UserState = {
   user: User;
   socketId: string;
   lastActivityAt: Date;
+  presence: UserPresence | null;
+  location: UserLocation | null;
 };
 
 type AckResponse<T> =
   | { ok: true; data: T }
-  | { ok: false; error: string; code: 'invalid_payload' | 'channel_full' | 'not_found' | 'internal' };
+  | {
+      ok: false;
+      error: string;
+      code:
+        | 'invalid_payload'
+        | 'channel_full'
+        | 'not_found'
+        | 'passphrase_required'
+        | 'rate_limited'
+        | 'banned'
+        | 'internal';
+      retryAfterMs?: number;
+    };
+
+type AckFailure = Extract<AckResponse<never>, { ok: false }>;
 
 type ChannelCreatePayload = {
   nickname: string;
+  passphrase?: string;
 };
 
 type ChannelJoinPayload = {
   channelCode: string;
   nickname: string;
+  passphrase?: string;
+  resumeToken?: string;
+  history?: HistoryWindow;
+};
+
+type ChannelHistoryPayload = {
+  channelCode: string;
+  cursor?: string;
+  window?: HistoryWindow;
+};
+
+type ChannelHistoryResponse = {
+  channelCode: string;
+  messages: AudioMessageOutbound[];
+  textMessages: TextMessageOutbound[];
+  nextCursor: string | null;
 };
 
 type ChannelLeavePayload = {
   channelCode: string;
 };
 
+type ScanJoinPayload = {
+  channelCode: string;
+  nickname: string;
+  mode: ScanMode;
+  passphrase?: string;
+  resumeToken?: string;
+};
+
+type ScanModePayload = {
+  channelCode: string;
+  mode: ScanMode;
+};
+
+type ChannelRoster = {
+  channelCode: string;
+  version: number;
+  members: RosterMember[];
+};
+
+type ChannelRosterPayload = {
+  channelCode: string;
+};
+
 type ChannelCreateResponse = {
   channel: Channel;
   user: User;
+  resumeToken: string;
+  roster: ChannelRoster;
+  policy: ChannelPolicy;
 };
 
 type ChannelJoinResponse = {
   channel: Channel;
   user: User;
+  resumeToken: string;
+  roster: ChannelRoster;
+  policy: ChannelPolicy;
+};
+
+type ScanJoinResponse = {
+  channel: Channel;
+  user: User;
+  mode: ScanMode;
+  resumeToken: string;
+  roster: ChannelRoster;
+  policy: ChannelPolicy;
 };
 
 type ChannelLeaveResponse = {
@@ -68,11 +205,7 @@ type ChannelLeaveResponse = {
   leftAt: Date;
 };
 
-type AudioLocation = {
-  lat: number;
-  lng: number;
-  accuracy?: number;
-};
+type AudioLocation = GeoLocation;
 
 type AudioMimeType = AudioMessage['mimeType'];
 
@@ -94,24 +227,61 @@ type SendAudioMessagePayload = {
   channelCode: string;
   senderId: string;
   senderNickname: string;
-  audioBase64: string;
+  audio?: Buffer;
+  audioBase64?: string;
   mimeType: string;
   durationMs: number;
   priority: MessagePriority;
   location?: AudioLocation;
+  recipientUserIds?: string[];
 };
 
-type AudioMessageOutbound = {
+type AudioMessageMeta = {
   id: string;
   channelCode: string;
   senderNickname: string;
-  audioBase64: string;
   mimeType: string;
   priority: MessagePriority;
   timestamp: string;
   location?: AudioLocation;
+  recipientUserIds?: string[];
 };
 
+type AudioMessageOutbound = AudioMessageMeta & AudioWirePayload;
+
+type SendTextMessagePayload = {
+  channelCode: string;
+  body: string;
+  priority?: MessagePriority;
+};
+
+type TextMessageOutbound = {
+  id: string;
+  channelCode: string;
+  senderNickname: string;
+  priority: MessagePriority;
+  body: string;
+  timestamp: string;
+};
+
+type QuickResponsePayload = {
+  channelCode: string;
+  kind: QuickResponse['kind'];
+};
+
+type QuickResponseOutbound = Omit<QuickResponse, 'createdAt'> & {
+  timestamp: string;
+};
+
+type QuickResponseAck =
+  | { ok: true; data: QuickResponseOutbound }
+  | {
+      ok: false;
+      error: string;
+      code: 'invalid_payload' | 'not_found' | 'rate_limited' | 'muted' | 'internal';
+      retryAfterMs?: number;
+    };
+
 type AudioAck =
   | { ok: true; data: { id: string; timestamp: string } }
   | {
@@ -124,69 +294,301 @@ type AudioAck =
         | 'rate_limited'
         | 'not_found'
         | 'unauthorized'
+        | 'floor_busy'
+        | 'muted'
+        | 'forbidden'
         | 'internal';
       retryAfterMs?: number;
     };
 
-type EmergencyAck =
-  | { ok: true; data: { broadcast: EmergencyBroadcast } }
-  | { ok: false; error: string; code: string; retryAfterMs?: number };
+type SocketServiceDeps = {
+  storage: Storage;
+  sharedState: SharedState;
+  clusterBus: ClusterBus;
+};
 
-export const createSocketService = (io: Server) => {
+export const createSocketService = (io: Server, deps: SocketServiceDeps) => {
+  const { storage, sharedState, clusterBus } = deps;
   const channels = new Map<string, ChannelState>();
-  const socketIndex = new Map<string, { channelCode: string; userId: string }>();
-  const audioRateLimit = new Map<string, { count: number; resetAt: number }>();
-  const db = (() => {
+  const memberships = createMembershipService();
+  const socketProtocols = new Map<string, AudioProtocolVersion>();
+  const historyService = createHistoryService(storage);
+  const sessionService = createSessionService();
+  const passphraseService = createPassphraseService();
+  // Fails open: an unreachable shared store should not silence the radio.
+  const consumeRateLimit = async (userId: string, buckets: RateLimitBucket[]) => {
     try {
-      return new DatabaseService({ filename: DB_PATH, maxAudioBytes: MAX_AUDIO_BYTES });
+      return await sharedState.consumeRateLimit(userId, buckets);
     } catch (error) {
-      console.error('[db] initialization failed', error);
-      return null;
+      console.error('[cluster] rate limit check failed', error);
+      return { allowed: true, retryAfterMs: 0 };
     }
-  })();
+  };
+
   const emergencyService = createEmergencyService(io, {
-    getUserContext: (socketId: string) => {
-      const indexed = socketIndex.get(socketId);
-      if (!indexed) {
-        return null;
-      }
-      const channelState = channels.get(indexed.channelCode);
-      if (!channelState) {
-        return null;
-      }
-      const userState = channelState.users.get(indexed.userId);
-      if (!userState) {
-        return null;
-      }
-      return { user: userState.user, channelCode: indexed.channelCode };
+    storage,
+    consumeRateLimit,
+    // Listen-only members may still acknowledge an alert raised on a channel they monitor.
+    getUserContext: (socketId: string, channelCode?: string) => {
+      const context = getMemberContext(socketId, channelCode, channelCode !== undefined);
+      return context ? { user: context.user, channelCode: context.channelState.channel.code } : null;
     },
     touchActivity: (socketId: string) => {
-      const indexed = socketIndex.get(socketId);
-      if (!indexed) {
-        return;
-      }
-      const channelState = channels.get(indexed.channelCode);
-      if (!channelState) {
-        return;
-      }
-      const userState = channelState.users.get(indexed.userId);
-      if (!userState) {
+      const context = getMemberContext(socketId);
+      const channelState = context?.channelState;
+      const userState = context ? channelState?.users.get(context.user.id) : undefined;
+      if (!channelState || !userState) {
         return;
       }
       const now = new Date();
       userState.lastActivityAt = now;
       channelState.lastActivityAt = now;
     },
+    listRecipients: async (channelCodes: string[] | null) => {
+      const codes = channelCodes ?? (await listChannelCodes());
+      const rosters = await Promise.all(codes.map(listRosterMembers));
+      return rosters.flat().map((member) => ({ userId: member.id, nickname: member.nickname }));
+    },
+    publishChange: (change: EmergencyChange) => {
+      clusterBus.publish('emergency:change', change);
+    },
+  });
+
+  clusterBus.subscribe('emergency:change', emergencyService.handleRemoteChange);
+
+  // Without a channel code this resolves the transmit channel. Listen-only memberships count only when asked for.
+  const getMemberContext = (socketId: string, channelCode?: string, includeListeners = false) => {
+    const membership = memberships.get(socketId, channelCode);
+    if (!membership || (membership.mode === 'listen' && !includeListeners)) {
+      return null;
+    }
+    const channelState = channels.get(membership.channelCode);
+    const userState = channelState?.users.get(membership.userId);
+    if (!channelState || !userState) {
+      return null;
+    }
+    return { user: userState.user, channelState };
+  };
+
+  // Mirrors Express `trust proxy`: only the entries appended by trusted hops count, never the client-supplied ones.
+  const getClientIp = (socket: Socket) => {
+    const forwarded = socket.handshake.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : (forwarded ?? ''))
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const addresses = [...hops, socket.handshake.address];
+    return addresses[Math.max(0, addresses.length - 1 - TRUST_PROXY_HOPS)];
+  };
+
+  const moderationService = createModerationService({
+    storage,
+    getMemberContext,
+    getChannelState: (channelCode: string) => channels.get(channelCode) ?? null,
+    getRosterUser: async (channelCode: string, userId: string) =>
+      (await listRosterMembers(channelCode)).find((member) => member.id === userId) ?? null,
+    getClientIp: (socketId: string) => {
+      const socket = io.sockets.sockets.get(socketId);
+      return socket ? getClientIp(socket) : null;
+    },
+    publish: (change: ModerationChange) => {
+      clusterBus.publish('moderation:change', change);
+    },
+    removeUser: (channelCode: string, userId: string, reason: RemovalReason) => {
+      expelUser(channelCode, userId, reason);
+    },
+    onUserUpdated: (channelCode: string, user: User) => {
+      emitUserStatus(channelCode, user);
+    },
+    onPolicyUpdated: (channelCode: string, policy: ChannelPolicy) => {
+      io.to(channelCode).emit('channel:policy', { channelCode, policy });
+    },
+  });
+  clusterBus.subscribe('moderation:change', moderationService.handleRemoteChange);
+
+  const presenceService = createPresenceService(io, {
+    getMemberContext,
+    getChannelState: (channelCode: string) => channels.get(channelCode) ?? null,
+    onPresenceChanged: (channelCode, userId) => {
+      syncRosterMember(channelCode, userId);
+    },
+  });
+
+  const geofenceService = createGeofenceService(io, {
+    storage,
+    getMemberContext,
+    raiseAlert: (channelCode, sender, message, priority) => {
+      emergencyService.raiseSystemAlert(channelCode, sender, message, priority);
+    },
+  });
+
+  const locationService = createLocationService(io, {
+    getMemberContext,
+    getChannelState: (channelCode: string) => channels.get(channelCode) ?? null,
+    onLocationChanged: (channelCode, user, location) => {
+      syncRosterMember(channelCode, user.id);
+      if (location) {
+        geofenceService.evaluate(channelCode, user, location);
+      } else {
+        geofenceService.clearUser(channelCode, user.id);
+      }
+    },
   });
 
-  const emitUserJoined = (channelCode: string, user: User) => {
-    io.to(channelCode).emit('user:joined', { user });
+  const receiptService = createReceiptService(io, {
+    storage,
+    getMemberContext: (socketId: string, channelCode: string) => getMemberContext(socketId, channelCode, true),
+    getUserRoom: userRoom,
+    publish: (receipt: ReceiptEvent) => {
+      clusterBus.publish('receipt:forward', receipt);
+    },
+  });
+  clusterBus.subscribe('receipt:forward', receiptService.handleRemoteReceipt);
+
+  const cleanupService = createCleanupService({
+    storage,
+    getMemberContext,
+    listActiveChannels: () =>
+      Array.from(channels.values())
+        .filter((channelState) => channelState.users.size > 0)
+        .map((channelState) => channelState.channel.code),
+    acquireLock: sharedState.acquireLock,
+  });
+  cleanupService.start();
+
+  // Returns undefined for a channel-wide message and null when the list names anyone not on the channel.
+  // Recipients may be connected to any instance, so they are checked against the shared roster.
+  const resolveRecipients = async (channelCode: string, senderId: string, value: unknown) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(value) || value.length === 0 || value.length >= MAX_USERS_PER_CHANNEL) {
+      return null;
+    }
+    const memberIds = new Set((await listRosterMembers(channelCode)).map((member) => member.id));
+    const recipients = new Set<string>();
+    for (const userId of value) {
+      if (typeof userId !== 'string' || userId === senderId || !memberIds.has(userId)) {
+        return null;
+      }
+      recipients.add(userId);
+    }
+    return Array.from(recipients);
+  };
+
+  const isMuted = (channelCode: string, userId: string) => {
+    const channelState = channels.get(channelCode);
+    return channelState ? moderationService.getMutedUntil(channelState, userId) !== null : false;
+  };
+
+  const canUsePriority = (channelCode: string, userId: string, priority: MessagePriority) => {
+    const channelState = channels.get(channelCode);
+    const userState = channelState?.users.get(userId);
+    return Boolean(channelState && userState && moderationService.canUsePriority(channelState, userState.user, priority));
+  };
+
+  const floorService = createFloorService(io, {
+    getMemberContext,
+    getChannelState: (channelCode: string) => channels.get(channelCode) ?? null,
+    isMuted,
+    canUsePriority,
+    takeFloor: sharedState.takeFloor,
+    raiseFloorPriority: sharedState.raiseFloorPriority,
+    releaseFloor: sharedState.releaseFloor,
+    getFloor: sharedState.getFloor,
+    publish: (change: FloorChange) => {
+      clusterBus.publish('floor:change', change);
+    },
+  });
+  clusterBus.subscribe('floor:change', floorService.handleRemoteChange);
+
+  const toRosterMember = (userState: UserState): RosterMember => ({
+    ...userState.user,
+    lastActivityAt: userState.lastActivityAt,
+    presence: userState.presence,
+    location: userState.location,
+  });
+
+  const listLocalMembers = (channelCode: string) =>
+    Array.from(channels.get(channelCode)?.users.values() ?? [], toRosterMember);
+
+  // Like buildRoster, falls back to this node's own members when the shared store is unreachable.
+  const listRosterMembers = async (channelCode: string) => {
+    try {
+      return await sharedState.listRoster(channelCode);
+    } catch (error) {
+      console.error('[cluster] roster read failed', error);
+      return listLocalMembers(channelCode);
+    }
+  };
+
+  const listChannelCodes = async () => {
+    try {
+      return await sharedState.listChannels();
+    } catch (error) {
+      console.error('[cluster] channel list failed', error);
+      return Array.from(channels.keys());
+    }
   };
 
-  const emitUserLeft = (channelCode: string, user: User, leftAt: Date) => {
-    io.to(channelCode).emit('user:left', { user, leftAt });
+  // The roster spans every instance; this node's own members stand in when the shared store is unreachable.
+  const buildRoster = async (channelState: ChannelState): Promise<ChannelRoster> => {
+    const channelCode = channelState.channel.code;
+    try {
+      const [members, version] = await Promise.all([
+        sharedState.listRoster(channelCode),
+        sharedState.getRosterVersion(channelCode),
+      ]);
+      return { channelCode, version, members };
+    } catch (error) {
+      console.error('[cluster] roster read failed', error);
+      return { channelCode, version: 0, members: listLocalMembers(channelCode) };
+    }
   };
 
+  const syncRosterMember = async (channelCode: string, userId: string) => {
+    const userState = channels.get(channelCode)?.users.get(userId);
+    if (!userState) {
+      return;
+    }
+    try {
+      await sharedState.setRosterMember(channelCode, toRosterMember(userState));
+    } catch (error) {
+      console.error('[cluster] roster update failed', error);
+    }
+  };
+
+  const emitRosterChange = async (channelCode: string, event: string, payload: { user: User; leftAt?: Date }) => {
+    try {
+      const rosterVersion = await sharedState.nextRosterVersion(channelCode);
+      io.to(channelCode).emit(event, { ...payload, rosterVersion });
+    } catch (error) {
+      console.error('[cluster] roster version failed', error);
+    }
+  };
+
+  const emitUserJoined = async (channelCode: string, user: User) => {
+    await syncRosterMember(channelCode, user.id);
+    await emitRosterChange(channelCode, 'user:joined', { user });
+  };
+
+  const emitUserLeft = async (channelCode: string, user: User, leftAt: Date) => {
+    await emitRosterChange(channelCode, 'user:left', { user, leftAt });
+    try {
+      await sharedState.removeRosterMember(channelCode, user.id);
+    } catch (error) {
+      console.error('[cluster] roster update failed', error);
+    }
+  };
+
+  const emitUserStatus = async (channelCode: string, user: User) => {
+    await syncRosterMember(channelCode, user.id);
+    await emitRosterChange(channelCode, 'user:status', { user });
+  };
+
+  const issueResumeToken = (user: User) =>
+    sessionService.issueToken({ userId: user.id, channelCode: user.channelCode });
+
   const normalizeNickname = (value: unknown): string | null => {
     if (typeof value !== 'string') {
       return null;
@@ -217,30 +619,6 @@ export const createSocketService = (io: Server) => {
     return Math.max(0, Math.floor((trimmed.length * 3) / 4) - padding);
   };
 
-  const normalizeLocation = (value: unknown): AudioLocation | undefined => {
-    if (!value || typeof value !== 'object') {
-      return undefined;
-    }
-    const location = value as { lat?: unknown; lng?: unknown; accuracy?: unknown };
-    if (typeof location.lat !== 'number' || typeof location.lng !== 'number') {
-      return undefined;
-    }
-    if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) {
-      return undefined;
-    }
-    if (location.accuracy !== undefined && typeof location.accuracy !== 'number') {
-      return undefined;
-    }
-    if (location.accuracy !== undefined && !Number.isFinite(location.accuracy)) {
-      return undefined;
-    }
-    return {
-      lat: location.lat,
-      lng: location.lng,
-      accuracy: location.accuracy,
-    };
-  };
-
   const normalizeMimeType = (value: string): AudioMimeType | null => {
     const base = value.split(';')[0]?.trim().toLowerCase();
     if (base === 'audio/webm' || base === 'audio/mp4') {
@@ -249,6 +627,14 @@ export const createSocketService = (io: Server) => {
     return null;
   };
 
+  const resolveMimeType = (value: string): AudioMimeType | null => {
+    const rawMimeType = value.trim().toLowerCase();
+    if (!rawMimeType.startsWith('audio/') || !ALLOWED_MIME_TYPES.has(rawMimeType)) {
+      return null;
+    }
+    return normalizeMimeType(rawMimeType);
+  };
+
   const logAudioViolation = (socket: Socket, reason: string, details?: Record<string, unknown>) => {
     console.warn('[audio] violation', {
       reason,
@@ -257,23 +643,29 @@ export const createSocketService = (io: Server) => {
     });
   };
 
-  const consumeAudioRateLimit = (userId: string) => {
-    const now = Date.now();
-    const entry = audioRateLimit.get(userId);
-    if (!entry || now >= entry.resetAt) {
-      audioRateLimit.set(userId, {
-        count: 1,
-        resetAt: now + AUDIO_RATE_LIMIT_WINDOW_MS,
+  const consumeAudioRateLimit = (userId: string, priority: MessagePriority, countOverall = true) => {
+    const buckets: RateLimitBucket[] = countOverall
+      ? [{ key: 'audio', max: AUDIO_RATE_LIMIT_MAX, windowMs: AUDIO_RATE_LIMIT_WINDOW_MS }]
+      : [];
+    if (priority !== 'routine') {
+      buckets.push({
+        key: `audio:${priority}`,
+        max: AUDIO_PRIORITY_RATE_LIMITS[priority],
+        windowMs: AUDIO_RATE_LIMIT_WINDOW_MS,
       });
-      return { allowed: true, retryAfterMs: 0 };
     }
+    return consumeRateLimit(userId, buckets);
+  };
 
-    if (entry.count >= AUDIO_RATE_LIMIT_MAX) {
-      return { allowed: false, retryAfterMs: Math.max(0, entry.resetAt - now) };
-    }
+  const consumeQuickRateLimit = (userId: string) =>
+    consumeRateLimit(userId, [{ key: 'quick', max: QUICK_RATE_LIMIT_MAX, windowMs: QUICK_RATE_LIMIT_WINDOW_MS }]);
 
-    entry.count += 1;
-    return { allowed: true, retryAfterMs: 0 };
+  const clearRateLimits = (userId: string) => {
+    sharedState
+      .clearRateLimits(userId, ['audio', 'audio:important', 'audio:urgent', 'quick'])
+      .catch((error) => {
+        console.error('[cluster] rate limit reset failed', error);
+      });
   };
 
   const decodeBase64Audio = (value: string, expectedBytes: number) => {
@@ -293,25 +685,179 @@ export const createSocketService = (io: Server) => {
     }
   };
 
+  const getAudioProtocol = (socketId: string) => socketProtocols.get(socketId) ?? LEGACY_AUDIO_PROTOCOL;
+
+  const toOutbound = (message: AudioMessageRecord, version: AudioProtocolVersion): AudioMessageOutbound => ({
+    id: message.id,
+    channelCode: message.channelCode,
+    senderNickname: message.fromNickname,
+    mimeType: message.mimeType,
+    priority: message.priority,
+    timestamp: message.createdAt.toISOString(),
+    location: message.location,
+    recipientUserIds: message.recipientUserIds,
+    ...createAudioEncoder(message.payload)(version),
+  });
+
+  // Fans out through rooms so members on other instances hear it too. Every socket sits in exactly one protocol
+  // room, so leaving out the other protocols' rooms narrows the audience to one encoding.
+  const broadcastAudioMessage = (
+    meta: AudioMessageMeta,
+    payload: Buffer,
+    senderId: string,
+    options: { versions?: AudioProtocolVersion[]; exceptSocketId?: string } = {},
+  ) => {
+    const { versions = AUDIO_PROTOCOLS, exceptSocketId } = options;
+    const audience = meta.recipientUserIds ? [senderId, ...meta.recipientUserIds].map(userRoom) : meta.channelCode;
+    const encode = createAudioEncoder(payload);
+    versions.forEach((version) => {
+      const excluded = AUDIO_PROTOCOLS.filter((other) => other !== version).map(audioProtocolRoom);
+      const outbound: AudioMessageOutbound = { ...meta, ...encode(version) };
+      const target = io.to(audience).except(exceptSocketId ? [...excluded, exceptSocketId] : excluded);
+      target.emit('audio-message', outbound);
+      target.emit('audio:message', { message: outbound });
+    });
+  };
+
+  const toTextOutbound = (message: TextMessage): TextMessageOutbound => ({
+    id: message.id,
+    channelCode: message.channelCode,
+    senderNickname: message.fromNickname,
+    priority: message.priority,
+    body: message.body,
+    timestamp: message.createdAt.toISOString(),
+  });
+
+  const toHistoryResponse = (socket: Socket, channelCode: string, page: HistoryPage): ChannelHistoryResponse => {
+    const version = getAudioProtocol(socket.id);
+    const audio: AudioMessageOutbound[] = [];
+    const text: TextMessageOutbound[] = [];
+    page.records.forEach((record: ChannelMessageRecord) => {
+      if (record.kind === 'text') {
+        text.push(toTextOutbound(record));
+      } else {
+        audio.push(toOutbound(record, version));
+      }
+    });
+    return { channelCode, messages: audio, textMessages: text, nextCursor: page.nextCursor };
+  };
+
+  const toQuickOutbound = (response: QuickResponse): QuickResponseOutbound => ({
+    id: response.id,
+    channelCode: response.channelCode,
+    fromUserId: response.fromUserId,
+    fromNickname: response.fromNickname,
+    kind: response.kind,
+    message: response.message,
+    timestamp: response.createdAt.toISOString(),
+  });
+
+  const emitQuickHistory = async (socket: Socket, channelCode: string, window: HistoryWindow) => {
+    try {
+      const viewerId = memberships.get(socket.id, channelCode)?.userId ?? '';
+      const responses = await historyService.loadQuickResponses(channelCode, viewerId, window);
+      socket.emit('quick:history', { channelCode, responses: responses.map(toQuickOutbound) });
+    } catch (error) {
+      console.error('[quick] history load failed', error);
+    }
+  };
+
+  const emitHistory = async (socket: Socket, channelCode: string, window: HistoryWindow) => {
+    try {
+      const viewerId = memberships.get(socket.id, channelCode)?.userId ?? '';
+      const page = await historyService.loadWindow(channelCode, viewerId, window);
+      socket.emit('audio-history', toHistoryResponse(socket, channelCode, page));
+    } catch (error) {
+      console.error('[audio] history load failed', error);
+    }
+    await emitQuickHistory(socket, channelCode, window);
+  };
+
+  const persistAudioMessage = async (record: AudioMessageRecord) => {
+    const channelState = channels.get(record.channelCode);
+    if (channelState) {
+      await storage.upsertChannel(channelState.channel, record.createdAt);
+    }
+    await storage.recordAudioMessage(record);
+
+    const now = new Date();
+    const userState = channelState?.users.get(record.fromUserId);
+    if (userState) {
+      userState.lastActivityAt = now;
+    }
+    if (channelState) {
+      channelState.lastActivityAt = now;
+    }
+  };
+
+  const streamService = createStreamService(io, {
+    maxBytes: MAX_AUDIO_BYTES,
+    maxDurationMs: MAX_AUDIO_DURATION_MS,
+    getMemberContext,
+    resolveMimeType,
+    normalizeLocation,
+    resolveRecipients,
+    getUserRoom: userRoom,
+    canTransmit: floorService.canTransmit,
+    acquireFloor: floorService.acquireFloor,
+    holdsFloor: floorService.holdsFloor,
+    raiseFloorPriority: floorService.raisePriority,
+    isMuted,
+    canUsePriority,
+    consumeRateLimit: consumeAudioRateLimit,
+    persistMessage: persistAudioMessage,
+    onMessageStored: (record, senderSocketId) => {
+      receiptService.track(record);
+      broadcastAudioMessage(
+        {
+          id: record.id,
+          channelCode: record.channelCode,
+          senderNickname: record.fromNickname,
+          mimeType: record.mimeType,
+          priority: record.priority,
+          timestamp: record.createdAt.toISOString(),
+          location: record.location,
+          recipientUserIds: record.recipientUserIds,
+        },
+        record.payload,
+        record.fromUserId,
+        { versions: [LEGACY_AUDIO_PROTOCOL], exceptSocketId: senderSocketId },
+      );
+    },
+    onTransmissionComplete: (channelCode, userId) => {
+      floorService.releaseFloor(channelCode, 'sent', userId);
+    },
+  });
+
   const respond = <T>(ack: ((response: AckResponse<T>) => void) | undefined, payload: AckResponse<T>) => {
     if (ack) {
       ack(payload);
     }
   };
 
-  const createChannel = (channel: Channel): ChannelState => {
+  const createChannel = (channel: Channel, passphraseHash: string | null = null): ChannelState => {
     const now = new Date();
     const state: ChannelState = {
       channel,
       users: new Map(),
       lastActivityAt: now,
+      floor: null,
+      passphraseHash,
+      roles: new Map(),
+      mutes: new Map(),
+      bans: [],
+      policy: { urgentMinRole: 'member' },
     };
 
     channels.set(channel.code, state);
-    db?.upsertChannel(channel, now);
     return state;
   };
 
+  const persistChannel = async (channelState: ChannelState) => {
+    await storage.upsertChannel(channelState.channel, channelState.lastActivityAt);
+    await storage.setChannelPassphraseHash(channelState.channel.code, channelState.passphraseHash);
+  };
+
   const buildChannel = (channelCode: string) => {
     const now = new Date();
     return {
@@ -321,185 +867,648 @@ export const createSocketService = (io: Server) => {
     } satisfies Channel;
   };
 
-  const getOrCreateChannel = (channelCode: string): ChannelState => {
+  const getOrCreateChannel = (channelCode: string, passphraseHash: string | null = null): ChannelState => {
     const existing = channels.get(channelCode);
     if (existing) {
       return existing;
     }
-    return createChannel(buildChannel(channelCode));
+    return createChannel(buildChannel(channelCode), passphraseHash);
   };
 
-  const generateChannelCode = (): string | null => {
+  const getJoinAttemptKeys = (socket: Socket) => [`ip:${getClientIp(socket)}`, `socket:${socket.id}`];
+
+  // Codes are claimed in the shared store so two instances never hand out the same one. A stored channel keeps its
+  // roles, bans and history, so its code is skipped until idle cleanup deletes it.
+  const generateChannelCode = async (): Promise<string | null> => {
     for (let attempt = 0; attempt < MAX_CODE_GENERATION_ATTEMPTS; attempt += 1) {
       const code = String(randomInt(0, 10000)).padStart(4, '0');
-      if (!channels.has(code)) {
+      if (
+        !channels.has(code) &&
+        !(await storage.getChannelByCode(code)) &&
+        (await sharedState.claimChannelCode(code))
+      ) {
         return code;
       }
     }
     return null;
   };
 
-  const attachUserToChannel = (socket: Socket, channelState: ChannelState, nickname: string) => {
+  const attachUserToChannel = (
+    socket: Socket,
+    channelState: ChannelState,
+    nickname: string,
+    userId: string = randomUUID(),
+    mode: MembershipMode = 'transmit',
+  ) => {
     const now = new Date();
     const user: User = {
-      id: randomUUID(),
+      id: userId,
       nickname,
       channelCode: channelState.channel.code,
       joinedAt: now,
       connectionStatus: 'connected',
+      role: moderationService.getRole(channelState, userId),
+      mutedUntil: moderationService.getMutedUntil(channelState, userId),
+      ...(mode === 'listen' ? { listenOnly: true } : {}),
     };
 
     const userState: UserState = {
       user,
       socketId: socket.id,
       lastActivityAt: now,
+      presence: null,
+      location: null,
     };
 
     channelState.users.set(user.id, userState);
     channelState.lastActivityAt = now;
-    socketIndex.set(socket.id, { channelCode: channelState.channel.code, userId: user.id });
-    socket.join(channelState.channel.code);
+    memberships.set(socket.id, { channelCode: channelState.channel.code, userId: user.id, mode });
+    socket.join([channelState.channel.code, userRoom(user.id)]);
 
     return userState;
   };
 
+  const detachUser = (channelState: ChannelState, userState: UserState) => {
+    const channelCode = channelState.channel.code;
+    const now = new Date();
+    sessionService.cancelExpiry(userState.user.id);
+    userState.user.connectionStatus = 'disconnected';
+    userState.lastActivityAt = now;
+    channelState.users.delete(userState.user.id);
+    channelState.lastActivityAt = now;
+    clearRateLimits(userState.user.id);
+    presenceService.clearUser(channelCode, userState.user.id);
+    locationService.clearUser(channelCode, userState.user.id);
+    geofenceService.clearUser(channelCode, userState.user.id);
+
+    floorService.releaseFloor(channelCode, 'left', userState.user.id);
+    emitUserLeft(channelCode, userState.user, now);
+
+    if (channelState.users.size === 0) {
+      floorService.clearChannel(channelCode);
+      moderationService.clearChannel(channelCode);
+      presenceService.clearChannel(channelCode);
+      locationService.clearChannel(channelCode);
+      geofenceService.clearChannel(channelCode);
+      receiptService.clearChannel(channelCode);
+      channels.delete(channelCode);
+    }
+  };
+
+  const expelUser = (channelCode: string, userId: string, reason: RemovalReason) => {
+    const channelState = channels.get(channelCode);
+    const userState = channelState?.users.get(userId);
+    if (!channelState || !userState) {
+      return;
+    }
+    const membership = memberships.remove(userState.socketId, channelCode);
+    if (membership?.mode === 'transmit') {
+      streamService.abortSocketStreams(userState.socketId);
+    }
+    const socket = io.sockets.sockets.get(userState.socketId);
+    socket?.leave(channelCode);
+    socket?.leave(userRoom(userId));
+    socket?.emit('channel:removed', { channelCode, reason });
+    detachUser(channelState, userState);
+  };
+
+  const suspendUser = (channelState: ChannelState, userState: UserState) => {
+    const channelCode = channelState.channel.code;
+    const userId = userState.user.id;
+    userState.user.connectionStatus = 'disconnected';
+    userState.lastActivityAt = new Date();
+
+    floorService.releaseFloor(channelCode, 'left', userId);
+    emitUserStatus(channelCode, userState.user);
+
+    sessionService.scheduleExpiry(userId, () => {
+      const currentChannel = channels.get(channelCode);
+      const currentUser = currentChannel?.users.get(userId);
+      if (currentChannel && currentUser && currentUser.user.connectionStatus === 'disconnected') {
+        detachUser(currentChannel, currentUser);
+      }
+    });
+  };
+
+  const removeMembership = (socket: Socket, membership: Membership, reason: 'leave' | 'disconnect') => {
+    memberships.remove(socket.id, membership.channelCode);
+
+    const channelState = channels.get(membership.channelCode);
+    if (!channelState) {
+      clearRateLimits(membership.userId);
+      return;
+    }
+
+    const userState = channelState.users.get(membership.userId);
+    if (!userState) {
+      clearRateLimits(membership.userId);
+      if (channelState.users.size === 0) {
+        floorService.clearChannel(membership.channelCode);
+        channels.delete(membership.channelCode);
+      }
+      return;
+    }
+
+    // Only the transmit channel is held open for a resume; the client rejoins its scan list itself.
+    if (reason === 'disconnect' && membership.mode === 'transmit') {
+      suspendUser(channelState, userState);
+      return;
+    }
+
+    socket.leave(membership.channelCode);
+    socket.leave(userRoom(membership.userId));
+    detachUser(channelState, userState);
+  };
+
   const removeUserFromChannel = (socket: Socket, reason: 'leave' | 'disconnect') => {
-    const indexed = socketIndex.get(socket.id);
-    if (!indexed) {
+    const membership = memberships.get(socket.id);
+    if (!membership) {
       return;
     }
+    streamService.abortSocketStreams(socket.id);
+    removeMembership(socket, membership, reason);
+  };
 
-    const channelState = channels.get(indexed.channelCode);
+  const removeSocket = (socket: Socket) => {
+    removeUserFromChannel(socket, 'disconnect');
+    memberships.listScans(socket.id).forEach((membership) => removeMembership(socket, membership, 'disconnect'));
+  };
+
+  const resumeSession = async (socket: Socket) => {
+    const token = (socket.handshake.auth as { resumeToken?: unknown } | undefined)?.resumeToken;
+    if (token === undefined) {
+      return;
+    }
+    const claims = sessionService.verifyToken(token);
+    const channelState = claims ? channels.get(claims.channelCode) : undefined;
+    const userState = claims ? channelState?.users.get(claims.userId) : undefined;
+    if (!claims || !channelState || !userState) {
+      socket.emit('session:expired', { channelCode: claims?.channelCode ?? null });
+      return;
+    }
+
+    const previousSocketId = userState.socketId;
+    const previous = memberships.get(previousSocketId, claims.channelCode);
+    if (previousSocketId !== socket.id && previous?.userId === userState.user.id) {
+      streamService.abortSocketStreams(previousSocketId);
+      memberships.remove(previousSocketId, claims.channelCode);
+      floorService.releaseFloor(claims.channelCode, 'left', userState.user.id);
+      io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+    }
+
+    await reattachUser(socket, channelState, userState);
+    socket.emit('session:resumed', {
+      channel: channelState.channel,
+      user: userState.user,
+      resumeToken: issueResumeToken(userState.user),
+      policy: channelState.policy,
+    });
+    socket.emit('channel:roster', await buildRoster(channelState));
+    const floor = await floorService.getSnapshot(claims.channelCode);
+    if (floor) {
+      socket.emit('floor:grant', floor);
+    }
+  };
+
+  const reattachUser = (
+    socket: Socket,
+    channelState: ChannelState,
+    userState: UserState,
+    mode: MembershipMode = 'transmit',
+  ) => {
+    const channelCode = channelState.channel.code;
+    sessionService.cancelExpiry(userState.user.id);
+    const now = new Date();
+    userState.socketId = socket.id;
+    userState.user.connectionStatus = 'connected';
+    setListenOnly(userState.user, mode === 'listen');
+    userState.lastActivityAt = now;
+    channelState.lastActivityAt = now;
+    memberships.set(socket.id, { channelCode, userId: userState.user.id, mode });
+    socket.join([channelCode, userRoom(userState.user.id)]);
+    return emitUserStatus(channelCode, userState.user);
+  };
+
+  const setListenOnly = (user: User, listenOnly: boolean) => {
+    if (listenOnly) {
+      user.listenOnly = true;
+    } else {
+      delete user.listenOnly;
+    }
+  };
+
+  const handleCreate = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<ChannelCreateResponse>) => void,
+  ) => {
+    const nickname = normalizeNickname((payload as ChannelCreatePayload)?.nickname);
+    if (!nickname) {
+      respond(ack, { ok: false, error: 'Invalid nickname.', code: 'invalid_payload' });
+      return;
+    }
+
+    const rawPassphrase = (payload as ChannelCreatePayload).passphrase;
+    const hasPassphrase = rawPassphrase !== undefined && rawPassphrase !== '';
+    const passphrase = hasPassphrase ? normalizePassphrase(rawPassphrase) : null;
+    if (hasPassphrase && !passphrase) {
+      respond(ack, { ok: false, error: 'Passphrase must be 4–128 characters.', code: 'invalid_payload' });
+      return;
+    }
+    const passphraseHash = passphrase ? await passphraseService.hash(passphrase) : null;
+
+    let channelCode: string | null;
+    try {
+      channelCode = await generateChannelCode();
+    } catch (error) {
+      console.error('[channel] code allocation failed', error);
+      channelCode = null;
+    }
+    if (!channelCode) {
+      respond(ack, { ok: false, error: 'Unable to allocate channel.', code: 'internal' });
+      return;
+    }
+
+    removeUserFromChannel(socket, 'leave');
+
+    const channelState = getOrCreateChannel(channelCode, passphraseHash);
+    if (channelState.users.size >= MAX_USERS_PER_CHANNEL) {
+      respond(ack, { ok: false, error: 'Channel full.', code: 'channel_full' });
+      return;
+    }
+
+    // The owner's role row references the channel row, so the channel is stored first.
+    try {
+      await persistChannel(channelState);
+    } catch (error) {
+      console.error('[db] channel upsert failed', error);
+    }
+    const userState = attachUserToChannel(socket, channelState, nickname);
+    // The creator owns the channel for this session even if the role row could not be stored.
+    channelState.roles.set(userState.user.id, 'owner');
+    userState.user.role = 'owner';
+    try {
+      await moderationService.setRole(channelState, userState.user.id, 'owner');
+    } catch (error) {
+      console.error('[moderation] role persist failed', error);
+    }
+    await emitUserJoined(channelCode, userState.user);
+    respond(ack, {
+      ok: true,
+      data: {
+        channel: channelState.channel,
+        user: userState.user,
+        resumeToken: issueResumeToken(userState.user),
+        roster: await buildRoster(channelState),
+        policy: channelState.policy,
+      },
+    });
+
+    emitHistory(socket, channelCode, DEFAULT_HISTORY_WINDOW);
+  };
+
+  // Loads the channel and applies the ban, passphrase and capacity checks shared by joins and scans.
+  const loadChannel = async (channelCode: string): Promise<ChannelState | null> => {
+    const channelRecord = await storage.getChannelByCode(channelCode);
+    if (!channelRecord) {
+      return null;
+    }
+    // Claiming the code keeps other instances from allocating it to a new channel.
+    const [roles, bans, mutes] = await Promise.all([
+      storage.listChannelRoles(channelCode),
+      storage.listChannelBans(channelCode),
+      storage.listChannelMutes(channelCode),
+      sharedState.claimChannelCode(channelCode),
+    ]);
+    // Another join may have loaded or created the channel while this one was reading.
+    const loaded = channels.get(channelCode);
+    if (loaded) {
+      return loaded;
+    }
+    const channelState: ChannelState = {
+      channel: channelRecord.channel,
+      users: new Map(),
+      lastActivityAt: channelRecord.lastActivityAt,
+      floor: null,
+      passphraseHash: channelRecord.passphraseHash,
+      roles,
+      mutes,
+      bans,
+      policy: channelRecord.policy,
+    };
+    channels.set(channelCode, channelState);
+    return channelState;
+  };
+
+  const admitToChannel = async (
+    socket: Socket,
+    channelCode: string,
+    credentials: { passphrase?: unknown; resumeToken?: unknown },
+  ): Promise<{ ok: true; channelState: ChannelState; identityUserId: string | null } | AckFailure> => {
+    let channelState = channels.get(channelCode);
     if (!channelState) {
-      socketIndex.delete(socket.id);
-      audioRateLimit.delete(indexed.userId);
+      try {
+        channelState = (await loadChannel(channelCode)) ?? undefined;
+      } catch (error) {
+        console.error('[db] channel load failed', error);
+        return { ok: false, error: 'Unable to load channel.', code: 'internal' };
+      }
+      if (!channelState) {
+        return { ok: false, error: 'Channel not found.', code: 'not_found' };
+      }
+      if (!socket.connected) {
+        return { ok: false, error: 'Disconnected.', code: 'not_found' };
+      }
+    }
+
+    const claims = sessionService.verifyToken(credentials.resumeToken);
+    const identityUserId = claims?.channelCode === channelCode ? claims.userId : null;
+    if (
+      moderationService.isBanned(
+        channelState,
+        identityUserId ?? '',
+        identityUserId ? null : getClientIp(socket),
+      )
+    ) {
+      console.warn('[channel] banned join rejected', { socketId: socket.id, channelCode });
+      return { ok: false, error: 'You are banned from this channel.', code: 'banned' };
+    }
+
+    if (channelState.passphraseHash) {
+      const attemptKeys = getJoinAttemptKeys(socket);
+      const lockout = passphraseService.getLockout(attemptKeys);
+      if (lockout.locked) {
+        return {
+          ok: false,
+          error: 'Too many failed attempts. Try again later.',
+          code: 'rate_limited',
+          retryAfterMs: lockout.retryAfterMs,
+        };
+      }
+      const passphrase = normalizePassphrase(credentials.passphrase);
+      if (!passphrase) {
+        return { ok: false, error: 'Passphrase required.', code: 'passphrase_required' };
+      }
+      if (!(await passphraseService.checkAttempt(attemptKeys, passphrase, channelState.passphraseHash))) {
+        console.warn('[channel] passphrase rejected', { socketId: socket.id, channelCode });
+        return { ok: false, error: 'Incorrect passphrase.', code: 'passphrase_required' };
+      }
+    }
+
+    let memberCount = channelState.users.size;
+    try {
+      memberCount = Math.max(memberCount, (await sharedState.listRoster(channelCode)).length);
+    } catch (error) {
+      console.error('[cluster] roster read failed', error);
+    }
+    if (memberCount >= MAX_USERS_PER_CHANNEL) {
+      return { ok: false, error: 'Channel full.', code: 'channel_full' };
+    }
+    return { ok: true, channelState, identityUserId };
+  };
+
+  // Rejoins a disconnected identity or adds a new member, announcing newcomers to the channel.
+  const enterChannel = async (
+    socket: Socket,
+    channelState: ChannelState,
+    nickname: string,
+    identityUserId: string | null,
+    mode: MembershipMode,
+  ) => {
+    const existingState = identityUserId ? channelState.users.get(identityUserId) : undefined;
+    if (existingState?.user.connectionStatus === 'disconnected') {
+      await reattachUser(socket, channelState, existingState, mode);
+      return existingState;
+    }
+    const reuseIdentity = identityUserId !== null && !existingState;
+    const userState = attachUserToChannel(
+      socket,
+      channelState,
+      nickname,
+      reuseIdentity ? identityUserId : undefined,
+      mode,
+    );
+    await emitUserJoined(channelState.channel.code, userState.user);
+    return userState;
+  };
+
+  const handleJoin = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<ChannelJoinResponse>) => void,
+  ) => {
+    const channelCode = isValidChannelCode((payload as ChannelJoinPayload)?.channelCode)
+      ? (payload as ChannelJoinPayload).channelCode
+      : null;
+    const nickname = normalizeNickname((payload as ChannelJoinPayload)?.nickname);
+
+    if (!channelCode || !nickname) {
+      respond(ack, { ok: false, error: 'Invalid channel code or nickname.', code: 'invalid_payload' });
+      return;
+    }
+
+    const rawHistory = (payload as ChannelJoinPayload).history;
+    const historyWindow =
+      rawHistory === undefined ? DEFAULT_HISTORY_WINDOW : historyService.normalizeWindow(rawHistory);
+    if (!historyWindow) {
+      respond(ack, { ok: false, error: 'Invalid history window.', code: 'invalid_payload' });
+      return;
+    }
+
+    const indexed = memberships.get(socket.id, channelCode);
+    const resumedState = indexed ? channels.get(channelCode) : undefined;
+    const resumedUser = indexed ? resumedState?.users.get(indexed.userId) : undefined;
+    if (indexed && resumedState && resumedUser) {
+      if (indexed.mode !== 'transmit') {
+        // Joining a scanned channel promotes it to the transmit channel under the same identity.
+        removeUserFromChannel(socket, 'leave');
+        memberships.set(socket.id, { ...indexed, mode: 'transmit' });
+        setListenOnly(resumedUser.user, false);
+        await emitUserStatus(channelCode, resumedUser.user);
+      }
+      respond(ack, {
+        ok: true,
+        data: {
+          channel: resumedState.channel,
+          user: resumedUser.user,
+          resumeToken: issueResumeToken(resumedUser.user),
+          roster: await buildRoster(resumedState),
+          policy: resumedState.policy,
+        },
+      });
+      emitHistory(socket, channelCode, historyWindow);
+      return;
+    }
+
+    const admission = await admitToChannel(socket, channelCode, payload as ChannelJoinPayload);
+    if (!admission.ok) {
+      respond(ack, admission);
+      return;
+    }
+    const { channelState } = admission;
+
+    removeUserFromChannel(socket, 'leave');
+
+    const userState = await enterChannel(socket, channelState, nickname, admission.identityUserId, 'transmit');
+    respond(ack, {
+      ok: true,
+      data: {
+        channel: channelState.channel,
+        user: userState.user,
+        resumeToken: issueResumeToken(userState.user),
+        roster: await buildRoster(channelState),
+        policy: channelState.policy,
+      },
+    });
+    const floor = await floorService.getSnapshot(channelCode);
+    if (floor) {
+      socket.emit('floor:grant', floor);
+    }
+    emitHistory(socket, channelCode, historyWindow);
+  };
+
+  const isValidScanMode = (value: unknown): value is ScanMode => value === 'full' || value === 'listen';
+
+  const applyScanMode = (channelState: ChannelState, membership: Membership, mode: ScanMode, socketId: string) => {
+    const userState = channelState.users.get(membership.userId);
+    if (!userState || membership.mode === mode) {
+      return;
+    }
+    memberships.set(socketId, { ...membership, mode });
+    setListenOnly(userState.user, mode === 'listen');
+    emitUserStatus(channelState.channel.code, userState.user);
+  };
+
+  const handleScanJoin = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<ScanJoinResponse>) => void,
+  ) => {
+    const data = payload as ScanJoinPayload;
+    const nickname = normalizeNickname(data?.nickname);
+    if (!data || !isValidChannelCode(data.channelCode) || !nickname || !isValidScanMode(data.mode)) {
+      respond(ack, { ok: false, error: 'Invalid scan request.', code: 'invalid_payload' });
+      return;
+    }
+    const existing = memberships.get(socket.id, data.channelCode);
+    if (existing?.mode === 'transmit') {
+      respond(ack, { ok: false, error: 'Already transmitting on this channel.', code: 'invalid_payload' });
+      return;
+    }
+    if (!existing && memberships.listScans(socket.id).length >= MAX_SCAN_CHANNELS) {
+      respond(ack, {
+        ok: false,
+        error: `Scan list is limited to ${MAX_SCAN_CHANNELS} channels.`,
+        code: 'invalid_payload',
+      });
       return;
     }
 
-    const userState = channelState.users.get(indexed.userId);
-    if (!userState) {
-      socketIndex.delete(socket.id);
-      audioRateLimit.delete(indexed.userId);
-      if (channelState.users.size === 0) {
-        channels.delete(indexed.channelCode);
+    let channelState = existing ? channels.get(data.channelCode) : undefined;
+    let userState = existing ? channelState?.users.get(existing.userId) : undefined;
+    if (existing && channelState && userState) {
+      applyScanMode(channelState, existing, data.mode, socket.id);
+    } else {
+      const admission = await admitToChannel(socket, data.channelCode, data);
+      if (!admission.ok) {
+        respond(ack, admission);
+        return;
       }
-      return;
+      channelState = admission.channelState;
+      userState = await enterChannel(socket, channelState, nickname, admission.identityUserId, data.mode);
     }
 
-    const now = new Date();
-    userState.user.connectionStatus = 'disconnected';
-    userState.lastActivityAt = now;
-    channelState.users.delete(indexed.userId);
-    channelState.lastActivityAt = now;
-    socketIndex.delete(socket.id);
-    audioRateLimit.delete(indexed.userId);
-    socket.leave(indexed.channelCode);
-
-    emitUserLeft(indexed.channelCode, userState.user, now);
-
-    if (channelState.users.size === 0) {
-      channels.delete(indexed.channelCode);
+    respond(ack, {
+      ok: true,
+      data: {
+        channel: channelState.channel,
+        user: userState.user,
+        mode: data.mode,
+        resumeToken: issueResumeToken(userState.user),
+        roster: await buildRoster(channelState),
+        policy: channelState.policy,
+      },
+    });
+    const floor = await floorService.getSnapshot(data.channelCode);
+    if (floor) {
+      socket.emit('floor:grant', floor);
     }
   };
 
-  const handleCreate = (
+  const handleScanMode = (
     socket: Socket,
     payload: unknown,
-    ack?: (response: AckResponse<ChannelCreateResponse>) => void,
+    ack?: (response: AckResponse<{ channelCode: string; mode: ScanMode }>) => void,
   ) => {
-    const nickname = normalizeNickname((payload as ChannelCreatePayload)?.nickname);
-    if (!nickname) {
-      respond(ack, { ok: false, error: 'Invalid nickname.', code: 'invalid_payload' });
+    const data = payload as ScanModePayload;
+    if (!data || !isValidChannelCode(data.channelCode) || !isValidScanMode(data.mode)) {
+      respond(ack, { ok: false, error: 'Invalid scan request.', code: 'invalid_payload' });
       return;
     }
-
-    const channelCode = generateChannelCode();
-    if (!channelCode) {
-      respond(ack, { ok: false, error: 'Unable to allocate channel.', code: 'internal' });
+    const membership = memberships.get(socket.id, data.channelCode);
+    const channelState = channels.get(data.channelCode);
+    if (!membership || membership.mode === 'transmit' || !channelState) {
+      respond(ack, { ok: false, error: 'Not scanning this channel.', code: 'not_found' });
       return;
     }
+    applyScanMode(channelState, membership, data.mode, socket.id);
+    respond(ack, { ok: true, data: { channelCode: data.channelCode, mode: data.mode } });
+  };
 
-    if (socketIndex.has(socket.id)) {
-      removeUserFromChannel(socket, 'leave');
+  const handleHistory = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: AckResponse<ChannelHistoryResponse>) => void,
+  ) => {
+    const data = payload as ChannelHistoryPayload;
+    if (!memberships.has(socket.id)) {
+      respond(ack, { ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
     }
-
-    const channelState = getOrCreateChannel(channelCode);
-    if (channelState.users.size >= MAX_USERS_PER_CHANNEL) {
-      respond(ack, { ok: false, error: 'Channel full.', code: 'channel_full' });
+    const indexed = isValidChannelCode(data?.channelCode) ? memberships.get(socket.id, data.channelCode) : null;
+    if (!indexed) {
+      respond(ack, { ok: false, error: 'Invalid channel code.', code: 'invalid_payload' });
       return;
     }
-
-    const userState = attachUserToChannel(socket, channelState, nickname);
-    emitUserJoined(channelCode, userState.user);
-    respond(ack, { ok: true, data: { channel: channelState.channel, user: userState.user } });
-
-    if (db) {
-      try {
-        db.upsertChannel(channelState.channel, new Date());
-        const history = db.listRecentMessages(channelCode);
-        if (history.length > 0) {
-          const ordered = [...history].sort(
-            (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
-          );
-          const messages: AudioMessageOutbound[] = ordered.map((message) => ({
-            id: message.id,
-            channelCode: message.channelCode,
-            senderNickname: message.fromNickname,
-            audioBase64: message.payload.toString('base64'),
-            mimeType: message.mimeType,
-            priority: message.priority,
-            timestamp: message.createdAt.toISOString(),
-          }));
-          socket.emit('audio-history', { messages });
+    try {
+      let page;
+      if (data.cursor !== undefined) {
+        page = await historyService.loadCursor(indexed.channelCode, indexed.userId, data.cursor);
+      } else {
+        const window = historyService.normalizeWindow(data.window ?? DEFAULT_HISTORY_WINDOW);
+        page = window ? await historyService.loadWindow(indexed.channelCode, indexed.userId, window) : null;
+        if (window) {
+          emitQuickHistory(socket, indexed.channelCode, window);
         }
-      } catch (error) {
-        console.error('[audio] history load failed', error);
       }
+      if (!page) {
+        respond(ack, { ok: false, error: 'Invalid history request.', code: 'invalid_payload' });
+        return;
+      }
+      respond(ack, { ok: true, data: toHistoryResponse(socket, indexed.channelCode, page) });
+    } catch (error) {
+      console.error('[audio] history page failed', error);
+      respond(ack, { ok: false, error: 'Unable to load history.', code: 'internal' });
     }
   };
 
-  const handleJoin = (
+  const handleRoster = async (
     socket: Socket,
     payload: unknown,
-    ack?: (response: AckResponse<ChannelJoinResponse>) => void,
+    ack?: (response: AckResponse<ChannelRoster>) => void,
   ) => {
-    const channelCode = isValidChannelCode((payload as ChannelJoinPayload)?.channelCode)
-      ? (payload as ChannelJoinPayload).channelCode
-      : null;
-    const nickname = normalizeNickname((payload as ChannelJoinPayload)?.nickname);
-
-    if (!channelCode || !nickname) {
-      respond(ack, { ok: false, error: 'Invalid channel code or nickname.', code: 'invalid_payload' });
+    if (!memberships.has(socket.id)) {
+      respond(ack, { ok: false, error: 'Not in a channel.', code: 'not_found' });
       return;
     }
-
-    let channelState = channels.get(channelCode);
+    const channelCode = (payload as ChannelRosterPayload)?.channelCode;
+    const indexed = isValidChannelCode(channelCode) ? memberships.get(socket.id, channelCode) : null;
+    const channelState = indexed ? channels.get(indexed.channelCode) : undefined;
     if (!channelState) {
-      const channelRecord = db?.getChannelByCode(channelCode) ?? null;
-      if (!channelRecord) {
-        respond(ack, { ok: false, error: 'Channel not found.', code: 'not_found' });
-        return;
-      }
-      channelState = {
-        channel: channelRecord.channel,
-        users: new Map(),
-        lastActivityAt: channelRecord.lastActivityAt,
-      };
-      channels.set(channelCode, channelState);
-    }
-
-    if (channelState.users.size >= MAX_USERS_PER_CHANNEL) {
-      respond(ack, { ok: false, error: 'Channel full.', code: 'channel_full' });
+      respond(ack, { ok: false, error: 'Invalid channel code.', code: 'invalid_payload' });
       return;
     }
-
-    if (socketIndex.has(socket.id)) {
-      removeUserFromChannel(socket, 'leave');
-    }
-
-    const userState = attachUserToChannel(socket, channelState, nickname);
-    emitUserJoined(channelCode, userState.user);
-    respond(ack, { ok: true, data: { channel: channelState.channel, user: userState.user } });
+    respond(ack, { ok: true, data: await buildRoster(channelState) });
   };
 
   const handleLeave = (
@@ -507,24 +1516,24 @@ export const createSocketService = (io: Server) => {
     payload: unknown,
     ack?: (response: AckResponse<ChannelLeaveResponse>) => void,
   ) => {
-    const indexed = socketIndex.get(socket.id);
-    if (!indexed) {
+    if (!memberships.has(socket.id)) {
       respond(ack, { ok: false, error: 'Not in a channel.', code: 'not_found' });
       return;
     }
 
-    const channelCode = isValidChannelCode((payload as ChannelLeavePayload)?.channelCode)
-      ? (payload as ChannelLeavePayload).channelCode
-      : indexed.channelCode;
-
-    if (channelCode !== indexed.channelCode) {
+    // Without a channel code this leaves the transmit channel; naming a scanned channel drops it from the scan.
+    const requestedCode = (payload as ChannelLeavePayload)?.channelCode;
+    const indexed = isValidChannelCode(requestedCode)
+      ? memberships.get(socket.id, requestedCode)
+      : memberships.get(socket.id);
+    if (!indexed) {
       respond(ack, { ok: false, error: 'Invalid channel code.', code: 'invalid_payload' });
       return;
     }
 
     const channelState = channels.get(indexed.channelCode);
     if (!channelState) {
-      socketIndex.delete(socket.id);
+      memberships.remove(socket.id, indexed.channelCode);
       respond(ack, { ok: false, error: 'Channel not found.', code: 'not_found' });
       return;
     }
@@ -532,7 +1541,11 @@ export const createSocketService = (io: Server) => {
     const userState = channelState.users.get(indexed.userId);
     const leftAt = new Date();
 
-    removeUserFromChannel(socket, 'leave');
+    if (indexed.mode === 'transmit') {
+      removeUserFromChannel(socket, 'leave');
+    } else {
+      removeMembership(socket, indexed, 'leave');
+    }
 
     respond(ack, {
       ok: true,
@@ -545,19 +1558,14 @@ export const createSocketService = (io: Server) => {
   };
 
   const handleActivity = (socket: Socket, payload: unknown) => {
-    const indexed = socketIndex.get(socket.id);
+    const requestedCode = (payload as { channelCode?: string })?.channelCode;
+    const indexed = isValidChannelCode(requestedCode)
+      ? memberships.get(socket.id, requestedCode)
+      : memberships.get(socket.id);
     if (!indexed) {
       return;
     }
 
-    const channelCode = isValidChannelCode((payload as { channelCode?: string })?.channelCode)
-      ? (payload as { channelCode?: string }).channelCode
-      : indexed.channelCode;
-
-    if (channelCode !== indexed.channelCode) {
-      return;
-    }
-
     const channelState = channels.get(indexed.channelCode);
     if (!channelState) {
       return;
@@ -573,7 +1581,133 @@ export const createSocketService = (io: Server) => {
     channelState.lastActivityAt = now;
   };
 
-  const handleSendAudioMessage = (
+  const handleSendText = async (socket: Socket, payload: unknown, ack?: (response: AudioAck) => void) => {
+    const data = payload as SendTextMessagePayload;
+    const priority = data?.priority ?? 'routine';
+    const body = typeof data?.body === 'string' ? data.body.trim() : '';
+    if (
+      !data ||
+      !isValidChannelCode(data.channelCode) ||
+      !isValidPriority(priority) ||
+      body.length === 0 ||
+      body.length > MAX_TEXT_LENGTH
+    ) {
+      ack?.({ ok: false, error: 'Invalid text message.', code: 'invalid_payload' });
+      return;
+    }
+    const context = getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return;
+    }
+    if (isMuted(data.channelCode, context.user.id)) {
+      ack?.({ ok: false, error: 'You are muted.', code: 'muted' });
+      return;
+    }
+    if (!canUsePriority(data.channelCode, context.user.id, priority)) {
+      ack?.({ ok: false, error: 'Urgent messages are restricted on this channel.', code: 'forbidden' });
+      return;
+    }
+    const rateLimit = await consumeAudioRateLimit(context.user.id, priority);
+    if (!rateLimit.allowed) {
+      ack?.({
+        ok: false,
+        error: 'Rate limited. Try again shortly.',
+        code: 'rate_limited',
+        retryAfterMs: rateLimit.retryAfterMs,
+      });
+      return;
+    }
+
+    const message: TextMessage = {
+      id: randomUUID(),
+      kind: 'text',
+      channelCode: data.channelCode,
+      fromUserId: context.user.id,
+      fromNickname: context.user.nickname,
+      createdAt: new Date(),
+      priority,
+      body,
+    };
+    try {
+      await storage.upsertChannel(context.channelState.channel, message.createdAt);
+      await storage.recordTextMessage(message);
+    } catch (error) {
+      console.error('[text] persist failed', error);
+      ack?.({ ok: false, error: 'Unable to send message.', code: 'internal' });
+      return;
+    }
+
+    const userState = context.channelState.users.get(context.user.id);
+    if (userState) {
+      userState.lastActivityAt = message.createdAt;
+    }
+    context.channelState.lastActivityAt = message.createdAt;
+    const outbound = toTextOutbound(message);
+    socket.to(data.channelCode).emit('text:message', outbound);
+    ack?.({ ok: true, data: { id: outbound.id, timestamp: outbound.timestamp } });
+  };
+
+  const handleQuickSend = async (socket: Socket, payload: unknown, ack?: (response: QuickResponseAck) => void) => {
+    const data = payload as QuickResponsePayload;
+    if (
+      !data ||
+      !isValidChannelCode(data.channelCode) ||
+      typeof data.kind !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(QUICK_RESPONSE_MESSAGES, data.kind)
+    ) {
+      ack?.({ ok: false, error: 'Invalid quick response.', code: 'invalid_payload' });
+      return;
+    }
+    const context = getMemberContext(socket.id, data.channelCode);
+    if (!context || context.channelState.channel.code !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in this channel.', code: 'not_found' });
+      return;
+    }
+    if (isMuted(data.channelCode, context.user.id)) {
+      ack?.({ ok: false, error: 'You are muted.', code: 'muted' });
+      return;
+    }
+    const rateLimit = await consumeQuickRateLimit(context.user.id);
+    if (!rateLimit.allowed) {
+      ack?.({
+        ok: false,
+        error: 'Rate limited. Try again shortly.',
+        code: 'rate_limited',
+        retryAfterMs: rateLimit.retryAfterMs,
+      });
+      return;
+    }
+
+    const response: QuickResponse = {
+      id: randomUUID(),
+      channelCode: data.channelCode,
+      fromUserId: context.user.id,
+      fromNickname: context.user.nickname,
+      createdAt: new Date(),
+      kind: data.kind,
+      message: QUICK_RESPONSE_MESSAGES[data.kind],
+    };
+    try {
+      await storage.upsertChannel(context.channelState.channel, response.createdAt);
+      await storage.recordQuickResponse(response);
+    } catch (error) {
+      console.error('[quick] persist failed', error);
+      ack?.({ ok: false, error: 'Unable to send quick response.', code: 'internal' });
+      return;
+    }
+
+    const userState = context.channelState.users.get(context.user.id);
+    if (userState) {
+      userState.lastActivityAt = response.createdAt;
+    }
+    context.channelState.lastActivityAt = response.createdAt;
+    const outbound = toQuickOutbound(response);
+    socket.to(data.channelCode).emit('quick:response', outbound);
+    ack?.({ ok: true, data: outbound });
+  };
+
+  const handleSendAudioMessage = async (
     socket: Socket,
     payload: unknown,
     ack?: (response: AudioAck) => void,
@@ -584,7 +1718,7 @@ export const createSocketService = (io: Server) => {
       !isValidChannelCode(data.channelCode) ||
       typeof data.senderId !== 'string' ||
       typeof data.senderNickname !== 'string' ||
-      typeof data.audioBase64 !== 'string' ||
+      (!Buffer.isBuffer(data.audio) && typeof data.audioBase64 !== 'string') ||
       typeof data.mimeType !== 'string' ||
       typeof data.durationMs !== 'number' ||
       !Number.isFinite(data.durationMs) ||
@@ -614,13 +1748,15 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
-    if (data.audioBase64.trim().length === 0) {
+    const binaryAudio = Buffer.isBuffer(data.audio) ? data.audio : null;
+    const base64Audio = binaryAudio ? '' : (data.audioBase64 ?? '');
+    if (binaryAudio ? binaryAudio.length === 0 : base64Audio.trim().length === 0) {
       logAudioViolation(socket, 'invalid_payload', { stage: 'empty_audio' });
       ack?.({ ok: false, error: 'Invalid audio payload.', code: 'invalid_payload' });
       return;
     }
 
-    const estimatedBytes = estimateBase64Bytes(data.audioBase64);
+    const estimatedBytes = binaryAudio ? binaryAudio.length : estimateBase64Bytes(base64Audio);
     if (estimatedBytes === null) {
       logAudioViolation(socket, 'invalid_payload', { stage: 'base64_invalid' });
       ack?.({ ok: false, error: 'Invalid audio payload.', code: 'invalid_payload' });
@@ -632,7 +1768,7 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
-    const indexed = socketIndex.get(socket.id);
+    const indexed = memberships.get(socket.id);
     if (!indexed) {
       logAudioViolation(socket, 'not_found', { stage: 'socket_index' });
       ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
@@ -672,6 +1808,35 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
+    const rejectIfMuted = () => {
+      const mutedUntil = moderationService.getMutedUntil(channelState, userState.user.id);
+      if (!mutedUntil) {
+        return false;
+      }
+      logAudioViolation(socket, 'muted', { userId: userState.user.id });
+      ack?.({
+        ok: false,
+        error: 'You are muted by a moderator.',
+        code: 'muted',
+        retryAfterMs: mutedUntil.getTime() - Date.now(),
+      });
+      return true;
+    };
+    if (rejectIfMuted()) {
+      return;
+    }
+
+    const floor = floorService.canTransmit(channelState.channel.code, userState.user.id);
+    if (!floor.allowed) {
+      logAudioViolation(socket, 'floor_busy', { holderId: floor.holder.userId });
+      ack?.({
+        ok: false,
+        error: `Channel busy — ${floor.holder.nickname} is talking.`,
+        code: 'floor_busy',
+      });
+      return;
+    }
+
     const location = normalizeLocation(data.location);
     if (data.location && !location) {
       logAudioViolation(socket, 'invalid_payload', { stage: 'location' });
@@ -679,7 +1844,24 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
-    const rateLimit = consumeAudioRateLimit(userState.user.id);
+    const recipientUserIds = await resolveRecipients(
+      channelState.channel.code,
+      userState.user.id,
+      data.recipientUserIds,
+    );
+    if (recipientUserIds === null) {
+      logAudioViolation(socket, 'invalid_payload', { stage: 'recipients' });
+      ack?.({ ok: false, error: 'Recipients must be on this channel.', code: 'invalid_payload' });
+      return;
+    }
+
+    if (!canUsePriority(channelState.channel.code, userState.user.id, data.priority)) {
+      logAudioViolation(socket, 'forbidden', { userId: userState.user.id, priority: data.priority });
+      ack?.({ ok: false, error: 'Urgent messages are restricted on this channel.', code: 'forbidden' });
+      return;
+    }
+
+    const rateLimit = await consumeAudioRateLimit(userState.user.id, data.priority);
     if (!rateLimit.allowed) {
       logAudioViolation(socket, 'rate_limited', { userId: userState.user.id });
       ack?.({
@@ -691,7 +1873,7 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
-    const buffer = decodeBase64Audio(data.audioBase64, estimatedBytes);
+    const buffer = binaryAudio ?? decodeBase64Audio(base64Audio, estimatedBytes);
     if (!buffer || buffer.length === 0) {
       logAudioViolation(socket, 'invalid_payload', { stage: 'decode' });
       ack?.({ ok: false, error: 'Invalid audio payload.', code: 'invalid_payload' });
@@ -703,27 +1885,47 @@ export const createSocketService = (io: Server) => {
       return;
     }
 
+    // The rate limit awaited, so membership and mute are rechecked and the floor taken here rather than trusted
+    // from the pre-check.
+    if (memberships.get(socket.id)?.channelCode !== data.channelCode) {
+      ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
+    }
+    if (rejectIfMuted()) {
+      return;
+    }
+    const acquired = await floorService.acquireFloor({ user: userState.user, channelState }, data.priority);
+    if (!acquired.allowed) {
+      logAudioViolation(socket, 'floor_busy', { holderId: acquired.holder.userId });
+      ack?.({
+        ok: false,
+        error: `Channel busy — ${acquired.holder.nickname} is talking.`,
+        code: 'floor_busy',
+      });
+      return;
+    }
+    // Taking the floor awaits the shared store; a sender who left meanwhile must not keep it.
+    if (memberships.get(socket.id)?.channelCode !== data.channelCode) {
+      floorService.releaseFloor(data.channelCode, 'left', userState.user.id);
+      ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
+    }
+
     const createdAt = new Date();
-    const outbound: AudioMessageOutbound = {
+    const outbound: AudioMessageMeta = {
       id: randomUUID(),
       channelCode: data.channelCode,
       senderNickname: userState.user.nickname,
-      audioBase64: data.audioBase64,
       mimeType: normalizedMimeType,
       priority: data.priority,
       timestamp: createdAt.toISOString(),
       location,
+      recipientUserIds,
     };
 
-    if (!db) {
-      logAudioViolation(socket, 'internal', { stage: 'db_unavailable' });
-      ack?.({ ok: false, error: 'Storage unavailable.', code: 'internal' });
-      return;
-    }
-
     try {
-      db.upsertChannel(channelState.channel, createdAt);
-      db.recordAudioMessage({
+      await storage.upsertChannel(channelState.channel, createdAt);
+      await storage.recordAudioMessage({
         id: outbound.id,
         channelCode: data.channelCode,
         fromUserId: userState.user.id,
@@ -734,12 +1936,15 @@ export const createSocketService = (io: Server) => {
         durationMs: data.durationMs,
         sizeBytes: buffer.length,
         payload: buffer,
+        location,
+        recipientUserIds,
       });
     } catch (error) {
       logAudioViolation(socket, 'internal', {
         stage: 'db_write',
         error: error instanceof Error ? error.message : String(error),
       });
+      floorService.releaseFloor(data.channelCode, 'released', userState.user.id);
       ack?.({ ok: false, error: 'Unable to store audio.', code: 'internal' });
       return;
     }
@@ -748,8 +1953,14 @@ export const createSocketService = (io: Server) => {
     userState.lastActivityAt = now;
     channelState.lastActivityAt = now;
 
-    io.to(data.channelCode).emit('audio-message', outbound);
-    io.to(data.channelCode).emit('audio:message', { message: outbound });
+    receiptService.track({
+      id: outbound.id,
+      channelCode: data.channelCode,
+      fromUserId: userState.user.id,
+      recipientUserIds,
+    });
+    broadcastAudioMessage(outbound, buffer, userState.user.id);
+    floorService.releaseFloor(data.channelCode, 'sent', userState.user.id);
 
     if (ack) {
       ack({ ok: true, data: { id: outbound.id, timestamp: outbound.timestamp } });
@@ -757,12 +1968,39 @@ export const createSocketService = (io: Server) => {
   };
 
   io.on('connection', (socket) => {
+    const audioProtocol = resolveAudioProtocol(socket);
+    socketProtocols.set(socket.id, audioProtocol);
+    socket.join(audioProtocolRoom(audioProtocol));
+    if (audioProtocol !== BINARY_AUDIO_PROTOCOL) {
+      console.info('[audio] legacy base64 client connected', { socketId: socket.id });
+    }
+    // Joins wait for the resume so a reconnecting member is never added twice.
+    const resumed = resumeSession(socket).catch((error) => {
+      console.error('[session] resume failed', error);
+    });
+
     socket.on('channel:create', (payload, ack) => {
-      handleCreate(socket, payload, ack);
+      resumed.then(() => handleCreate(socket, payload, ack));
     });
 
     socket.on('channel:join', (payload, ack) => {
-      handleJoin(socket, payload, ack);
+      resumed.then(() => handleJoin(socket, payload, ack));
+    });
+
+    socket.on('scan:join', (payload, ack) => {
+      resumed.then(() => handleScanJoin(socket, payload, ack));
+    });
+
+    socket.on('scan:mode', (payload, ack) => {
+      handleScanMode(socket, payload, ack);
+    });
+
+    socket.on('channel:history', (payload, ack) => {
+      handleHistory(socket, payload, ack);
+    });
+
+    socket.on('channel:roster', (payload, ack) => {
+      handleRoster(socket, payload, ack);
     });
 
     socket.on('channel:leave', (payload, ack) => {
@@ -773,6 +2011,66 @@ export const createSocketService = (io: Server) => {
       handleActivity(socket, payload);
     });
 
+    socket.on('presence:update', (payload) => {
+      presenceService.handleUpdate(socket, payload);
+    });
+
+    socket.on('location:update', (payload) => {
+      locationService.handleUpdate(socket, payload);
+    });
+
+    socket.on('location:stop', (payload) => {
+      locationService.handleStop(socket, payload);
+    });
+
+    socket.on('audio:delivered', (payload) => {
+      receiptService.handleDelivered(socket, payload);
+    });
+
+    socket.on('audio:played', (payload) => {
+      receiptService.handlePlayed(socket, payload);
+    });
+
+    socket.on('geofence:list', (payload, ack) => {
+      geofenceService.handleList(socket, payload, ack);
+    });
+
+    socket.on('geofence:create', (payload, ack) => {
+      geofenceService.handleCreate(socket, payload, ack);
+    });
+
+    socket.on('geofence:delete', (payload, ack) => {
+      geofenceService.handleDelete(socket, payload, ack);
+    });
+
+    socket.on('channel:role', (payload, ack) => {
+      moderationService.handleSetRole(socket, payload, ack);
+    });
+
+    socket.on('channel:kick', (payload, ack) => {
+      moderationService.handleKick(socket, payload, ack);
+    });
+
+    socket.on('channel:mute', (payload, ack) => {
+      moderationService.handleMute(socket, payload, ack);
+    });
+
+    socket.on('channel:ban', (payload, ack) => {
+      moderationService.handleBan(socket, payload, ack);
+    });
+
+    socket.on('channel:policy', (payload, ack) => {
+      moderationService.handleSetPolicy(socket, payload, ack);
+    });
+
+    socket.on('channel:floor:request', (payload, ack) => {
+      floorService.handleRequest(socket, payload, ack);
+    });
+
+    socket.on('channel:floor:release', (payload) => {
+      floorService.handleRelease(socket, payload);
+    });
+
     socket.on('send-audio-message', (payload, ack) => {
       handleSendAudioMessage(socket, payload, ack);
     });
@@ -815,22 +2113,81 @@ export const createSocketService = (io: Server) => {
       );
     });
 
+    socket.on('audio:stream:start', (payload, ack) => {
+      streamService.handleStart(socket, payload, ack);
+    });
+
+    socket.on('audio:stream:chunk', (payload) => {
+      streamService.handleChunk(socket, payload);
+    });
+
+    socket.on('audio:stream:priority', (payload, ack) => {
+      streamService.handleEscalate(socket, payload, ack);
+    });
+
+    socket.on('audio:stream:end', (payload, ack) => {
+      streamService.handleEnd(socket, payload, ack);
+    });
+
+    socket.on('audio:stream:abort', (payload) => {
+      streamService.handleAbort(socket, payload);
+    });
+
+    socket.on('text:send', (payload, ack) => {
+      handleSendText(socket, payload, ack);
+    });
+
+    socket.on('quick:send', (payload, ack) => {
+      handleQuickSend(socket, payload, ack);
+    });
+
     socket.on('emergency:broadcast', (payload, ack) => {
-      const wrappedAck = (response: EmergencyAck) => {
-        if (response?.ok && db) {
-          try {
-            db.recordEmergency(response.data.broadcast);
-          } catch (error) {
-            console.error('[emergency] log failed', error);
-          }
-        }
-        ack?.(response);
-      };
-      emergencyService.handleBroadcast(socket, payload, ack ? wrappedAck : undefined);
+      emergencyService.handleBroadcast(socket, payload, ack);
+    });
+
+    socket.on('emergency:ack', (payload, ack) => {
+      emergencyService.handleAcknowledge(socket, payload, ack);
+    });
+
+    socket.on('emergency:resolve', (payload, ack) => {
+      emergencyService.handleResolve(socket, payload, ack);
+    });
+
+    socket.on('channel:links', (payload, ack) => {
+      emergencyService.handleListLinks(socket, payload, ack);
+    });
+
+    socket.on('channel:link', (payload, ack) => {
+      emergencyService.handleSetLink(socket, payload, ack);
+    });
+
+    socket.on('channel:retention', (payload, ack) => {
+      cleanupService.handleGetRetention(socket, payload, ack);
+    });
+
+    socket.on('channel:retention:set', (payload, ack) => {
+      cleanupService.handleSetRetention(socket, payload, ack);
     });
 
     socket.on('disconnect', () => {
-      removeUserFromChannel(socket, 'disconnect');
+      removeSocket(socket);
+      socketProtocols.delete(socket.id);
     });
   });
+
+  // Other instances keep serving these channels, so this node's members leave the shared roster.
+  // Resolves after any running cleanup pass, so the caller can close storage next.
+  const close = async () => {
+    await cleanupService.stop();
+    const departures = Array.from(channels.values()).flatMap((channelState) =>
+      Array.from(channelState.users.keys(), (userId) =>
+        sharedState.removeRosterMember(channelState.channel.code, userId),
+      ),
+    );
+    await Promise.all(departures).catch((error) => {
+      console.error('[cluster] roster cleanup failed', error);
+    });
+  };
+
+  return { close };
 };
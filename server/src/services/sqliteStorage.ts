@@ -0,0 +1,721 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  Channel,
+  ChannelPolicy,
+  ChannelRetention,
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyStatus,
+  Geofence,
+  QuickResponse,
+  RetentionLimits,
+  TextMessage,
+} from '@walkie/shared/types';
+import { deleteOrphanedAudio } from './audioStore';
+import type { AudioStore } from './audioStore';
+import { loadMigrations, runMigrations } from './migrationService';
+import type {
+  AudioMessageRecord,
+  ChannelBanRecord,
+  ChannelLinkRecord,
+  ChannelMessageRecord,
+  ChannelRecord,
+  MessageCursor,
+  MessageReceiptRecord,
+  RetentionPruneResult,
+  Storage,
+} from './storage';
+import {
+  assertAudioPayload,
+  toAudioMessageRow,
+  toChannelBan,
+  toChannelBanRow,
+  toChannelLink,
+  toChannelMessageRecord,
+  toChannelRecord,
+  toChannelRetention,
+  toEmergencyRow,
+  toGeofence,
+  toGeofenceRow,
+  toMessageCursor,
+  toQuickResponse,
+  toQuickResponseRow,
+  toTextMessageRow,
+} from './storageRows';
+import type {
+  ChannelBanRow,
+  ChannelLinkRow,
+  ChannelLinkSummaryRow,
+  ChannelMuteRow,
+  ChannelRecordRow,
+  ChannelRetentionRow,
+  ChannelRoleRow,
+  ChannelRow,
+  EmergencyAckRow,
+  EmergencyRow,
+  GeofenceRow,
+  MessageCursorRow,
+  MessageReceiptRow,
+  MessageRow,
+  QuickResponseRow,
+} from './storageRows';
+
+type Statement<T extends Record<string, unknown> = Record<string, unknown>, R = unknown> =
+  Database.Statement<[T], R>;
+
+type SqliteStorageOptions = {
+  filename: string;
+  migrationsDir?: string;
+  audioStore: AudioStore;
+  maxAudioBytes?: number;
+  maxMessagesPerChannel?: number;
+};
+
+const DEFAULT_MAX_AUDIO_BYTES = 1_000_000;
+const DEFAULT_MAX_MESSAGES_PER_CHANNEL = 50;
+const AUDIO_MOVE_BATCH_SIZE = 20;
+// `visible_to` holds a private message's participants as a JSON array.
+const VISIBLE_TO_VIEWER =
+  '(visible_to IS NULL OR EXISTS (SELECT 1 FROM json_each(messages.visible_to) WHERE value = @viewer_id))';
+
+export class SqliteStorage implements Storage {
+  private readonly db: Database.Database;
+  private readonly maxAudioBytes: number;
+  private readonly maxMessagesPerChannel: number;
+  private readonly audioStore: AudioStore;
+
+  private readonly insertChannelStmt: Statement<ChannelRow>;
+  private readonly getChannelByCodeStmt: Statement<{ code: string }>;
+  private readonly updateChannelActivityStmt: Statement<{ code: string; last_activity_at: number }>;
+  private readonly touchChannelStmt: Statement<{ code: string; last_activity_at: number }>;
+  private readonly updateChannelPassphraseStmt: Statement<{ code: string; passphrase_hash: string | null }>;
+  private readonly updateChannelPolicyStmt: Statement<{ code: string; urgent_min_role: ChannelRole }>;
+  private readonly updateChannelRetentionStmt: Statement<ChannelRetentionRow>;
+  private readonly insertMessageStmt: Statement<MessageRow>;
+  private readonly pruneMessagesStmt: Statement<{ channel_code: string; max_messages: number }>;
+  private readonly deleteChannelMessagesBeforeStmt: Statement<{ channel_code: string; cutoff: number }>;
+  private readonly pruneMessageBytesStmt: Statement<{ channel_code: string; max_bytes: number }>;
+  private readonly listMessagesAfterStmt: Statement<{
+    channel_code: string;
+    viewer_id: string;
+    after_created_at: number;
+    after_id: string;
+    until: number;
+    limit: number;
+  }>;
+  private readonly listInlineAudioStmt: Statement<{ limit: number }>;
+  private readonly setAudioRefStmt: Statement<{ id: string; audio_key: string; audio_checksum: string }>;
+  private readonly listAudioKeysStmt: Database.Statement<[]>;
+  private readonly getMessageCursorStmt: Statement<{ channel_code: string; id: string }>;
+  private readonly getMessageCursorAtOffsetStmt: Statement<{
+    channel_code: string;
+    viewer_id: string;
+    offset: number;
+  }>;
+  private readonly listChannelRetentionStmt: Database.Statement<[]>;
+  private readonly deleteOldEmergencyStmt: Statement<{ cutoff: number }>;
+  private readonly deleteIdleChannelsStmt: Statement<{ cutoff: number }>;
+  private readonly insertQuickResponseStmt: Statement<QuickResponseRow>;
+  private readonly listQuickResponsesStmt: Statement<{ channel_code: string; since: number; limit: number }>;
+  private readonly deleteOldQuickResponsesStmt: Statement<{ cutoff: number }>;
+  private readonly upsertReceiptStmt: Statement<MessageReceiptRow>;
+  private readonly deleteOldReceiptsStmt: Statement<{ cutoff: number }>;
+  private readonly insertEmergencyStmt: Statement<EmergencyRow>;
+  private readonly insertEmergencyAckStmt: Statement<EmergencyAckRow>;
+  private readonly updateEmergencyStatusStmt: Statement<{
+    id: string;
+    status: EmergencyStatus;
+    resolved_by: string | null;
+    resolved_at: number | null;
+  }>;
+  private readonly upsertRoleStmt: Statement<ChannelRoleRow>;
+  private readonly deleteRoleStmt: Statement<{ channel_code: string; user_id: string }>;
+  private readonly listRolesStmt: Statement<{ channel_code: string }>;
+  private readonly insertBanStmt: Statement<ChannelBanRow>;
+  private readonly listBansStmt: Statement<{ channel_code: string }>;
+  private readonly upsertMuteStmt: Statement<ChannelMuteRow>;
+  private readonly deleteMuteStmt: Statement<{ channel_code: string; user_id: string }>;
+  private readonly listMutesStmt: Statement<{ channel_code: string; now: number }>;
+  private readonly upsertLinkStmt: Statement<ChannelLinkRow>;
+  private readonly deleteLinkStmt: Statement<{ channel_code: string; linked_code: string }>;
+  private readonly listLinksStmt: Statement<{ channel_code: string }>;
+  private readonly insertGeofenceStmt: Statement<GeofenceRow>;
+  private readonly deleteGeofenceStmt: Statement<{ channel_code: string; id: string }>;
+  private readonly listGeofencesStmt: Statement<{ channel_code: string }>;
+
+  private readonly insertMessageTx: (row: MessageRow) => void;
+
+  private constructor(options: SqliteStorageOptions) {
+    this.maxAudioBytes = options.maxAudioBytes ?? DEFAULT_MAX_AUDIO_BYTES;
+    this.maxMessagesPerChannel = options.maxMessagesPerChannel ?? DEFAULT_MAX_MESSAGES_PER_CHANNEL;
+    this.audioStore = options.audioStore;
+    const filename = options.filename;
+    if (filename !== ':memory:') {
+      const resolved = path.resolve(filename);
+      const dir = path.dirname(resolved);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      this.db = new Database(resolved);
+    } else {
+      this.db = new Database(filename);
+    }
+    this.configureDatabase();
+    runMigrations(
+      this.db,
+      loadMigrations(options.migrationsDir ?? path.resolve(process.cwd(), 'migrations', 'sqlite')),
+    );
+
+    this.insertChannelStmt = this.db.prepare(
+      `INSERT INTO channels (code, display_name, created_at, last_activity_at)
+       VALUES (@code, @display_name, @created_at, @last_activity_at)
+       ON CONFLICT(code) DO UPDATE SET
+         display_name = excluded.display_name,
+         last_activity_at = excluded.last_activity_at`,
+    );
+    this.getChannelByCodeStmt = this.db.prepare(
+      `SELECT code, display_name, created_at, last_activity_at, passphrase_hash, urgent_min_role,
+       retention_max_messages, retention_max_age_days, retention_max_bytes
+       FROM channels
+       WHERE code = @code`,
+    );
+    this.updateChannelActivityStmt = this.db.prepare(
+      `UPDATE channels SET last_activity_at = @last_activity_at WHERE code = @code`,
+    );
+    this.touchChannelStmt = this.db.prepare(
+      `UPDATE channels SET last_activity_at = MAX(last_activity_at, @last_activity_at) WHERE code = @code`,
+    );
+    this.updateChannelPassphraseStmt = this.db.prepare(
+      `UPDATE channels SET passphrase_hash = @passphrase_hash WHERE code = @code`,
+    );
+    this.updateChannelPolicyStmt = this.db.prepare(
+      `UPDATE channels SET urgent_min_role = @urgent_min_role WHERE code = @code`,
+    );
+    this.updateChannelRetentionStmt = this.db.prepare(
+      `UPDATE channels SET
+         retention_max_messages = @retention_max_messages,
+         retention_max_age_days = @retention_max_age_days,
+         retention_max_bytes = @retention_max_bytes
+       WHERE code = @code`,
+    );
+    this.insertMessageStmt = this.db.prepare(
+      `INSERT INTO messages (
+        id, channel_code, from_user_id, from_nickname, created_at, priority, mime_type,
+        duration_ms, size_bytes, payload, audio_key, audio_checksum, kind, body, location_lat, location_lng,
+        location_accuracy, visible_to
+      ) VALUES (
+        @id, @channel_code, @from_user_id, @from_nickname, @created_at, @priority, @mime_type,
+        @duration_ms, @size_bytes, COALESCE(@payload, zeroblob(0)), @audio_key, @audio_checksum, @kind, @body, @location_lat, @location_lng,
+        @location_accuracy, @visible_to
+      )`,
+    );
+    this.pruneMessagesStmt = this.db.prepare(
+      `DELETE FROM messages
+       WHERE id IN (
+         SELECT id FROM messages
+         WHERE channel_code = @channel_code
+         ORDER BY created_at DESC
+         LIMIT -1 OFFSET @max_messages
+       )`,
+    );
+    this.deleteChannelMessagesBeforeStmt = this.db.prepare(
+      `DELETE FROM messages WHERE channel_code = @channel_code AND created_at < @cutoff`,
+    );
+    // Keeps the newest messages whose combined size fits within the budget.
+    this.pruneMessageBytesStmt = this.db.prepare(
+      `DELETE FROM messages
+       WHERE id IN (
+         SELECT id FROM (
+           SELECT id, SUM(size_bytes) OVER (ORDER BY created_at DESC, id DESC) AS running_bytes
+           FROM messages
+           WHERE channel_code = @channel_code
+         )
+         WHERE running_bytes > @max_bytes
+       )`,
+    );
+    this.listMessagesAfterStmt = this.db.prepare(
+      `SELECT id, channel_code, from_user_id, from_nickname, created_at, priority, mime_type,
+              duration_ms, size_bytes, payload, audio_key, audio_checksum, kind, body, location_lat,
+              location_lng, location_accuracy, visible_to
+       FROM messages
+       WHERE channel_code = @channel_code
+         AND (created_at > @after_created_at OR (created_at = @after_created_at AND id > @after_id))
+         AND created_at <= @until
+         AND ${VISIBLE_TO_VIEWER}
+       ORDER BY created_at ASC, id ASC
+       LIMIT @limit`,
+    );
+    this.listInlineAudioStmt = this.db.prepare(
+      `SELECT id, payload FROM messages
+       WHERE kind = 'audio' AND audio_key IS NULL AND length(payload) > 0
+       LIMIT @limit`,
+    );
+    this.setAudioRefStmt = this.db.prepare(
+      `UPDATE messages
+       SET audio_key = @audio_key, audio_checksum = @audio_checksum, payload = zeroblob(0)
+       WHERE id = @id`,
+    );
+    this.listAudioKeysStmt = this.db.prepare(
+      `SELECT DISTINCT audio_key FROM messages WHERE audio_key IS NOT NULL`,
+    );
+    this.getMessageCursorStmt = this.db.prepare(
+      `SELECT id, created_at FROM messages WHERE channel_code = @channel_code AND id = @id`,
+    );
+    this.getMessageCursorAtOffsetStmt = this.db.prepare(
+      `SELECT id, created_at
+       FROM messages
+       WHERE channel_code = @channel_code AND ${VISIBLE_TO_VIEWER}
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1 OFFSET @offset`,
+    );
+    this.listChannelRetentionStmt = this.db.prepare(
+      `SELECT code, retention_max_messages, retention_max_age_days, retention_max_bytes FROM channels`,
+    );
+    this.deleteOldEmergencyStmt = this.db.prepare(`DELETE FROM emergency_log WHERE created_at < @cutoff`);
+    this.deleteIdleChannelsStmt = this.db.prepare(
+      `DELETE FROM channels WHERE last_activity_at < @cutoff`,
+    );
+    this.insertQuickResponseStmt = this.db.prepare(
+      `INSERT INTO quick_responses (id, channel_code, from_user_id, from_nickname, created_at, kind, message)
+       VALUES (@id, @channel_code, @from_user_id, @from_nickname, @created_at, @kind, @message)`,
+    );
+    this.listQuickResponsesStmt = this.db.prepare(
+      `SELECT id, channel_code, from_user_id, from_nickname, created_at, kind, message
+       FROM quick_responses
+       WHERE channel_code = @channel_code AND created_at > @since
+       ORDER BY created_at DESC
+       LIMIT @limit`,
+    );
+    this.deleteOldQuickResponsesStmt = this.db.prepare(
+      `DELETE FROM quick_responses WHERE created_at < @cutoff`,
+    );
+    // A play receipt implies delivery, so the first receipt of either kind creates the row.
+    this.upsertReceiptStmt = this.db.prepare(
+      `INSERT INTO message_receipts (message_id, channel_code, user_id, nickname, delivered_at, played_at)
+       VALUES (@message_id, @channel_code, @user_id, @nickname, @delivered_at, @played_at)
+       ON CONFLICT(message_id, user_id) DO UPDATE SET
+         played_at = COALESCE(message_receipts.played_at, excluded.played_at)`,
+    );
+    this.deleteOldReceiptsStmt = this.db.prepare(
+      `DELETE FROM message_receipts WHERE delivered_at < @cutoff`,
+    );
+    this.insertEmergencyStmt = this.db.prepare(
+      `INSERT INTO emergency_log (
+        id, channel_code, from_user_id, from_nickname, created_at, priority, message, scope, target_channels, status
+      ) VALUES (
+        @id, @channel_code, @from_user_id, @from_nickname, @created_at, @priority, @message, @scope,
+        @target_channels, @status
+      )`,
+    );
+    this.insertEmergencyAckStmt = this.db.prepare(
+      `INSERT INTO emergency_acks (emergency_id, user_id, nickname, acknowledged_at)
+       VALUES (@emergency_id, @user_id, @nickname, @acknowledged_at)
+       ON CONFLICT(emergency_id, user_id) DO NOTHING`,
+    );
+    this.updateEmergencyStatusStmt = this.db.prepare(
+      `UPDATE emergency_log
+       SET status = @status, resolved_by = @resolved_by, resolved_at = @resolved_at
+       WHERE id = @id AND status <> 'resolved'`,
+    );
+
+    this.upsertRoleStmt = this.db.prepare(
+      `INSERT INTO channel_roles (channel_code, user_id, role, granted_at)
+       VALUES (@channel_code, @user_id, @role, @granted_at)
+       ON CONFLICT(channel_code, user_id) DO UPDATE SET
+         role = excluded.role,
+         granted_at = excluded.granted_at`,
+    );
+    this.deleteRoleStmt = this.db.prepare(
+      `DELETE FROM channel_roles WHERE channel_code = @channel_code AND user_id = @user_id`,
+    );
+    this.listRolesStmt = this.db.prepare(
+      `SELECT channel_code, user_id, role, granted_at
+       FROM channel_roles
+       WHERE channel_code = @channel_code`,
+    );
+    this.insertBanStmt = this.db.prepare(
+      `INSERT INTO channel_bans (channel_code, user_id, nickname, ip, banned_by, created_at)
+       VALUES (@channel_code, @user_id, @nickname, @ip, @banned_by, @created_at)
+       ON CONFLICT(channel_code, user_id) DO UPDATE SET
+         ip = excluded.ip,
+         banned_by = excluded.banned_by,
+         created_at = excluded.created_at`,
+    );
+    this.listBansStmt = this.db.prepare(
+      `SELECT channel_code, user_id, nickname, ip, banned_by, created_at
+       FROM channel_bans
+       WHERE channel_code = @channel_code`,
+    );
+    this.upsertMuteStmt = this.db.prepare(
+      `INSERT INTO channel_mutes (channel_code, user_id, muted_until)
+       VALUES (@channel_code, @user_id, @muted_until)
+       ON CONFLICT(channel_code, user_id) DO UPDATE SET muted_until = excluded.muted_until`,
+    );
+    this.deleteMuteStmt = this.db.prepare(
+      `DELETE FROM channel_mutes WHERE channel_code = @channel_code AND user_id = @user_id`,
+    );
+    this.listMutesStmt = this.db.prepare(
+      `SELECT channel_code, user_id, muted_until
+       FROM channel_mutes
+       WHERE channel_code = @channel_code AND muted_until > @now`,
+    );
+    this.upsertLinkStmt = this.db.prepare(
+      `INSERT INTO channel_links (channel_code, linked_code, created_by, created_at)
+       VALUES (@channel_code, @linked_code, @created_by, @created_at)
+       ON CONFLICT(channel_code, linked_code) DO NOTHING`,
+    );
+    this.deleteLinkStmt = this.db.prepare(
+      `DELETE FROM channel_links WHERE channel_code = @channel_code AND linked_code = @linked_code`,
+    );
+    this.listLinksStmt = this.db.prepare(
+      `SELECT linked_code, MAX(outgoing) AS outgoing, MAX(incoming) AS incoming, MIN(created_at) AS created_at
+       FROM (
+         SELECT linked_code, 1 AS outgoing, 0 AS incoming, created_at
+         FROM channel_links WHERE channel_code = @channel_code
+         UNION ALL
+         SELECT channel_code AS linked_code, 0 AS outgoing, 1 AS incoming, created_at
+         FROM channel_links WHERE linked_code = @channel_code
+       )
+       GROUP BY linked_code
+       ORDER BY created_at ASC`,
+    );
+    this.insertGeofenceStmt = this.db.prepare(
+      `INSERT INTO geofences (id, channel_code, name, shape, alert_after_ms, created_by, created_at)
+       VALUES (@id, @channel_code, @name, @shape, @alert_after_ms, @created_by, @created_at)`,
+    );
+    this.deleteGeofenceStmt = this.db.prepare(
+      `DELETE FROM geofences WHERE channel_code = @channel_code AND id = @id`,
+    );
+    this.listGeofencesStmt = this.db.prepare(
+      `SELECT id, channel_code, name, shape, alert_after_ms, created_by, created_at
+       FROM geofences
+       WHERE channel_code = @channel_code
+       ORDER BY created_at ASC`,
+    );
+
+    this.insertMessageTx = this.db.transaction((row: MessageRow) => {
+      this.insertMessageStmt.run(row);
+      const channel = this.getChannelByCodeStmt.get({ code: row.channel_code }) as ChannelRecordRow | undefined;
+      this.pruneMessagesStmt.run({
+        channel_code: row.channel_code,
+        max_messages: channel?.retention_max_messages ?? this.maxMessagesPerChannel,
+      });
+      this.updateChannelActivityStmt.run({
+        code: row.channel_code,
+        last_activity_at: row.created_at,
+      });
+    });
+  }
+
+  // Opens the database, applies migrations and moves any inline audio into the store.
+  static async open(options: SqliteStorageOptions) {
+    const storage = new SqliteStorage(options);
+    await storage.moveInlineAudio();
+    return storage;
+  }
+
+  async close() {
+    this.db.close();
+  }
+
+  async upsertChannel(channel: Channel, lastActivityAt?: Date) {
+    const lastActivity = lastActivityAt ?? channel.createdAt;
+    const row: ChannelRow = {
+      code: channel.code,
+      display_name: channel.displayName,
+      created_at: channel.createdAt.getTime(),
+      last_activity_at: lastActivity.getTime(),
+    };
+    this.insertChannelStmt.run(row);
+  }
+
+  async touchChannels(codes: string[], when: Date) {
+    this.db.transaction(() => {
+      codes.forEach((code) => this.touchChannelStmt.run({ code, last_activity_at: when.getTime() }));
+    })();
+  }
+
+  async getChannelByCode(code: string): Promise<ChannelRecord | null> {
+    const row = this.getChannelByCodeStmt.get({ code }) as ChannelRecordRow | undefined;
+    return row ? toChannelRecord(row) : null;
+  }
+
+  async setChannelRetention(code: string, retention: ChannelRetention) {
+    this.updateChannelRetentionStmt.run({
+      code,
+      retention_max_messages: retention.maxMessages,
+      retention_max_age_days: retention.maxAgeDays,
+      retention_max_bytes: retention.maxBytes,
+    });
+  }
+
+  async listChannelRetention() {
+    const rows = this.listChannelRetentionStmt.all() as ChannelRetentionRow[];
+    return rows.map((row) => ({ channelCode: row.code, retention: toChannelRetention(row) }));
+  }
+
+  async setChannelPolicy(code: string, policy: ChannelPolicy) {
+    this.updateChannelPolicyStmt.run({ code, urgent_min_role: policy.urgentMinRole });
+  }
+
+  async setChannelPassphraseHash(code: string, passphraseHash: string | null) {
+    this.updateChannelPassphraseStmt.run({ code, passphrase_hash: passphraseHash });
+  }
+
+  async recordAudioMessage(message: AudioMessageRecord) {
+    assertAudioPayload(message, this.maxAudioBytes);
+    // An insert that fails after the file is written leaves an orphan for cleanup to remove.
+    const ref = await this.audioStore.put(message.payload);
+    this.insertMessageTx(toAudioMessageRow(message, ref));
+  }
+
+  async recordTextMessage(message: TextMessage) {
+    this.insertMessageTx(toTextMessageRow(message));
+  }
+
+  async recordQuickResponse(response: QuickResponse) {
+    this.insertQuickResponseStmt.run(toQuickResponseRow(response));
+  }
+
+  async recordReceipt(receipt: MessageReceiptRecord) {
+    this.upsertReceiptStmt.run({
+      message_id: receipt.messageId,
+      channel_code: receipt.channelCode,
+      user_id: receipt.userId,
+      nickname: receipt.nickname,
+      delivered_at: receipt.deliveredAt.getTime(),
+      played_at: receipt.playedAt?.getTime() ?? null,
+    });
+  }
+
+  // Returns the newest responses after `since`, oldest first.
+  async listQuickResponses(channelCode: string, since: number, limit = 50): Promise<QuickResponse[]> {
+    const boundedLimit = Math.max(0, Math.min(limit, 50));
+    if (boundedLimit === 0) {
+      return [];
+    }
+    const rows = this.listQuickResponsesStmt.all({
+      channel_code: channelCode,
+      since,
+      limit: boundedLimit,
+    }) as QuickResponseRow[];
+    return rows.reverse().map(toQuickResponse);
+  }
+
+  async recordEmergency(broadcast: EmergencyBroadcast) {
+    this.insertEmergencyStmt.run(toEmergencyRow(broadcast));
+    this.updateChannelActivityStmt.run({
+      code: broadcast.channelCode,
+      last_activity_at: broadcast.createdAt.getTime(),
+    });
+  }
+
+  async setChannelRole(channelCode: string, userId: string, role: ChannelRole, when = new Date()) {
+    if (role === 'member') {
+      this.deleteRoleStmt.run({ channel_code: channelCode, user_id: userId });
+      return;
+    }
+    this.upsertRoleStmt.run({
+      channel_code: channelCode,
+      user_id: userId,
+      role,
+      granted_at: when.getTime(),
+    });
+  }
+
+  async listChannelRoles(channelCode: string): Promise<Map<string, ChannelRole>> {
+    const rows = this.listRolesStmt.all({ channel_code: channelCode }) as ChannelRoleRow[];
+    return new Map(rows.map((row) => [row.user_id, row.role]));
+  }
+
+  async recordBan(ban: ChannelBanRecord) {
+    this.insertBanStmt.run(toChannelBanRow(ban));
+  }
+
+  async listChannelBans(channelCode: string): Promise<ChannelBanRecord[]> {
+    const rows = this.listBansStmt.all({ channel_code: channelCode }) as ChannelBanRow[];
+    return rows.map(toChannelBan);
+  }
+
+  async setChannelMute(channelCode: string, userId: string, mutedUntil: Date | null) {
+    if (!mutedUntil) {
+      this.deleteMuteStmt.run({ channel_code: channelCode, user_id: userId });
+      return;
+    }
+    this.upsertMuteStmt.run({ channel_code: channelCode, user_id: userId, muted_until: mutedUntil.getTime() });
+  }
+
+  async listChannelMutes(channelCode: string, now = new Date()): Promise<Map<string, Date>> {
+    const rows = this.listMutesStmt.all({ channel_code: channelCode, now: now.getTime() }) as ChannelMuteRow[];
+    return new Map(rows.map((row) => [row.user_id, new Date(row.muted_until)]));
+  }
+
+  async recordEmergencyAck(emergencyId: string, userId: string, nickname: string, when = new Date()) {
+    this.insertEmergencyAckStmt.run({
+      emergency_id: emergencyId,
+      user_id: userId,
+      nickname,
+      acknowledged_at: when.getTime(),
+    });
+  }
+
+  async setEmergencyStatus(
+    emergencyId: string,
+    status: EmergencyStatus,
+    resolution: { resolvedBy: string; resolvedAt: Date } | null = null,
+  ) {
+    this.updateEmergencyStatusStmt.run({
+      id: emergencyId,
+      status,
+      resolved_by: resolution?.resolvedBy ?? null,
+      resolved_at: resolution?.resolvedAt.getTime() ?? null,
+    });
+  }
+
+  async setChannelLink(channelCode: string, linkedCode: string, linked: boolean, createdBy: string, when = new Date()) {
+    if (!linked) {
+      this.deleteLinkStmt.run({ channel_code: channelCode, linked_code: linkedCode });
+      return;
+    }
+    this.upsertLinkStmt.run({
+      channel_code: channelCode,
+      linked_code: linkedCode,
+      created_by: createdBy,
+      created_at: when.getTime(),
+    });
+  }
+
+  async listChannelLinks(channelCode: string): Promise<ChannelLinkRecord[]> {
+    const rows = this.listLinksStmt.all({ channel_code: channelCode }) as ChannelLinkSummaryRow[];
+    return rows.map(toChannelLink);
+  }
+
+  async recordGeofence(geofence: Geofence) {
+    this.insertGeofenceStmt.run(toGeofenceRow(geofence));
+  }
+
+  async deleteGeofence(channelCode: string, id: string) {
+    return this.deleteGeofenceStmt.run({ channel_code: channelCode, id }).changes > 0;
+  }
+
+  async listGeofences(channelCode: string): Promise<Geofence[]> {
+    const rows = this.listGeofencesStmt.all({ channel_code: channelCode }) as GeofenceRow[];
+    return rows.map(toGeofence);
+  }
+
+  async listMessagesAfter(
+    channelCode: string,
+    viewerId: string,
+    after: MessageCursor | null,
+    until: number,
+    limit: number,
+  ): Promise<ChannelMessageRecord[]> {
+    const boundedLimit = Math.max(0, Math.min(limit, 50));
+    if (boundedLimit === 0) {
+      return [];
+    }
+    const rows = this.listMessagesAfterStmt.all({
+      channel_code: channelCode,
+      viewer_id: viewerId,
+      after_created_at: after?.createdAt ?? -1,
+      after_id: after?.id ?? '',
+      until,
+      limit: boundedLimit,
+    }) as MessageRow[];
+    // Payloads load one at a time so a page never holds many reads open at once.
+    const records: ChannelMessageRecord[] = [];
+    for (const row of rows) {
+      const record = await toChannelMessageRecord(row, this.audioStore);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  async getMessageCursor(channelCode: string, id: string) {
+    return toMessageCursor(
+      this.getMessageCursorStmt.get({ channel_code: channelCode, id }) as MessageCursorRow | undefined,
+    );
+  }
+
+  async getMessageCursorAtOffset(channelCode: string, viewerId: string, offset: number) {
+    const row = this.getMessageCursorAtOffsetStmt.get({
+      channel_code: channelCode,
+      viewer_id: viewerId,
+      offset,
+    }) as MessageCursorRow | undefined;
+    return toMessageCursor(row);
+  }
+
+  async pruneChannelMessages(
+    channelCode: string,
+    limits: RetentionLimits,
+    now = new Date(),
+  ): Promise<RetentionPruneResult> {
+    const cutoff = now.getTime() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+    const tx = this.db.transaction(() => ({
+      byAge: this.deleteChannelMessagesBeforeStmt.run({ channel_code: channelCode, cutoff }).changes,
+      byCount: this.pruneMessagesStmt.run({ channel_code: channelCode, max_messages: limits.maxMessages }).changes,
+      byBytes: this.pruneMessageBytesStmt.run({ channel_code: channelCode, max_bytes: limits.maxBytes }).changes,
+    }));
+    return tx();
+  }
+
+  async cleanupOldQuickResponses(cutoff: Date) {
+    return this.deleteOldQuickResponsesStmt.run({ cutoff: cutoff.getTime() }).changes;
+  }
+
+  async cleanupOldReceipts(cutoff: Date) {
+    return this.deleteOldReceiptsStmt.run({ cutoff: cutoff.getTime() }).changes;
+  }
+
+  async cleanupOldEmergencyLogs(cutoff: Date) {
+    return this.deleteOldEmergencyStmt.run({ cutoff: cutoff.getTime() }).changes;
+  }
+
+  async cleanupIdleChannels(cutoff: Date) {
+    return this.deleteIdleChannelsStmt.run({ cutoff: cutoff.getTime() }).changes;
+  }
+
+  // Removes stored audio that no message references any more, e.g. after pruning.
+  async cleanupOrphanedAudio() {
+    const rows = this.listAudioKeysStmt.all() as { audio_key: string }[];
+    return deleteOrphanedAudio(this.audioStore, new Set(rows.map((row) => row.audio_key)));
+  }
+
+  // One-time move of BLOBs stored before the audio store existed. Rows that fail stay inline and readable.
+  private async moveInlineAudio() {
+    let moved = 0;
+    try {
+      for (;;) {
+        const rows = this.listInlineAudioStmt.all({ limit: AUDIO_MOVE_BATCH_SIZE }) as {
+          id: string;
+          payload: Buffer;
+        }[];
+        if (rows.length === 0) {
+          break;
+        }
+        for (const row of rows) {
+          const ref = await this.audioStore.put(row.payload);
+          this.setAudioRefStmt.run({ id: row.id, audio_key: ref.key, audio_checksum: ref.checksum });
+          moved += 1;
+        }
+      }
+    } catch (error) {
+      console.error('[db] audio payload move failed', error);
+    }
+    if (moved > 0) {
+      console.info('[db] moved audio payloads to the audio store', { moved });
+    }
+  }
+
+  private configureDatabase() {
+    this.db.prepare('PRAGMA journal_mode = WAL').run();
+    this.db.prepare('PRAGMA synchronous = NORMAL').run();
+    this.db.prepare('PRAGMA foreign_keys = ON').run();
+    this.db.prepare('PRAGMA busy_timeout = 5000').run();
+  }
+}
@@ -0,0 +1,366 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Geofence, TextMessage } from '@walkie/shared/types';
+import { createFileAudioStore, type AudioStore } from './audioStore';
+import { PostgresStorage } from './postgresStorage';
+import { SqliteStorage } from './sqliteStorage';
+import type { AudioMessageRecord, Storage } from './storage';
+
+// One suite for every backend. PostgreSQL runs when TEST_DATABASE_URL points at a scratch database.
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const MIGRATIONS_ROOT = path.resolve(__dirname, '..', '..', 'migrations');
+const CHANNEL_CODE = '1234';
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type Backend = {
+  name: string;
+  open: (audioStore: AudioStore) => Promise<Storage>;
+};
+
+// Each test starts from an empty database, so TEST_DATABASE_URL must point at a scratch database.
+const openPostgres = async (audioStore: AudioStore) => {
+  const admin = new Pool({ connectionString: TEST_DATABASE_URL, max: 1 });
+  try {
+    await admin.query('DROP SCHEMA IF EXISTS public CASCADE');
+    await admin.query('CREATE SCHEMA public');
+  } finally {
+    await admin.end();
+  }
+  return PostgresStorage.connect({
+    connectionString: TEST_DATABASE_URL!,
+    migrationsDir: path.join(MIGRATIONS_ROOT, 'postgres'),
+    audioStore,
+    maxMessagesPerChannel: 100,
+  });
+};
+
+const backends: Backend[] = [
+  {
+    name: 'sqlite',
+    open: (audioStore) =>
+      SqliteStorage.open({
+        filename: ':memory:',
+        migrationsDir: path.join(MIGRATIONS_ROOT, 'sqlite'),
+        audioStore,
+        maxMessagesPerChannel: 100,
+      }),
+  },
+  ...(TEST_DATABASE_URL ? [{ name: 'postgres', open: openPostgres }] : []),
+];
+
+describe.each(backends)('storage contract ($name)', (backend) => {
+  let tempDir: string;
+  let audioStore: AudioStore;
+  let storage: Storage;
+  const now = Date.now();
+
+  const createChannel = (code: string, lastActivityAt = new Date(now)) =>
+    storage.upsertChannel({ code, displayName: `Channel ${code}`, createdAt: new Date(now - DAY_MS) }, lastActivityAt);
+
+  const text = (id: string, createdAt: number, fromUserId = 'sender'): TextMessage => ({
+    id,
+    kind: 'text',
+    channelCode: CHANNEL_CODE,
+    fromUserId,
+    fromNickname: fromUserId,
+    createdAt: new Date(createdAt),
+    priority: 'routine',
+    body: `body ${id}`,
+  });
+
+  const audio = (id: string, createdAt: number, payload: Buffer, recipientUserIds?: string[]): AudioMessageRecord => ({
+    id,
+    channelCode: CHANNEL_CODE,
+    fromUserId: 'sender',
+    fromNickname: 'sender',
+    createdAt: new Date(createdAt),
+    priority: 'urgent',
+    mimeType: 'audio/webm',
+    durationMs: 1200,
+    sizeBytes: payload.length,
+    payload,
+    location: { lat: 51.5, lng: -0.12, accuracy: 8 },
+    recipientUserIds,
+  });
+
+  const listIds = async (viewerId: string) =>
+    (await storage.listMessagesAfter(CHANNEL_CODE, viewerId, null, now + DAY_MS, 50)).map((record) => record.id);
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walkie-storage-'));
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    audioStore = createFileAudioStore(path.join(tempDir, 'audio'));
+    storage = await backend.open(audioStore);
+    await createChannel(CHANNEL_CODE);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('channels', () => {
+    it('stores channels with their passphrase, policy and retention', async () => {
+      await storage.setChannelPassphraseHash(CHANNEL_CODE, 'scrypt$salt$hash');
+      await storage.setChannelPolicy(CHANNEL_CODE, { urgentMinRole: 'moderator' });
+      await storage.setChannelRetention(CHANNEL_CODE, { maxMessages: 5, maxAgeDays: null, maxBytes: 1000 });
+
+      const record = await storage.getChannelByCode(CHANNEL_CODE);
+
+      expect(record).toMatchObject({
+        channel: { code: CHANNEL_CODE, displayName: 'Channel 1234', createdAt: new Date(now - DAY_MS) },
+        lastActivityAt: new Date(now),
+        passphraseHash: 'scrypt$salt$hash',
+        policy: { urgentMinRole: 'moderator' },
+        retention: { maxMessages: 5, maxAgeDays: null, maxBytes: 1000 },
+      });
+      expect(await storage.listChannelRetention()).toEqual([
+        { channelCode: CHANNEL_CODE, retention: { maxMessages: 5, maxAgeDays: null, maxBytes: 1000 } },
+      ]);
+      expect(await storage.getChannelByCode('9999')).toBeNull();
+    });
+
+    it('only moves last activity forward when touched', async () => {
+      await storage.touchChannels([CHANNEL_CODE], new Date(now - MINUTE_MS));
+      expect((await storage.getChannelByCode(CHANNEL_CODE))?.lastActivityAt).toEqual(new Date(now));
+
+      await storage.touchChannels([CHANNEL_CODE, '9999'], new Date(now + MINUTE_MS));
+      expect((await storage.getChannelByCode(CHANNEL_CODE))?.lastActivityAt).toEqual(new Date(now + MINUTE_MS));
+    });
+
+    it('deletes idle channels together with their dependent rows', async () => {
+      await createChannel('5678', new Date(now - 10 * DAY_MS));
+      await storage.setChannelRole('5678', 'owner', 'owner');
+      await storage.setChannelMute('5678', 'member', new Date(now + MINUTE_MS));
+
+      expect(await storage.cleanupIdleChannels(new Date(now - DAY_MS))).toBe(1);
+
+      expect(await storage.getChannelByCode('5678')).toBeNull();
+      expect(await storage.getChannelByCode(CHANNEL_CODE)).not.toBeNull();
+      await createChannel('5678');
+      expect((await storage.listChannelRoles('5678')).size).toBe(0);
+      expect((await storage.listChannelMutes('5678')).size).toBe(0);
+    });
+  });
+
+  describe('moderation', () => {
+    it('grants and revokes roles', async () => {
+      await storage.setChannelRole(CHANNEL_CODE, 'owner', 'owner');
+      await storage.setChannelRole(CHANNEL_CODE, 'mod', 'moderator');
+      await storage.setChannelRole(CHANNEL_CODE, 'mod', 'member');
+
+      expect(await storage.listChannelRoles(CHANNEL_CODE)).toEqual(new Map([['owner', 'owner']]));
+    });
+
+    it('records bans and replaces a repeated ban', async () => {
+      const ban = {
+        channelCode: CHANNEL_CODE,
+        userId: 'troll',
+        nickname: 'troll',
+        ip: '10.0.0.1',
+        bannedBy: 'owner',
+        createdAt: new Date(now - MINUTE_MS),
+      };
+      await storage.recordBan(ban);
+      await storage.recordBan({ ...ban, ip: null, createdAt: new Date(now) });
+
+      expect(await storage.listChannelBans(CHANNEL_CODE)).toEqual([{ ...ban, ip: null, createdAt: new Date(now) }]);
+    });
+
+    it('lists only unexpired mutes and clears them on unmute', async () => {
+      await storage.setChannelMute(CHANNEL_CODE, 'active', new Date(now + MINUTE_MS));
+      await storage.setChannelMute(CHANNEL_CODE, 'expired', new Date(now - MINUTE_MS));
+      await storage.setChannelMute(CHANNEL_CODE, 'cleared', new Date(now + MINUTE_MS));
+      await storage.setChannelMute(CHANNEL_CODE, 'cleared', null);
+
+      expect(await storage.listChannelMutes(CHANNEL_CODE, new Date(now))).toEqual(
+        new Map([['active', new Date(now + MINUTE_MS)]]),
+      );
+    });
+
+    it('reports links from both ends', async () => {
+      await createChannel('5678');
+      await storage.setChannelLink(CHANNEL_CODE, '5678', true, 'owner', new Date(now));
+
+      expect(await storage.listChannelLinks(CHANNEL_CODE)).toEqual([
+        { linkedCode: '5678', outgoing: true, incoming: false, createdAt: new Date(now) },
+      ]);
+      expect(await storage.listChannelLinks('5678')).toMatchObject([
+        { linkedCode: CHANNEL_CODE, outgoing: false, incoming: true },
+      ]);
+
+      await storage.setChannelLink('5678', CHANNEL_CODE, true, 'owner', new Date(now));
+      expect(await storage.listChannelLinks(CHANNEL_CODE)).toMatchObject([{ outgoing: true, incoming: true }]);
+
+      await storage.setChannelLink(CHANNEL_CODE, '5678', false, 'owner');
+      expect(await storage.listChannelLinks(CHANNEL_CODE)).toMatchObject([{ outgoing: false, incoming: true }]);
+    });
+  });
+
+  describe('messages', () => {
+    it('round-trips audio through the audio store', async () => {
+      const payload = Buffer.from([1, 2, 3, 4, 5]);
+      await storage.recordAudioMessage(audio('clip', now, payload));
+
+      const [record] = await storage.listMessagesAfter(CHANNEL_CODE, 'viewer', null, now, 10);
+
+      expect(record).toEqual({ ...audio('clip', now, payload), kind: 'audio' });
+      expect(await audioStore.keys()).toHaveLength(1);
+    });
+
+    it('rejects audio whose size does not match its payload', async () => {
+      await expect(
+        storage.recordAudioMessage({ ...audio('clip', now, Buffer.from([1, 2])), sizeBytes: 3 }),
+      ).rejects.toThrow();
+    });
+
+    it('pages in (created_at, id) order and hides private messages from other viewers', async () => {
+      await storage.recordTextMessage(text('b', now));
+      await storage.recordTextMessage(text('a', now));
+      await storage.recordAudioMessage(audio('private', now + 1000, Buffer.from([1]), ['recipient']));
+      await storage.recordTextMessage(text('later', now + 2000));
+
+      expect(await listIds('recipient')).toEqual(['a', 'b', 'private', 'later']);
+      expect(await listIds('sender')).toEqual(['a', 'b', 'private', 'later']);
+      expect(await listIds('other')).toEqual(['a', 'b', 'later']);
+
+      const after = await storage.getMessageCursor(CHANNEL_CODE, 'b');
+      expect(after).toEqual({ id: 'b', createdAt: now });
+      const page = await storage.listMessagesAfter(CHANNEL_CODE, 'recipient', after, now + 1500, 10);
+      expect(page.map((record) => record.id)).toEqual(['private']);
+      expect(await storage.getMessageCursor(CHANNEL_CODE, 'missing')).toBeNull();
+    });
+
+    it('finds the cursor a number of visible messages back from the newest', async () => {
+      await storage.recordTextMessage(text('m0', now));
+      await storage.recordTextMessage(text('m1', now + 1000));
+      await storage.recordAudioMessage(audio('private', now + 2000, Buffer.from([1]), ['recipient']));
+      await storage.recordTextMessage(text('m3', now + 3000));
+
+      expect(await storage.getMessageCursorAtOffset(CHANNEL_CODE, 'other', 1)).toEqual({
+        id: 'm1',
+        createdAt: now + 1000,
+      });
+      expect(await storage.getMessageCursorAtOffset(CHANNEL_CODE, 'recipient', 1)).toEqual({
+        id: 'private',
+        createdAt: now + 2000,
+      });
+      expect(await storage.getMessageCursorAtOffset(CHANNEL_CODE, 'other', 10)).toBeNull();
+    });
+
+    it('prunes by age, count and bytes and reports each', async () => {
+      await storage.recordTextMessage(text('old', now - 3 * DAY_MS));
+      for (let index = 0; index < 4; index += 1) {
+        await storage.recordAudioMessage(audio(`a${index}`, now + index * 1000, Buffer.alloc(100, index)));
+      }
+
+      const result = await storage.pruneChannelMessages(
+        CHANNEL_CODE,
+        { maxMessages: 3, maxAgeDays: 1, maxBytes: 150 },
+        new Date(now + 10_000),
+      );
+
+      expect(result).toEqual({ byAge: 1, byCount: 1, byBytes: 2 });
+      expect(await listIds('viewer')).toEqual(['a3']);
+    });
+
+    it('deletes only the audio no message references', async () => {
+      await storage.recordAudioMessage(audio('kept', now, Buffer.from([1])));
+      const orphan = await audioStore.put(Buffer.from([2]));
+      const old = new Date(now - DAY_MS);
+      (await audioStore.keys()).forEach((key) => {
+        fs.utimesSync(path.join(tempDir, 'audio', key.slice(0, 2), key.slice(2, 4), key), old, old);
+      });
+
+      expect(await storage.cleanupOrphanedAudio()).toBe(1);
+      expect(await audioStore.keys()).not.toContain(orphan.key);
+      expect(await listIds('viewer')).toEqual(['kept']);
+    });
+  });
+
+  describe('side channels', () => {
+    it('lists recent quick responses in order and removes old ones', async () => {
+      for (const [id, createdAt] of [
+        ['q0', now - 2 * DAY_MS],
+        ['q1', now - MINUTE_MS],
+        ['q2', now],
+      ] as const) {
+        await storage.recordQuickResponse({
+          id,
+          channelCode: CHANNEL_CODE,
+          fromUserId: 'sender',
+          fromNickname: 'sender',
+          createdAt: new Date(createdAt),
+          kind: 'ack',
+          message: 'Acknowledged',
+        });
+      }
+
+      const recent = await storage.listQuickResponses(CHANNEL_CODE, now - DAY_MS);
+      expect(recent.map((response) => response.id)).toEqual(['q1', 'q2']);
+      expect(await storage.cleanupOldQuickResponses(new Date(now - DAY_MS))).toBe(1);
+    });
+
+    it('keeps the first play time of a receipt and removes old receipts', async () => {
+      await storage.recordTextMessage(text('m', now));
+      const receipt = {
+        messageId: 'm',
+        channelCode: CHANNEL_CODE,
+        userId: 'listener',
+        nickname: 'listener',
+        deliveredAt: new Date(now - 2 * DAY_MS),
+        playedAt: null,
+      };
+      await storage.recordReceipt(receipt);
+      await storage.recordReceipt({ ...receipt, playedAt: new Date(now) });
+      await storage.recordReceipt({ ...receipt, playedAt: new Date(now + MINUTE_MS) });
+
+      expect(await storage.cleanupOldReceipts(new Date(now - DAY_MS))).toBe(1);
+      expect(await storage.cleanupOldReceipts(new Date(now - DAY_MS))).toBe(0);
+    });
+
+    it('records emergencies with their acks and status and removes old ones', async () => {
+      const broadcast = {
+        id: 'sos',
+        channelCode: CHANNEL_CODE,
+        fromUserId: 'sender',
+        fromNickname: 'sender',
+        createdAt: new Date(now - 2 * DAY_MS),
+        priority: 'urgent' as const,
+        message: 'Help',
+        scope: 'channel' as const,
+        targetChannelCodes: [CHANNEL_CODE],
+        status: 'open' as const,
+      };
+      await storage.recordEmergency(broadcast);
+      await storage.recordEmergencyAck('sos', 'helper', 'helper', new Date(now));
+      await storage.recordEmergencyAck('sos', 'helper', 'helper', new Date(now));
+      await storage.setEmergencyStatus('sos', 'resolved', { resolvedBy: 'sender', resolvedAt: new Date(now) });
+
+      expect(await storage.cleanupOldEmergencyLogs(new Date(now - DAY_MS))).toBe(1);
+    });
+
+    it('stores geofences per channel', async () => {
+      const fence: Geofence = {
+        id: 'fence',
+        channelCode: CHANNEL_CODE,
+        name: 'Base',
+        shape: { type: 'circle', center: { lat: 51.5, lng: -0.12 }, radiusMeters: 200 },
+        alertAfterMs: 60_000,
+        createdBy: 'owner',
+        createdAt: new Date(now),
+      };
+      await storage.recordGeofence(fence);
+
+      expect(await storage.listGeofences(CHANNEL_CODE)).toEqual([fence]);
+      expect(await storage.deleteGeofence('5678', 'fence')).toBe(false);
+      expect(await storage.deleteGeofence(CHANNEL_CODE, 'fence')).toBe(true);
+      expect(await storage.listGeofences(CHANNEL_CODE)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import path from 'path';
+import type {
+  AudioMessage,
+  Channel,
+  ChannelPolicy,
+  ChannelRetention,
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyStatus,
+  Geofence,
+  QuickResponse,
+  RetentionLimits,
+  TextMessage,
+} from '@walkie/shared/types';
+import { createFileAudioStore } from './audioStore';
+import { DEFAULT_RETENTION } from './cleanupService';
+import { PostgresStorage } from './postgresStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+const DATABASE_URL = process.env.DATABASE_URL;
+const DB_PATH =
+  process.env.DB_PATH ?? path.resolve(process.cwd(), 'data', 'walkie.sqlite');
+const AUDIO_DIR = process.env.AUDIO_DIR ?? path.resolve(process.cwd(), 'data', 'audio');
+const MAX_AUDIO_BYTES = Number(process.env.MAX_AUDIO_BYTES ?? 1_000_000);
+
+export type AudioMessageRecord = Omit<AudioMessage, 'payloadBase64'> & { payload: Buffer };
+
+export type ChannelMessageRecord = (AudioMessageRecord & { kind: 'audio' }) | TextMessage;
+
+export type ChannelRecord = {
+  channel: Channel;
+  lastActivityAt: Date;
+  passphraseHash: string | null;
+  policy: ChannelPolicy;
+  retention: ChannelRetention;
+};
+
+export type MessageCursor = {
+  id: string;
+  createdAt: number;
+};
+
+export type ChannelBanRecord = {
+  channelCode: string;
+  userId: string;
+  nickname: string;
+  ip: string | null;
+  bannedBy: string;
+  createdAt: Date;
+};
+
+export type MessageReceiptRecord = {
+  messageId: string;
+  channelCode: string;
+  userId: string;
+  nickname: string;
+  deliveredAt: Date;
+  playedAt: Date | null;
+};
+
+export type RetentionPruneResult = {
+  byCount: number;
+  byAge: number;
+  byBytes: number;
+};
+
+export type ChannelLinkRecord = {
+  linkedCode: string;
+  outgoing: boolean;
+  incoming: boolean;
+  createdAt: Date;
+};
+
+// Everything the server persists. Cleanup methods resolve to the number of rows or files removed.
+export type Storage = {
+  close(): Promise<void>;
+  upsertChannel(channel: Channel, lastActivityAt?: Date): Promise<void>;
+  // Moves last activity forward only; used to keep channels with connected members out of idle cleanup.
+  touchChannels(codes: string[], when: Date): Promise<void>;
+  getChannelByCode(code: string): Promise<ChannelRecord | null>;
+  setChannelPolicy(code: string, policy: ChannelPolicy): Promise<void>;
+  setChannelPassphraseHash(code: string, passphraseHash: string | null): Promise<void>;
+  setChannelRetention(code: string, retention: ChannelRetention): Promise<void>;
+  listChannelRetention(): Promise<{ channelCode: string; retention: ChannelRetention }[]>;
+  recordAudioMessage(message: AudioMessageRecord): Promise<void>;
+  recordTextMessage(message: TextMessage): Promise<void>;
+  recordQuickResponse(response: QuickResponse): Promise<void>;
+  recordReceipt(receipt: MessageReceiptRecord): Promise<void>;
+  listQuickResponses(channelCode: string, since: number, limit?: number): Promise<QuickResponse[]>;
+  recordEmergency(broadcast: EmergencyBroadcast): Promise<void>;
+  recordEmergencyAck(emergencyId: string, userId: string, nickname: string, when?: Date): Promise<void>;
+  // A resolved alert keeps its status, so an ack written later by another instance cannot reopen it.
+  setEmergencyStatus(
+    emergencyId: string,
+    status: EmergencyStatus,
+    resolution?: { resolvedBy: string; resolvedAt: Date } | null,
+  ): Promise<void>;
+  setChannelRole(channelCode: string, userId: string, role: ChannelRole, when?: Date): Promise<void>;
+  listChannelRoles(channelCode: string): Promise<Map<string, ChannelRole>>;
+  recordBan(ban: ChannelBanRecord): Promise<void>;
+  listChannelBans(channelCode: string): Promise<ChannelBanRecord[]>;
+  setChannelMute(channelCode: string, userId: string, mutedUntil: Date | null): Promise<void>;
+  listChannelMutes(channelCode: string, now?: Date): Promise<Map<string, Date>>;
+  setChannelLink(
+    channelCode: string,
+    linkedCode: string,
+    linked: boolean,
+    createdBy: string,
+    when?: Date,
+  ): Promise<void>;
+  listChannelLinks(channelCode: string): Promise<ChannelLinkRecord[]>;
+  recordGeofence(geofence: Geofence): Promise<void>;
+  deleteGeofence(channelCode: string, id: string): Promise<boolean>;
+  listGeofences(channelCode: string): Promise<Geofence[]>;
+  listMessagesAfter(
+    channelCode: string,
+    viewerId: string,
+    after: MessageCursor | null,
+    until: number,
+    limit: number,
+  ): Promise<ChannelMessageRecord[]>;
+  getMessageCursor(channelCode: string, id: string): Promise<MessageCursor | null>;
+  getMessageCursorAtOffset(channelCode: string, viewerId: string, offset: number): Promise<MessageCursor | null>;
+  pruneChannelMessages(channelCode: string, limits: RetentionLimits, now?: Date): Promise<RetentionPruneResult>;
+  cleanupOldQuickResponses(cutoff: Date): Promise<number>;
+  cleanupOldReceipts(cutoff: Date): Promise<number>;
+  cleanupOldEmergencyLogs(cutoff: Date): Promise<number>;
+  cleanupIdleChannels(cutoff: Date): Promise<number>;
+  cleanupOrphanedAudio(): Promise<number>;
+};
+
+// PostgreSQL when DATABASE_URL is set, otherwise the SQLite file at DB_PATH.
+export const createStorage = async (): Promise<Storage> => {
+  const options = {
+    audioStore: createFileAudioStore(AUDIO_DIR),
+    maxAudioBytes: MAX_AUDIO_BYTES,
+    maxMessagesPerChannel: DEFAULT_RETENTION.maxMessages,
+  };
+  if (DATABASE_URL) {
+    return PostgresStorage.connect({ ...options, connectionString: DATABASE_URL });
+  }
+  return SqliteStorage.open({ ...options, filename: DB_PATH });
+};
@@ -0,0 +1,366 @@
+import type {
+  AudioMessage,
+  ChannelRetention,
+  ChannelRole,
+  EmergencyBroadcast,
+  EmergencyScope,
+  EmergencyStatus,
+  Geofence,
+  GeofenceShape,
+  MessageKind,
+  MessagePriority,
+  QuickResponse,
+  TextMessage,
+} from '@walkie/shared/types';
+import type { AudioRef, AudioStore } from './audioStore';
+import type {
+  AudioMessageRecord,
+  ChannelBanRecord,
+  ChannelLinkRecord,
+  ChannelMessageRecord,
+  ChannelRecord,
+  MessageCursor,
+} from './storage';
+
+// Row shapes and mappers shared by the SQL backends. Timestamps are epoch milliseconds in both.
+
+type AudioMimeType = AudioMessage['mimeType'];
+
+export const TEXT_MIME_TYPE = 'text/plain';
+
+export type ChannelRow = {
+  code: string;
+  display_name: string;
+  created_at: number;
+  last_activity_at: number;
+};
+
+export type ChannelRetentionRow = {
+  code: string;
+  retention_max_messages: number | null;
+  retention_max_age_days: number | null;
+  retention_max_bytes: number | null;
+};
+
+export type ChannelRecordRow = ChannelRow &
+  ChannelRetentionRow & {
+    passphrase_hash: string | null;
+    urgent_min_role: ChannelRole;
+  };
+
+// `payload` only exists in SQLite, where rows written before the audio store still carry it inline.
+export type MessageRow = {
+  id: string;
+  channel_code: string;
+  from_user_id: string;
+  from_nickname: string;
+  created_at: number;
+  priority: MessagePriority;
+  mime_type: AudioMimeType | typeof TEXT_MIME_TYPE;
+  duration_ms: number;
+  size_bytes: number;
+  payload: Buffer | null;
+  audio_key: string | null;
+  audio_checksum: string | null;
+  kind: MessageKind;
+  body: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  location_accuracy: number | null;
+  visible_to: string | null;
+};
+
+export type EmergencyRow = {
+  id: string;
+  channel_code: string;
+  from_user_id: string;
+  from_nickname: string;
+  created_at: number;
+  priority: MessagePriority;
+  message: string;
+  scope: EmergencyScope;
+  target_channels: string;
+  status: EmergencyStatus;
+};
+
+export type QuickResponseRow = {
+  id: string;
+  channel_code: string;
+  from_user_id: string;
+  from_nickname: string;
+  created_at: number;
+  kind: QuickResponse['kind'];
+  message: string;
+};
+
+export type EmergencyAckRow = {
+  emergency_id: string;
+  user_id: string;
+  nickname: string;
+  acknowledged_at: number;
+};
+
+export type MessageReceiptRow = {
+  message_id: string;
+  channel_code: string;
+  user_id: string;
+  nickname: string;
+  delivered_at: number;
+  played_at: number | null;
+};
+
+export type MessageCursorRow = {
+  id: string;
+  created_at: number;
+};
+
+export type ChannelRoleRow = {
+  channel_code: string;
+  user_id: string;
+  role: Exclude<ChannelRole, 'member'>;
+  granted_at: number;
+};
+
+export type ChannelMuteRow = {
+  channel_code: string;
+  user_id: string;
+  muted_until: number;
+};
+
+export type ChannelLinkRow = {
+  channel_code: string;
+  linked_code: string;
+  created_by: string;
+  created_at: number;
+};
+
+export type ChannelLinkSummaryRow = {
+  linked_code: string;
+  outgoing: number;
+  incoming: number;
+  created_at: number;
+};
+
+export type GeofenceRow = {
+  id: string;
+  channel_code: string;
+  name: string;
+  shape: string;
+  alert_after_ms: number | null;
+  created_by: string;
+  created_at: number;
+};
+
+export type ChannelBanRow = {
+  channel_code: string;
+  user_id: string;
+  nickname: string;
+  ip: string | null;
+  banned_by: string;
+  created_at: number;
+};
+
+export const toChannelRetention = (row: ChannelRetentionRow): ChannelRetention => ({
+  maxMessages: row.retention_max_messages,
+  maxAgeDays: row.retention_max_age_days,
+  maxBytes: row.retention_max_bytes,
+});
+
+export const toChannelRecord = (row: ChannelRecordRow): ChannelRecord => ({
+  channel: {
+    code: row.code,
+    displayName: row.display_name,
+    createdAt: new Date(row.created_at),
+  },
+  lastActivityAt: new Date(row.last_activity_at),
+  passphraseHash: row.passphrase_hash,
+  policy: { urgentMinRole: row.urgent_min_role },
+  retention: toChannelRetention(row),
+});
+
+export const assertAudioPayload = (message: AudioMessageRecord, maxAudioBytes: number) => {
+  if (message.sizeBytes !== message.payload.length) {
+    throw new Error('Audio sizeBytes does not match payload length.');
+  }
+  if (message.payload.length > maxAudioBytes) {
+    throw new Error(`Audio payload exceeds ${maxAudioBytes} bytes.`);
+  }
+};
+
+export const toAudioMessageRow = (message: AudioMessageRecord, ref: AudioRef): MessageRow => ({
+  id: message.id,
+  channel_code: message.channelCode,
+  from_user_id: message.fromUserId,
+  from_nickname: message.fromNickname,
+  created_at: message.createdAt.getTime(),
+  priority: message.priority,
+  mime_type: message.mimeType,
+  duration_ms: message.durationMs,
+  size_bytes: message.sizeBytes,
+  payload: null,
+  audio_key: ref.key,
+  audio_checksum: ref.checksum,
+  kind: 'audio',
+  body: null,
+  location_lat: message.location?.lat ?? null,
+  location_lng: message.location?.lng ?? null,
+  location_accuracy: message.location?.accuracy ?? null,
+  // Private messages store their participants (sender included) as a JSON array.
+  visible_to: message.recipientUserIds ? JSON.stringify([message.fromUserId, ...message.recipientUserIds]) : null,
+});
+
+export const toTextMessageRow = (message: TextMessage): MessageRow => ({
+  id: message.id,
+  channel_code: message.channelCode,
+  from_user_id: message.fromUserId,
+  from_nickname: message.fromNickname,
+  created_at: message.createdAt.getTime(),
+  priority: message.priority,
+  mime_type: TEXT_MIME_TYPE,
+  duration_ms: 0,
+  size_bytes: Buffer.byteLength(message.body),
+  payload: null,
+  audio_key: null,
+  audio_checksum: null,
+  kind: 'text',
+  body: message.body,
+  location_lat: null,
+  location_lng: null,
+  location_accuracy: null,
+  visible_to: null,
+});
+
+// Rows written before the audio store keep their payload inline until it is moved.
+export const toAudioMessageRecord = async (
+  row: MessageRow,
+  audioStore: AudioStore,
+): Promise<AudioMessageRecord | null> => {
+  const payload =
+    row.audio_key && row.audio_checksum
+      ? await audioStore.get({ key: row.audio_key, checksum: row.audio_checksum })
+      : row.payload;
+  if (!payload) {
+    console.error('[db] audio payload missing', { id: row.id, key: row.audio_key });
+    return null;
+  }
+  return {
+    id: row.id,
+    channelCode: row.channel_code,
+    fromUserId: row.from_user_id,
+    fromNickname: row.from_nickname,
+    createdAt: new Date(row.created_at),
+    priority: row.priority,
+    mimeType: row.mime_type as AudioMimeType,
+    durationMs: row.duration_ms,
+    sizeBytes: row.size_bytes,
+    payload,
+    location:
+      row.location_lat !== null && row.location_lng !== null
+        ? { lat: row.location_lat, lng: row.location_lng, accuracy: row.location_accuracy ?? undefined }
+        : undefined,
+    recipientUserIds: row.visible_to
+      ? (JSON.parse(row.visible_to) as string[]).filter((userId) => userId !== row.from_user_id)
+      : undefined,
+  };
+};
+
+export const toChannelMessageRecord = async (
+  row: MessageRow,
+  audioStore: AudioStore,
+): Promise<ChannelMessageRecord | null> => {
+  if (row.kind === 'text') {
+    return {
+      id: row.id,
+      kind: 'text',
+      channelCode: row.channel_code,
+      fromUserId: row.from_user_id,
+      fromNickname: row.from_nickname,
+      createdAt: new Date(row.created_at),
+      priority: row.priority,
+      body: row.body ?? '',
+    };
+  }
+  const record = await toAudioMessageRecord(row, audioStore);
+  return record ? { ...record, kind: 'audio' } : null;
+};
+
+export const toMessageCursor = (row: MessageCursorRow | undefined): MessageCursor | null =>
+  row ? { id: row.id, createdAt: row.created_at } : null;
+
+export const toQuickResponseRow = (response: QuickResponse): QuickResponseRow => ({
+  id: response.id,
+  channel_code: response.channelCode,
+  from_user_id: response.fromUserId,
+  from_nickname: response.fromNickname,
+  created_at: response.createdAt.getTime(),
+  kind: response.kind,
+  message: response.message,
+});
+
+export const toQuickResponse = (row: QuickResponseRow): QuickResponse => ({
+  id: row.id,
+  channelCode: row.channel_code,
+  fromUserId: row.from_user_id,
+  fromNickname: row.from_nickname,
+  createdAt: new Date(row.created_at),
+  kind: row.kind,
+  message: row.message,
+});
+
+export const toEmergencyRow = (broadcast: EmergencyBroadcast): EmergencyRow => ({
+  id: broadcast.id,
+  channel_code: broadcast.channelCode,
+  from_user_id: broadcast.fromUserId,
+  from_nickname: broadcast.fromNickname,
+  created_at: broadcast.createdAt.getTime(),
+  priority: broadcast.priority,
+  message: broadcast.message,
+  scope: broadcast.scope,
+  target_channels: JSON.stringify(broadcast.targetChannelCodes),
+  status: broadcast.status,
+});
+
+export const toChannelBanRow = (ban: ChannelBanRecord): ChannelBanRow => ({
+  channel_code: ban.channelCode,
+  user_id: ban.userId,
+  nickname: ban.nickname,
+  ip: ban.ip,
+  banned_by: ban.bannedBy,
+  created_at: ban.createdAt.getTime(),
+});
+
+export const toChannelBan = (row: ChannelBanRow): ChannelBanRecord => ({
+  channelCode: row.channel_code,
+  userId: row.user_id,
+  nickname: row.nickname,
+  ip: row.ip,
+  bannedBy: row.banned_by,
+  createdAt: new Date(row.created_at),
+});
+
+export const toChannelLink = (row: ChannelLinkSummaryRow): ChannelLinkRecord => ({
+  linkedCode: row.linked_code,
+  outgoing: row.outgoing === 1,
+  incoming: row.incoming === 1,
+  createdAt: new Date(row.created_at),
+});
+
+export const toGeofenceRow = (geofence: Geofence): GeofenceRow => ({
+  id: geofence.id,
+  channel_code: geofence.channelCode,
+  name: geofence.name,
+  shape: JSON.stringify(geofence.shape),
+  alert_after_ms: geofence.alertAfterMs,
+  created_by: geofence.createdBy,
+  created_at: geofence.createdAt.getTime(),
+});
+
+export const toGeofence = (row: GeofenceRow): Geofence => ({
+  id: row.id,
+  channelCode: row.channel_code,
+  name: row.name,
+  shape: JSON.parse(row.shape) as GeofenceShape,
+  alertAfterMs: row.alert_after_ms,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+});
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import type { User } from '@walkie/shared/types';
+import { createFloorService } from './floorService';
+import { createMemorySharedState, type FloorHolder } from './sharedState';
+import { createStreamService } from './streamService';
+
+const CHANNEL_CODE = '1234';
+const MAX_DURATION_MS = 30_000;
+
+const createUser = (id: string): User => ({
+  id,
+  nickname: `nick-${id}`,
+  channelCode: CHANNEL_CODE,
+  joinedAt: new Date(),
+  connectionStatus: 'connected',
+  role: 'member',
+  mutedUntil: null,
+});
+
+const setup = (options: { muteDuringRateLimit?: string } = {}) => {
+  const muted = new Set<string>();
+  const emitter = { emit: vi.fn() };
+  const io = { to: () => emitter } as unknown as Server;
+  const channelState = { channel: { code: CHANNEL_CODE }, floor: null as FloorHolder | null };
+  const usersBySocket = new Map([
+    ['socket-a', createUser('a')],
+    ['socket-b', createUser('b')],
+  ]);
+  const getMemberContext = (socketId: string) => {
+    const user = usersBySocket.get(socketId);
+    return user ? { user, channelState } : null;
+  };
+  const sharedState = createMemorySharedState();
+  const floor = createFloorService(io, {
+    getMemberContext,
+    getChannelState: () => channelState,
+    isMuted: (_channelCode, userId) => muted.has(userId),
+    canUsePriority: () => true,
+    takeFloor: sharedState.takeFloor,
+    raiseFloorPriority: sharedState.raiseFloorPriority,
+    releaseFloor: sharedState.releaseFloor,
+    getFloor: sharedState.getFloor,
+    publish: () => {},
+  });
+  const persistMessage = vi.fn(async () => {});
+  const streams = createStreamService(io, {
+    maxBytes: 1_000,
+    maxDurationMs: MAX_DURATION_MS,
+    getMemberContext,
+    resolveMimeType: () => 'audio/webm',
+    normalizeLocation: () => undefined,
+    resolveRecipients: async () => undefined,
+    getUserRoom: (userId) => `user:${userId}`,
+    canTransmit: floor.canTransmit,
+    acquireFloor: floor.acquireFloor,
+    holdsFloor: floor.holdsFloor,
+    raiseFloorPriority: floor.raisePriority,
+    isMuted: (_channelCode, userId) => muted.has(userId),
+    canUsePriority: () => true,
+    consumeRateLimit: async () => {
+      if (options.muteDuringRateLimit) {
+        muted.add(options.muteDuringRateLimit);
+      }
+      return { allowed: true, retryAfterMs: 0 };
+    },
+    persistMessage,
+    onMessageStored: () => {},
+    onTransmissionComplete: (channelCode, userId) => {
+      floor.releaseFloor(channelCode, 'sent', userId);
+    },
+  });
+  const socket = (id: string) => ({ id, emit: vi.fn(), to: () => emitter }) as unknown as Socket;
+  const start = async (target: Socket, transmissionId = 'tx-1') => {
+    const ack = vi.fn();
+    await streams.handleStart(
+      target,
+      { channelCode: CHANNEL_CODE, transmissionId, mimeType: 'audio/webm', priority: 'routine' },
+      ack,
+    );
+    return ack;
+  };
+  return { streams, channelState, persistMessage, socket, start };
+};
+
+describe('streamService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('takes the floor when a stream starts', async () => {
+    const { channelState, socket, start } = setup();
+
+    const ack = await start(socket('socket-a'));
+
+    expect(ack).toHaveBeenCalledWith({ ok: true, data: { transmissionId: 'tx-1' } });
+    expect(channelState.floor?.userId).toBe('a');
+  });
+
+  it('refuses a start when the sender is muted during the rate limit check', async () => {
+    const { channelState, socket, start } = setup({ muteDuringRateLimit: 'a' });
+
+    const ack = await start(socket('socket-a'));
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'muted' }));
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('refuses a second member while a stream holds the floor', async () => {
+    const { channelState, socket, start } = setup();
+    await start(socket('socket-a'));
+
+    const ack = await start(socket('socket-b'), 'tx-2');
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'floor_busy' }));
+    expect(channelState.floor?.userId).toBe('a');
+  });
+
+  it('releases the floor when a stream is stored', async () => {
+    const { streams, channelState, persistMessage, socket, start } = setup();
+    const sender = socket('socket-a');
+    await start(sender);
+    streams.handleChunk(sender, { transmissionId: 'tx-1', seq: 0, chunk: Buffer.from([1, 2, 3]) });
+
+    const ack = vi.fn();
+    await streams.handleEnd(sender, { transmissionId: 'tx-1', durationMs: 100 }, ack);
+
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+    expect(persistMessage).toHaveBeenCalledTimes(1);
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('releases the floor when an invalid chunk aborts the stream', async () => {
+    const { streams, channelState, socket, start } = setup();
+    const sender = socket('socket-a');
+    await start(sender);
+
+    streams.handleChunk(sender, { transmissionId: 'tx-1', seq: 5, chunk: Buffer.from([1]) });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('releases the floor when the sender cancels or disconnects', async () => {
+    const { streams, channelState, socket, start } = setup();
+    const first = socket('socket-a');
+    await start(first);
+
+    streams.handleAbort(first, { transmissionId: 'tx-1' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(channelState.floor).toBeNull();
+
+    const second = socket('socket-b');
+    await start(second, 'tx-2');
+    streams.abortSocketStreams('socket-b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('releases the floor when the duration timer aborts the stream', async () => {
+    const { channelState, socket, start } = setup();
+    await start(socket('socket-a'));
+
+    await vi.advanceTimersByTimeAsync(MAX_DURATION_MS + 5_000);
+
+    expect(channelState.floor).toBeNull();
+  });
+
+  it('aborts a stream whose floor was preempted', async () => {
+    const { streams, channelState, socket, start } = setup();
+    const sender = socket('socket-a');
+    await start(sender);
+    channelState.floor = { ...channelState.floor!, userId: 'b' };
+
+    streams.handleChunk(sender, { transmissionId: 'tx-1', seq: 0, chunk: Buffer.from([1]) });
+
+    const ack = vi.fn();
+    await streams.handleEnd(sender, { transmissionId: 'tx-1', durationMs: 100 }, ack);
+    expect(ack).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'not_found' }));
+  });
+
+  it('raises the floor priority when a stream escalates', async () => {
+    const { streams, channelState, socket, start } = setup();
+    const sender = socket('socket-a');
+    await start(sender);
+
+    const ack = vi.fn();
+    await streams.handleEscalate(sender, { transmissionId: 'tx-1', priority: 'urgent' }, ack);
+
+    expect(ack).toHaveBeenCalledWith({ ok: true, data: { priority: 'urgent' } });
+    expect(channelState.floor).toMatchObject({ userId: 'a', priority: 'urgent' });
+  });
+
+  it('keeps a stream out of reach of other sockets using the same transmission id', async () => {
+    const { streams, channelState, socket, start } = setup();
+    const sender = socket('socket-a');
+    const other = socket('socket-b');
+    await start(sender);
+
+    streams.handleAbort(other, { transmissionId: 'tx-1' });
+    const otherEnd = vi.fn();
+    await streams.handleEnd(other, { transmissionId: 'tx-1', durationMs: 100 }, otherEnd);
+
+    expect(otherEnd).toHaveBeenCalledWith(expect.objectContaining({ ok: false, code: 'not_found' }));
+    expect(channelState.floor?.userId).toBe('a');
+    streams.handleChunk(sender, { transmissionId: 'tx-1', seq: 0, chunk: Buffer.from([1]) });
+    const ownerEnd = vi.fn();
+    await streams.handleEnd(sender, { transmissionId: 'tx-1', durationMs: 100 }, ownerEnd);
+    expect(ownerEnd).toHaveBeenCalledWith(expect.objectContaining({ ok: true }));
+  });
+});
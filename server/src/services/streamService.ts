@@ -0,0 +1,519 @@
+import { randomUUID } from 'crypto';
+import type { Server, Socket } from 'socket.io';
+import type { AudioMessage, GeoLocation, MessagePriority, User } from '@walkie/shared/types';
+import type { FloorHolder } from './sharedState';
+import type { AudioMessageRecord } from './storage';
+
+const STREAM_GRACE_MS = Number(process.env.STREAM_GRACE_MS ?? 2_000);
+const MAX_TRANSMISSION_ID_LENGTH = 64;
+const MAX_CHUNKS_PER_STREAM = 600;
+
+type AudioMimeType = AudioMessage['mimeType'];
+
+type StreamStartPayload = {
+  channelCode: string;
+  transmissionId: string;
+  mimeType: string;
+  priority: MessagePriority;
+  location?: GeoLocation;
+  recipientUserIds?: string[];
+};
+
+type StreamChunkPayload = {
+  transmissionId: string;
+  seq: number;
+  chunk: Buffer;
+};
+
+type StreamEndPayload = {
+  transmissionId: string;
+  durationMs: number;
+};
+
+type StreamEscalatePayload = {
+  transmissionId: string;
+  priority: MessagePriority;
+};
+
+type StreamAbortReason =
+  | 'cancelled'
+  | 'payload_too_large'
+  | 'duration_exceeded'
+  | 'out_of_order'
+  | 'disconnected'
+  | 'floor_lost'
+  | 'muted'
+  | 'internal';
+
+type StreamAck<T> =
+  | { ok: true; data: T }
+  | {
+      ok: false;
+      error: string;
+      code:
+        | 'invalid_payload'
+        | 'payload_too_large'
+        | 'duration_exceeded'
+        | 'rate_limited'
+        | 'not_found'
+        | 'unauthorized'
+        | 'floor_busy'
+        | 'muted'
+        | 'forbidden'
+        | 'internal';
+      retryAfterMs?: number;
+    };
+
+type ActiveStream = {
+  transmissionId: string;
+  socketId: string;
+  channelCode: string;
+  user: User;
+  mimeType: AudioMimeType;
+  priority: MessagePriority;
+  location?: GeoLocation;
+  recipientUserIds?: string[];
+  // The channel room, or for private transmissions the sender's and recipients' sockets.
+  audience: string | string[];
+  startedAt: Date;
+  chunks: Buffer[];
+  totalBytes: number;
+  nextSeq: number;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type StreamContext = {
+  user: User;
+  channelState: { channel: { code: string }; floor: FloorHolder | null };
+};
+
+type FloorResult = { allowed: true } | { allowed: false; holder: { nickname: string } };
+
+type StreamDeps = {
+  maxBytes: number;
+  maxDurationMs: number;
+  getMemberContext: (socketId: string) => StreamContext | null;
+  resolveMimeType: (value: string) => AudioMimeType | null;
+  normalizeLocation: (value: unknown) => GeoLocation | undefined;
+  resolveRecipients: (channelCode: string, senderId: string, value: unknown) => Promise<string[] | null | undefined>;
+  getUserRoom: (userId: string) => string;
+  canTransmit: (channelCode: string, userId: string) => FloorResult;
+  acquireFloor: (context: StreamContext, priority: MessagePriority) => Promise<FloorResult>;
+  holdsFloor: (channelCode: string, userId: string) => boolean;
+  raiseFloorPriority: (channelCode: string, userId: string, priority: MessagePriority) => Promise<boolean>;
+  isMuted: (channelCode: string, userId: string) => boolean;
+  canUsePriority: (channelCode: string, userId: string, priority: MessagePriority) => boolean;
+  consumeRateLimit: (
+    userId: string,
+    priority: MessagePriority,
+    countOverall?: boolean,
+  ) => Promise<{ allowed: boolean; retryAfterMs: number }>;
+  persistMessage: (record: AudioMessageRecord) => Promise<void>;
+  onMessageStored: (record: AudioMessageRecord, senderSocketId: string) => void;
+  onTransmissionComplete: (channelCode: string, userId: string) => void;
+};
+
+const isValidPriority = (value: unknown): value is MessagePriority =>
+  value === 'routine' || value === 'important' || value === 'urgent';
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  routine: 0,
+  important: 1,
+  urgent: 2,
+};
+
+// Transmission ids come from the client, so streams are keyed by socket as well.
+const streamKey = (socketId: string, transmissionId: string) => `${socketId}:${transmissionId}`;
+
+export const createStreamService = (io: Server, deps: StreamDeps) => {
+  const streams = new Map<string, ActiveStream>();
+
+  const logStreamViolation = (socket: Socket, reason: string, details?: Record<string, unknown>) => {
+    console.warn('[stream] violation', {
+      reason,
+      socketId: socket.id,
+      ...details,
+    });
+  };
+
+  // Every abort gives the floor back; the sender cannot keep talking on an aborted stream.
+  const abortStream = (stream: ActiveStream, reason: StreamAbortReason) => {
+    clearTimeout(stream.timer);
+    streams.delete(streamKey(stream.socketId, stream.transmissionId));
+    io.to(stream.audience).emit('audio:stream:abort', {
+      transmissionId: stream.transmissionId,
+      channelCode: stream.channelCode,
+      reason,
+    });
+    io.to(stream.socketId).emit('audio:stream:error', {
+      transmissionId: stream.transmissionId,
+      reason,
+    });
+    deps.onTransmissionComplete(stream.channelCode, stream.user.id);
+  };
+
+  const getOwnedStream = (socket: Socket, transmissionId: unknown) => {
+    if (typeof transmissionId !== 'string') {
+      return null;
+    }
+    return streams.get(streamKey(socket.id, transmissionId)) ?? null;
+  };
+
+  const handleStart = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: StreamAck<{ transmissionId: string }>) => void,
+  ) => {
+    const data = payload as StreamStartPayload;
+    if (
+      !data ||
+      typeof data.transmissionId !== 'string' ||
+      data.transmissionId.length === 0 ||
+      data.transmissionId.length > MAX_TRANSMISSION_ID_LENGTH ||
+      typeof data.mimeType !== 'string' ||
+      !isValidPriority(data.priority)
+    ) {
+      logStreamViolation(socket, 'invalid_payload', { stage: 'start_shape' });
+      ack?.({ ok: false, error: 'Invalid stream payload.', code: 'invalid_payload' });
+      return;
+    }
+
+    const mimeType = deps.resolveMimeType(data.mimeType);
+    if (!mimeType) {
+      logStreamViolation(socket, 'invalid_payload', { stage: 'mime', mimeType: data.mimeType });
+      ack?.({ ok: false, error: 'Unsupported mime type.', code: 'invalid_payload' });
+      return;
+    }
+    const location = deps.normalizeLocation(data.location);
+    if (data.location && !location) {
+      logStreamViolation(socket, 'invalid_payload', { stage: 'location' });
+      ack?.({ ok: false, error: 'Invalid location.', code: 'invalid_payload' });
+      return;
+    }
+
+    const context = deps.getMemberContext(socket.id);
+    const channelCode = context?.channelState.channel.code;
+    if (!context || !channelCode) {
+      ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
+    }
+    if (channelCode !== data.channelCode) {
+      logStreamViolation(socket, 'unauthorized', { stage: 'channel_mismatch' });
+      ack?.({ ok: false, error: 'Unauthorized channel.', code: 'unauthorized' });
+      return;
+    }
+    const key = streamKey(socket.id, data.transmissionId);
+    if (streams.has(key)) {
+      ack?.({ ok: false, error: 'Duplicate transmission id.', code: 'invalid_payload' });
+      return;
+    }
+
+    if (deps.isMuted(channelCode, context.user.id)) {
+      ack?.({ ok: false, error: 'You are muted by a moderator.', code: 'muted' });
+      return;
+    }
+
+    const recipientUserIds = await deps.resolveRecipients(channelCode, context.user.id, data.recipientUserIds);
+    if (recipientUserIds === null) {
+      logStreamViolation(socket, 'invalid_payload', { stage: 'recipients' });
+      ack?.({ ok: false, error: 'Recipients must be on this channel.', code: 'invalid_payload' });
+      return;
+    }
+
+    if (!deps.canUsePriority(channelCode, context.user.id, data.priority)) {
+      ack?.({ ok: false, error: 'Urgent messages are restricted on this channel.', code: 'forbidden' });
+      return;
+    }
+
+    const floor = deps.canTransmit(channelCode, context.user.id);
+    if (!floor.allowed) {
+      ack?.({
+        ok: false,
+        error: `Channel busy — ${floor.holder.nickname} is talking.`,
+        code: 'floor_busy',
+      });
+      return;
+    }
+
+    const rateLimit = await deps.consumeRateLimit(context.user.id, data.priority);
+    if (!rateLimit.allowed) {
+      logStreamViolation(socket, 'rate_limited', { userId: context.user.id });
+      ack?.({
+        ok: false,
+        error: 'Rate limited. Try again shortly.',
+        code: 'rate_limited',
+        retryAfterMs: rateLimit.retryAfterMs,
+      });
+      return;
+    }
+    // The sender may have left or been muted while the rate limit was checked.
+    const current = deps.getMemberContext(socket.id);
+    if (!current || current.channelState.channel.code !== channelCode) {
+      ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
+    }
+    if (deps.isMuted(channelCode, context.user.id)) {
+      ack?.({ ok: false, error: 'You are muted by a moderator.', code: 'muted' });
+      return;
+    }
+    const acquired = await deps.acquireFloor(current, data.priority);
+    if (!acquired.allowed) {
+      ack?.({
+        ok: false,
+        error: `Channel busy — ${acquired.holder.nickname} is talking.`,
+        code: 'floor_busy',
+      });
+      return;
+    }
+    // Taking the floor awaits the shared store. A repeated start finds the floor already held for the first one.
+    if (streams.has(key)) {
+      ack?.({ ok: false, error: 'Duplicate transmission id.', code: 'invalid_payload' });
+      return;
+    }
+    if (deps.getMemberContext(socket.id)?.channelState.channel.code !== channelCode) {
+      deps.onTransmissionComplete(channelCode, context.user.id);
+      ack?.({ ok: false, error: 'Not in a channel.', code: 'not_found' });
+      return;
+    }
+
+    const startedAt = new Date();
+    const stream: ActiveStream = {
+      transmissionId: data.transmissionId,
+      socketId: socket.id,
+      channelCode,
+      user: context.user,
+      mimeType,
+      priority: data.priority,
+      location,
+      recipientUserIds,
+      audience: recipientUserIds
+        ? [socket.id, ...recipientUserIds.map(deps.getUserRoom)]
+        : channelCode,
+      startedAt,
+      chunks: [],
+      totalBytes: 0,
+      nextSeq: 0,
+      timer: setTimeout(() => {
+        const active = streams.get(key);
+        if (active) {
+          abortStream(active, 'duration_exceeded');
+        }
+      }, deps.maxDurationMs + STREAM_GRACE_MS),
+    };
+    streams.set(key, stream);
+
+    socket.to(stream.audience).emit('audio:stream:start', {
+      transmissionId: stream.transmissionId,
+      channelCode,
+      senderNickname: context.user.nickname,
+      mimeType,
+      priority: stream.priority,
+      timestamp: startedAt.toISOString(),
+      location: stream.location,
+      recipientUserIds,
+    });
+    ack?.({ ok: true, data: { transmissionId: stream.transmissionId } });
+  };
+
+  const handleChunk = (socket: Socket, payload: unknown) => {
+    const data = payload as StreamChunkPayload;
+    const stream = getOwnedStream(socket, data?.transmissionId);
+    if (!stream) {
+      return;
+    }
+    if (!Buffer.isBuffer(data.chunk) || data.chunk.length === 0) {
+      logStreamViolation(socket, 'invalid_payload', { stage: 'chunk_shape' });
+      abortStream(stream, 'internal');
+      return;
+    }
+    if (data.seq !== stream.nextSeq || stream.chunks.length >= MAX_CHUNKS_PER_STREAM) {
+      logStreamViolation(socket, 'out_of_order', { expected: stream.nextSeq, received: data.seq });
+      abortStream(stream, 'out_of_order');
+      return;
+    }
+    if (stream.totalBytes + data.chunk.length > deps.maxBytes) {
+      logStreamViolation(socket, 'payload_too_large', { bytes: stream.totalBytes + data.chunk.length });
+      abortStream(stream, 'payload_too_large');
+      return;
+    }
+    if (Date.now() - stream.startedAt.getTime() > deps.maxDurationMs + STREAM_GRACE_MS) {
+      logStreamViolation(socket, 'duration_exceeded', { transmissionId: stream.transmissionId });
+      abortStream(stream, 'duration_exceeded');
+      return;
+    }
+    if (!deps.holdsFloor(stream.channelCode, stream.user.id)) {
+      abortStream(stream, 'floor_lost');
+      return;
+    }
+    if (deps.isMuted(stream.channelCode, stream.user.id)) {
+      abortStream(stream, 'muted');
+      return;
+    }
+
+    stream.chunks.push(data.chunk);
+    stream.totalBytes += data.chunk.length;
+    stream.nextSeq += 1;
+
+    socket.to(stream.audience).emit('audio:stream:chunk', {
+      transmissionId: stream.transmissionId,
+      seq: data.seq,
+      chunk: data.chunk,
+    });
+  };
+
+  // Raises the priority of an in-flight transmission; the overall budget was
+  // already charged at start, so only the higher priority's bucket is consumed.
+  const handleEscalate = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: StreamAck<{ priority: MessagePriority }>) => void,
+  ) => {
+    const data = payload as StreamEscalatePayload;
+    const stream = getOwnedStream(socket, data?.transmissionId);
+    if (!stream) {
+      ack?.({ ok: false, error: 'Stream not found.', code: 'not_found' });
+      return;
+    }
+    if (!isValidPriority(data.priority)) {
+      ack?.({ ok: false, error: 'Invalid priority.', code: 'invalid_payload' });
+      return;
+    }
+    if (PRIORITY_RANK[data.priority] <= PRIORITY_RANK[stream.priority]) {
+      ack?.({ ok: true, data: { priority: stream.priority } });
+      return;
+    }
+    if (!deps.canUsePriority(stream.channelCode, stream.user.id, data.priority)) {
+      ack?.({ ok: false, error: 'Urgent messages are restricted on this channel.', code: 'forbidden' });
+      return;
+    }
+    const rateLimit = await deps.consumeRateLimit(stream.user.id, data.priority, false);
+    if (!rateLimit.allowed) {
+      ack?.({
+        ok: false,
+        error: 'Rate limited. Try again shortly.',
+        code: 'rate_limited',
+        retryAfterMs: rateLimit.retryAfterMs,
+      });
+      return;
+    }
+    // The floor carries the stream's priority, so a lower-priority request cannot preempt an escalated stream.
+    if (
+      getOwnedStream(socket, data.transmissionId) !== stream ||
+      !(await deps.raiseFloorPriority(stream.channelCode, stream.user.id, data.priority))
+    ) {
+      ack?.({ ok: false, error: 'Stream not found.', code: 'not_found' });
+      return;
+    }
+
+    stream.priority = data.priority;
+    socket.to(stream.audience).emit('audio:stream:priority', {
+      transmissionId: stream.transmissionId,
+      channelCode: stream.channelCode,
+      priority: stream.priority,
+    });
+    ack?.({ ok: true, data: { priority: stream.priority } });
+  };
+
+  const handleEnd = async (
+    socket: Socket,
+    payload: unknown,
+    ack?: (response: StreamAck<{ id: string; timestamp: string }>) => void,
+  ) => {
+    const data = payload as StreamEndPayload;
+    const stream = getOwnedStream(socket, data?.transmissionId);
+    if (!stream) {
+      ack?.({ ok: false, error: 'Stream not found.', code: 'not_found' });
+      return;
+    }
+
+    const elapsedMs = Date.now() - stream.startedAt.getTime();
+    const durationMs =
+      typeof data.durationMs === 'number' && Number.isFinite(data.durationMs) && data.durationMs > 0
+        ? Math.min(data.durationMs, elapsedMs)
+        : elapsedMs;
+    if (durationMs > deps.maxDurationMs) {
+      logStreamViolation(socket, 'duration_exceeded', { durationMs });
+      abortStream(stream, 'duration_exceeded');
+      ack?.({ ok: false, error: 'Audio duration exceeds limit.', code: 'duration_exceeded' });
+      return;
+    }
+    if (stream.totalBytes === 0) {
+      abortStream(stream, 'cancelled');
+      ack?.({ ok: false, error: 'Empty transmission.', code: 'invalid_payload' });
+      return;
+    }
+
+    clearTimeout(stream.timer);
+    streams.delete(streamKey(stream.socketId, stream.transmissionId));
+
+    const payloadBuffer = Buffer.concat(stream.chunks, stream.totalBytes);
+    const record: AudioMessageRecord = {
+      id: randomUUID(),
+      channelCode: stream.channelCode,
+      fromUserId: stream.user.id,
+      fromNickname: stream.user.nickname,
+      createdAt: stream.startedAt,
+      priority: stream.priority,
+      mimeType: stream.mimeType,
+      durationMs: Math.round(durationMs),
+      sizeBytes: payloadBuffer.length,
+      payload: payloadBuffer,
+      location: stream.location,
+      recipientUserIds: stream.recipientUserIds,
+    };
+
+    try {
+      await deps.persistMessage(record);
+    } catch (error) {
+      logStreamViolation(socket, 'internal', {
+        stage: 'db_write',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      io.to(stream.audience).emit('audio:stream:abort', {
+        transmissionId: stream.transmissionId,
+        channelCode: stream.channelCode,
+        reason: 'internal',
+      });
+      ack?.({ ok: false, error: 'Unable to store audio.', code: 'internal' });
+      deps.onTransmissionComplete(stream.channelCode, stream.user.id);
+      return;
+    }
+
+    const timestamp = record.createdAt.toISOString();
+    socket.to(stream.audience).emit('audio:stream:end', {
+      transmissionId: stream.transmissionId,
+      channelCode: stream.channelCode,
+      messageId: record.id,
+      durationMs: record.durationMs,
+      timestamp,
+    });
+    deps.onMessageStored(record, stream.socketId);
+    deps.onTransmissionComplete(stream.channelCode, stream.user.id);
+    ack?.({ ok: true, data: { id: record.id, timestamp } });
+  };
+
+  const handleAbort = (socket: Socket, payload: unknown) => {
+    const stream = getOwnedStream(socket, (payload as { transmissionId?: unknown })?.transmissionId);
+    if (!stream) {
+      return;
+    }
+    abortStream(stream, 'cancelled');
+  };
+
+  const abortSocketStreams = (socketId: string) => {
+    streams.forEach((stream) => {
+      if (stream.socketId === socketId) {
+        abortStream(stream, 'disconnected');
+      }
+    });
+  };
+
+  return {
+    handleStart,
+    handleChunk,
+    handleEscalate,
+    handleEnd,
+    handleAbort,
+    abortSocketStreams,
+  };
+};
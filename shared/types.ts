@@ -2,14 +2,80 @@ export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
 
 export type MessagePriority = 'routine' | 'important' | 'urgent';
 
+export type ChannelRole = 'owner' | 'moderator' | 'member';
+
+export type ChannelPolicy = {
+  urgentMinRole: ChannelRole;
+};
+
+export type RetentionLimits = {
+  maxMessages: number;
+  maxAgeDays: number;
+  maxBytes: number;
+};
+
+// A null limit falls back to the server default.
+export type ChannelRetention = {
+  maxMessages: number | null;
+  maxAgeDays: number | null;
+  maxBytes: number | null;
+};
+
+export type PresenceStatus = 'active' | 'idle' | 'away';
+
+export type ConnectionQuality = 'good' | 'ok' | 'poor' | 'offline';
+
+export type UserPresence = {
+  status: PresenceStatus;
+  batteryLevel: number | null;
+  charging: boolean | null;
+  lowPowerMode: boolean;
+  connectionQuality: ConnectionQuality;
+  updatedAt: Date;
+};
+
+export type GeoLocation = {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+};
+
+export type UserLocation = {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  heading: number | null;
+  updatedAt: Date;
+};
+
+export type GeofenceShape =
+  | { type: 'circle'; center: { lat: number; lng: number }; radiusMeters: number }
+  | { type: 'polygon'; points: { lat: number; lng: number }[] };
+
+export type Geofence = {
+  id: string;
+  channelCode: string;
+  name: string;
+  shape: GeofenceShape;
+  alertAfterMs: number | null;
+  createdBy: string;
+  createdAt: Date;
+};
+
 export type User = {
   id: string;
   nickname: string;
   channelCode: string;
   joinedAt: Date;
   connectionStatus: ConnectionStatus;
+  role: ChannelRole;
+  mutedUntil: Date | null;
+  listenOnly?: boolean;
 };
 
+// Extra channels a socket monitors alongside its transmit channel.
+export type ScanMode = 'full' | 'listen';
+
 export type Channel = {
   code: string;
   displayName: string;
@@ -27,8 +93,27 @@ export type AudioMessage = {
   durationMs: number;
   sizeBytes: number;
   payloadBase64: string;
+  location?: GeoLocation;
+  recipientUserIds?: string[];
+};
+
+export type MessageKind = 'audio' | 'text';
+
+export type TextMessage = {
+  id: string;
+  kind: 'text';
+  channelCode: string;
+  fromUserId: string;
+  fromNickname: string;
+  createdAt: Date;
+  priority: MessagePriority;
+  body: string;
 };
 
+export type EmergencyScope = 'channel' | 'linked' | 'global';
+
+export type EmergencyStatus = 'open' | 'acknowledged' | 'resolved';
+
 export type EmergencyBroadcast = {
   id: string;
   channelCode: string;
@@ -37,6 +122,9 @@ export type EmergencyBroadcast = {
   createdAt: Date;
   priority: MessagePriority;
   message: string;
+  scope: EmergencyScope;
+  targetChannelCodes: string[];
+  status: EmergencyStatus;
 };
 
 export type QuickResponse = {